@@ -10,6 +10,7 @@ import { Loader2 } from "lucide-react";
 
 // Importar todas as páginas necessárias
 import AuthPage from "@/pages/auth-page";
+import AcceptInvitePage from "@/pages/accept-invite";
 import LandingPage from "@/pages/landing-page";
 import Dashboard from "@/pages/dashboard/Dashboard";
 import NotFound from "@/pages/not-found";
@@ -50,11 +51,25 @@ import VersionOptionalForm from "@/pages/optionals/VersionOptionalForm";
 import VehicleList from "@/pages/vehicles/VehicleList";
 import VehicleForm from "@/pages/vehicles/VehicleForm";
 import VehicleFormFixed from "@/pages/vehicles/VehicleFormFixed";
+import VehiclePriceImport from "@/pages/vehicles/VehiclePriceImport";
+import TaxRulesPage from "@/pages/tax-rules/TaxRules";
+import RegionalPricesPage from "@/pages/regional-prices/RegionalPrices";
 
 // Páginas de vendas diretas
 import DirectSaleList from "@/pages/direct-sales/DirectSaleList";
 import DirectSaleForm from "@/pages/direct-sales/DirectSaleForm";
 
+// Páginas de orçamentos
+import QuoteList from "@/pages/quotes/QuoteList";
+
+// Páginas de clientes
+import CustomerList from "@/pages/customers/CustomerList";
+import CustomerForm from "@/pages/customers/CustomerForm";
+import StockUnitList from "@/pages/stock/StockUnitList";
+import StockUnitForm from "@/pages/stock/StockUnitForm";
+import ReservationList from "@/pages/reservations/ReservationList";
+import AvailabilityPage from "@/pages/reservations/Availability";
+
 // Páginas de usuário
 import UserProfile from "@/pages/user/profile";
 import SessionsPage from "@/pages/user/sessions";
@@ -67,6 +82,8 @@ import CompanySettingsPage from "@/pages/settings/CompanySettingsPage";
 import UserManagement from "@/pages/admin/UserManagementWithTabs";
 import AccessPermissions from "@/pages/admin/AccessPermissions";
 import PermissionSettings from "@/pages/admin/PermissionSettings";
+import AuditLog from "@/pages/admin/AuditLog";
+import Trash from "@/pages/admin/Trash";
 
 // Layout componente
 import AdminLayout from "@/components/layout/AdminLayout";
@@ -91,6 +108,7 @@ function AppContent() {
       <Switch>
         <Route path="/landingpage" component={LandingPage} />
         <Route path="/auth" component={AuthPage} />
+        <Route path="/invite/:token" component={AcceptInvitePage} />
         <Route path="/" component={LandingPage} />
         <Route component={() => <LandingPage />} />
       </Switch>
@@ -149,6 +167,9 @@ function AppContent() {
         {/* Rotas de veículos */}
         <ProtectedRoute path="/vehicles" component={VehicleList} />
         <ProtectedRoute path="/vehicles/new" component={VehicleForm} />
+        <ProtectedRoute path="/vehicles/import" component={VehiclePriceImport} />
+        <ProtectedRoute path="/tax-rules" component={TaxRulesPage} />
+        <ProtectedRoute path="/regional-prices" component={RegionalPricesPage} />
         <ProtectedRoute path="/vehicles/:id/edit" component={VehicleFormFixed} />
         
         {/* Rotas de vendas diretas */}
@@ -156,6 +177,23 @@ function AppContent() {
         <ProtectedRoute path="/direct-sales/new" component={DirectSaleForm} />
         <ProtectedRoute path="/direct-sales/edit/:id" component={DirectSaleForm} />
         
+        {/* Rotas de orçamentos */}
+        <ProtectedRoute path="/quotes" component={QuoteList} />
+        
+        {/* Rotas de clientes */}
+        <ProtectedRoute path="/customers" component={CustomerList} />
+        <ProtectedRoute path="/customers/new" component={CustomerForm} />
+        <ProtectedRoute path="/customers/:id/edit" component={CustomerForm} />
+        
+        {/* Rotas de estoque */}
+        <ProtectedRoute path="/stock-units" component={StockUnitList} />
+        <ProtectedRoute path="/stock-units/new" component={StockUnitForm} />
+        <ProtectedRoute path="/stock-units/:id/edit" component={StockUnitForm} />
+        
+        {/* Rotas de reservas */}
+        <ProtectedRoute path="/reservations" component={ReservationList} />
+        <ProtectedRoute path="/availability" component={AvailabilityPage} />
+        
         {/* Rotas de usuário */}
         <ProtectedRoute path="/user/profile" component={UserProfile} />
         <ProtectedRoute path="/user/sessions" component={SessionsPage} />
@@ -168,6 +206,8 @@ function AppContent() {
         <ProtectedRoute path="/admin/users" component={UserManagement} />
         <ProtectedRoute path="/admin/permissions" component={AccessPermissions} />
         <ProtectedRoute path="/admin/permission-settings" component={PermissionSettings} />
+        <ProtectedRoute path="/admin/audit" component={AuditLog} />
+        <ProtectedRoute path="/admin/trash" component={Trash} />
         
         {/* Fallback para usuários logados - vai para dashboard */}
         <Route component={Dashboard} />
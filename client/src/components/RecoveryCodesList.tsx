@@ -0,0 +1,37 @@
+import { Button } from "@/components/ui/button";
+import { Copy } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+
+interface RecoveryCodesListProps {
+  codes: string[];
+}
+
+// Códigos de recuperação do 2FA: exibidos uma única vez, logo após serem gerados
+export default function RecoveryCodesList({ codes }: RecoveryCodesListProps) {
+  const copyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join("\n"));
+      toast({ title: "Códigos copiados", description: "Guarde-os em um local seguro." });
+    } catch {
+      toast({ title: "Não foi possível copiar", description: "Anote os códigos manualmente.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Cada código permite entrar uma vez sem o aplicativo autenticador. Guarde-os em um local seguro:
+        eles não serão exibidos novamente.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted p-4 font-mono text-sm">
+        {codes.map(code => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <Button type="button" variant="outline" size="sm" onClick={copyCodes}>
+        <Copy className="mr-2 h-4 w-4" />
+        Copiar códigos
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BRAZILIAN_STATES } from "@shared/customers";
+
+// O Select não aceita valor vazio; "national" representa a ausência de UF (preço nacional)
+const NATIONAL = "national";
+
+interface StateSelectProps {
+  value: string | null | undefined;
+  onChange: (state: string | null) => void;
+  id?: string;
+  className?: string;
+  disabled?: boolean;
+}
+
+// Seleção da UF de venda usada nos preços regionais
+export default function StateSelect({ value, onChange, id, className, disabled }: StateSelectProps) {
+  return (
+    <Select
+      value={value || NATIONAL}
+      onValueChange={(selected) => onChange(selected === NATIONAL ? null : selected)}
+      disabled={disabled}
+    >
+      <SelectTrigger id={id} className={className}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NATIONAL}>Nacional (sem UF)</SelectItem>
+        {BRAZILIAN_STATES.map(state => (
+          <SelectItem key={state} value={state}>{state}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,59 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import type { TwoFactorEnrollment } from "@shared/twoFactor";
+
+interface TwoFactorEnrollmentFormProps {
+  enrollment: TwoFactorEnrollment;
+  isPending: boolean;
+  onConfirm: (code: string) => void;
+}
+
+// QR code do aplicativo autenticador e confirmação com o primeiro código gerado
+export default function TwoFactorEnrollmentForm({ enrollment, isPending, onConfirm }: TwoFactorEnrollmentFormProps) {
+  const [code, setCode] = useState("");
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onConfirm(code);
+      }}
+    >
+      <p className="text-sm text-muted-foreground">
+        Escaneie o QR code com um aplicativo autenticador (Google Authenticator, Microsoft Authenticator, 1Password...).
+      </p>
+      <div className="flex justify-center">
+        <img src={enrollment.qrCodeDataUrl} alt="QR code do aplicativo autenticador" className="h-48 w-48" />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="two-factor-secret">Sem câmera? Digite esta chave no aplicativo</Label>
+        <Input
+          id="two-factor-secret"
+          readOnly
+          value={enrollment.secret}
+          className="font-mono"
+          onFocus={(e) => e.target.select()}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="two-factor-enroll-code">Código de 6 dígitos exibido no aplicativo</Label>
+        <Input
+          id="two-factor-enroll-code"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          placeholder="000000"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={code.trim().length < 6 || isPending}>
+        {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Ativar autenticação em dois fatores
+      </Button>
+    </form>
+  );
+}
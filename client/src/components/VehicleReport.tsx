@@ -1,8 +1,9 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { formatCurrency } from '@/lib/formatters';
 import { useQuery } from '@tanstack/react-query';
 import { useAuth } from '@/hooks/use-auth';
-import { getQueryFn } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, getQueryFn } from '@/lib/queryClient';
 
 interface VehicleReportProps {
   vehicleData: {
@@ -25,16 +26,32 @@ interface VehicleReportProps {
     discountPercent: number;
     discountAmount: number;
     markupAmount: number;
+    state?: string | null;
+    regionalAdjustmentAmount?: number;
+    freightAmount?: number;
     finalPrice: number;
     quantity: number;
     vehicleDescription?: string;
     vehicleImage?: string;
+    // Versão e cor do catálogo: o PDF gerado no servidor busca a imagem por elas
+    versionId?: number | null;
+    colorId?: number | null;
+    customer?: {
+      name: string;
+      document: string;
+      typeLabel: string;
+      email?: string | null;
+      phone?: string | null;
+      address?: string | null;
+    };
   };
   onClose: () => void;
 }
 
 export default function VehicleReport({ vehicleData, onClose }: VehicleReportProps) {
   const { user } = useAuth();
+  const { toast } = useToast();
+  const [isDownloadingPdf, setIsDownloadingPdf] = useState(false);
   
   // Buscar configurações da empresa (logo)
   const { data: settings = [] } = useQuery({
@@ -71,6 +88,39 @@ export default function VehicleReport({ vehicleData, onClose }: VehicleReportPro
   const leftColumn = seriesItems.slice(0, midPoint);
   const rightColumn = seriesItems.slice(midPoint);
 
+  // Baixar o PDF gerado no servidor (mesmo layout, independente do navegador)
+  const handleDownloadPdf = async () => {
+    setIsDownloadingPdf(true);
+    try {
+      const response = await apiRequest('POST', '/api/reports/vehicle-pdf', vehicleData);
+      if (!response.ok) {
+        throw new Error(`Erro ao gerar PDF: ${response.statusText}`);
+      }
+      
+      const blob = await response.blob();
+      const disposition = response.headers.get('Content-Disposition');
+      const fileName = disposition?.match(/filename="(.+)"/)?.[1] || 'relatorio-veiculo.pdf';
+      
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Erro ao baixar PDF do relatório:', error);
+      toast({
+        title: 'Erro ao gerar PDF',
+        description: 'Não foi possível gerar o PDF do relatório. Tente novamente.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsDownloadingPdf(false);
+    }
+  };
+
   const handlePrint = () => {
     // Criar uma nova janela para impressão apenas do conteúdo
     const printWindow = window.open('', '_blank', 'width=800,height=600');
@@ -281,6 +331,13 @@ export default function VehicleReport({ vehicleData, onClose }: VehicleReportPro
           <div className="flex justify-between items-center p-4 border-b print:hidden">
             <h2 className="text-xl font-bold">Relatório do Veículo</h2>
             <div className="flex gap-2">
+              <button 
+                onClick={handleDownloadPdf}
+                disabled={isDownloadingPdf}
+                className="bg-green-600 text-white px-4 py-2 rounded hover:bg-green-700 disabled:opacity-50"
+              >
+                {isDownloadingPdf ? 'Gerando PDF...' : 'Baixar PDF'}
+              </button>
               <button 
                 onClick={handlePrint}
                 className="bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600"
@@ -393,6 +450,13 @@ export default function VehicleReport({ vehicleData, onClose }: VehicleReportPro
                     <span className="font-medium">{formatCurrency(vehicleData.basePrice)}</span>
                   </div>
                   
+                  {!!vehicleData.regionalAdjustmentAmount && (
+                    <div className="flex justify-between">
+                      <span>Ajuste regional ({vehicleData.state}):</span>
+                      <span className="font-medium">{formatCurrency(vehicleData.regionalAdjustmentAmount)}</span>
+                    </div>
+                  )}
+                  
                   {vehicleData.selectedColor && vehicleData.selectedColor.price > 0 && (
                     <div className="flex justify-between">
                       <span>Cor ({vehicleData.selectedColor.name}):</span>
@@ -416,6 +480,13 @@ export default function VehicleReport({ vehicleData, onClose }: VehicleReportPro
                     </div>
                   )}
                   
+                  {!!vehicleData.freightAmount && (
+                    <div className="flex justify-between">
+                      <span>Frete ({vehicleData.state}):</span>
+                      <span className="font-medium">+{formatCurrency(vehicleData.freightAmount)}</span>
+                    </div>
+                  )}
+                  
                   {vehicleData.markupAmount > 0 && (
                     <div className="flex justify-between text-green-600">
                       <span>Acréscimo:</span>
@@ -457,6 +528,25 @@ export default function VehicleReport({ vehicleData, onClose }: VehicleReportPro
             </div>
           )}
 
+          {/* Dados do cliente */}
+          {vehicleData.customer && (
+            <div className="border-t pt-4 mb-4">
+              <h3 className="text-lg font-semibold mb-3">Dados do Cliente</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <p><strong>Nome:</strong> {vehicleData.customer.name}</p>
+                  <p><strong>{vehicleData.customer.document.length > 14 ? 'CNPJ' : 'CPF'}:</strong> {vehicleData.customer.document}</p>
+                  <p><strong>Tipo:</strong> {vehicleData.customer.typeLabel}</p>
+                </div>
+                <div>
+                  {vehicleData.customer.email && <p><strong>Email:</strong> {vehicleData.customer.email}</p>}
+                  {vehicleData.customer.phone && <p><strong>Telefone:</strong> {vehicleData.customer.phone}</p>}
+                  {vehicleData.customer.address && <p><strong>Endereço:</strong> {vehicleData.customer.address}</p>}
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Dados do usuário */}
           <div className="border-t pt-4">
             <h3 className="text-lg font-semibold mb-3">Dados do Consultor</h3>
@@ -1,5 +1,5 @@
 import { Link, useLocation } from "wouter";
-import { Home, Car, Building, FileText, Palette, Settings, ListPlus, Menu, X, LogOut, User, Users, Shield, ShieldCheck, Loader2, Activity } from "lucide-react";
+import { Home, Car, Building, FileText, Palette, Settings, ListPlus, Menu, X, LogOut, User, Users, Shield, ShieldCheck, Loader2, Activity, History, Trash2, Contact, Percent, MapPin, Warehouse, CalendarClock } from "lucide-react";
 import { useState, useEffect } from "react";
 import { useMobile } from "@/hooks/use-mobile";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
@@ -122,12 +122,20 @@ const menuStructure = [
   { path: "/colors", label: "Cores/Pinturas", icon: <Palette className="h-5 w-5 mr-2" /> },
   { path: "/paint-types", label: "Tipos de Pintura", icon: <Palette className="h-5 w-5 mr-2" /> },
   { path: "/optionals", label: "Opcionais", icon: <ListPlus className="h-5 w-5 mr-2" /> },
+  { path: "/tax-rules", label: "Regras de Impostos", icon: <Percent className="h-5 w-5 mr-2" /> },
+  { path: "/regional-prices", label: "Preços Regionais", icon: <MapPin className="h-5 w-5 mr-2" /> },
   { path: "/configurator", label: "Configurador", icon: <Car className="h-5 w-5 mr-2" /> },
   { path: "/configurator2", label: "Monte seu Veículo", icon: <Car className="h-5 w-5 mr-2" /> },
+  { path: "/quotes", label: "Orçamentos", icon: <FileText className="h-5 w-5 mr-2" /> },
+  { path: "/customers", label: "Clientes", icon: <Contact className="h-5 w-5 mr-2" /> },
+  { path: "/stock-units", label: "Estoque", icon: <Warehouse className="h-5 w-5 mr-2" /> },
+  { path: "/reservations", label: "Reservas", icon: <CalendarClock className="h-5 w-5 mr-2" /> },
   { path: "/settings", label: "Configurações", icon: <Settings className="h-5 w-5 mr-2" /> },
   { path: "/admin/users", label: "Usuários", icon: <Users className="h-5 w-5 mr-2" /> },
   { path: "/admin/permissions", label: "Visualizar Permissões", icon: <Shield className="h-5 w-5 mr-2" /> },
   { path: "/admin/permission-settings", label: "Configurar Permissões", icon: <ShieldCheck className="h-5 w-5 mr-2" /> },
+  { path: "/admin/audit", label: "Auditoria", icon: <History className="h-5 w-5 mr-2" /> },
+  { path: "/admin/trash", label: "Lixeira", icon: <Trash2 className="h-5 w-5 mr-2" /> },
 ];
 
 export default function Sidebar() {
@@ -146,10 +154,11 @@ export default function Sidebar() {
           // Garantir que as permissões foram carregadas
           await getPermissions();
           
-          // Para usuários regulares (papel "Usuário"), mostrar apenas o configurator
+          // Para usuários regulares (papel "Usuário"), mostrar apenas o configurator, seus orçamentos, os clientes, o estoque e as reservas
           if (user?.role?.name === "Usuário") {
             const userOnlyMenus = menuStructure.filter(item => 
-              item.path === "/configurator2"
+              item.path === "/configurator2" || item.path === "/quotes" || item.path === "/customers" ||
+              item.path === "/stock-units" || item.path === "/reservations"
             );
             setFilteredMenuItems(userOnlyMenus);
           } else {
@@ -6,15 +6,18 @@ import {
 } from "@tanstack/react-query";
 import { apiRequest, queryClient, getQueryFn } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import type { TwoFactorChallenge } from "@shared/twoFactor";
 
 // Tipo para o usuário com papel/função
-type UserWithRole = {
+export type UserWithRole = {
   id: number;
   name: string;
   email: string;
   roleId: number;
   isActive: boolean;
   lastLogin?: string | Date | null;
+  // UF de venda (preços regionais)
+  state?: string | null;
   role?: {
     id: number;
     name: string;
@@ -27,7 +30,9 @@ type AuthContextType = {
   user: UserWithRole | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<UserWithRole, Error, LoginData>;
+  loginMutation: UseMutationResult<LoginResult, Error, LoginData>;
+  twoFactorMutation: UseMutationResult<TwoFactorLoginResult, Error, { code: string }>;
+  finishLogin: (userData: UserWithRole) => void;
   logoutMutation: UseMutationResult<void, Error, void>;
   registerMutation: UseMutationResult<UserWithRole, Error, RegisterData>;
 };
@@ -38,12 +43,20 @@ type LoginData = {
   password: string;
 };
 
-// Dados para registro
+// Com 2FA o login responde primeiro com o desafio; o usuário só vem depois do código
+type LoginResult = UserWithRole | TwoFactorChallenge;
+
+type TwoFactorLoginResult = UserWithRole & { usedRecoveryCode?: boolean };
+
+export function isTwoFactorChallenge(result: LoginResult): result is TwoFactorChallenge {
+  return (result as TwoFactorChallenge).twoFactorRequired === true;
+}
+
+// Dados para registro (o papel é definido pelo servidor)
 type RegisterData = {
   name: string;
   email: string;
   password: string;
-  roleId: number;
 };
 
 // Criando o contexto
@@ -124,34 +137,41 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     retry: false,
   });
 
+  // Conclusão do login (senha e, quando exigido, segundo fator já conferidos)
+  const finishLogin = (userData: UserWithRole) => {
+    queryClient.setQueryData(["/api/user"], userData);
+    toast({
+      title: "Login realizado com sucesso",
+      description: `Bem-vindo, ${userData.name}!`,
+    });
+    
+    // Redirecionamento inteligente baseado na página atual e tipo de usuário
+    const currentPath = window.location.pathname;
+    
+    if (userData.role?.name === "Usuário") {
+      // Se já está no configurator, não redireciona
+      if (currentPath !== "/configurator2") {
+        window.location.href = "/configurator2";
+      }
+    } else {
+      // Para outros usuários, só redireciona se não estiver numa página válida
+      if (currentPath === "/auth" || currentPath === "/landingpage" || currentPath === "/") {
+        window.location.href = "/";
+      }
+      // Se estiver em uma página específica (como configurator), mantém onde está
+    }
+  };
+
   // Mutação para login
-  const loginMutation = useMutation<UserWithRole, Error, LoginData>({
+  const loginMutation = useMutation<LoginResult, Error, LoginData>({
     mutationFn: async (credentials) => {
       const response = await apiRequest("POST", "/api/login", credentials);
-      return processApiResponse<UserWithRole>(response);
+      return processApiResponse<LoginResult>(response);
     },
-    onSuccess: (userData) => {
-      queryClient.setQueryData(["/api/user"], userData);
-      toast({
-        title: "Login realizado com sucesso",
-        description: `Bem-vindo, ${userData.name}!`,
-      });
-      
-      // Redirecionamento inteligente baseado na página atual e tipo de usuário
-      const currentPath = window.location.pathname;
-      
-      if (userData.role?.name === "Usuário") {
-        // Se já está no configurator, não redireciona
-        if (currentPath !== "/configurator2") {
-          window.location.href = "/configurator2";
-        }
-      } else {
-        // Para outros usuários, só redireciona se não estiver numa página válida
-        if (currentPath === "/auth" || currentPath === "/landingpage" || currentPath === "/") {
-          window.location.href = "/";
-        }
-        // Se estiver em uma página específica (como configurator), mantém onde está
-      }
+    onSuccess: (result) => {
+      // O segundo passo (código do autenticador) é conduzido pela tela de login
+      if (isTwoFactorChallenge(result)) return;
+      finishLogin(result);
     },
     onError: (error: any) => {
       // Verificar se é o caso específico de usuário já autenticado
@@ -171,17 +191,41 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
   });
 
+  // Mutação para o segundo passo do login: código do aplicativo ou de recuperação
+  const twoFactorMutation = useMutation<TwoFactorLoginResult, Error, { code: string }>({
+    mutationFn: async (data) => {
+      const response = await apiRequest("POST", "/api/login/2fa", data);
+      return processApiResponse<TwoFactorLoginResult>(response);
+    },
+    onSuccess: (userData) => {
+      if (userData.usedRecoveryCode) {
+        toast({
+          title: "Código de recuperação usado",
+          description: "Esse código não vale mais. Gere novos códigos no seu perfil se estiverem acabando.",
+        });
+      }
+      finishLogin(userData);
+    },
+    onError: (error) => {
+      toast({
+        title: "Código não aceito",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Mutação para registro
   const registerMutation = useMutation<UserWithRole, Error, RegisterData>({
     mutationFn: async (data) => {
       const response = await apiRequest("POST", "/api/register", data);
       return processApiResponse<UserWithRole>(response);
     },
-    onSuccess: (userData) => {
-      queryClient.setQueryData(["/api/user"], userData);
+    // A conta é criada sem sessão: o login (com 2FA, quando exigido) é feito em seguida
+    onSuccess: () => {
       toast({
         title: "Registro realizado com sucesso",
-        description: `Bem-vindo, ${userData.name}!`,
+        description: "Entre com seu email e senha para acessar o sistema.",
       });
     },
     onError: (error) => {
@@ -242,6 +286,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        twoFactorMutation,
+        finishLogin,
         logoutMutation,
         registerMutation,
       }}
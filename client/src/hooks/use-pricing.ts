@@ -0,0 +1,22 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { PricingRequest, PricingResult } from "@shared/pricing";
+
+// Calcula o preço da configuração no servidor (POST /api/pricing/calculate).
+// Enquanto um novo cálculo está em andamento, mantém o resultado anterior para evitar piscar os valores.
+export function usePricing(request: PricingRequest | null) {
+  return useQuery<PricingResult>({
+    queryKey: ["/api/pricing/calculate", request],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/pricing/calculate", request);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || `Erro ao calcular preço: ${response.statusText}`);
+      }
+      return response.json();
+    },
+    enabled: !!request,
+    placeholderData: keepPreviousData,
+    retry: false,
+  });
+}
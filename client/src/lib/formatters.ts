@@ -110,3 +110,10 @@ export function parseBRCurrency(value: string): string {
     return "0";
   }
 }
+
+// Formata uma data AAAA-MM-DD (coluna date do banco) como DD/MM/AAAA, sem conversão de fuso
+export function formatDate(value: string): string {
+  const [year, month, day] = value.split('T')[0].split('-');
+  if (!year || !month || !day) return value;
+  return `${day}/${month}/${year}`;
+}
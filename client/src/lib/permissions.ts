@@ -1,58 +1,18 @@
-// Tipos de papéis de usuário disponíveis no sistema
-export type UserRole = "Administrador" | "Cadastrador" | "Usuário";
+import {
+  CustomPermissionMap,
+  ROUTE_PERMISSIONS,
+  RoutePermission,
+  UserRole,
+  findRoutePermission,
+  isPermissionGranted
+} from "@shared/permissions";
 
-// Interface para mapear as permissões de cada rota
-export interface RoutePermission {
-  path: string;
-  allowedRoles: UserRole[];
-  description: string; // Descrição do que a rota permite fazer
-}
-
-// Matriz de permissões para todas as rotas do sistema
-export const ROUTE_PERMISSIONS: RoutePermission[] = [
-  // Rotas acessíveis a todos os usuários autenticados
-  { path: "/", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Dashboard" },
-  { path: "/configurator", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Configurador de veículos" },
-  { path: "/configurator2", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Configurador Novo" },
-  { path: "/user/profile", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Perfil de usuário" },
-  
-  // Rotas de visualização (somente leitura) - acessíveis a todos os usuários autenticados
-  { path: "/brands", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Visualizar marcas" },
-  { path: "/models", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Visualizar modelos" },
-  { path: "/versions", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Visualizar versões" },
-  { path: "/colors", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Visualizar cores/pinturas" },
-  { path: "/paint-types", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Visualizar tipos de pintura" },
-  { path: "/optionals", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Visualizar opcionais" },
-  { path: "/vehicles", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Visualizar veículos" },
-  { path: "/direct-sales", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Visualizar vendas diretas" },
-  
-  // Rotas de cadastro - acessíveis a Cadastradores e Administradores
-  { path: "/brands/new", allowedRoles: ["Administrador", "Cadastrador"], description: "Cadastrar novas marcas" },
-  { path: "/brands/:id/edit", allowedRoles: ["Administrador", "Cadastrador"], description: "Editar marcas existentes" },
-  { path: "/models/new", allowedRoles: ["Administrador", "Cadastrador"], description: "Cadastrar novos modelos" },
-  { path: "/models/:id/edit", allowedRoles: ["Administrador", "Cadastrador"], description: "Editar modelos existentes" },
-  { path: "/versions/new", allowedRoles: ["Administrador", "Cadastrador"], description: "Cadastrar novas versões" },
-  { path: "/versions/:id/edit", allowedRoles: ["Administrador", "Cadastrador"], description: "Editar versões existentes" },
-  { path: "/paint-types/new", allowedRoles: ["Administrador", "Cadastrador"], description: "Cadastrar novos tipos de pintura" },
-  { path: "/paint-types/:id/edit", allowedRoles: ["Administrador", "Cadastrador"], description: "Editar tipos de pintura existentes" },
-  { path: "/optionals/new", allowedRoles: ["Administrador", "Cadastrador"], description: "Cadastrar novos opcionais" },
-  { path: "/optionals/:id/edit", allowedRoles: ["Administrador", "Cadastrador"], description: "Editar opcionais existentes" },
-  { path: "/vehicles/new", allowedRoles: ["Administrador", "Cadastrador"], description: "Cadastrar novos veículos" },
-  { path: "/vehicles/:id/edit", allowedRoles: ["Administrador", "Cadastrador"], description: "Editar veículos existentes" },
-  { path: "/direct-sales/new", allowedRoles: ["Administrador", "Cadastrador"], description: "Cadastrar novas vendas diretas" },
-  { path: "/direct-sales/edit/:id", allowedRoles: ["Administrador", "Cadastrador"], description: "Editar vendas diretas existentes" },
-  
-  // Rotas exclusivas para Administradores
-  { path: "/settings", allowedRoles: ["Administrador"], description: "Configurações do sistema" },
-  { path: "/admin/users", allowedRoles: ["Administrador"], description: "Gerenciamento de usuários" },
-  // Página de permissões - visível a todos os usuários para consulta
-  { path: "/admin/permissions", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Visualizar permissões do sistema" },
-  // Página para configuração de permissões - acesso apenas para administradores
-  { path: "/admin/permission-settings", allowedRoles: ["Administrador"], description: "Configurar permissões do sistema" }
-];
+// A matriz é compartilhada com o servidor, que aplica as mesmas regras na API
+export { ROUTE_PERMISSIONS };
+export type { RoutePermission, UserRole };
 
 // Armazenar permissões personalizadas em cache
-let customPermissionsCache: Record<string, Record<string, boolean>> = {};
+let customPermissionsCache: CustomPermissionMap = {};
 let permissionsLoaded = false;
 
 /**
@@ -109,123 +69,22 @@ export function hasPermission(path: string, userRole?: string): boolean {
   // ACESSO DIRETO PARA ROTA PRINCIPAL - SEM COMPLICAÇÕES
   if (path === "/") return true;
   
-  // Converter para o tipo UserRole (com verificação de tipo)
-  const role = userRole as UserRole;
-  
-  // Se as permissões personalizadas ainda não foram carregadas, usar permissões padrão
-  if (!permissionsLoaded) {
-    // Encontrar a definição de permissão para o caminho
-    const matchingPermission = ROUTE_PERMISSIONS.find(p => {
-      if (p.path === path) return true;
-      if (p.path.includes(':')) {
-        const regex = new RegExp('^' + p.path.replace(/:[^\/]+/g, '[^/]+') + '$');
-        return regex.test(path);
-      }
-      return false;
-    });
-    
-    if (matchingPermission) {
-      return matchingPermission.allowedRoles.includes(role);
-    }
-    
-    // Se não encontrou regra específica, permitir acesso para rotas básicas
-    const basicRoutes = ["/", "/configurator", "/configurator2", "/user/profile"];
-    if (basicRoutes.includes(path)) {
-      return true;
-    }
-    
-    return false;
-  }
-  
   // Caso especial para o configurador - garantir acesso irrestrito para todos os usuários
   // Isto inclui acesso a cores, opcionais e outras funcionalidades do configurador
-  if (path === "/configurator" || path === "/configurator2" || path.startsWith("/api/version-colors") || path.startsWith("/api/version-optionals")) {
+  if (path.startsWith("/api/version-colors") || path.startsWith("/api/version-optionals")) {
     return true;
   }
   
-  // Caso especial para a página de configuração de permissões
-  // Esta página deve ser estritamente controlada
-  if (path === "/admin/permission-settings") {
-    // Verificar por papel específico
-    if (role === "Administrador") {
-      // Administradores sempre têm acesso
-      return true;
-    } else if (role === "Cadastrador" || role === "Usuário") {
-      // Para demais papéis, verificar permissões personalizadas explicitamente
-      const rolePermissions = customPermissionsCache[role];
-      if (rolePermissions) {
-        // A chave de permissão específica para esta funcionalidade
-        const permissionKey = "Configurar permissões do sistema";
-        if (permissionKey in rolePermissions) {
-          // Só retorna true se a permissão estiver explicitamente ativada (true)
-          return rolePermissions[permissionKey] === true;
-        }
-      }
-      // Por padrão, esconder o menu
-      return false;
-    }
-    // Para qualquer outro papel não reconhecido, negar acesso
-    return false;
-  }
-  
-  // Tentar encontrar a definição de permissão para o caminho exato
-  let matchingPermission: RoutePermission | undefined;
-  let permissionKey: string = "";
-  
-  // Encontrar a definição de permissão para o caminho exato
-  const exactPathPermission = ROUTE_PERMISSIONS.find(p => p.path === path);
-  if (exactPathPermission) {
-    matchingPermission = exactPathPermission;
-    permissionKey = exactPathPermission.description;
-  }
-  
-  // Se não achou um caminho exato, verificar caminhos com parâmetros (ex: /brands/:id/edit)
-  if (!matchingPermission) {
-    for (const permission of ROUTE_PERMISSIONS) {
-      if (permission.path.includes(':')) {
-        const regex = new RegExp(
-          '^' + permission.path.replace(/:[^\/]+/g, '[^/]+') + '$'
-        );
-        if (regex.test(path)) {
-          matchingPermission = permission;
-          permissionKey = permission.description;
-          break;
-        }
-      }
-    }
-  }
-  
-  // Se ainda não achou, verificar o prefixo mais próximo
-  if (!matchingPermission) {
-    const basePathPermission = ROUTE_PERMISSIONS
-      .filter(p => !p.path.includes(':') && path.startsWith(p.path))
-      .sort((a, b) => b.path.length - a.path.length)[0]; // Pegar o prefixo mais longo
-    
-    if (basePathPermission) {
-      matchingPermission = basePathPermission;
-      permissionKey = basePathPermission.description;
-    }
-  }
+  // Caminho exato, caminho com parâmetros (ex: /brands/:id/edit) ou prefixo mais próximo
+  const matchingPermission = findRoutePermission(path);
   
-  // Se não encontrou nenhuma regra, negar o acesso
+  // Se não encontrou nenhuma regra, apenas o Administrador tem acesso
   if (!matchingPermission) {
-    // Administrador sempre tem acesso total mesmo se não há regra específica
-    return role === "Administrador";
+    return userRole === "Administrador";
   }
   
-  // Administrador sempre tem permissão total
-  if (role === "Administrador") return true;
-  
-  // Se encontrou a regra, verificar se existem permissões personalizadas
-  const rolePermissions = customPermissionsCache[role];
-  
-  // Se temos permissões personalizadas para este papel, usar estas
-  if (rolePermissions && permissionKey in rolePermissions) {
-    return rolePermissions[permissionKey];
-  }
-  
-  // Caso contrário, usar as permissões padrão
-  return matchingPermission.allowedRoles.includes(role);
+  // Se as permissões personalizadas ainda não foram carregadas, usar permissões padrão
+  return isPermissionGranted(matchingPermission, userRole, permissionsLoaded ? customPermissionsCache : {});
 }
 
 /**
@@ -236,51 +95,9 @@ export function hasPermission(path: string, userRole?: string): boolean {
 export function getAccessibleRoutes(userRole?: string): { path: string, description: string }[] {
   if (!userRole) return [];
   
-  const role = userRole as UserRole;
-  
-  // Administrador tem acesso a tudo
-  if (role === "Administrador") {
-    return ROUTE_PERMISSIONS.map(({ path, description }) => ({ path, description }));
-  }
-  
-  // Obtém as permissões personalizadas para este papel
-  const customPermissions = customPermissionsCache[role] || {};
-  
-  // Filtra as rotas com base nas permissões personalizadas ou padrão
+  // Mesmas regras aplicadas pelo servidor: Administrador tem acesso a tudo; para os demais,
+  // permissões personalizadas ou, na falta delas, as permissões padrão
   return ROUTE_PERMISSIONS
-    .filter(permission => {
-      // Caso especial para o configurador - garantir acesso irrestrito para todos os usuários
-      if (permission.path === "/configurator") {
-        return true;
-      }
-      
-      // Caso especial para a página de configuração de permissões
-      if (permission.path === "/admin/permission-settings") {
-        // Verificar por papel específico
-        if (role === "Administrador") {
-          // Administradores sempre têm acesso
-          return true;
-        } else if (role === "Cadastrador" || role === "Usuário") {
-          // Para demais papéis, verificar explicitamente
-          const permissionKey = "Configurar permissões do sistema";
-          if (permissionKey in customPermissions) {
-            // Só incluir se a permissão estiver explicitamente ativada
-            return customPermissions[permissionKey] === true;
-          }
-          // Por padrão, não incluir esta rota
-          return false;
-        }
-        // Para qualquer outro papel não reconhecido, negar acesso
-        return false;
-      }
-      
-      // Para as demais rotas, verificação padrão
-      // Se temos uma configuração personalizada para esta permissão, usar ela
-      if (permission.description in customPermissions) {
-        return customPermissions[permission.description];
-      }
-      // Caso contrário, usar as permissões padrão
-      return permission.allowedRoles.includes(role);
-    })
+    .filter(permission => isPermissionGranted(permission, userRole, customPermissionsCache))
     .map(({ path, description }) => ({ path, description }));
-}
\ No newline at end of file
+}
@@ -1,3 +1,7 @@
+import type { CustomerAddress, CustomerContact, CustomerType } from "@shared/customers";
+import type { StockUnitStatus } from "@shared/stockUnits";
+import type { ReservationStatus } from "@shared/reservations";
+
 // Base entity types
 export interface Brand {
   id: number;
@@ -67,6 +71,8 @@ export interface Vehicle {
   pcdIpi: number;
   taxiIpiIcms: number;
   taxiIpi: number;
+  // Preços de isenção informados manualmente (sem cálculo pelas regras de impostos)
+  exemptionPricesOverride: boolean;
   version: VersionWithModel;
   color?: Color;
   createdAt?: string;
@@ -93,3 +99,198 @@ export interface VersionOptional {
   createdAt?: string;
   updatedAt?: string;
 }
+
+export type QuotePriceType = 'public' | 'pcdIpi' | 'taxiIpiIcms' | 'pcdIpiIcms' | 'taxiIpi';
+
+export interface QuoteSnapshot {
+  brand: string;
+  model: string;
+  version: string;
+  year: number;
+  fuelType: string;
+  priceTypeLabel: string;
+  color?: {
+    name: string;
+    price: number;
+    imageUrl?: string | null;
+  };
+  optionals: Array<{
+    optionalId: number;
+    name: string;
+    price: number;
+  }>;
+  directSaleName?: string | null;
+  vehicleDescription?: string | null;
+  priceDate?: string | null;
+  customer?: {
+    name: string;
+    document: string;
+    typeLabel: string;
+  } | null;
+}
+
+export interface Quote {
+  id: number;
+  userId: number;
+  vehicleId?: number | null;
+  versionId: number;
+  colorId?: number | null;
+  directSaleId?: number | null;
+  customerId?: number | null;
+  optionalIds: number[];
+  priceType: QuotePriceType;
+  basePrice: string;
+  paintPrice: string;
+  optionalsTotal: string;
+  discountPercentage: string;
+  discountAmount: string;
+  // UF de venda usada no cálculo (vazio = preço nacional)
+  state?: string | null;
+  regionalAdjustmentAmount: string;
+  freightAmount: string;
+  surchargeAmount: string;
+  unitPrice: string;
+  quantity: number;
+  totalPrice: string;
+  snapshot: QuoteSnapshot;
+  notes?: string | null;
+  user?: {
+    id: number;
+    name: string;
+    email: string;
+  };
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Preços regionais: ajuste percentual por UF e frete por UF e marca/modelo
+export interface StatePriceAdjustment {
+  id: number;
+  state: string;
+  adjustmentPercentage: string;
+  notes?: string | null;
+}
+
+export interface FreightRate {
+  id: number;
+  state: string;
+  brandId: number;
+  modelId?: number | null;
+  amount: string;
+  brand?: { id: number; name: string };
+  model?: { id: number; name: string } | null;
+}
+
+// Cliente (comprador); documento só com dígitos
+export interface Customer {
+  id: number;
+  type: CustomerType;
+  name: string;
+  document: string;
+  email?: string | null;
+  phone?: string | null;
+  notes?: string | null;
+  contacts: CustomerContact[];
+  addresses: CustomerAddress[];
+  createdBy?: number | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Unidade física em estoque (carro identificado pelo chassi)
+export interface StockUnit {
+  id: number;
+  vehicleId: number;
+  versionColorId: number;
+  vin: string;
+  renavam?: string | null;
+  arrivalDate?: string | null;
+  location?: string | null;
+  status: StockUnitStatus;
+  cost?: string | null;
+  notes?: string | null;
+  vehicle?: Vehicle;
+  versionColor?: {
+    id: number;
+    versionId: number;
+    colorId: number;
+    color?: Color;
+  };
+  createdBy?: number | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Reserva de um veículo/cor para um cliente; o histórico guarda também as liberadas e expiradas
+export interface VehicleReservation {
+  id: number;
+  vehicleId: number;
+  versionColorId: number;
+  customerId?: number | null;
+  customerName: string;
+  customerDocument: string;
+  userId: number;
+  status: ReservationStatus;
+  expiresAt: string;
+  releasedAt?: string | null;
+  releasedBy?: number | null;
+  releaseReason?: string | null;
+  notes?: string | null;
+  vehicle?: Vehicle;
+  versionColor?: {
+    id: number;
+    colorId: number;
+    color?: Color;
+  };
+  user?: { id: number; name: string };
+  releasedByUser?: { id: number; name: string } | null;
+  createdAt: string;
+}
+
+export type VehiclePriceSource = 'manual' | 'scheduled' | 'import' | 'initial' | 'taxRules';
+
+// Registro do histórico de preços de um veículo
+export interface VehiclePriceEntry {
+  id: number;
+  vehicleId: number;
+  publicPrice: string;
+  pcdIpiIcms: string;
+  pcdIpi: string;
+  taxiIpiIcms: string;
+  taxiIpi: string;
+  effectiveFrom: string;
+  source: VehiclePriceSource;
+  notes?: string | null;
+  createdBy?: number | null;
+  createdByUser?: {
+    id: number;
+    name: string;
+  } | null;
+  createdAt: string;
+}
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'import' | 'restore';
+
+// Registro da trilha de auditoria
+export interface AuditLogEntry {
+  id: number;
+  userId?: number | null;
+  userName?: string | null;
+  action: AuditAction;
+  entity: string;
+  entityId?: string | null;
+  method: string;
+  path: string;
+  statusCode: number;
+  ip?: string | null;
+  userAgent?: string | null;
+  before?: unknown;
+  after?: unknown;
+  changes?: Record<string, { from: unknown; to: unknown }> | null;
+  createdAt: string;
+}
+
+export interface AuditLogPage {
+  logs: AuditLogEntry[];
+  total: number;
+}
@@ -0,0 +1,172 @@
+import { useParams, useLocation, Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { invitationAcceptSchema, InvitationPreview } from "@shared/invitations";
+
+const acceptFormSchema = invitationAcceptSchema.extend({
+  confirmPassword: z.string().min(6, "Confirme sua senha"),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "As senhas não coincidem",
+  path: ["confirmPassword"],
+});
+
+type AcceptFormData = z.infer<typeof acceptFormSchema>;
+
+// Página pública do link de convite: o convidado define nome e senha e depois entra pelo login
+export default function AcceptInvitePage() {
+  const { token = "" } = useParams<{ token: string }>();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  const { data: invitation, isLoading, error } = useQuery<InvitationPreview, Error>({
+    queryKey: ["/api/invitations/preview", token],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/invitations/preview", { token });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || "Convite inválido");
+      }
+      return result;
+    },
+    retry: false,
+  });
+
+  const form = useForm<AcceptFormData>({
+    resolver: zodResolver(acceptFormSchema),
+    values: {
+      name: invitation?.name ?? "",
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (data: AcceptFormData) => {
+      const response = await apiRequest("POST", "/api/invitations/accept", {
+        token,
+        name: data.name,
+        password: data.password,
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || result.errors?.[0]?.message || "Não foi possível aceitar o convite");
+      }
+      return result;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Conta criada",
+        description: "Entre com seu email e a senha que você definiu.",
+      });
+      navigate("/auth");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro ao aceitar convite",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Aceitar convite</CardTitle>
+          <CardDescription>
+            {invitation
+              ? `Você foi convidado como ${invitation.roleName}. Defina sua senha para acessar o sistema.`
+              : "Convite de acesso ao sistema."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-destructive">{error.message}</p>
+          ) : invitation && (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(data => acceptMutation.mutate(data))} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="invite-email">Email</Label>
+                  <Input id="invite-email" value={invitation.email} disabled />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Nome</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Seu nome" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Senha</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder="••••••" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirme a senha</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder="••••••" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button type="submit" className="w-full" disabled={acceptMutation.isPending}>
+                  {acceptMutation.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Criando conta...
+                    </>
+                  ) : (
+                    "Criar conta"
+                  )}
+                </Button>
+              </form>
+            </Form>
+          )}
+        </CardContent>
+        <CardFooter className="flex justify-center">
+          <Link href="/auth" className="text-sm text-muted-foreground hover:underline">
+            Já tem uma conta? Faça login
+          </Link>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -1,11 +1,13 @@
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { ROUTE_PERMISSIONS, UserRole, getAccessibleRoutes } from "@/lib/permissions";
+import { ROUTE_PERMISSIONS, getAccessibleRoutes } from "@/lib/permissions";
+import { SYSTEM_ROLES } from "@shared/permissions";
 import { Check, Info, Lock, Shield, X } from "lucide-react";
 
 export default function AccessPermissions() {
-  const roles: UserRole[] = ["Administrador", "Cadastrador", "Usuário"];
+  // Permissões padrão dos papéis do sistema; papéis cadastrados só têm as personalizadas
+  const roles = SYSTEM_ROLES;
   
   return (
     <div className="container mx-auto p-4">
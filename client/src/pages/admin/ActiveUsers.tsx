@@ -3,8 +3,9 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Trash2, Monitor, Smartphone, Users, Clock, MapPin, AlertTriangle } from "lucide-react";
+import { Trash2, Monitor, Smartphone, Users, Clock, MapPin, AlertTriangle, Lock, Unlock } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import type { LockedAccountSummary } from "@shared/loginSecurity";
 
 interface ActiveUserSession {
   userId: number;
@@ -30,6 +31,11 @@ export default function ActiveUsersPage() {
     queryKey: ['/api/admin/active-users'],
   });
 
+  // Contas bloqueadas por tentativas de login com senha errada
+  const { data: lockedAccounts = [] } = useQuery<LockedAccountSummary[]>({
+    queryKey: ['/api/admin/locked-users'],
+  });
+
   // Terminate specific user session
   const terminateSessionMutation = useMutation({
     mutationFn: async ({ userId, sessionId }: { userId: number, sessionId: string }) => {
@@ -95,6 +101,38 @@ export default function ActiveUsersPage() {
     },
   });
 
+  // Unlock an account locked by failed login attempts
+  const unlockAccountMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await fetch(`/api/admin/users/${userId}/unlock`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: {
+          'Content-Type': 'application/json',
+        }
+      });
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(error || 'Erro ao desbloquear conta');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Conta desbloqueada",
+        description: "O usuário já pode entrar novamente.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/locked-users'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro",
+        description: error.message || "Erro ao desbloquear conta",
+        variant: "destructive",
+      });
+    },
+  });
+
   const getDeviceIcon = (deviceInfo: string) => {
     if (deviceInfo.includes("iPhone") || deviceInfo.includes("Android") || deviceInfo.includes("Mobile")) {
       return <Smartphone className="w-4 h-4" />;
@@ -205,6 +243,48 @@ export default function ActiveUsersPage() {
         </div>
       </div>
 
+      {/* Contas bloqueadas */}
+      {lockedAccounts.length > 0 && (
+        <Card className="border-l-4 border-l-red-500">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center space-x-2 text-base md:text-lg">
+              <Lock className="w-4 h-4 md:w-5 md:h-5 text-red-600" />
+              <span>Contas Bloqueadas</span>
+            </CardTitle>
+            <CardDescription className="text-xs md:text-sm">
+              Bloqueio temporário após várias tentativas de login sem sucesso
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {lockedAccounts.map((account) => (
+                <div key={account.userId} className="p-3 bg-red-50 rounded-lg flex flex-col md:flex-row md:items-center md:justify-between space-y-3 md:space-y-0">
+                  <div>
+                    <p className="font-medium text-sm md:text-base">{account.userName}</p>
+                    <p className="text-xs md:text-sm text-gray-600">
+                      {account.userEmail} • {account.failedLoginAttempts} tentativas sem sucesso
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Bloqueada até: {formatDate(account.lockedUntil)}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full md:w-auto text-xs md:text-sm"
+                    onClick={() => unlockAccountMutation.mutate(account.userId)}
+                    disabled={unlockAccountMutation.isPending}
+                  >
+                    <Unlock className="w-3 h-3 md:w-4 md:h-4 mr-2" />
+                    Desbloquear
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {activeUsers.length === 0 ? (
         <Card>
           <CardContent className="pt-6">
@@ -311,6 +391,7 @@ export default function ActiveUsersPage() {
           <p>• Encerrar uma sessão desconecta o usuário imediatamente do sistema</p>
           <p>• Use com cautela - usuários podem perder trabalho não salvo</p>
           <p>• Todas as ações são registradas nos logs de segurança</p>
+          <p>• Contas são bloqueadas por alguns minutos após várias senhas erradas seguidas; o tempo dobra a cada nova falha</p>
         </CardContent>
       </Card>
     </div>
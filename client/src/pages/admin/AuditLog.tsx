@@ -0,0 +1,367 @@
+import { Fragment, useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronDown, ChevronRight, Download, Loader2, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { AuditAction, AuditLogEntry, AuditLogPage } from "@/lib/types";
+
+const PAGE_SIZE = 50;
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Criação',
+  update: 'Alteração',
+  delete: 'Exclusão',
+  import: 'Importação',
+  restore: 'Restauração'
+};
+
+const ACTION_BADGE_CLASSES: Record<AuditAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+  import: 'bg-purple-100 text-purple-800',
+  restore: 'bg-yellow-100 text-yellow-800'
+};
+
+const ENTITY_LABELS: Record<string, string> = {
+  brands: 'Marcas',
+  models: 'Modelos',
+  versions: 'Versões',
+  colors: 'Cores',
+  paint_types: 'Tipos de Pintura',
+  version_colors: 'Cores por Versão',
+  optionals: 'Opcionais',
+  version_optionals: 'Opcionais por Versão',
+  vehicles: 'Veículos',
+  vehicle_prices: 'Preços de Veículos',
+  direct_sales: 'Vendas Diretas',
+  customers: 'Clientes',
+  stock_units: 'Estoque',
+  vehicle_availability: 'Disponibilidade de Veículos',
+  vehicle_reservations: 'Reservas de Veículos',
+  state_price_adjustments: 'Ajustes de Preço por UF',
+  freight_rates: 'Fretes por UF',
+  settings: 'Configurações',
+  permissions: 'Permissões',
+  roles: 'Papéis',
+  invitations: 'Convites',
+  users: 'Usuários',
+  backups: 'Backups'
+};
+
+interface AuditFilters {
+  userId: string;
+  entity: string;
+  action: string;
+  entityId: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = { userId: "all", entity: "all", action: "all", entityId: "", from: "", to: "" };
+
+function buildQueryString(filters: AuditFilters, extra: Record<string, string> = {}) {
+  const params = new URLSearchParams();
+  if (filters.userId !== "all") params.set("userId", filters.userId);
+  if (filters.entity !== "all") params.set("entity", filters.entity);
+  if (filters.action !== "all") params.set("action", filters.action);
+  if (filters.entityId.trim()) params.set("entityId", filters.entityId.trim());
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  Object.entries(extra).forEach(([key, value]) => params.set(key, value));
+  return params.toString();
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// Detalhes de um registro: diff campo a campo ou, sem diff, os estados completos
+function AuditLogDetails({ log }: { log: AuditLogEntry }) {
+  const changes = Object.entries(log.changes || {});
+
+  if (changes.length > 0) {
+    return (
+      <div className="space-y-1">
+        {changes.map(([field, change]) => (
+          <div key={field} className="text-sm break-all">
+            <span className="text-gray-500">{field}:</span>{" "}
+            <span className="line-through text-gray-400">{formatValue(change.from)}</span>{" "}
+            <span className="font-medium">{formatValue(change.to)}</span>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid md:grid-cols-2 gap-4">
+      <div>
+        <div className="text-sm font-medium text-gray-600 mb-1">Antes</div>
+        <pre className="text-xs bg-white border rounded p-2 overflow-auto max-h-64">
+          {log.before ? JSON.stringify(log.before, null, 2) : '—'}
+        </pre>
+      </div>
+      <div>
+        <div className="text-sm font-medium text-gray-600 mb-1">Depois</div>
+        <pre className="text-xs bg-white border rounded p-2 overflow-auto max-h-64">
+          {log.after ? JSON.stringify(log.after, null, 2) : '—'}
+        </pre>
+      </div>
+    </div>
+  );
+}
+
+export default function AuditLog() {
+  const { toast } = useToast();
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(0);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const { data: users = [] } = useQuery<Array<{ id: number; name: string }>>({
+    queryKey: ["/api/users"],
+  });
+
+  const listUrl = `/api/audit-logs?${buildQueryString(filters, {
+    limit: String(PAGE_SIZE),
+    offset: String(page * PAGE_SIZE)
+  })}`;
+  const { data, isLoading, isFetching } = useQuery<AuditLogPage>({
+    queryKey: [listUrl],
+    placeholderData: keepPreviousData,
+  });
+
+  const logs = data?.logs || [];
+  const total = data?.total || 0;
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  // Qualquer mudança de filtro volta para a primeira página
+  const updateFilter = (key: keyof AuditFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+    setPage(0);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const response = await fetch(`/api/audit-logs/export?${buildQueryString(filters)}`, {
+        credentials: 'include'
+      });
+      if (!response.ok) {
+        throw new Error('Falha ao exportar auditoria');
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `auditoria_${new Date().toISOString().split('T')[0]}.csv`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Não foi possível exportar a auditoria.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-semibold text-gray-800">Auditoria</h1>
+        <Button variant="outline" onClick={handleExport} disabled={isExporting}>
+          {isExporting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="mr-2 h-4 w-4" />
+          )}
+          Exportar CSV
+        </Button>
+      </div>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Filtros</CardTitle>
+          <CardDescription>
+            Alterações de catálogo, preços, configurações, permissões, usuários e backups, com o estado anterior e o posterior.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 items-end">
+            <div>
+              <Label>Usuário</Label>
+              <Select value={filters.userId} onValueChange={(value) => updateFilter("userId", value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Todos" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos</SelectItem>
+                  {users.map(user => (
+                    <SelectItem key={user.id} value={String(user.id)}>{user.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Entidade</Label>
+              <Select value={filters.entity} onValueChange={(value) => updateFilter("entity", value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Todas" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todas</SelectItem>
+                  {Object.entries(ENTITY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Ação</Label>
+              <Select value={filters.action} onValueChange={(value) => updateFilter("action", value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Todas" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todas</SelectItem>
+                  {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="audit-entity-id">ID do registro</Label>
+              <Input
+                id="audit-entity-id"
+                value={filters.entityId}
+                onChange={(e) => updateFilter("entityId", e.target.value)}
+                placeholder="Ex.: 42"
+              />
+            </div>
+            <div>
+              <Label htmlFor="audit-from">De</Label>
+              <Input
+                id="audit-from"
+                type="date"
+                value={filters.from}
+                onChange={(e) => updateFilter("from", e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="audit-to">Até</Label>
+              <Input
+                id="audit-to"
+                type="date"
+                value={filters.to}
+                onChange={(e) => updateFilter("to", e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end mt-4">
+            <Button variant="ghost" onClick={() => { setFilters(EMPTY_FILTERS); setPage(0); }}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Limpar filtros
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8"></TableHead>
+                <TableHead>Data/Hora</TableHead>
+                <TableHead>Usuário</TableHead>
+                <TableHead>Ação</TableHead>
+                <TableHead>Entidade</TableHead>
+                <TableHead>ID</TableHead>
+                <TableHead>IP</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-6 text-gray-500">
+                    Carregando auditoria...
+                  </TableCell>
+                </TableRow>
+              ) : logs.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-6 text-gray-500">
+                    Nenhum registro encontrado
+                  </TableCell>
+                </TableRow>
+              ) : (
+                logs.map(log => {
+                  const isExpanded = expandedId === log.id;
+                  return (
+                    <Fragment key={log.id}>
+                      <TableRow
+                        className="cursor-pointer"
+                        onClick={() => setExpandedId(isExpanded ? null : log.id)}
+                      >
+                        <TableCell>
+                          {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">{new Date(log.createdAt).toLocaleString('pt-BR')}</TableCell>
+                        <TableCell>{log.userName || (log.userId ? `#${log.userId}` : 'Sistema')}</TableCell>
+                        <TableCell>
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${ACTION_BADGE_CLASSES[log.action]}`}>
+                            {ACTION_LABELS[log.action] || log.action}
+                          </span>
+                        </TableCell>
+                        <TableCell>{ENTITY_LABELS[log.entity] || log.entity}</TableCell>
+                        <TableCell>{log.entityId || '—'}</TableCell>
+                        <TableCell className="text-sm text-gray-500">{log.ip || '—'}</TableCell>
+                      </TableRow>
+                      {isExpanded && (
+                        <TableRow>
+                          <TableCell colSpan={7} className="bg-gray-50">
+                            <div className="text-xs text-gray-500 mb-2">{log.method} {log.path}</div>
+                            <AuditLogDetails log={log} />
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+
+          <div className="flex justify-between items-center mt-4 text-sm text-gray-600">
+            <span>
+              {total} registro(s){isFetching && !isLoading ? ' — atualizando...' : ''}
+            </span>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setPage(p => p - 1)} disabled={page === 0}>
+                Anterior
+              </Button>
+              <span>Página {page + 1} de {totalPages}</span>
+              <Button variant="outline" size="sm" onClick={() => setPage(p => p + 1)} disabled={page + 1 >= totalPages}>
+                Próxima
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,300 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Loader2, MailPlus, RefreshCw, XCircle } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import {
+  INVITATION_STATUS_LABELS,
+  INVITATION_VALIDITY_DAYS,
+  InvitationLink,
+  InvitationSummary
+} from "@shared/invitations";
+
+type Role = {
+  id: number;
+  name: string;
+};
+
+interface InvitationsTabProps {
+  roles: Role[];
+}
+
+// Resposta de erro da API: mensagem do serviço ou erros de validação do zod
+async function readResult(response: Response) {
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.message || result.errors?.[0]?.message || "Erro ao processar o convite");
+  }
+  return result;
+}
+
+// Convites pendentes (e expirados, que podem ganhar um novo link) e a opção de autocadastro
+export default function InvitationsTab({ roles }: InvitationsTabProps) {
+  const [showInviteDialog, setShowInviteDialog] = useState(false);
+  const [email, setEmail] = useState("");
+  const [name, setName] = useState("");
+  const [roleId, setRoleId] = useState("");
+  // Link recém-gerado; o token não é guardado em texto e só pode ser copiado agora
+  const [createdLink, setCreatedLink] = useState<InvitationLink | null>(null);
+
+  const { data: invitations = [], isLoading } = useQuery<InvitationSummary[]>({
+    queryKey: ['/api/invitations'],
+  });
+  const openInvitations = invitations.filter(invitation =>
+    invitation.status === 'pending' || invitation.status === 'expired'
+  );
+
+  const { data: registrationSettings } = useQuery<{ selfRegistrationEnabled: boolean }>({
+    queryKey: ['/api/registration-settings'],
+  });
+
+  const registrationMutation = useMutation({
+    mutationFn: async (selfRegistrationEnabled: boolean) =>
+      readResult(await apiRequest('PUT', '/api/registration-settings', { selfRegistrationEnabled })),
+    onSuccess: (result: { selfRegistrationEnabled: boolean }) => {
+      queryClient.setQueryData(['/api/registration-settings'], result);
+      toast({
+        title: "Configuração salva",
+        description: result.selfRegistrationEnabled
+          ? "Qualquer pessoa pode criar uma conta pela tela de login."
+          : "Novas contas só podem ser criadas por convite.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const onLinkGenerated = (invitation: InvitationLink) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/invitations'] });
+    setCreatedLink(invitation);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () =>
+      readResult(await apiRequest('POST', '/api/invitations', {
+        email,
+        name: name || null,
+        roleId: parseInt(roleId),
+      })),
+    onSuccess: (invitation: InvitationLink) => {
+      setShowInviteDialog(false);
+      onLinkGenerated(invitation);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao criar convite", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async (id: number) =>
+      readResult(await apiRequest('POST', `/api/invitations/${id}/resend`)),
+    onSuccess: onLinkGenerated,
+    onError: (error: Error) => {
+      toast({ title: "Erro ao gerar novo link", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) =>
+      readResult(await apiRequest('DELETE', `/api/invitations/${id}`)),
+    onSuccess: (invitation: InvitationSummary) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/invitations'] });
+      toast({ title: "Convite cancelado", description: `O convite para ${invitation.email} não pode mais ser usado.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao cancelar convite", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openInviteDialog = () => {
+    setEmail("");
+    setName("");
+    setRoleId("");
+    setShowInviteDialog(true);
+  };
+
+  const copyLink = async () => {
+    if (!createdLink) return;
+    try {
+      await navigator.clipboard.writeText(createdLink.inviteUrl);
+      toast({ title: "Link copiado", description: "Envie o link ao convidado." });
+    } catch {
+      toast({ title: "Não foi possível copiar", description: "Selecione o link e copie manualmente.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Cadastro de usuários</CardTitle>
+          <CardDescription>
+            Com o autocadastro desativado, novas contas só são criadas pelos convites abaixo.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center gap-3">
+            <Switch
+              id="self-registration"
+              checked={registrationSettings?.selfRegistrationEnabled === true}
+              onCheckedChange={(checked) => registrationMutation.mutate(checked)}
+              disabled={!registrationSettings || registrationMutation.isPending}
+            />
+            <Label htmlFor="self-registration">Permitir autocadastro na tela de login (papel Usuário)</Label>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-muted-foreground">
+          Os links de convite valem por {INVITATION_VALIDITY_DAYS} dias e podem ser usados uma única vez.
+        </p>
+        <Button onClick={openInviteDialog}>
+          <MailPlus className="mr-2 h-4 w-4" />
+          Novo Convite
+        </Button>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Email</TableHead>
+              <TableHead>Nome</TableHead>
+              <TableHead>Papel</TableHead>
+              <TableHead>Convidado por</TableHead>
+              <TableHead>Expira em</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Ações</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8">
+                  <Loader2 className="h-5 w-5 animate-spin inline" />
+                </TableCell>
+              </TableRow>
+            ) : openInvitations.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8">
+                  Nenhum convite pendente.
+                </TableCell>
+              </TableRow>
+            ) : openInvitations.map(invitation => (
+              <TableRow key={invitation.id}>
+                <TableCell className="font-medium">{invitation.email}</TableCell>
+                <TableCell>{invitation.name || '-'}</TableCell>
+                <TableCell>
+                  <Badge variant="outline">{invitation.roleName}</Badge>
+                </TableCell>
+                <TableCell>{invitation.invitedByName || '-'}</TableCell>
+                <TableCell className="whitespace-nowrap">{new Date(invitation.expiresAt).toLocaleString('pt-BR')}</TableCell>
+                <TableCell>
+                  <Badge variant={invitation.status === 'pending' ? "default" : "secondary"}>
+                    {INVITATION_STATUS_LABELS[invitation.status]}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => resendMutation.mutate(invitation.id)}
+                      disabled={resendMutation.isPending}
+                    >
+                      <RefreshCw className="mr-1 h-3 w-3" />
+                      Novo link
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => revokeMutation.mutate(invitation.id)}
+                      disabled={revokeMutation.isPending}
+                    >
+                      <XCircle className="mr-1 h-3 w-3" />
+                      Cancelar
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* Diálogo para criar convite */}
+      <Dialog open={showInviteDialog} onOpenChange={setShowInviteDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Novo convite</DialogTitle>
+            <DialogDescription>
+              O convidado recebe o papel escolhido e define a própria senha ao abrir o link.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="invite-email">Email</Label>
+              <Input id="invite-email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="convidado@email.com" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="invite-name">Nome (opcional)</Label>
+              <Input id="invite-name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Papel</Label>
+              <Select value={roleId} onValueChange={setRoleId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione um papel" />
+                </SelectTrigger>
+                <SelectContent>
+                  {roles.map(role => (
+                    <SelectItem key={role.id} value={role.id.toString()}>{role.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowInviteDialog(false)}>Cancelar</Button>
+            <Button onClick={() => createMutation.mutate()} disabled={!email || !roleId || createMutation.isPending}>
+              {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Criar convite
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Link gerado: exibido uma única vez */}
+      <Dialog open={!!createdLink} onOpenChange={(open) => !open && setCreatedLink(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Link do convite</DialogTitle>
+            <DialogDescription>
+              Envie este link para {createdLink?.email}. Ele não será exibido novamente; se perdê-lo, gere um novo link.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input readOnly value={createdLink?.inviteUrl ?? ""} onFocus={(e) => e.target.select()} />
+            <Button variant="outline" size="icon" onClick={copyLink} title="Copiar link">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setCreatedLink(null)}>Fechar</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
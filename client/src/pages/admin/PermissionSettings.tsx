@@ -1,7 +1,7 @@
 import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Loader2, Info, Shield, CheckCircle, XCircle, RotateCcw } from "lucide-react";
+import { Loader2, Info, Shield, CheckCircle, XCircle, RotateCcw, Plus, Pencil, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -10,7 +10,11 @@ import { Switch } from "@/components/ui/switch";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { ROUTE_PERMISSIONS, getCustomPermissions, UserRole } from "@/lib/permissions";
+import { ROUTE_PERMISSIONS } from "@/lib/permissions";
+import { ADMIN_ROLE_NAME, RoleSummary, getEffectivePermissions } from "@shared/permissions";
+import RoleFormDialog from "./RoleFormDialog";
+import RoleDeleteDialog from "./RoleDeleteDialog";
+import TwoFactorPolicyCard from "./TwoFactorPolicyCard";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 
@@ -19,6 +23,15 @@ export default function PermissionSettings() {
   const [selectedRole, setSelectedRole] = useState<string>("Cadastrador");
   const [isEditing, setIsEditing] = useState<boolean>(false);
   const [permissions, setPermissions] = useState<Record<string, boolean>>({});
+  const [roleFormOpen, setRoleFormOpen] = useState(false);
+  const [editingRole, setEditingRole] = useState<RoleSummary | null>(null);
+  const [deletingRole, setDeletingRole] = useState<RoleSummary | null>(null);
+
+  // Papéis cadastrados; o Administrador sempre tem acesso total e não é configurável
+  const { data: roles = [] } = useQuery<RoleSummary[]>({
+    queryKey: ['/api/roles'],
+  });
+  const configurableRoles = roles.filter(role => role.name !== ADMIN_ROLE_NAME);
 
   // Buscar as permissões personalizadas
   const { data: customPermissions, isLoading } = useQuery({
@@ -118,16 +131,18 @@ export default function PermissionSettings() {
       if (customPermissions[selectedRole]) {
         setPermissions(customPermissions[selectedRole]);
       } else {
-        // Caso contrário, use as permissões padrão
-        const defaultPermissions: Record<string, boolean> = {};
-        ROUTE_PERMISSIONS.forEach(permission => {
-          defaultPermissions[permission.description] = permission.allowedRoles.includes(selectedRole as UserRole);
-        });
-        setPermissions(defaultPermissions);
+        // Caso contrário, use as permissões padrão (as mesmas aplicadas pelo servidor)
+        setPermissions(getEffectivePermissions(selectedRole, {}));
       }
+      setIsEditing(false);
     }
   }, [customPermissions, selectedRole]);
 
+  const openRoleForm = (role: RoleSummary | null) => {
+    setEditingRole(role);
+    setRoleFormOpen(true);
+  };
+
   const handlePermissionChange = (key: string, value: boolean) => {
     if (!isEditing) setIsEditing(true);
     setPermissions(prev => ({ ...prev, [key]: value }));
@@ -163,13 +178,32 @@ export default function PermissionSettings() {
 
   return (
     <div className="container mx-auto py-6">
+      <RoleFormDialog
+        open={roleFormOpen}
+        role={editingRole}
+        roles={roles}
+        onClose={() => setRoleFormOpen(false)}
+        onSaved={(role) => {
+          setRoleFormOpen(false);
+          setSelectedRole(role.name);
+        }}
+      />
+      <RoleDeleteDialog
+        role={deletingRole}
+        roles={roles}
+        onClose={() => setDeletingRole(null)}
+        onDeleted={() => {
+          if (deletingRole?.name === selectedRole) setSelectedRole("Cadastrador");
+          setDeletingRole(null);
+        }}
+      />
       <h1 className="text-3xl font-bold mb-6">Configurações de Permissões</h1>
       
       <Alert className="mb-6">
         <Info className="h-5 w-5" />
         <AlertTitle>Personalize as permissões por papel</AlertTitle>
         <AlertDescription>
-          Configure quais funcionalidades cada papel de usuário pode acessar no sistema.
+          Crie papéis e configure quais funcionalidades cada um pode acessar no sistema.
           O papel de Administrador sempre terá acesso total e não pode ser modificado.
         </AlertDescription>
       </Alert>
@@ -182,16 +216,34 @@ export default function PermissionSettings() {
               <CardDescription>Selecione o papel que deseja configurar</CardDescription>
             </CardHeader>
             <CardContent>
-              <Tabs 
-                defaultValue="Cadastrador" 
-                value={selectedRole} 
-                onValueChange={setSelectedRole}
-                className="w-full"
-              >
-                <TabsList className="grid grid-cols-2 mb-4">
-                  <TabsTrigger value="Cadastrador">Cadastrador</TabsTrigger>
-                  <TabsTrigger value="Usuário">Usuário</TabsTrigger>
-                </TabsList>
+              <div className="w-full">
+                <div className="space-y-2 mb-4">
+                  {configurableRoles.map(role => (
+                    <div
+                      key={role.id}
+                      className={`flex items-center justify-between rounded-md border p-2 ${selectedRole === role.name ? 'border-primary bg-primary/5' : ''}`}
+                    >
+                      <button type="button" className="flex-1 text-left" onClick={() => setSelectedRole(role.name)}>
+                        <div className="font-medium">{role.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {role.userCount} usuário(s){role.isSystem ? ' · papel do sistema' : ''}
+                        </div>
+                      </button>
+                      <Button variant="ghost" size="icon" onClick={() => openRoleForm(role)} title="Editar papel">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      {!role.isSystem && (
+                        <Button variant="ghost" size="icon" onClick={() => setDeletingRole(role)} title="Excluir papel">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <Button variant="outline" size="sm" className="w-full" onClick={() => openRoleForm(null)}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Novo Papel
+                </Button>
 
                 <div className="flex justify-between mt-6">
                   <TooltipProvider>
@@ -241,7 +293,7 @@ export default function PermissionSettings() {
                     )}
                   </Button>
                 </div>
-              </Tabs>
+              </div>
             </CardContent>
           </Card>
 
@@ -275,6 +327,8 @@ export default function PermissionSettings() {
               </div>
             </CardContent>
           </Card>
+
+          <TwoFactorPolicyCard roles={roles} />
         </div>
 
         <div className="md:col-span-2">
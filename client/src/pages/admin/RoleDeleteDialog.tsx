@@ -0,0 +1,101 @@
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { RoleSummary } from "@shared/permissions";
+
+interface RoleDeleteDialogProps {
+  role: RoleSummary | null;
+  roles: RoleSummary[];
+  onClose: () => void;
+  onDeleted: () => void;
+}
+
+// Exclusão de papel; usuários do papel são transferidos para o papel substituto escolhido
+export default function RoleDeleteDialog({ role, roles, onClose, onDeleted }: RoleDeleteDialogProps) {
+  const { toast } = useToast();
+  const [replacementId, setReplacementId] = React.useState('');
+  const [isDeleting, setIsDeleting] = React.useState(false);
+  const needsReplacement = !!role && role.userCount > 0;
+
+  React.useEffect(() => {
+    setReplacementId('');
+  }, [role?.id]);
+
+  const handleDelete = async () => {
+    if (!role) return;
+    setIsDeleting(true);
+    try {
+      const response = await apiRequest("DELETE", `/api/roles/${role.id}`,
+        needsReplacement ? { replacementRoleId: parseInt(replacementId) } : {});
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || "Não foi possível excluir o papel.");
+      }
+
+      queryClient.invalidateQueries({ queryKey: ['/api/roles'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/permissions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/users'] });
+      toast({
+        title: "Papel excluído",
+        description: result.movedUsers > 0
+          ? `O papel "${role.name}" foi excluído e ${result.movedUsers} usuário(s) foram transferidos.`
+          : `O papel "${role.name}" foi excluído.`,
+      });
+      onDeleted();
+    } catch (error) {
+      toast({
+        title: "Erro ao excluir papel",
+        description: error instanceof Error ? error.message : "Não foi possível excluir o papel.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!role} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Excluir papel</DialogTitle>
+          <DialogDescription>
+            O papel "{role?.name}" e suas permissões personalizadas serão excluídos.
+          </DialogDescription>
+        </DialogHeader>
+
+        {needsReplacement && (
+          <div className="space-y-1">
+            <Label>Transferir os {role!.userCount} usuário(s) deste papel para</Label>
+            <Select value={replacementId} onValueChange={setReplacementId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione o papel substituto" />
+              </SelectTrigger>
+              <SelectContent>
+                {roles.filter(r => r.id !== role!.id).map(r => (
+                  <SelectItem key={r.id} value={r.id.toString()}>{r.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancelar</Button>
+          <Button
+            variant="destructive"
+            onClick={handleDelete}
+            disabled={(needsReplacement && !replacementId) || isDeleting}
+          >
+            {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Excluir
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,131 @@
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { RoleSummary } from "@shared/permissions";
+
+interface RoleFormDialogProps {
+  open: boolean;
+  // Papel em edição; ausente para cadastrar um novo
+  role?: RoleSummary | null;
+  roles: RoleSummary[];
+  onClose: () => void;
+  onSaved: (role: { id: number; name: string }) => void;
+}
+
+const NO_COPY = "none";
+
+// Cadastro e renomeação de papéis; o novo papel pode começar com as permissões de outro
+export default function RoleFormDialog({ open, role, roles, onClose, onSaved }: RoleFormDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = React.useState('');
+  const [description, setDescription] = React.useState('');
+  const [copyFrom, setCopyFrom] = React.useState(NO_COPY);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    if (open) {
+      setName(role?.name ?? '');
+      setDescription(role?.description ?? '');
+      setCopyFrom(NO_COPY);
+    }
+  }, [open, role?.id]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const body = {
+        name,
+        description: description || null,
+        ...(!role && copyFrom !== NO_COPY ? { copyFromRoleId: parseInt(copyFrom) } : {})
+      };
+      const response = role
+        ? await apiRequest("PATCH", `/api/roles/${role.id}`, body)
+        : await apiRequest("POST", "/api/roles", body);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || result.errors?.[0]?.message || "Não foi possível salvar o papel.");
+      }
+
+      queryClient.invalidateQueries({ queryKey: ['/api/roles'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/permissions'] });
+      toast({
+        title: role ? "Papel atualizado" : "Papel criado",
+        description: role
+          ? `O papel "${result.name}" foi atualizado.`
+          : `O papel "${result.name}" foi criado. Configure suas permissões ao lado.`,
+      });
+      onSaved(result);
+    } catch (error) {
+      toast({
+        title: "Erro ao salvar papel",
+        description: error instanceof Error ? error.message : "Não foi possível salvar o papel.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !value && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{role ? "Editar papel" : "Novo papel"}</DialogTitle>
+          <DialogDescription>
+            {role
+              ? "Renomear o papel mantém seus usuários e permissões."
+              : "Papéis novos começam apenas com o Dashboard e o configurador; as demais permissões são configuradas ao lado."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="role-name">Nome</Label>
+            <Input
+              id="role-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Ex.: Gerente de Vendas"
+              disabled={role?.isSystem}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="role-description">Descrição</Label>
+            <Textarea id="role-description" value={description} onChange={(e) => setDescription(e.target.value)} rows={2} />
+          </div>
+          {!role && (
+            <div className="space-y-1">
+              <Label>Copiar permissões de</Label>
+              <Select value={copyFrom} onValueChange={setCopyFrom}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_COPY}>Nenhum (começar sem permissões)</SelectItem>
+                  {roles.map(r => (
+                    <SelectItem key={r.id} value={r.id.toString()}>{r.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancelar</Button>
+          <Button onClick={handleSave} disabled={name.trim().length < 3 || isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Salvar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
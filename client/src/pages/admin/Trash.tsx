@@ -0,0 +1,251 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Loader2, RotateCcw, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  TRASH_DEPENDENT_LABELS,
+  TRASH_ENTITIES,
+  TRASH_ENTITY_LABELS,
+  TrashItem,
+  TrashListing,
+  TrashRestoreResult
+} from "@shared/trash";
+
+// Listas do catálogo que mudam quando algo sai da lixeira
+const CATALOG_QUERY_KEYS = ["/api/brands", "/api/models", "/api/versions", "/api/colors", "/api/vehicles", "/api/version-colors", "/api/version-optionals"];
+
+function formatDependents(dependents: Record<string, number>): string {
+  return Object.entries(dependents)
+    .map(([table, count]) => `${count} ${TRASH_DEPENDENT_LABELS[table] || table}`)
+    .join(", ");
+}
+
+export default function Trash() {
+  const { toast } = useToast();
+  const [entityFilter, setEntityFilter] = useState<string>("all");
+  const [retentionDays, setRetentionDays] = useState("");
+  const [isSavingRetention, setIsSavingRetention] = useState(false);
+  const [restoringItem, setRestoringItem] = useState<TrashItem | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const { data, isLoading } = useQuery<TrashListing>({
+    queryKey: ["/api/trash"],
+  });
+
+  useEffect(() => {
+    if (data) setRetentionDays(String(data.retentionDays));
+  }, [data?.retentionDays]);
+
+  const items = (data?.items || []).filter(item =>
+    entityFilter === "all" || item.entity === entityFilter
+  );
+
+  const handleSaveRetention = async () => {
+    setIsSavingRetention(true);
+    try {
+      const response = await apiRequest("PUT", "/api/trash/retention", {
+        retentionDays: Number(retentionDays)
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || `Erro ao salvar retenção: ${response.statusText}`);
+      }
+      toast({
+        title: "Retenção atualizada",
+        description: `Itens da lixeira serão removidos definitivamente após ${retentionDays} dia(s).`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Não foi possível salvar a retenção.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingRetention(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!restoringItem) return;
+
+    setIsRestoring(true);
+    try {
+      const response = await apiRequest("POST", `/api/trash/${restoringItem.entity}/${restoringItem.id}/restore`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || `Erro ao restaurar: ${response.statusText}`);
+      }
+
+      const result: TrashRestoreResult = await response.json();
+      const { [result.entity]: _restoredItem, ...restoredDependents } = result.restored;
+      const dependentsText = formatDependents(restoredDependents);
+      toast({
+        title: "Item restaurado",
+        description: `${TRASH_ENTITY_LABELS[result.entity]} "${restoringItem.name}" restaurado(a)${dependentsText ? ` com ${dependentsText}` : ''}.`,
+      });
+
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      CATALOG_QUERY_KEYS.forEach(key => queryClient.invalidateQueries({ queryKey: [key] }));
+    } catch (error) {
+      toast({
+        title: "Erro ao restaurar",
+        description: error instanceof Error ? error.message : "Não foi possível restaurar o item.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRestoring(false);
+      setRestoringItem(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-semibold text-gray-800">Lixeira</h1>
+      </div>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Retenção</CardTitle>
+          <CardDescription>
+            Marcas, modelos, versões, cores e veículos excluídos ficam aqui e podem ser restaurados com seus dependentes.
+            Depois do período de retenção, a limpeza automática os remove definitivamente.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-end gap-3">
+            <div>
+              <Label htmlFor="trash-retention">Dias de retenção</Label>
+              <Input
+                id="trash-retention"
+                type="number"
+                min="1"
+                max="3650"
+                value={retentionDays}
+                onChange={(e) => setRetentionDays(e.target.value)}
+                className="w-32"
+              />
+            </div>
+            <Button
+              onClick={handleSaveRetention}
+              disabled={isSavingRetention || !retentionDays || Number(retentionDays) === data?.retentionDays}
+            >
+              {isSavingRetention ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
+              Salvar
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex justify-end mb-4">
+            <Select value={entityFilter} onValueChange={setEntityFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Filtrar por tipo" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos os tipos</SelectItem>
+                {TRASH_ENTITIES.map(entity => (
+                  <SelectItem key={entity} value={entity}>{TRASH_ENTITY_LABELS[entity]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tipo</TableHead>
+                <TableHead>Item</TableHead>
+                <TableHead>Excluídos junto</TableHead>
+                <TableHead>Excluído em</TableHead>
+                <TableHead>Remoção definitiva</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-6 text-gray-500">
+                    Carregando lixeira...
+                  </TableCell>
+                </TableRow>
+              ) : items.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-6 text-gray-500">
+                    A lixeira está vazia
+                  </TableCell>
+                </TableRow>
+              ) : (
+                items.map(item => (
+                  <TableRow key={`${item.entity}-${item.id}`}>
+                    <TableCell>{TRASH_ENTITY_LABELS[item.entity]}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{item.name}</div>
+                      {item.description && (
+                        <div className="text-sm text-gray-500">{item.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {formatDependents(item.dependents) || <span className="text-gray-400">—</span>}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{new Date(item.deletedAt).toLocaleString('pt-BR')}</TableCell>
+                    <TableCell className="whitespace-nowrap">{new Date(item.purgeAt).toLocaleDateString('pt-BR')}</TableCell>
+                    <TableCell className="text-right">
+                      {item.restorable ? (
+                        <Button variant="outline" size="sm" onClick={() => setRestoringItem(item)}>
+                          <RotateCcw className="mr-2 h-4 w-4" />
+                          Restaurar
+                        </Button>
+                      ) : (
+                        <span className="text-sm text-gray-500">
+                          Depende de {item.blockedBy}, que está na lixeira
+                        </span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!restoringItem} onOpenChange={(open) => !open && setRestoringItem(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restaurar item?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {restoringItem && (
+                <>
+                  {TRASH_ENTITY_LABELS[restoringItem.entity]} "{restoringItem.name}" volta ao cadastro
+                  {formatDependents(restoringItem.dependents) ? ` junto com ${formatDependents(restoringItem.dependents)}` : ''}.
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRestoring}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRestore} disabled={isRestoring}>
+              Restaurar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import type { RoleSummary } from "@shared/permissions";
+import type { TwoFactorPolicy } from "@shared/twoFactor";
+
+interface TwoFactorPolicyCardProps {
+  roles: RoleSummary[];
+}
+
+// Papéis cujos usuários precisam cadastrar um aplicativo autenticador para entrar
+export default function TwoFactorPolicyCard({ roles }: TwoFactorPolicyCardProps) {
+  const { toast } = useToast();
+
+  const { data: policy } = useQuery<TwoFactorPolicy>({
+    queryKey: ['/api/two-factor/policy'],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (requiredRoleIds: number[]) => {
+      const response = await apiRequest('PUT', '/api/two-factor/policy', { requiredRoleIds });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || result.errors?.[0]?.message || "Erro ao salvar a política");
+      }
+      return result as TwoFactorPolicy;
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(['/api/two-factor/policy'], result);
+      toast({ title: "Política de 2FA salva", description: "A exigência vale a partir do próximo login de cada usuário." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleRole = (roleId: number, required: boolean) => {
+    if (!policy) return;
+    const requiredRoleIds = required
+      ? [...policy.requiredRoleIds, roleId]
+      : policy.requiredRoleIds.filter(id => id !== roleId);
+    saveMutation.mutate(requiredRoleIds);
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Autenticação em Dois Fatores</CardTitle>
+        <CardDescription>Papéis que precisam de um código do aplicativo autenticador para entrar</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {roles.map(role => (
+            <div key={role.id} className="flex items-center space-x-2">
+              <Checkbox
+                id={`two-factor-role-${role.id}`}
+                checked={policy?.requiredRoleIds.includes(role.id) ?? false}
+                onCheckedChange={(checked) => toggleRole(role.id, checked === true)}
+                disabled={!policy || saveMutation.isPending}
+              />
+              <Label htmlFor={`two-factor-role-${role.id}`}>{role.name}</Label>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -29,6 +29,7 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { hasPermission } from "@/lib/permissions";
 import ActiveUsers from "./ActiveUsers";
 
 type User = {
@@ -61,14 +62,14 @@ const UserManagement = () => {
   const { data: users = [], isLoading: isLoadingUsers } = useQuery<User[]>({
     queryKey: ['/api/users'],
     queryFn: getQueryFn(),
-    enabled: !!currentUser && currentUser.role?.name === "Administrador"
+    enabled: !!currentUser && hasPermission("/admin/users", currentUser.role?.name)
   });
 
   // Buscar todos os papéis de usuário
   const { data: roles = [], isLoading: isLoadingRoles } = useQuery<Role[]>({
     queryKey: ['/api/roles'],
     queryFn: getQueryFn(),
-    enabled: !!currentUser && currentUser.role?.name === "Administrador"
+    enabled: !!currentUser && hasPermission("/admin/users", currentUser.role?.name)
   });
 
   // Mutation para atualizar o papel de um usuário
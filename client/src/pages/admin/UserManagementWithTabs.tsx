@@ -29,7 +29,9 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { hasPermission } from "@/lib/permissions";
 import ActiveUsers from "./ActiveUsers";
+import InvitationsTab from "./InvitationsTab";
 
 type User = {
   id: number;
@@ -67,7 +69,7 @@ const UserManagement = () => {
       }
       return response.json();
     },
-    enabled: !!currentUser && currentUser.role?.name === "Administrador"
+    enabled: !!currentUser && hasPermission("/admin/users", currentUser.role?.name)
   });
 
   // Buscar todos os papéis de usuário
@@ -80,7 +82,7 @@ const UserManagement = () => {
       }
       return response.json();
     },
-    enabled: !!currentUser && currentUser.role?.name === "Administrador"
+    enabled: !!currentUser && hasPermission("/admin/users", currentUser.role?.name)
   });
 
   // Mutation para atualizar o papel de um usuário
@@ -129,6 +131,37 @@ const UserManagement = () => {
     },
   });
 
+  // Remove o 2FA de quem perdeu o celular e os códigos de recuperação
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await apiRequest('DELETE', `/api/admin/users/${userId}/2fa`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || "Erro ao redefinir autenticação em dois fatores.");
+      }
+      return result;
+    },
+    onSuccess: (result: { message: string }) => {
+      toast({
+        title: "Sucesso",
+        description: result.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleResetTwoFactor = (user: User) => {
+    if (window.confirm(`Remover a autenticação em dois fatores de ${user.name}? O próximo login pedirá apenas a senha, ou um novo cadastro do aplicativo se o papel exigir 2FA.`)) {
+      resetTwoFactorMutation.mutate(user.id);
+    }
+  };
+
   const handleOpenRoleDialog = (user: User) => {
     setSelectedUser(user);
     setSelectedRole(user.roleId);
@@ -182,6 +215,7 @@ const UserManagement = () => {
       <Tabs defaultValue="users" className="w-full">
         <TabsList>
           <TabsTrigger value="users">Usuários</TabsTrigger>
+          <TabsTrigger value="invitations">Convites Pendentes</TabsTrigger>
           <TabsTrigger value="active-users">Usuários Logados</TabsTrigger>
         </TabsList>
         
@@ -232,6 +266,14 @@ const UserManagement = () => {
                         >
                           {user.isActive ? "Desativar" : "Ativar"}
                         </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleResetTwoFactor(user)}
+                          disabled={currentUser?.id === user.id || resetTwoFactorMutation.isPending}
+                        >
+                          Redefinir 2FA
+                        </Button>
                       </div>
                     </TableCell>
                   </TableRow>
@@ -249,6 +291,10 @@ const UserManagement = () => {
           </div>
         </TabsContent>
         
+        <TabsContent value="invitations" className="mt-6">
+          <InvitationsTab roles={roles} />
+        </TabsContent>
+
         <TabsContent value="active-users" className="mt-6">
           <ActiveUsers />
         </TabsContent>
@@ -1,6 +1,13 @@
 import { useState, useEffect } from "react";
-import { useAuth } from "@/hooks/use-auth";
-import { Redirect } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { isTwoFactorChallenge, useAuth, UserWithRole } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Redirect, useLocation, useSearch } from "wouter";
+import { passwordResetRequestSchema } from "@shared/passwordReset";
+import type { TwoFactorEnrollment } from "@shared/twoFactor";
+import RecoveryCodesList from "@/components/RecoveryCodesList";
+import TwoFactorEnrollmentForm from "@/components/TwoFactorEnrollmentForm";
 
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -32,9 +39,46 @@ const registerSchema = z.object({
 
 type RegisterFormData = z.infer<typeof registerSchema>;
 
+type ForgotPasswordFormData = z.infer<typeof passwordResetRequestSchema>;
+
+const resetPasswordSchema = z.object({
+  password: z.string().min(6, "Senha deve ter pelo menos 6 caracteres"),
+  confirmPassword: z.string().min(6, "Confirme sua senha"),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "As senhas não coincidem",
+  path: ["confirmPassword"],
+});
+
+type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
+
+// Mensagem da API: erro do serviço ou primeiro erro de validação
+async function readApiResult(response: Response) {
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.message || result.error || result.errors?.[0]?.message || "Erro ao processar a solicitação");
+  }
+  return result;
+}
+
 export default function AuthPage() {
-  const { user, isLoading, loginMutation, registerMutation } = useAuth();
-  const [activeTab, setActiveTab] = useState<string>("login");
+  const { user, isLoading, loginMutation, twoFactorMutation, finishLogin, registerMutation } = useAuth();
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  // Link de redefinição de senha enviado por email: /auth?resetToken=...
+  const resetToken = new URLSearchParams(useSearch()).get("resetToken");
+  const [activeTab, setActiveTab] = useState<string>(resetToken ? "reset" : "login");
+  const [resetRequested, setResetRequested] = useState(false);
+  // Segundo passo do login: código do autenticador ou cadastro obrigatório do aplicativo
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [loginEnrollment, setLoginEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [enrolledLogin, setEnrolledLogin] = useState<(UserWithRole & { recoveryCodes: string[] }) | null>(null);
+
+  // Sem autocadastro, novas contas só entram por convite
+  const { data: registrationSettings } = useQuery<{ selfRegistrationEnabled: boolean }>({
+    queryKey: ["/api/registration-settings"],
+  });
+  const selfRegistrationEnabled = registrationSettings?.selfRegistrationEnabled === true;
+  const currentTab = activeTab === "register" && !selfRegistrationEnabled ? "login" : activeTab;
 
   const loginForm = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
@@ -54,25 +98,100 @@ export default function AuthPage() {
     },
   });
 
+  const forgotForm = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(passwordResetRequestSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  const resetForm = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const forgotMutation = useMutation({
+    mutationFn: async (data: ForgotPasswordFormData) =>
+      readApiResult(await apiRequest("POST", "/api/password-reset/request", data)),
+    onSuccess: () => setResetRequested(true),
+    onError: (error: Error) => {
+      toast({ title: "Falha ao solicitar redefinição", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (data: ResetPasswordFormData) =>
+      readApiResult(await apiRequest("POST", "/api/password-reset/confirm", {
+        token: resetToken,
+        password: data.password,
+      })),
+    onSuccess: (result: { message: string }) => {
+      toast({ title: "Senha redefinida", description: result.message });
+      resetForm.reset();
+      setActiveTab("login");
+      navigate("/auth", { replace: true });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Falha ao redefinir senha", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const loginEnrollMutation = useMutation({
+    mutationFn: async () =>
+      readApiResult(await apiRequest("POST", "/api/login/2fa/enroll")),
+    onSuccess: (enrollment: TwoFactorEnrollment) => setLoginEnrollment(enrollment),
+    onError: (error: Error) => {
+      toast({ title: "Falha ao gerar o QR code", description: error.message, variant: "destructive" });
+      setActiveTab("login");
+    },
+  });
+
+  const loginEnrollConfirmMutation = useMutation({
+    mutationFn: async (code: string) =>
+      readApiResult(await apiRequest("POST", "/api/login/2fa/enroll/confirm", { code })),
+    // A sessão já foi aberta; o usuário só segue depois de ver os códigos de recuperação
+    onSuccess: (result: UserWithRole & { recoveryCodes: string[] }) => setEnrolledLogin(result),
+    onError: (error: Error) => {
+      toast({ title: "Código não aceito", description: error.message, variant: "destructive" });
+    },
+  });
+
   // Redirecionar para a página inicial se o usuário já estiver autenticado
   if (user) {
     return <Redirect to="/" />;
   }
 
   const onLoginSubmit = (data: LoginFormData) => {
-    loginMutation.mutate(data);
+    loginMutation.mutate(data, {
+      onSuccess: (result) => {
+        if (!isTwoFactorChallenge(result)) return;
+        setTwoFactorCode("");
+        if (result.enrollmentRequired) {
+          setLoginEnrollment(null);
+          setActiveTab("2fa-enroll");
+          loginEnrollMutation.mutate();
+        } else {
+          setActiveTab("2fa");
+        }
+      },
+    });
   };
 
   const onRegisterSubmit = (data: RegisterFormData) => {
-    // O papel padrão será "Usuário" (visualização)
-    // Este valor deve corresponder ao ID do papel "Usuário" no banco
-    const roleId = 1;
-    
+    // O servidor atribui o papel "Usuário" (visualização)
     registerMutation.mutate({
       name: data.name,
       email: data.email,
       password: data.password,
-      roleId,
+    }, {
+      onSuccess: () => {
+        registerForm.reset();
+        loginForm.reset({ email: data.email, password: "" });
+        setActiveTab("login");
+      },
     });
   };
 
@@ -81,11 +200,13 @@ export default function AuthPage() {
       {/* Lado esquerdo - Formulário */}
       <div className="flex-1 flex items-center justify-center p-4 md:p-10">
         <div className="w-full max-w-md">
-          <Tabs defaultValue="login" value={activeTab} onValueChange={setActiveTab}>
-            <TabsList className="grid w-full grid-cols-2 mb-8">
-              <TabsTrigger value="login">Login</TabsTrigger>
-              <TabsTrigger value="register">Registrar</TabsTrigger>
-            </TabsList>
+          <Tabs defaultValue="login" value={currentTab} onValueChange={setActiveTab}>
+            {selfRegistrationEnabled && (currentTab === "login" || currentTab === "register") && (
+              <TabsList className="grid w-full grid-cols-2 mb-8">
+                <TabsTrigger value="login">Login</TabsTrigger>
+                <TabsTrigger value="register">Registrar</TabsTrigger>
+              </TabsList>
+            )}
             
             <TabsContent value="login">
               <Card>
@@ -117,7 +238,20 @@ export default function AuthPage() {
                         name="password"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Senha</FormLabel>
+                            <div className="flex items-center justify-between">
+                              <FormLabel>Senha</FormLabel>
+                              <Button
+                                type="button"
+                                variant="link"
+                                className="h-auto p-0 text-xs"
+                                onClick={() => {
+                                  setResetRequested(false);
+                                  setActiveTab("forgot");
+                                }}
+                              >
+                                Esqueceu a senha?
+                              </Button>
+                            </div>
                             <FormControl>
                               <Input type="password" placeholder="••••••" {...field} />
                             </FormControl>
@@ -140,12 +274,18 @@ export default function AuthPage() {
                   </Form>
                 </CardContent>
                 <CardFooter className="flex justify-center">
-                  <Button 
-                    variant="link" 
-                    onClick={() => setActiveTab("register")}
-                  >
-                    Não tem uma conta? Registre-se
-                  </Button>
+                  {selfRegistrationEnabled ? (
+                    <Button 
+                      variant="link" 
+                      onClick={() => setActiveTab("register")}
+                    >
+                      Não tem uma conta? Registre-se
+                    </Button>
+                  ) : (
+                    <p className="text-sm text-muted-foreground text-center">
+                      Não tem uma conta? Solicite um convite ao administrador do sistema.
+                    </p>
+                  )}
                 </CardFooter>
               </Card>
             </TabsContent>
@@ -240,6 +380,220 @@ export default function AuthPage() {
                 </CardFooter>
               </Card>
             </TabsContent>
+
+            <TabsContent value="2fa">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Verificação em duas etapas</CardTitle>
+                  <CardDescription>
+                    Digite o código de 6 dígitos do seu aplicativo autenticador ou um dos seus códigos de recuperação.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <form
+                    className="space-y-4"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      twoFactorMutation.mutate({ code: twoFactorCode });
+                    }}
+                  >
+                    <div className="space-y-1">
+                      <Label htmlFor="two-factor-code">Código</Label>
+                      <Input
+                        id="two-factor-code"
+                        autoFocus
+                        autoComplete="one-time-code"
+                        placeholder="000000"
+                        value={twoFactorCode}
+                        onChange={(e) => setTwoFactorCode(e.target.value)}
+                      />
+                    </div>
+
+                    <Button type="submit" className="w-full" disabled={twoFactorCode.trim().length < 6 || twoFactorMutation.isPending}>
+                      {twoFactorMutation.isPending ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Verificando...
+                        </>
+                      ) : (
+                        "Verificar"
+                      )}
+                    </Button>
+                  </form>
+                </CardContent>
+                <CardFooter className="flex justify-center">
+                  <Button 
+                    variant="link" 
+                    onClick={() => setActiveTab("login")}
+                  >
+                    Voltar para o login
+                  </Button>
+                </CardFooter>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="2fa-enroll">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Configure a verificação em duas etapas</CardTitle>
+                  <CardDescription>
+                    O seu papel exige autenticação em dois fatores. Cadastre um aplicativo autenticador para continuar.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {enrolledLogin ? (
+                    <div className="space-y-4">
+                      <RecoveryCodesList codes={enrolledLogin.recoveryCodes} />
+                      <Button className="w-full" onClick={() => finishLogin(enrolledLogin)}>
+                        Já guardei os códigos, continuar
+                      </Button>
+                    </div>
+                  ) : loginEnrollment ? (
+                    <TwoFactorEnrollmentForm
+                      enrollment={loginEnrollment}
+                      isPending={loginEnrollConfirmMutation.isPending}
+                      onConfirm={(code) => loginEnrollConfirmMutation.mutate(code)}
+                    />
+                  ) : (
+                    <div className="flex justify-center py-8">
+                      <Loader2 className="h-6 w-6 animate-spin" />
+                    </div>
+                  )}
+                </CardContent>
+                {!enrolledLogin && (
+                  <CardFooter className="flex justify-center">
+                    <Button 
+                      variant="link" 
+                      onClick={() => setActiveTab("login")}
+                    >
+                      Voltar para o login
+                    </Button>
+                  </CardFooter>
+                )}
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="forgot">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Esqueceu a senha?</CardTitle>
+                  <CardDescription>
+                    Informe o email da sua conta para receber um link de redefinição de senha.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {resetRequested ? (
+                    <p className="text-sm text-muted-foreground">
+                      Se o email estiver cadastrado, você receberá em instantes um link para redefinir a senha.
+                      Verifique também a caixa de spam.
+                    </p>
+                  ) : (
+                    <Form {...forgotForm}>
+                      <form onSubmit={forgotForm.handleSubmit(data => forgotMutation.mutate(data))} className="space-y-4">
+                        <FormField
+                          control={forgotForm.control}
+                          name="email"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Email</FormLabel>
+                              <FormControl>
+                                <Input placeholder="seu@email.com" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <Button type="submit" className="w-full" disabled={forgotMutation.isPending}>
+                          {forgotMutation.isPending ? (
+                            <>
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                              Enviando...
+                            </>
+                          ) : (
+                            "Enviar link"
+                          )}
+                        </Button>
+                      </form>
+                    </Form>
+                  )}
+                </CardContent>
+                <CardFooter className="flex justify-center">
+                  <Button 
+                    variant="link" 
+                    onClick={() => setActiveTab("login")}
+                  >
+                    Voltar para o login
+                  </Button>
+                </CardFooter>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="reset">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Redefinir senha</CardTitle>
+                  <CardDescription>
+                    Escolha uma nova senha. As sessões abertas da sua conta serão encerradas.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Form {...resetForm}>
+                    <form onSubmit={resetForm.handleSubmit(data => resetMutation.mutate(data))} className="space-y-4">
+                      <FormField
+                        control={resetForm.control}
+                        name="password"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Nova senha</FormLabel>
+                            <FormControl>
+                              <Input type="password" placeholder="••••••" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={resetForm.control}
+                        name="confirmPassword"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Confirme a nova senha</FormLabel>
+                            <FormControl>
+                              <Input type="password" placeholder="••••••" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <Button type="submit" className="w-full" disabled={!resetToken || resetMutation.isPending}>
+                        {resetMutation.isPending ? (
+                          <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            Salvando...
+                          </>
+                        ) : (
+                          "Redefinir senha"
+                        )}
+                      </Button>
+                    </form>
+                  </Form>
+                </CardContent>
+                <CardFooter className="flex justify-center">
+                  <Button 
+                    variant="link" 
+                    onClick={() => {
+                      setActiveTab("forgot");
+                      navigate("/auth", { replace: true });
+                    }}
+                  >
+                    Solicitar um novo link
+                  </Button>
+                </CardFooter>
+              </Card>
+            </TabsContent>
           </Tabs>
         </div>
       </div>
@@ -162,7 +162,7 @@ export default function BrandList() {
                             <AlertDialogHeader>
                               <AlertDialogTitle>Confirmar exclusão</AlertDialogTitle>
                               <AlertDialogDescription>
-                                Tem certeza que deseja excluir a marca "{brand.name}"? Esta ação não pode ser desfeita.
+                                A marca "{brand.name}" e seus modelos, versões e veículos serão movidos para a Lixeira, de onde um administrador pode restaurá-los.
                               </AlertDialogDescription>
                             </AlertDialogHeader>
                             <AlertDialogFooter>
@@ -108,7 +108,7 @@ export default function ColorList({ onEdit }: ColorListProps) {
                             <AlertDialogHeader>
                               <AlertDialogTitle>Confirmar exclusão</AlertDialogTitle>
                               <AlertDialogDescription>
-                                Tem certeza que deseja excluir a cor "{color.name}"? Esta ação não pode ser desfeita.
+                                A cor "{color.name}" e os veículos e versões que a utilizam serão movidos para a Lixeira, de onde um administrador pode restaurá-los.
                               </AlertDialogDescription>
                             </AlertDialogHeader>
                             <AlertDialogFooter>
@@ -1,5 +1,5 @@
 import React from 'react';
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -12,6 +12,8 @@ import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { useMobile } from "@/hooks/use-mobile";
+import { usePricing } from "@/hooks/use-pricing";
+import { calculatePricing, type PriceType } from "@shared/pricing";
 
 function Configurator() {
   const isMobile = useMobile();
@@ -141,7 +143,6 @@ function Configurator() {
   
   // Selected optionals
   const [selectedOptionals, setSelectedOptionals] = useState<number[]>([]);
-  const [optionalsPrice, setOptionalsPrice] = useState(0);
   
   // Price calculations
   const [basePrice, setBasePrice] = useState(0);
@@ -150,8 +151,6 @@ function Configurator() {
   const [pcdIpiPrice, setPcdIpiPrice] = useState(0);
   const [taxiIpiIcmsPrice, setTaxiIpiIcmsPrice] = useState(0);
   const [taxiIpiPrice, setTaxiIpiPrice] = useState(0);
-  const [totalPrice, setTotalPrice] = useState(0);
-  const [finalPrice, setFinalPrice] = useState(0);
   const [selectedPriceType, setSelectedPriceType] = useState<string | null>(null);
   
   // Select a brand
@@ -294,24 +293,22 @@ function Configurator() {
     }
   };
   
+  // Último campo de desconto editado: o outro é derivado do cálculo de preço
+  const discountSourceRef = useRef<'percent' | 'amount'>('percent');
+  
   // Handle discount percent change
   const handleDiscountPercentChange = (value: string) => {
-    setDiscountPercent(value);
-    if (value && basePrice > 0) {
-      const discountPercentValue = parseFloat(value);
-      const newDiscountAmount = (basePrice * discountPercentValue / 100).toFixed(2);
-      setDiscountAmount(newDiscountAmount);
-    } else {
-      setDiscountAmount("0");
-    }
+    discountSourceRef.current = 'percent';
+    setDiscountPercent(value || "0");
   };
   
-  // Handle discount amount change
+  // Handle discount amount change (convertido em percentual sobre base + pintura + opcionais)
   const handleDiscountAmountChange = (value: string) => {
+    discountSourceRef.current = 'amount';
     setDiscountAmount(value);
-    if (value && basePrice > 0) {
-      const discountAmountValue = parseFloat(value);
-      const newDiscountPercent = ((discountAmountValue / basePrice) * 100).toFixed(2);
+    const discountAmountValue = parseFloat(value) || 0;
+    if (value && pricing.subtotal > 0) {
+      const newDiscountPercent = ((discountAmountValue / pricing.subtotal) * 100).toFixed(2);
       setDiscountPercent(newDiscountPercent);
     } else {
       setDiscountPercent("0");
@@ -338,50 +335,19 @@ function Configurator() {
     }
   };
   
-  // Update total price whenever relevant inputs change
-  useEffect(() => {
-    if (basePrice > 0) {
-      const discountAmountValue = parseFloat(discountAmount) || 0;
-      const markupAmountValue = parseFloat(markupAmount) || 0;
-      const quantityValue = parseInt(quantity) || 1;
-      
-      // Adiciona o preço da cor e dos opcionais selecionados ao preço base
-      const subtotal = basePrice + colorPrice + optionalsPrice;
-      const withDiscount = subtotal - discountAmountValue;
-      const withMarkup = withDiscount + markupAmountValue;
-      const total = withMarkup * quantityValue;
-      
-      setTotalPrice(subtotal);
-      setFinalPrice(total);
-    } else {
-      setTotalPrice(0);
-      setFinalPrice(0);
-    }
-  }, [basePrice, colorPrice, optionalsPrice, discountAmount, markupAmount, quantity]);
-  
   // Reset selected price type when vehicle changes
   useEffect(() => {
     setSelectedPriceType(null);
     setSelectedOptionals([]);
-    setOptionalsPrice(0);
   }, [selectedVehicle]);
   
   // Handle optional selection
-  const handleOptionalToggle = (optionalId: number, price: string) => {
-    setSelectedOptionals(prev => {
-      // Verificar se o opcional já está selecionado
-      const isSelected = prev.includes(optionalId);
-      
-      if (isSelected) {
-        // Se já estiver selecionado, remove
-        setOptionalsPrice(prevPrice => prevPrice - parseFloat(price));
-        return prev.filter(id => id !== optionalId);
-      } else {
-        // Se não estiver selecionado, adiciona
-        setOptionalsPrice(prevPrice => prevPrice + parseFloat(price));
-        return [...prev, optionalId];
-      }
-    });
+  const handleOptionalToggle = (optionalId: number) => {
+    setSelectedOptionals(prev => 
+      prev.includes(optionalId)
+        ? prev.filter(id => id !== optionalId)
+        : [...prev, optionalId]
+    );
   };
   
   // Handle price card selection
@@ -394,42 +360,46 @@ function Configurator() {
     }
   };
   
-  // Calcula o preço atual com base no tipo de preço selecionado
-  const getCurrentBasePrice = () => {
-    if (!selectedPriceType) return basePrice;
-    
-    switch (selectedPriceType) {
-      case 'pcdIpi':
-        return pcdIpiPrice;
-      case 'taxiIpiIcms':
-        return taxiIpiIcmsPrice;
-      case 'pcdIpiIcms':
-        return pcdIpiIcmsPrice;
-      case 'taxiIpi':
-        return taxiIpiPrice;
-      default:
-        return basePrice;
-    }
-  };
+  // Preço calculado no servidor (mesmo motor do configurador novo e dos orçamentos).
+  // O veículo de demonstração não existe no banco e é calculado localmente com as mesmas regras.
+  const isRegisteredVehicle = !!selectedVehicle && (allVehicles as Vehicle[]).some(v => v.id === selectedVehicle.id);
+  const activeDirectSaleId = selectedDirectSaleId && selectedDirectSaleId !== "0" 
+    ? parseInt(selectedDirectSaleId) 
+    : null;
   
-  // Calcula o preço final com base no tipo de preço selecionado
-  const getCurrentFinalPrice = () => {
-    if (!selectedPriceType) return finalPrice;
-    
-    const currentBase = getCurrentBasePrice();
-    const discountAmountValue = parseFloat(discountAmount) || 0;
-    const markupAmountValue = parseFloat(markupAmount) || 0;
-    const quantityValue = parseInt(quantity) || 1;
-    
-    // Adiciona o preço da cor e dos opcionais selecionados
-    const withAdditions = currentBase + colorPrice + optionalsPrice;
-    // Subtrai o desconto
-    const withDiscount = withAdditions - discountAmountValue;
-    // Adiciona o ágio
-    const withMarkup = withDiscount + markupAmountValue;
-    // Multiplica pela quantidade
-    return withMarkup * quantityValue;
-  };
+  const { data: serverPricing, isError: pricingFailed } = usePricing(isRegisteredVehicle ? {
+    versionId: parseInt(selectedVersionId),
+    vehicleId: selectedVehicle.id,
+    colorId: selectedColorId ? parseInt(selectedColorId) : null,
+    optionalIds: selectedOptionals,
+    priceType: (selectedPriceType || 'public') as PriceType,
+    directSaleId: activeDirectSaleId,
+    discountPercentage: activeDirectSaleId ? undefined : parseFloat(discountPercent) || 0,
+    surchargeAmount: parseFloat(markupAmount) || 0,
+    quantity: parseInt(quantity) || 1
+  } : null);
+  
+  const pricing = isRegisteredVehicle && serverPricing && !pricingFailed
+    ? serverPricing
+    : calculatePricing({
+        prices: selectedVehicle || { publicPrice: 0, pcdIpi: 0, pcdIpiIcms: 0, taxiIpiIcms: 0, taxiIpi: 0 },
+        priceType: (selectedPriceType || 'public') as PriceType,
+        paintPrice: colorPrice,
+        optionals: selectedOptionals.map(optionalId => ({
+          optionalId,
+          price: (versionOptionals as any[]).find(vo => vo.optionalId === optionalId)?.price || 0
+        })),
+        discountPercentage: discountPercent,
+        surchargeAmount: markupAmount,
+        quantity: parseInt(quantity) || 1
+      });
+  
+  // Mantém o campo "DESC. R$" em sincronia quando o desconto é informado em percentual
+  useEffect(() => {
+    if (discountSourceRef.current === 'percent') {
+      setDiscountAmount(pricing.discountAmount.toFixed(2));
+    }
+  }, [pricing.discountAmount]);
   
   // Get color card background style
   const getColorStyle = (hexCode: string) => {
@@ -666,7 +636,7 @@ function Configurator() {
                                       <Checkbox 
                                         id={`optional-${opt.id}`} 
                                         checked={selectedOptionals.includes(opt.optionalId)}
-                                        onCheckedChange={() => handleOptionalToggle(opt.optionalId, opt.price)}
+                                        onCheckedChange={() => handleOptionalToggle(opt.optionalId)}
                                       />
                                       <div>
                                         <label htmlFor={`optional-${opt.id}`} className="font-medium cursor-pointer">
@@ -753,33 +723,33 @@ function Configurator() {
                     <div className={`grid ${isMobile ? 'grid-cols-1 sm:grid-cols-2' : 'grid-cols-2'} gap-4 mb-4`}>
                       <Card className="p-4">
                         <div className="text-xs mb-1">Preço Base</div>
-                        <div className="font-bold">{formatCurrency(getCurrentBasePrice())}</div>
+                        <div className="font-bold">{formatCurrency(pricing.basePrice)}</div>
                       </Card>
                       
                       <Card className="p-4">
                         <div className="text-xs mb-1">Pintura</div>
-                        <div className="font-bold">{formatCurrency(colorPrice)}</div>
+                        <div className="font-bold">{formatCurrency(pricing.paintPrice)}</div>
                       </Card>
                       
                       <Card className="p-4">
                         <div className="text-xs mb-1">Opcionais {selectedOptionals.length > 0 && `(${selectedOptionals.length})`}</div>
-                        <div className="font-bold">{formatCurrency(optionalsPrice)}</div>
+                        <div className="font-bold">{formatCurrency(pricing.optionalsTotal)}</div>
                       </Card>
                       
                       <Card className="p-4">
                         <div className="text-xs mb-1">Total</div>
-                        <div className="font-bold">{formatCurrency(getCurrentBasePrice() + colorPrice + optionalsPrice)}</div>
+                        <div className="font-bold">{formatCurrency(pricing.subtotal)}</div>
                       </Card>
                       
                       <Card className="p-4">
                         <div className="text-xs mb-1">Desc. {discountPercent}%</div>
-                        <div className="font-bold">{formatConfiguratorCurrency(parseFloat(discountAmount))}</div>
+                        <div className="font-bold">{formatConfiguratorCurrency(pricing.discountAmount)}</div>
                       </Card>
                     </div>
                     
                     <Card className="p-4 bg-primary text-white">
                       <div className="text-sm mb-1">Preço Final x{quantity}</div>
-                      <div className="text-xl font-bold">{formatCurrency(getCurrentFinalPrice())}</div>
+                      <div className="text-xl font-bold">{formatCurrency(pricing.totalPrice)}</div>
                     </Card>
                     
                     <div className="mt-6">
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
 import { 
   Select, 
   SelectContent, 
@@ -14,12 +14,33 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
-import { ChevronDown, ChevronUp, FileText, Printer, LayoutTemplate } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { CalendarClock, ChevronDown, ChevronUp, FileText, Printer, LayoutTemplate, Save, UserPlus } from "lucide-react";
 import { formatCurrency } from "@/lib/formatters";
 import { hasPermission } from "@/lib/permissions";
 import { useAuth } from "@/hooks/use-auth";
-import { getQueryFn, queryClient } from "@/lib/queryClient";
+import { getQueryFn, queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePricing } from "@/hooks/use-pricing";
+import { Customer, Quote, QuotePriceType, StatePriceAdjustment } from "@/lib/types";
+import { getBasePrice, getRegionalAdjustmentAmount, PRICE_TYPE_LABELS, toAmount, type PriceType, type PricingRequest } from "@shared/pricing";
+import {
+  CUSTOMER_ELIGIBLE_PRICE_TYPES,
+  CUSTOMER_TYPE_LABELS,
+  formatAddress,
+  formatDocument,
+  getDefaultPriceType
+} from "@shared/customers";
 import VehicleReport from "@/components/VehicleReport";
+import StateSelect from "@/components/StateSelect";
+import type { StockCount, StockSummary } from "@shared/stockUnits";
+import {
+  DEFAULT_RESERVATION_EXPIRY_HOURS,
+  RESERVATION_EXPIRY_HOURS,
+  RESERVATION_EXPIRY_LABELS,
+  type AvailabilityItem
+} from "@shared/reservations";
 
 
 interface Brand {
@@ -134,6 +155,8 @@ export default function Configurator2() {
   const [selectedVersionId, setSelectedVersionId] = useState<string>("");
   const [selectedColorId, setSelectedColorId] = useState<string>("");
   const [selectedDirectSaleId, setSelectedDirectSaleId] = useState<string>("");
+  // Cliente do orçamento (opcional): define o tipo de preço sugerido
+  const [selectedCustomerId, setSelectedCustomerId] = useState<string>("");
   const [selectedOptionals, setSelectedOptionals] = useState<number[]>([]);
   const [activeTab, setActiveTab] = useState("equipment");
   const [optionalsExpanded, setOptionalsExpanded] = useState(true);
@@ -155,25 +178,26 @@ export default function Configurator2() {
   const [pcdIpiIcms, setPcdIpiIcms] = useState(0);
   const [taxiIpi, setTaxiIpi] = useState(0);
   const [selectedPriceType, setSelectedPriceType] = useState<string | null>(null);
+  // Data da tabela de preços (vazio = preços vigentes hoje)
+  const [priceDate, setPriceDate] = useState("");
+  // UF de venda (preços regionais): começa com a UF do perfil do usuário
+  const [saleState, setSaleState] = useState<string | null>(user.state ?? null);
+  
+  // Orçamento em edição (aberto a partir da lista de orçamentos via ?quote=ID)
+  const { toast } = useToast();
+  const [editingQuoteId, setEditingQuoteId] = useState<number | null>(() => {
+    const quoteParam = new URLSearchParams(window.location.search).get("quote");
+    return quoteParam ? parseInt(quoteParam) || null : null;
+  });
+  const [isSavingQuote, setIsSavingQuote] = useState(false);
+  // Reserva do veículo/cor escolhido para o cliente selecionado
+  const [showReservationDialog, setShowReservationDialog] = useState(false);
+  const [reservationHours, setReservationHours] = useState(String(DEFAULT_RESERVATION_EXPIRY_HOURS));
+  const [reservationNotes, setReservationNotes] = useState("");
+  const [isReserving, setIsReserving] = useState(false);
+  const restoringQuoteRef = useRef<Quote | null>(null);
+  const quoteRestoredRef = useRef(false);
   
-  // Função para obter o preço base correto baseado no tipo selecionado
-  const getCurrentBasePrice = () => {
-    if (!selectedPriceType) return Number(publicPrice) || 0;
-    
-    switch (selectedPriceType) {
-      case 'pcdIpi':
-        return Number(pcdIpi) || 0;
-      case 'taxiIpiIcms':
-        return Number(taxiIpiIcms) || 0;
-      case 'pcdIpiIcms':
-        return Number(pcdIpiIcms) || 0;
-      case 'taxiIpi':
-        return Number(taxiIpi) || 0;
-      default:
-        return Number(publicPrice) || 0;
-    }
-  };
-
   // Função para lidar com seleção de cartões de preço
   const handlePriceCardClick = (priceType: string) => {
     // Limpa os valores de desconto e ágio cada vez que um cartão é clicado
@@ -210,13 +234,49 @@ export default function Configurator2() {
   });
 
   const { data: allVehicles = [] } = useQuery<Vehicle[]>({
-    queryKey: ["/api/vehicles"],
+    queryKey: [priceDate ? `/api/vehicles?date=${priceDate}` : "/api/vehicles"],
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: stateAdjustments = [] } = useQuery<StatePriceAdjustment[]>({
+    queryKey: ["/api/regional-prices/adjustments"],
   });
 
-  const { data: directSales = [] } = useQuery<DirectSale[]>({
+  const regionalAdjustmentPercentage = saleState
+    ? Number(stateAdjustments.find(adjustment => adjustment.state === saleState)?.adjustmentPercentage) || 0
+    : 0;
+
+  // Preço de tabela na UF de venda (os preços isentos de ICMS não mudam)
+  const withRegionalAdjustment = (price: number | string, priceType: PriceType) => {
+    const amount = toAmount(price);
+    return amount + getRegionalAdjustmentAmount(amount, priceType, regionalAdjustmentPercentage);
+  };
+
+  const { data: directSales = [], isFetched: directSalesFetched } = useQuery<DirectSale[]>({
     queryKey: ["/api/direct-sales"],
   });
 
+  // Recarrega ao voltar para a aba, já que o cadastro de cliente abre em outra aba
+  const { data: customers = [] } = useQuery<Customer[]>({
+    queryKey: ["/api/customers"],
+    refetchOnWindowFocus: true,
+  });
+
+  const selectedCustomer = selectedCustomerId
+    ? customers.find(c => c.id === parseInt(selectedCustomerId))
+    : undefined;
+
+  // Tipo de preço inicial: o padrão do cliente ou, sem cliente, o preço público (null)
+  const getCustomerPriceType = (customer: Customer | undefined = selectedCustomer) => {
+    const priceType = customer ? getDefaultPriceType(customer.type) : 'public';
+    return priceType === 'public' ? null : priceType;
+  };
+
+  const { data: quoteToRestore } = useQuery<Quote>({
+    queryKey: [`/api/quotes/${editingQuoteId}`],
+    enabled: !!editingQuoteId && !quoteRestoredRef.current,
+  });
+
   // Listen for direct sales updates from other parts of the app
   useEffect(() => {
     const handleStorageChange = () => {
@@ -239,7 +299,7 @@ export default function Configurator2() {
     };
   }, []);
 
-  const { data: versionColors = [] } = useQuery<VersionColor[]>({
+  const { data: versionColors = [], isFetched: versionColorsFetched } = useQuery<VersionColor[]>({
     queryKey: ["/api/version-colors", selectedVersionId],
     queryFn: async () => {
       if (!selectedVersionId) return [];
@@ -253,7 +313,7 @@ export default function Configurator2() {
     enabled: !!selectedVersionId,
   });
 
-  const { data: versionOptionals = [] } = useQuery<VersionOptional[]>({
+  const { data: versionOptionals = [], isFetched: versionOptionalsFetched } = useQuery<VersionOptional[]>({
     queryKey: ["/api/version-optionals", selectedVersionId],
     queryFn: async () => {
       if (!selectedVersionId) return [];
@@ -406,136 +466,138 @@ export default function Configurator2() {
     ? `${selectedVersion.model?.brand?.name || ""} ${selectedVersion.model?.name || ""} ${selectedVersion.name} ${selectedVehicle?.fuelType || ""} ${selectedVehicle?.year || ""}` 
     : "";
 
+  // Unidades físicas do veículo em estoque e em trânsito; com uma cor escolhida, só as dessa cor
+  const { data: stockSummary } = useQuery<StockSummary>({
+    queryKey: [`/api/stock-units/summary?vehicleId=${selectedVehicle?.id}`],
+    enabled: !!selectedVehicle,
+  });
+  const stockCount: StockCount | null = stockSummary
+    ? selectedColorId
+      ? stockSummary.byColor[parseInt(selectedColorId)] ?? { inStock: 0, inTransit: 0 }
+      : stockSummary
+    : null;
+  // Quantidade disponível para reserva (cadastrada menos as reservas ativas) da cor escolhida
+  const { data: availability = [] } = useQuery<AvailabilityItem[]>({
+    queryKey: [`/api/availability?vehicleId=${selectedVehicle?.id}`],
+    enabled: !!selectedVehicle,
+  });
+  const selectedAvailability = selectedColorId
+    ? availability.find(item => item.colorId === parseInt(selectedColorId))
+    : undefined;
+
+  const stockInfo = stockCount && (
+    <p className="text-center text-sm text-gray-600">
+      <span className={stockCount.inStock > 0 ? "font-semibold text-green-700" : ""}>
+        Em estoque: {stockCount.inStock}
+      </span>
+      {stockCount.inTransit > 0 && <span> · Em trânsito: {stockCount.inTransit}</span>}
+      {!selectedColorId && <span className="text-gray-400"> (todas as cores)</span>}
+      {selectedAvailability && (
+        <span>
+          {" "}· Disponível para reserva: {selectedAvailability.available}
+          {selectedAvailability.reserved > 0 && ` (${selectedAvailability.reserved} reservada(s))`}
+        </span>
+      )}
+    </p>
+  );
+
   const selectedColorImage = selectedColorId && versionColors.length > 0
     ? versionColors.find(vc => vc.colorId === parseInt(selectedColorId))?.imageUrl || ""
     : "";
 
-  // Quando mudamos de veículo, atualizar os preços iniciais
+  // Restaurar um orçamento salvo: primeiro marca, modelo e versão...
   useEffect(() => {
-    if (selectedVehicle) {
-      // Usar diretamente o preço público do veículo
-      setPublicPrice(selectedVehicle.publicPrice);
-      
-      // Atualizar preços de isenção
-      setPcdIpi(selectedVehicle.pcdIpi);
-      setPcdIpiIcms(selectedVehicle.pcdIpiIcms);
-      setTaxiIpiIcms(selectedVehicle.taxiIpiIcms);
-      setTaxiIpi(selectedVehicle.taxiIpi);
-      
-      // Cálculo de desconto aplicado sobre base + pintura + opcionais
-      const directSale = selectedDirectSaleId 
-        ? directSales.find(ds => ds.id === parseInt(selectedDirectSaleId)) 
-        : null;
-      
-      const calculatedDiscountPercentage = directSale ? directSale.discountPercentage : 0;
-      
-      // Calcular desconto sobre preço base + pintura + opcionais
-      const basePrice = getCurrentBasePrice();
-      const paintCost = Number(paintPrice) || 0;
-      const optionalsCost = Number(optionalsTotal) || 0;
-      const totalBeforeDiscount = basePrice + paintCost + optionalsCost;
-      
-      const calculatedDiscountAmount = (totalBeforeDiscount * calculatedDiscountPercentage) / 100;
-      
-      setDiscountPercentage(calculatedDiscountPercentage);
-      setDiscountAmount(calculatedDiscountAmount);
-      
-    }
-  }, [selectedVehicle, selectedDirectSaleId, directSales, selectedPriceType, publicPrice, pcdIpi, pcdIpiIcms, taxiIpiIcms, taxiIpi, paintPrice, optionalsTotal]);
-
-  // useEffect separado para cálculo de opcionais
+    if (!quoteToRestore || quoteRestoredRef.current || restoringQuoteRef.current) return;
+    
+    const version = allVersions.find(v => v.id === quoteToRestore.versionId);
+    const model = version ? allModels.find(m => m.id === version.modelId) : undefined;
+    if (!version || !model) return;
+    
+    // Enquanto a restauração estiver em andamento, os efeitos de limpeza em cascata são ignorados
+    restoringQuoteRef.current = quoteToRestore;
+    setPriceDate(quoteToRestore.snapshot.priceDate || "");
+    setSaleState(quoteToRestore.state ?? null);
+    setSelectedBrandId(model.brandId.toString());
+    setSelectedModelId(model.id.toString());
+    setSelectedVersionId(version.id.toString());
+  }, [quoteToRestore, allVersions, allModels]);
+
+  // ...e depois cor, opcionais e condições comerciais, quando os dados da versão estiverem carregados
   useEffect(() => {
-    if (versionOptionals.length > 0) {
-      const selectedOptionalsTotal = versionOptionals
-        .filter(opt => selectedOptionals.includes(opt.optionalId))
-        .reduce((sum, opt) => sum + (Number(opt.price) || 0), 0);
-      
-      setOptionalsTotal(selectedOptionalsTotal);
-    } else {
-      setOptionalsTotal(0);
-    }
-  }, [selectedOptionals, versionOptionals]);
+    const quote = restoringQuoteRef.current;
+    if (!quote || selectedVersionId !== quote.versionId.toString()) return;
+    if (!versionColorsFetched || !versionOptionalsFetched || !directSalesFetched || !selectedVehicle) return;
+    
+    const versionColor = quote.colorId 
+      ? versionColors.find(vc => vc.colorId === quote.colorId) 
+      : undefined;
+    const directSale = quote.directSaleId 
+      ? directSales.find(ds => ds.id === quote.directSaleId) 
+      : undefined;
+    
+    setSelectedColorId(versionColor ? versionColor.colorId.toString() : "");
+    setSelectedOptionals(quote.optionalIds.filter(id => versionOptionals.some(vo => vo.optionalId === id)));
+    setSelectedPriceType(quote.priceType === 'public' ? null : quote.priceType);
+    setSelectedCustomerId(quote.customerId ? quote.customerId.toString() : "");
+    setSelectedDirectSaleId(directSale ? directSale.id.toString() : "");
+    setDiscountPercentage(Number(quote.discountPercentage) || 0);
+    setSurchargeAmount(Number(quote.surchargeAmount) || 0);
+    setQuantity(quote.quantity || 1);
+    
+    restoringQuoteRef.current = null;
+    quoteRestoredRef.current = true;
+  }, [selectedVersionId, versionColorsFetched, versionOptionalsFetched, directSalesFetched, versionColors, versionOptionals, directSales, selectedVehicle]);
 
-  // useEffect para recalcular desconto de DROPDOWN quando pintura ou opcionais mudam
-  useEffect(() => {
-    // APENAS para desconto de dropdown (não manual)
-    if (selectedDirectSaleId && selectedDirectSaleId !== "0" && discountPercentage > 0) {
-      // Recalcular desconto sobre preço base + pintura + opcionais
-      const basePrice = getCurrentBasePrice();
-      const paintCost = Number(paintPrice) || 0;
-      const optionalsCost = Number(optionalsTotal) || 0;
-      const totalBeforeDiscount = basePrice + paintCost + optionalsCost;
-      
-      const calculatedDiscountAmount = (totalBeforeDiscount * discountPercentage) / 100;
-      setDiscountAmount(calculatedDiscountAmount);
-    }
-  }, [paintPrice, optionalsTotal, selectedDirectSaleId, selectedPriceType, publicPrice, pcdIpi, pcdIpiIcms, taxiIpiIcms, taxiIpi]);
-  
-  // useEffect para recalcular desconto manual quando pintura ou opcionais mudam
+  // Quando mudamos de veículo ou de UF, atualizar os preços de tabela exibidos nos cartões
   useEffect(() => {
-    if (discountPercentage > 0 && (!selectedDirectSaleId || selectedDirectSaleId === "0")) {
-      // Recalcular desconto manual sobre preço base + pintura + opcionais
-      const basePrice = getCurrentBasePrice();
-      const paintCost = Number(paintPrice) || 0;
-      const optionalsCost = Number(optionalsTotal) || 0;
-      const totalBeforeDiscount = basePrice + paintCost + optionalsCost;
+    if (selectedVehicle) {
+      // Preço público do veículo com o ajuste da UF de venda
+      setPublicPrice(withRegionalAdjustment(selectedVehicle.publicPrice, 'public'));
       
-      const calculatedDiscountAmount = (totalBeforeDiscount * discountPercentage) / 100;
-      setDiscountAmount(calculatedDiscountAmount);
+      // Atualizar preços de isenção
+      setPcdIpi(withRegionalAdjustment(selectedVehicle.pcdIpi, 'pcdIpi'));
+      setPcdIpiIcms(withRegionalAdjustment(selectedVehicle.pcdIpiIcms, 'pcdIpiIcms'));
+      setTaxiIpiIcms(withRegionalAdjustment(selectedVehicle.taxiIpiIcms, 'taxiIpiIcms'));
+      setTaxiIpi(withRegionalAdjustment(selectedVehicle.taxiIpi, 'taxiIpi'));
     }
-  }, [paintPrice, optionalsTotal, discountPercentage, selectedDirectSaleId, selectedPriceType, publicPrice, pcdIpi, pcdIpiIcms, taxiIpiIcms, taxiIpi]);
+  }, [selectedVehicle, regionalAdjustmentPercentage]);
+
+  // Preço calculado no servidor (mesmo motor usado pelos orçamentos).
+  // O desconto manual só é enviado quando não há venda direta selecionada.
+  const activeDirectSaleId = selectedDirectSaleId && selectedDirectSaleId !== "0" 
+    ? parseInt(selectedDirectSaleId) 
+    : null;
   
-  // Efeito separado para cálculo do preço final baseado em todas as entradas do usuário
+  const { data: pricing } = usePricing(selectedVehicle && selectedVersionId ? {
+    versionId: parseInt(selectedVersionId),
+    vehicleId: selectedVehicle.id,
+    colorId: selectedColorId ? parseInt(selectedColorId) : null,
+    optionalIds: selectedOptionals,
+    priceType: (selectedPriceType || 'public') as PriceType,
+    directSaleId: activeDirectSaleId,
+    discountPercentage: activeDirectSaleId ? undefined : discountPercentage,
+    surchargeAmount,
+    quantity,
+    date: priceDate || undefined,
+    state: saleState as PricingRequest['state']
+  } : null);
+
   useEffect(() => {
-    if (selectedVehicle) {
-      // Preço base para cálculo final
-      let basePrice = Number(publicPrice) || 0;
-      
-      // Se tiver um tipo de preço selecionado, usa ele como base
-      if (selectedPriceType) {
-        switch (selectedPriceType) {
-          case 'pcdIpi':
-            basePrice = Number(pcdIpi) || 0;
-            break;
-          case 'taxiIpiIcms':
-            basePrice = Number(taxiIpiIcms) || 0;
-            break;
-          case 'pcdIpiIcms':
-            basePrice = Number(pcdIpiIcms) || 0;
-            break;
-          case 'taxiIpi':
-            basePrice = Number(taxiIpi) || 0;
-            break;
-        }
-      }
-      
-      // Garantir que todos os valores são números válidos
-      const discount = Number(discountAmount) || 0;
-      const surcharge = Number(surchargeAmount) || 0;
-      const optionalsPrice = Number(optionalsTotal) || 0;
-      const paintCost = Number(paintPrice) || 0;
-      
-      // Calcular preço final
-      const calculatedFinalPrice = basePrice - discount + surcharge + optionalsPrice + paintCost;
-      setFinalPrice(calculatedFinalPrice);
+    if (!pricing) return;
+    
+    setPaintPrice(pricing.paintPrice);
+    setOptionalsTotal(pricing.optionalsTotal);
+    setDiscountAmount(pricing.discountAmount);
+    setFinalPrice(pricing.unitPrice);
+    
+    if (pricing.directSaleId) {
+      setDiscountPercentage(pricing.discountPercentage);
     }
-  }, [
-    selectedVehicle, 
-    selectedPriceType, 
-    publicPrice, 
-    pcdIpi, 
-    pcdIpiIcms, 
-    taxiIpiIcms, 
-    taxiIpi, 
-    discountAmount, 
-    surchargeAmount, 
-    optionalsTotal, 
-    paintPrice
-  ]);
+  }, [pricing]);
 
   // Limpeza de campos dependentes
   useEffect(() => {
-    if (selectedBrandId) {
+    if (selectedBrandId && !restoringQuoteRef.current) {
       setSelectedModelId("");
       setSelectedVersionId("");
       setSelectedColorId("");
@@ -547,7 +609,7 @@ export default function Configurator2() {
   }, [selectedBrandId]);
 
   useEffect(() => {
-    if (selectedModelId) {
+    if (selectedModelId && !restoringQuoteRef.current) {
       setSelectedVersionId("");
       setSelectedColorId("");
       setSelectedOptionals([]);
@@ -558,7 +620,7 @@ export default function Configurator2() {
   }, [selectedModelId]);
 
   useEffect(() => {
-    if (selectedVersionId) {
+    if (selectedVersionId && !restoringQuoteRef.current) {
       setSelectedColorId("");
       setSelectedOptionals([]);
       setOptionalsTotal(0);
@@ -581,7 +643,7 @@ export default function Configurator2() {
     setDiscountPercentage(0);
     setDiscountAmount(0);
     setSurchargeAmount(0);
-    setSelectedPriceType(null); // Reset price type selection
+    setSelectedPriceType(getCustomerPriceType()); // Volta ao tipo de preço do cliente
     
     // Reset optionals
     setSelectedOptionals([]);
@@ -599,7 +661,7 @@ export default function Configurator2() {
     // setDiscountPercentage(0);
     // setDiscountAmount(0);
     setSurchargeAmount(0);
-    setSelectedPriceType(null); // Reset price type selection
+    setSelectedPriceType(getCustomerPriceType()); // Volta ao tipo de preço do cliente
     
     // Reset optionals
     setSelectedOptionals([]);
@@ -607,56 +669,31 @@ export default function Configurator2() {
     setPaintPrice(0);
   };
 
+  // Ao escolher o cliente, o tipo de preço passa a ser o padrão da sua elegibilidade (PcD, taxista)
+  const handleCustomerChange = (value: string) => {
+    const customerId = value === "0" ? "" : value;
+    setSelectedCustomerId(customerId);
+
+    const customer = customerId ? customers.find(c => c.id === parseInt(customerId)) : undefined;
+    setSelectedPriceType(getCustomerPriceType(customer));
+    setDiscountPercentage(0);
+    setDiscountAmount(0);
+    setSurchargeAmount(0);
+    setSelectedDirectSaleId("");
+  };
+
   const handleColorChange = (value: string) => {
     setSelectedColorId(value);
-    
-    // Atualizar o preço da pintura quando uma cor for selecionada
-    let newPaintPrice = 0;
-    if (value && versionColors.length > 0) {
-      const selectedColor = versionColors.find(vc => vc.colorId.toString() === value);
-      if (selectedColor) {
-        // Usando verificação segura, podemos acessar diferentes formatos de dados
-        const colorPrice = 
-          typeof selectedColor.price === 'number' ? selectedColor.price :
-          selectedColor.price !== undefined ? Number(selectedColor.price) : 
-          500; // Valor fixo para simulação
-        newPaintPrice = colorPrice;
-      }
-    }
-    setPaintPrice(newPaintPrice);
-    
-    // Recalcular desconto se há um desconto ativo (dropdown ou manual)
-    if (discountPercentage > 0) {
-      // Calcular desconto sobre preço base + nova pintura + opcionais
-      const basePrice = getCurrentBasePrice();
-      const paintCost = newPaintPrice;
-      const optionalsCost = Number(optionalsTotal) || 0;
-      const totalBeforeDiscount = basePrice + paintCost + optionalsCost;
-      
-      const calculatedDiscountAmount = (totalBeforeDiscount * discountPercentage) / 100;
-      setDiscountAmount(calculatedDiscountAmount);
-    }
   };
 
   const handleDirectSaleChange = (value: string) => {
     setSelectedDirectSaleId(value);
     
-    // Recalcular desconto imediatamente quando selecionado
+    // O percentual da venda direta é confirmado pelo cálculo no servidor
     if (value && value !== "0") {
       const directSale = directSales.find(ds => ds.id === parseInt(value));
       if (directSale) {
-        const calculatedDiscountPercentage = directSale.discountPercentage;
-        
-        // Calcular desconto sobre preço base + pintura + opcionais
-        const basePrice = getCurrentBasePrice();
-        const paintCost = Number(paintPrice) || 0;
-        const optionalsCost = Number(optionalsTotal) || 0;
-        const totalBeforeDiscount = basePrice + paintCost + optionalsCost;
-        
-        const calculatedDiscountAmount = (totalBeforeDiscount * calculatedDiscountPercentage) / 100;
-        
-        setDiscountPercentage(calculatedDiscountPercentage);
-        setDiscountAmount(calculatedDiscountAmount);
+        setDiscountPercentage(Number(directSale.discountPercentage) || 0);
       }
     } else {
       // Se não há desconto selecionado, zerar
@@ -709,6 +746,42 @@ export default function Configurator2() {
           <h1 className="text-2xl font-semibold text-gray-800 text-center">MONTE SEU VEÍCULO</h1>
         </div>
 
+        {/* Cliente do orçamento */}
+        <div className="mb-6 max-w-xl mx-auto w-full">
+          <div className="bg-[#082a58] text-white px-4 py-2 font-semibold mb-1 uppercase text-center rounded-md">
+            CLIENTE
+          </div>
+          <div className="flex gap-2">
+            <Select value={selectedCustomerId} onValueChange={handleCustomerChange}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="SELECIONE UM CLIENTE (OPCIONAL)" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  <SelectLabel>CLIENTES</SelectLabel>
+                  <SelectItem value="0">SEM CLIENTE</SelectItem>
+                  {customers.map(customer => (
+                    <SelectItem key={customer.id} value={customer.id.toString()}>
+                      {customer.name.toUpperCase()} - {formatDocument(customer.document)}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" asChild title="Cadastrar cliente (abre em outra aba)">
+              <a href="/customers/new" target="_blank" rel="noopener noreferrer">
+                <UserPlus className="h-4 w-4" />
+              </a>
+            </Button>
+          </div>
+          {selectedCustomer && (
+            <p className="text-xs text-gray-600 text-center mt-1 uppercase">
+              {CUSTOMER_TYPE_LABELS[selectedCustomer.type]} · Preços elegíveis:{" "}
+              {CUSTOMER_ELIGIBLE_PRICE_TYPES[selectedCustomer.type].map(type => PRICE_TYPE_LABELS[type]).join(", ")}
+            </p>
+          )}
+        </div>
+
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
         {/* Dropdown de Marca */}
         <div className="w-full">
@@ -819,6 +892,7 @@ export default function Configurator2() {
                   </SelectGroup>
                 </SelectContent>
               </Select>
+              {stockInfo && <div className="mt-2">{stockInfo}</div>}
             </div>
 
             {/* Dropdown de Descontos mobile */}
@@ -853,6 +927,29 @@ export default function Configurator2() {
             </div>
           </div>
           
+          {/* Data da tabela de preços: permite consultar preços agendados ou anteriores */}
+          <div className="flex items-center justify-end gap-2 mb-4">
+            <Label htmlFor="price-date" className="text-sm font-semibold uppercase text-gray-600">
+              Tabela de preços em
+            </Label>
+            <input
+              id="price-date"
+              type="date"
+              value={priceDate}
+              onChange={(e) => setPriceDate(e.target.value)}
+              className="border-2 border-gray-300 rounded-md px-2 py-1 text-sm"
+            />
+            {priceDate && (
+              <Button variant="ghost" size="sm" onClick={() => setPriceDate("")}>
+                Hoje
+              </Button>
+            )}
+            <Label htmlFor="sale-state" className="ml-4 text-sm font-semibold uppercase text-gray-600">
+              UF de venda
+            </Label>
+            <StateSelect id="sale-state" value={saleState} onChange={setSaleState} className="w-44" />
+          </div>
+
           {/* MOBILE PREÇOS - exibidos apenas para dispositivos móveis */}
           <div className="block md:hidden mb-6">
             <div className="w-full max-w-[280px] mx-auto space-y-1">
@@ -1004,6 +1101,8 @@ export default function Configurator2() {
                     </div>
                   )}
                 </div>
+
+                {stockInfo && <div className="mt-2 hidden md:block">{stockInfo}</div>}
               </div>
             </div>
 
@@ -1069,16 +1168,8 @@ export default function Configurator2() {
                             // Limpar seleção de dropdown para evitar conflito
                             setSelectedDirectSaleId("");
                             
-                            // Calcular desconto sobre preço base + pintura + opcionais
-                            const basePrice = getCurrentBasePrice();
-                            const paintCost = Number(paintPrice) || 0;
-                            const optionalsCost = Number(optionalsTotal) || 0;
-                            const totalBeforeDiscount = basePrice + paintCost + optionalsCost;
-                            
-                            const newDiscountAmount = (totalBeforeDiscount * newPercentage) / 100;
-                            
+                            // O valor do desconto é recalculado no servidor
                             setDiscountPercentage(newPercentage);
-                            setDiscountAmount(newDiscountAmount);
                           }
                         }}
                         className="w-full text-right border-none outline-none bg-transparent"
@@ -1177,6 +1268,11 @@ export default function Configurator2() {
                           publicPrice
                         )}
                       </div>
+                      {!!pricing?.regionalAdjustmentAmount && (
+                        <div className="text-xs text-gray-500">
+                          (inclui ajuste {saleState} de {pricing.regionalAdjustmentPercentage}%)
+                        </div>
+                      )}
                     </div>
                     <div>
                       <div className="text-sm font-medium">Pintura</div>
@@ -1212,6 +1308,15 @@ export default function Configurator2() {
                       <div className="font-bold">{formatCurrency(surchargeAmount)}</div>
                     </div>
                   </div>
+                  
+                  {saleState && (
+                    <div className="grid grid-cols-2 gap-4 mt-3">
+                      <div>
+                        <div className="text-sm font-medium">Frete ({saleState})</div>
+                        <div className="font-bold">{formatCurrency(pricing?.freightAmount ?? 0)}</div>
+                      </div>
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -1305,6 +1410,27 @@ export default function Configurator2() {
               VISUALIZAR/IMPRIMIR
             </Button>
             
+            <Button 
+              className="bg-[#082a58] text-white hover:bg-[#0a3675] px-8 py-2 uppercase w-full md:w-auto"
+              onClick={handleSaveQuote}
+              disabled={!selectedVehicle || isSavingQuote}
+            >
+              <Save className="mr-2 h-4 w-4" />
+              {editingQuoteId ? `ATUALIZAR ORÇAMENTO #${editingQuoteId}` : "SALVAR ORÇAMENTO"}
+            </Button>
+            
+            <Button 
+              className="bg-[#082a58] text-white hover:bg-[#0a3675] px-8 py-2 uppercase w-full md:w-auto"
+              onClick={() => setShowReservationDialog(true)}
+              disabled={!selectedVehicle || !selectedAvailability || !selectedCustomer || selectedAvailability.available === 0}
+              title={!selectedCustomer || !selectedColorId
+                ? "Selecione o cliente e a cor para reservar"
+                : selectedAvailability?.available === 0 ? "Nenhuma unidade disponível nesta cor" : undefined}
+            >
+              <CalendarClock className="mr-2 h-4 w-4" />
+              RESERVAR
+            </Button>
+            
             <Button 
               className="bg-[#082a58] text-white hover:bg-[#0a3675] px-8 py-2 uppercase w-full md:w-auto"
             >
@@ -1315,6 +1441,55 @@ export default function Configurator2() {
         </div>
       )}
       
+      {/* Reserva para o cliente selecionado */}
+      <Dialog open={showReservationDialog} onOpenChange={setShowReservationDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reservar veículo</DialogTitle>
+            <DialogDescription>
+              {selectedVehicleTitle}
+              {selectedAvailability && ` · ${selectedAvailability.colorName}`}
+              {selectedCustomer && ` · para ${selectedCustomer.name}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid gap-2">
+              <Label>Prazo da reserva</Label>
+              <Select value={reservationHours} onValueChange={setReservationHours}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RESERVATION_EXPIRY_HOURS.map(hours => (
+                    <SelectItem key={hours} value={hours.toString()}>{RESERVATION_EXPIRY_LABELS[hours]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Depois do prazo a reserva é liberada automaticamente.
+              </p>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="reservation-notes">Observações</Label>
+              <Textarea
+                id="reservation-notes"
+                rows={3}
+                value={reservationNotes}
+                onChange={(e) => setReservationNotes(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowReservationDialog(false)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleReserve} disabled={isReserving}>
+              {isReserving ? "Reservando..." : "Confirmar reserva"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Relatório de Impressão */}
       {showReport && selectedVehicle && (
         <VehicleReport 
@@ -1326,6 +1501,131 @@ export default function Configurator2() {
     </div>
   );
 
+  // Salvar (ou atualizar) o orçamento congelando a configuração e os valores atuais
+  async function handleSaveQuote() {
+    if (!selectedVehicle || !selectedVersionId) return;
+    
+    const reportData = getReportData();
+    const directSale = selectedDirectSaleId && selectedDirectSaleId !== "0"
+      ? directSales.find(ds => ds.id === parseInt(selectedDirectSaleId))
+      : undefined;
+    
+    // Os valores monetários são recalculados pelo servidor a partir desta configuração
+    const quoteData = {
+      vehicleId: selectedVehicle.id,
+      versionId: parseInt(selectedVersionId),
+      colorId: selectedColorId ? parseInt(selectedColorId) : null,
+      directSaleId: directSale ? directSale.id : null,
+      customerId: selectedCustomer ? selectedCustomer.id : null,
+      optionalIds: selectedOptionals,
+      priceType: (selectedPriceType || 'public') as QuotePriceType,
+      discountPercentage: (Number(discountPercentage) || 0).toFixed(2),
+      surchargeAmount: (Number(surchargeAmount) || 0).toFixed(2),
+      quantity,
+      state: saleState,
+      snapshot: {
+        brand: reportData.brand,
+        model: reportData.model,
+        version: reportData.version,
+        year: Number(reportData.year),
+        fuelType: reportData.fuelType,
+        priceTypeLabel: reportData.priceType,
+        color: reportData.selectedColor ? {
+          name: reportData.selectedColor.name,
+          price: Number(reportData.selectedColor.price) || 0,
+          imageUrl: reportData.selectedColor.imageUrl || null
+        } : undefined,
+        optionals: selectedOptionals.map(optId => {
+          const optional = versionOptionals.find(vo => vo.optionalId === optId);
+          return {
+            optionalId: optId,
+            name: optional?.optional?.name || '',
+            price: Number(optional?.price) || 0
+          };
+        }),
+        directSaleName: directSale?.name || null,
+        vehicleDescription: selectedVehicle.description || null,
+        priceDate: priceDate || null
+      }
+    };
+    
+    setIsSavingQuote(true);
+    try {
+      const response = editingQuoteId
+        ? await apiRequest("PATCH", `/api/quotes/${editingQuoteId}`, quoteData)
+        : await apiRequest("POST", "/api/quotes", quoteData);
+      if (!response.ok) {
+        throw new Error(`Erro ao salvar orçamento: ${response.statusText}`);
+      }
+      const savedQuote: Quote = await response.json();
+      
+      if (!editingQuoteId) {
+        // Passar a editar o orçamento recém-criado sem recarregar a página
+        quoteRestoredRef.current = true;
+        setEditingQuoteId(savedQuote.id);
+        window.history.replaceState(null, "", `/configurator2?quote=${savedQuote.id}`);
+      }
+      
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/quotes")
+      });
+      
+      toast({
+        title: editingQuoteId ? "Orçamento atualizado" : "Orçamento salvo",
+        description: `O orçamento #${savedQuote.id} foi salvo com sucesso.`,
+      });
+    } catch (error) {
+      console.error("Erro ao salvar orçamento:", error);
+      toast({
+        title: "Erro ao salvar",
+        description: "Ocorreu um erro ao salvar o orçamento. Tente novamente.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingQuote(false);
+    }
+  }
+
+  // Reservar uma unidade do veículo/cor para o cliente; sem unidade livre o servidor responde 409
+  async function handleReserve() {
+    if (!selectedVehicle || !selectedAvailability || !selectedCustomer) return;
+
+    setIsReserving(true);
+    try {
+      const response = await apiRequest("POST", "/api/reservations", {
+        vehicleId: selectedVehicle.id,
+        versionColorId: selectedAvailability.versionColorId,
+        customerId: selectedCustomer.id,
+        expiresInHours: parseInt(reservationHours),
+        notes: reservationNotes || null
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || result.errors?.[0]?.message || "Erro ao reservar o veículo");
+      }
+
+      toast({
+        title: "Veículo reservado",
+        description: `Reserva #${result.id} para ${selectedCustomer.name} válida até ${new Date(result.expiresAt).toLocaleString('pt-BR')}.`,
+      });
+      setShowReservationDialog(false);
+      setReservationNotes("");
+    } catch (error) {
+      console.error("Erro ao reservar veículo:", error);
+      toast({
+        title: "Não foi possível reservar",
+        description: error instanceof Error ? error.message : "Ocorreu um erro ao reservar o veículo.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsReserving(false);
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/availability") ||
+          String(query.queryKey[0]).startsWith("/api/reservations")
+      });
+    }
+  }
+
   // Função para gerar dados do relatório
   function getReportData() {
     const selectedBrand = brands.find(b => b.id === parseInt(selectedBrandId));
@@ -1342,32 +1642,17 @@ export default function Configurator2() {
       };
     });
 
-    // Determina o preço base e tipo baseado na seleção
-    let basePrice = publicPrice;
-    let priceType = 'PREÇO PÚBLICO';
-    
-    if (selectedPriceType) {
-      switch (selectedPriceType) {
-        case 'pcdIpi':
-          basePrice = pcdIpi;
-          priceType = 'PCD IPI';
-          break;
-        case 'taxiIpiIcms':
-          basePrice = taxiIpiIcms;
-          priceType = 'TAXI IPI/ICMS';
-          break;
-        case 'pcdIpiIcms':
-          basePrice = pcdIpiIcms;
-          priceType = 'PCD IPI/ICMS';
-          break;
-        case 'taxiIpi':
-          basePrice = taxiIpi;
-          priceType = 'TAXI IPI';
-          break;
-      }
-    }
+    // Determina o preço base e tipo baseado na seleção (mesmas regras do cálculo no servidor)
+    const currentPriceType = (selectedPriceType || 'public') as PriceType;
+    const basePrice = pricing?.basePrice ?? getBasePrice(
+      { publicPrice, pcdIpi, pcdIpiIcms, taxiIpiIcms, taxiIpi },
+      currentPriceType
+    );
+    const priceType = PRICE_TYPE_LABELS[currentPriceType];
 
     return {
+      versionId: selectedVersionId ? parseInt(selectedVersionId) : null,
+      colorId: selectedColorId ? parseInt(selectedColorId) : null,
       brand: selectedBrand?.name || '',
       model: selectedModel?.name || '',
       version: selectedVersion?.name || '',
@@ -1384,10 +1669,21 @@ export default function Configurator2() {
       discountPercent: discountPercentage,
       discountAmount: discountAmount,
       markupAmount: surchargeAmount,
+      state: saleState,
+      regionalAdjustmentAmount: pricing?.regionalAdjustmentAmount ?? 0,
+      freightAmount: pricing?.freightAmount ?? 0,
       finalPrice: finalPrice,
       quantity: 1,
       vehicleDescription: selectedVehicle?.description,
-      vehicleImage: selectedColor?.imageUrl
+      vehicleImage: selectedColor?.imageUrl,
+      customer: selectedCustomer ? {
+        name: selectedCustomer.name,
+        document: formatDocument(selectedCustomer.document),
+        typeLabel: CUSTOMER_TYPE_LABELS[selectedCustomer.type],
+        email: selectedCustomer.email,
+        phone: selectedCustomer.phone,
+        address: selectedCustomer.addresses[0] ? formatAddress(selectedCustomer.addresses[0]) : null
+      } : undefined
     };
   }
 }
\ No newline at end of file
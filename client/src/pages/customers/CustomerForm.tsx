@@ -0,0 +1,464 @@
+import { useEffect, useState } from "react";
+import { Link, useParams, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, ChevronLeft, Loader2, Plus, Save, Trash } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Customer } from "@/lib/types";
+import {
+  BRAZILIAN_STATES,
+  CUSTOMER_ELIGIBLE_PRICE_TYPES,
+  CUSTOMER_TYPES,
+  CUSTOMER_TYPE_LABELS,
+  CustomerInput,
+  customerInputSchema,
+  formatDocument,
+  getDocumentKind
+} from "@shared/customers";
+import { PRICE_TYPE_LABELS } from "@shared/pricing";
+
+const emptyContact = { name: "", email: "", phone: "" };
+const emptyAddress = { zipCode: "", street: "", number: "", complement: "", district: "", city: "", state: "SP" as const };
+
+const defaultValues: CustomerInput = {
+  type: "pf",
+  name: "",
+  document: "",
+  email: "",
+  phone: "",
+  notes: "",
+  contacts: [],
+  addresses: []
+};
+
+export default function CustomerForm() {
+  const { id } = useParams();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const isEditing = Boolean(id);
+  const [serverError, setServerError] = useState<string | null>(null);
+
+  const form = useForm<CustomerInput>({
+    resolver: zodResolver(customerInputSchema),
+    defaultValues,
+  });
+  const contacts = useFieldArray({ control: form.control, name: "contacts" });
+  const addresses = useFieldArray({ control: form.control, name: "addresses" });
+
+  const { data: customer, isLoading: isLoadingCustomer } = useQuery<Customer>({
+    queryKey: [isEditing ? `/api/customers/${id}` : null],
+    enabled: isEditing,
+  });
+
+  useEffect(() => {
+    if (customer) {
+      form.reset({
+        type: customer.type,
+        name: customer.name,
+        document: formatDocument(customer.document),
+        email: customer.email || "",
+        phone: customer.phone || "",
+        notes: customer.notes || "",
+        contacts: customer.contacts.map(contact => ({
+          name: contact.name,
+          email: contact.email || "",
+          phone: contact.phone || ""
+        })),
+        addresses: customer.addresses.map(address => ({
+          ...address,
+          complement: address.complement || ""
+        }))
+      });
+    }
+  }, [customer, form]);
+
+  const customerType = form.watch("type");
+  const documentKind = getDocumentKind(customerType);
+
+  const handleSubmit = async (values: CustomerInput) => {
+    setServerError(null);
+    try {
+      const response = isEditing
+        ? await apiRequest("PATCH", `/api/customers/${id}`, values)
+        : await apiRequest("POST", "/api/customers", values);
+      const result = await response.json();
+
+      if (!response.ok) {
+        const message = result.message || result.errors?.[0]?.message || "Ocorreu um erro ao salvar o cliente.";
+        setServerError(message);
+        toast({ title: "Erro ao salvar", description: message, variant: "destructive" });
+        return;
+      }
+
+      toast({
+        title: isEditing ? "Cliente atualizado" : "Cliente cadastrado",
+        description: `O cliente ${result.name} foi salvo com sucesso!`,
+      });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/customers")
+      });
+      navigate("/customers");
+    } catch (error) {
+      console.error("Erro ao salvar cliente:", error);
+      toast({
+        title: "Erro ao salvar",
+        description: "Ocorreu um erro ao salvar o cliente.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isEditing && isLoadingCustomer) {
+    return <div>Carregando...</div>;
+  }
+
+  return (
+    <div>
+      <div className="flex items-center mb-6">
+        <Link href="/customers" className="mr-4">
+          <Button variant="outline" size="sm">
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Voltar
+          </Button>
+        </Link>
+        <h1 className="text-2xl font-semibold text-gray-800">
+          {isEditing ? `Editar Cliente: ${customer?.name}` : "Novo Cliente"}
+        </h1>
+      </div>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+          {serverError && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4 mr-2" />
+              <AlertDescription>{serverError}</AlertDescription>
+            </Alert>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Dados do Cliente</CardTitle>
+              <CardDescription>
+                O tipo define as tabelas de preço sugeridas no configurador:{" "}
+                {CUSTOMER_ELIGIBLE_PRICE_TYPES[customerType].map(type => PRICE_TYPE_LABELS[type]).join(", ")}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tipo de cliente</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {CUSTOMER_TYPES.map(type => (
+                          <SelectItem key={type} value={type}>{CUSTOMER_TYPE_LABELS[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="document"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{documentKind === 'cnpj' ? "CNPJ" : "CPF"}</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder={documentKind === 'cnpj' ? "00.000.000/0000-00" : "000.000.000-00"}
+                        {...field}
+                        onBlur={() => {
+                          field.onChange(formatDocument(field.value));
+                          field.onBlur();
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem className="md:col-span-2">
+                    <FormLabel>{documentKind === 'cnpj' ? "Razão social" : "Nome completo"}</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Telefone</FormLabel>
+                    <FormControl>
+                      <Input placeholder="(00) 00000-0000" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem className="md:col-span-2">
+                    <FormLabel>Observações</FormLabel>
+                    <FormControl>
+                      <Textarea rows={3} {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle>Contatos</CardTitle>
+                <CardDescription>Outras pessoas com quem negociar (ex.: responsável pela compra na empresa)</CardDescription>
+              </div>
+              <Button type="button" variant="outline" size="sm" onClick={() => contacts.append(emptyContact)}>
+                <Plus className="h-4 w-4 mr-1" />
+                Adicionar contato
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {contacts.fields.length === 0 && (
+                <p className="text-sm text-muted-foreground">Nenhum contato adicional.</p>
+              )}
+              {contacts.fields.map((contact, index) => (
+                <div key={contact.id} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-3 items-start border rounded-md p-3">
+                  <FormField
+                    control={form.control}
+                    name={`contacts.${index}.name`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Nome</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`contacts.${index}.email`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Email</FormLabel>
+                        <FormControl>
+                          <Input type="email" {...field} value={field.value ?? ""} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`contacts.${index}.phone`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Telefone</FormLabel>
+                        <FormControl>
+                          <Input {...field} value={field.value ?? ""} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="button" variant="ghost" size="sm" className="mt-8" onClick={() => contacts.remove(index)} title="Remover contato">
+                    <Trash className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle>Endereços</CardTitle>
+                <CardDescription>O primeiro endereço é o impresso no relatório do veículo</CardDescription>
+              </div>
+              <Button type="button" variant="outline" size="sm" onClick={() => addresses.append(emptyAddress)}>
+                <Plus className="h-4 w-4 mr-1" />
+                Adicionar endereço
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {addresses.fields.length === 0 && (
+                <p className="text-sm text-muted-foreground">Nenhum endereço cadastrado.</p>
+              )}
+              {addresses.fields.map((address, index) => (
+                <div key={address.id} className="grid grid-cols-1 md:grid-cols-6 gap-3 border rounded-md p-3">
+                  <FormField
+                    control={form.control}
+                    name={`addresses.${index}.zipCode`}
+                    render={({ field }) => (
+                      <FormItem className="md:col-span-2">
+                        <FormLabel>CEP</FormLabel>
+                        <FormControl>
+                          <Input placeholder="00000-000" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`addresses.${index}.street`}
+                    render={({ field }) => (
+                      <FormItem className="md:col-span-3">
+                        <FormLabel>Logradouro</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`addresses.${index}.number`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Número</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`addresses.${index}.complement`}
+                    render={({ field }) => (
+                      <FormItem className="md:col-span-2">
+                        <FormLabel>Complemento</FormLabel>
+                        <FormControl>
+                          <Input {...field} value={field.value ?? ""} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`addresses.${index}.district`}
+                    render={({ field }) => (
+                      <FormItem className="md:col-span-2">
+                        <FormLabel>Bairro</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`addresses.${index}.city`}
+                    render={({ field }) => (
+                      <FormItem className="md:col-span-2">
+                        <FormLabel>Cidade</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`addresses.${index}.state`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>UF</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {BRAZILIAN_STATES.map(state => (
+                              <SelectItem key={state} value={state}>{state}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="flex items-end justify-end md:col-span-5">
+                    <Button type="button" variant="ghost" size="sm" onClick={() => addresses.remove(index)}>
+                      <Trash className="h-4 w-4 mr-1 text-red-500" />
+                      Remover endereço
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={form.formState.isSubmitting}>
+              {form.formState.isSubmitting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
+              {isEditing ? "Salvar Alterações" : "Cadastrar Cliente"}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+}
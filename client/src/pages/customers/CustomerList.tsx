@@ -0,0 +1,165 @@
+import React from 'react';
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { PlusCircle, Edit, Trash, Search } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Customer } from "@/lib/types";
+import { CUSTOMER_TYPE_LABELS, formatDocument } from "@shared/customers";
+
+export default function CustomerList() {
+  const { toast } = useToast();
+  const [deleteId, setDeleteId] = React.useState<number | null>(null);
+  const [searchFilter, setSearchFilter] = React.useState("");
+
+  // A busca é feita no servidor (nome ou CPF/CNPJ)
+  const search = searchFilter.trim();
+  const { data: customers = [], isLoading, error } = useQuery<Customer[]>({
+    queryKey: [search ? `/api/customers?search=${encodeURIComponent(search)}` : "/api/customers"],
+  });
+
+  const handleDelete = async (customer: Customer) => {
+    if (!window.confirm(`Excluir o cliente "${customer.name}"? Os orçamentos já salvos mantêm o nome do cliente.`)) return;
+
+    setDeleteId(customer.id);
+    try {
+      const response = await apiRequest("DELETE", `/api/customers/${customer.id}`);
+      if (!response.ok) {
+        throw new Error(`Erro ao excluir cliente: ${response.statusText}`);
+      }
+
+      toast({
+        title: "Cliente excluído",
+        description: "O cliente foi excluído com sucesso.",
+      });
+
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/customers")
+      });
+    } catch (error) {
+      console.error("Erro ao excluir cliente:", error);
+      toast({
+        title: "Erro ao excluir",
+        description: "Ocorreu um erro ao excluir o cliente. Tente novamente.",
+        variant: "destructive",
+      });
+    } finally {
+      setDeleteId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Clientes</CardTitle>
+          <CardDescription>Cadastro de compradores usado nos orçamentos e relatórios</CardDescription>
+        </div>
+        <Link href="/customers/new">
+          <Button className="flex items-center">
+            <PlusCircle className="mr-2 h-4 w-4" />
+            Novo Cliente
+          </Button>
+        </Link>
+      </CardHeader>
+      <CardContent>
+        <div className="mb-6">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+            <Input
+              type="text"
+              placeholder="Buscar por nome, CPF ou CNPJ..."
+              value={searchFilter}
+              onChange={(e) => setSearchFilter(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center h-32">
+            <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full"></div>
+            <span className="ml-2">Carregando...</span>
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 text-red-700">
+            <p className="font-medium">Erro ao carregar clientes</p>
+            <p className="text-sm mt-1">Por favor, tente novamente mais tarde.</p>
+          </div>
+        ) : customers.length === 0 ? (
+          <div className="text-center p-8 text-gray-500">
+            {search ? (
+              <p>Nenhum cliente encontrado para "{search}"</p>
+            ) : (
+              <>
+                <p>Nenhum cliente cadastrado</p>
+                <p className="text-sm mt-2">
+                  Clique em "Novo Cliente" para adicionar.
+                </p>
+              </>
+            )}
+          </div>
+        ) : (
+          <div className="border rounded-md">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-muted/50">
+                  <th className="text-left p-3 font-medium">Nome</th>
+                  <th className="text-left p-3 font-medium">CPF/CNPJ</th>
+                  <th className="text-left p-3 font-medium">Tipo</th>
+                  <th className="text-left p-3 font-medium">Contato</th>
+                  <th className="text-left p-3 font-medium">Cidade</th>
+                  <th className="text-right p-3 font-medium">Ações</th>
+                </tr>
+              </thead>
+              <tbody>
+                {customers.map(customer => (
+                  <tr key={customer.id} className="border-t">
+                    <td className="p-3 font-medium">{customer.name}</td>
+                    <td className="p-3 whitespace-nowrap">{formatDocument(customer.document)}</td>
+                    <td className="p-3">
+                      <Badge variant="outline">{CUSTOMER_TYPE_LABELS[customer.type]}</Badge>
+                    </td>
+                    <td className="p-3 text-sm">
+                      {customer.phone && <div>{customer.phone}</div>}
+                      {customer.email && <div className="text-muted-foreground">{customer.email}</div>}
+                      {!customer.phone && !customer.email && "-"}
+                    </td>
+                    <td className="p-3 text-sm">
+                      {customer.addresses[0] ? `${customer.addresses[0].city}/${customer.addresses[0].state}` : "-"}
+                    </td>
+                    <td className="p-3 text-right">
+                      <div className="flex justify-end gap-2">
+                        <Link href={`/customers/${customer.id}/edit`}>
+                          <Button size="sm" variant="ghost">
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        </Link>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleDelete(customer)}
+                          disabled={deleteId === customer.id}
+                        >
+                          {deleteId === customer.id ? (
+                            <div className="animate-spin h-4 w-4 border-2 border-primary border-t-transparent rounded-full" />
+                          ) : (
+                            <Trash className="h-4 w-4 text-red-500" />
+                          )}
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
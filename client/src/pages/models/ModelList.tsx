@@ -104,7 +104,7 @@ export default function ModelList() {
                             <AlertDialogHeader>
                               <AlertDialogTitle>Confirmar exclusão</AlertDialogTitle>
                               <AlertDialogDescription>
-                                Tem certeza que deseja excluir o modelo "{model.name}"? Esta ação não pode ser desfeita.
+                                O modelo "{model.name}" e suas versões e veículos serão movidos para a Lixeira, de onde um administrador pode restaurá-los.
                               </AlertDialogDescription>
                             </AlertDialogHeader>
                             <AlertDialogFooter>
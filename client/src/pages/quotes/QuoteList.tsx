@@ -0,0 +1,339 @@
+import React from 'react';
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { PlusCircle, Eye, Edit, Copy, Trash, Search } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/formatters";
+import { Quote } from "@/lib/types";
+import VehicleReport from "@/components/VehicleReport";
+
+// Monta os dados do relatório a partir dos valores congelados no orçamento
+function getQuoteReportData(quote: Quote) {
+  const { snapshot } = quote;
+
+  return {
+    versionId: quote.versionId,
+    colorId: quote.colorId,
+    brand: snapshot.brand,
+    model: snapshot.model,
+    version: snapshot.version,
+    year: snapshot.year,
+    fuelType: snapshot.fuelType,
+    selectedColor: snapshot.color ? {
+      name: snapshot.color.name,
+      price: snapshot.color.price,
+      imageUrl: snapshot.color.imageUrl || undefined
+    } : undefined,
+    selectedOptionals: snapshot.optionals.map(opt => ({ name: opt.name, price: opt.price })),
+    basePrice: Number(quote.basePrice),
+    priceType: snapshot.priceTypeLabel,
+    discountPercent: Number(quote.discountPercentage),
+    discountAmount: Number(quote.discountAmount),
+    markupAmount: Number(quote.surchargeAmount),
+    state: quote.state,
+    regionalAdjustmentAmount: Number(quote.regionalAdjustmentAmount),
+    freightAmount: Number(quote.freightAmount),
+    finalPrice: Number(quote.unitPrice),
+    quantity: quote.quantity,
+    vehicleDescription: snapshot.vehicleDescription || undefined,
+    vehicleImage: snapshot.color?.imageUrl || undefined,
+    customer: snapshot.customer || undefined
+  };
+}
+
+export default function QuoteList() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const isAdmin = user?.role?.name === "Administrador";
+  const [showAll, setShowAll] = React.useState(false);
+  const [searchFilter, setSearchFilter] = React.useState("");
+  const [busyId, setBusyId] = React.useState<number | null>(null);
+  const [reportQuote, setReportQuote] = React.useState<Quote | null>(null);
+
+  const quotesUrl = isAdmin && showAll ? "/api/quotes?scope=all" : "/api/quotes";
+
+  const { data: quotes = [], isLoading, error } = useQuery<Quote[]>({
+    queryKey: [quotesUrl],
+  });
+
+  // Filtrar orçamentos pela busca
+  const filteredQuotes = React.useMemo(() => {
+    if (!searchFilter.trim()) return quotes;
+
+    const searchTerm = searchFilter.toLowerCase().trim();
+    return quotes.filter(quote =>
+      quote.snapshot.brand?.toLowerCase().includes(searchTerm) ||
+      quote.snapshot.model?.toLowerCase().includes(searchTerm) ||
+      quote.snapshot.version?.toLowerCase().includes(searchTerm) ||
+      quote.user?.name?.toLowerCase().includes(searchTerm) ||
+      quote.snapshot.customer?.name.toLowerCase().includes(searchTerm) ||
+      String(quote.id).includes(searchTerm)
+    );
+  }, [quotes, searchFilter]);
+
+  const invalidateQuotes = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/quotes")
+    });
+  };
+
+  const handleDuplicate = async (id: number) => {
+    setBusyId(id);
+
+    try {
+      const response = await apiRequest("POST", `/api/quotes/${id}/duplicate`);
+      if (!response.ok) {
+        throw new Error(`Erro ao duplicar orçamento: ${response.statusText}`);
+      }
+      const duplicated: Quote = await response.json();
+
+      toast({
+        title: "Orçamento duplicado",
+        description: `O orçamento #${duplicated.id} foi criado a partir do orçamento #${id}.`,
+      });
+
+      invalidateQuotes();
+    } catch (error) {
+      console.error("Erro ao duplicar orçamento:", error);
+      toast({
+        title: "Erro ao duplicar",
+        description: "Ocorreu um erro ao duplicar o orçamento. Tente novamente.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    if (!window.confirm(`Deseja realmente excluir o orçamento #${id}?`)) return;
+
+    setBusyId(id);
+
+    try {
+      const response = await apiRequest("DELETE", `/api/quotes/${id}`);
+      if (!response.ok) {
+        throw new Error(`Erro ao excluir orçamento: ${response.statusText}`);
+      }
+
+      toast({
+        title: "Orçamento excluído",
+        description: "O orçamento foi excluído com sucesso.",
+      });
+
+      invalidateQuotes();
+    } catch (error) {
+      console.error("Erro ao excluir orçamento:", error);
+      toast({
+        title: "Erro ao excluir",
+        description: "Ocorreu um erro ao excluir o orçamento. Tente novamente.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Orçamentos</CardTitle>
+          <CardDescription>Orçamentos salvos a partir do configurador</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex justify-center items-center h-32">
+            <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full"></div>
+            <span className="ml-2">Carregando...</span>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Orçamentos</CardTitle>
+          <CardDescription>Orçamentos salvos a partir do configurador</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 text-red-700">
+            <p className="font-medium">Erro ao carregar orçamentos</p>
+            <p className="text-sm mt-1">Por favor, tente novamente mais tarde.</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Orçamentos</CardTitle>
+          <CardDescription>Orçamentos salvos a partir do configurador</CardDescription>
+        </div>
+        <Link href="/configurator2">
+          <Button className="flex items-center">
+            <PlusCircle className="mr-2 h-4 w-4" />
+            Novo Orçamento
+          </Button>
+        </Link>
+      </CardHeader>
+      <CardContent>
+        {/* Filtros */}
+        <div className="mb-6 flex flex-col md:flex-row md:items-center gap-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+            <Input
+              type="text"
+              placeholder="Buscar por número, marca, modelo, versão, cliente ou vendedor..."
+              value={searchFilter}
+              onChange={(e) => setSearchFilter(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          {isAdmin && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="show-all-quotes"
+                checked={showAll}
+                onCheckedChange={(checked) => setShowAll(checked === true)}
+              />
+              <Label htmlFor="show-all-quotes">Mostrar orçamentos de todos os usuários</Label>
+            </div>
+          )}
+        </div>
+
+        {filteredQuotes.length === 0 ? (
+          <div className="text-center p-8 text-gray-500">
+            {searchFilter.trim() ? (
+              <>
+                <p>Nenhum orçamento encontrado para "{searchFilter}"</p>
+                <p className="text-sm mt-2">
+                  Tente buscar com um termo diferente ou limpe o filtro.
+                </p>
+              </>
+            ) : (
+              <>
+                <p>Nenhum orçamento salvo</p>
+                <p className="text-sm mt-2">
+                  Use o botão "Salvar Orçamento" no configurador para criar um.
+                </p>
+              </>
+            )}
+          </div>
+        ) : (
+          <div className="border rounded-md overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-muted/50">
+                  <th className="text-left p-3 font-medium">Nº</th>
+                  <th className="text-left p-3 font-medium">Data</th>
+                  <th className="text-left p-3 font-medium">Cliente</th>
+                  <th className="text-left p-3 font-medium">Veículo</th>
+                  <th className="text-left p-3 font-medium">Cor</th>
+                  <th className="text-left p-3 font-medium">Tipo de Preço</th>
+                  {isAdmin && showAll && <th className="text-left p-3 font-medium">Vendedor</th>}
+                  <th className="text-center p-3 font-medium">Qtd.</th>
+                  <th className="text-right p-3 font-medium">Total</th>
+                  <th className="text-right p-3 font-medium">Ações</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredQuotes.map(quote => (
+                  <tr key={quote.id} className="border-t">
+                    <td className="p-3 font-medium">#{quote.id}</td>
+                    <td className="p-3 whitespace-nowrap">
+                      {quote.createdAt ? new Date(quote.createdAt).toLocaleString('pt-BR') : "-"}
+                    </td>
+                    <td className="p-3">
+                      {quote.snapshot.customer ? (
+                        <>
+                          <span className="font-medium">{quote.snapshot.customer.name}</span>
+                          <div className="text-sm text-gray-500">{quote.snapshot.customer.document}</div>
+                        </>
+                      ) : "-"}
+                    </td>
+                    <td className="p-3">
+                      <span className="font-medium">
+                        {quote.snapshot.brand} {quote.snapshot.model}
+                      </span>
+                      <div className="text-sm text-gray-500">
+                        {quote.snapshot.version} {quote.snapshot.year}
+                      </div>
+                    </td>
+                    <td className="p-3">{quote.snapshot.color?.name || "-"}</td>
+                    <td className="p-3">
+                      {quote.snapshot.priceTypeLabel}
+                      {quote.snapshot.directSaleName && (
+                        <div className="text-sm text-gray-500">{quote.snapshot.directSaleName}</div>
+                      )}
+                    </td>
+                    {isAdmin && showAll && <td className="p-3">{quote.user?.name || "-"}</td>}
+                    <td className="p-3 text-center">{quote.quantity}</td>
+                    <td className="p-3 text-right whitespace-nowrap">
+                      {formatCurrency(Number(quote.totalPrice))}
+                    </td>
+                    <td className="p-3 text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          title="Visualizar"
+                          onClick={() => setReportQuote(quote)}
+                        >
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                        <Link href={`/configurator2?quote=${quote.id}`}>
+                          <Button size="sm" variant="ghost" title="Abrir no configurador">
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        </Link>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          title="Duplicar"
+                          onClick={() => handleDuplicate(quote.id)}
+                          disabled={busyId === quote.id}
+                        >
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          title="Excluir"
+                          onClick={() => handleDelete(quote.id)}
+                          disabled={busyId === quote.id}
+                        >
+                          <Trash className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Relatório com os valores congelados do orçamento */}
+      {reportQuote && (
+        <VehicleReport
+          vehicleData={getQuoteReportData(reportQuote)}
+          onClose={() => setReportQuote(null)}
+        />
+      )}
+    </Card>
+  );
+}
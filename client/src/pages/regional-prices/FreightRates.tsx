@@ -0,0 +1,285 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Pencil, Plus, Save, Trash, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/formatters";
+import { Brand, FreightRate, Model } from "@/lib/types";
+import { BRAZILIAN_STATES } from "@shared/customers";
+
+// O Select não aceita valor vazio; "all" representa todos os modelos da marca
+const ALL_MODELS = "all";
+
+interface FreightDraft {
+  state: string;
+  brandId: string;
+  modelId: string;
+  amount: string;
+}
+
+const EMPTY_DRAFT: FreightDraft = { state: "", brandId: "", modelId: ALL_MODELS, amount: "" };
+
+// Frete por UF, cadastrado para a marca inteira ou para um modelo (que tem prioridade)
+export default function FreightRates() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<FreightDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [stateFilter, setStateFilter] = useState("all");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: rates = [], isLoading, error } = useQuery<FreightRate[]>({
+    queryKey: ["/api/regional-prices/freight"],
+  });
+
+  const { data: brands = [] } = useQuery<Brand[]>({
+    queryKey: ["/api/brands"],
+  });
+
+  const { data: models = [] } = useQuery<Model[]>({
+    queryKey: ["/api/models"],
+  });
+
+  const brandModels = models.filter(model => model.brandId === parseInt(draft.brandId));
+  const visibleRates = rates.filter(rate => stateFilter === "all" || rate.state === stateFilter);
+
+  const resetForm = () => {
+    setDraft(EMPTY_DRAFT);
+    setEditingId(null);
+  };
+
+  const handleEdit = (rate: FreightRate) => {
+    setEditingId(rate.id);
+    setDraft({
+      state: rate.state,
+      brandId: rate.brandId.toString(),
+      modelId: rate.modelId ? rate.modelId.toString() : ALL_MODELS,
+      amount: String(Number(rate.amount))
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft.state || !draft.brandId || draft.amount.trim() === '') {
+      toast({
+        title: "Dados incompletos",
+        description: "Informe a UF, a marca e o valor do frete.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const payload = {
+      state: draft.state,
+      brandId: parseInt(draft.brandId),
+      modelId: draft.modelId === ALL_MODELS ? null : parseInt(draft.modelId),
+      amount: Number(draft.amount)
+    };
+
+    setIsSaving(true);
+    try {
+      const response = editingId
+        ? await apiRequest("PATCH", `/api/regional-prices/freight/${editingId}`, payload)
+        : await apiRequest("POST", "/api/regional-prices/freight", payload);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.errors?.[0]?.message || errorData.message || "Erro ao salvar frete");
+      }
+
+      toast({
+        title: editingId ? "Frete atualizado" : "Frete cadastrado",
+        description: `Frete de ${formatCurrency(payload.amount)} para ${payload.state}.`,
+      });
+      resetForm();
+      queryClient.invalidateQueries({ queryKey: ["/api/regional-prices/freight"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pricing/calculate"] });
+    } catch (error) {
+      console.error("Erro ao salvar frete:", error);
+      toast({
+        title: "Erro ao salvar",
+        description: error instanceof Error ? error.message : "Não foi possível salvar o frete.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (rate: FreightRate) => {
+    try {
+      const response = await apiRequest("DELETE", `/api/regional-prices/freight/${rate.id}`);
+      if (!response.ok) {
+        throw new Error("Erro ao excluir frete");
+      }
+      if (editingId === rate.id) resetForm();
+      queryClient.invalidateQueries({ queryKey: ["/api/regional-prices/freight"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pricing/calculate"] });
+    } catch (error) {
+      console.error("Erro ao excluir frete:", error);
+      toast({
+        title: "Erro ao excluir",
+        description: "Não foi possível excluir o frete.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Frete por UF</CardTitle>
+        <CardDescription>
+          Valor somado ao preço de cada veículo vendido na UF. O frete de um modelo tem prioridade sobre
+          o frete cadastrado para a marca; sem nenhum dos dois, não há frete.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+          <div className="grid gap-2">
+            <Label>UF</Label>
+            <Select value={draft.state} onValueChange={(value) => setDraft(prev => ({ ...prev, state: value }))}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione" />
+              </SelectTrigger>
+              <SelectContent>
+                {BRAZILIAN_STATES.map(state => (
+                  <SelectItem key={state} value={state}>{state}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label>Marca</Label>
+            <Select
+              value={draft.brandId}
+              onValueChange={(value) => setDraft(prev => ({ ...prev, brandId: value, modelId: ALL_MODELS }))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione" />
+              </SelectTrigger>
+              <SelectContent>
+                {brands.map(brand => (
+                  <SelectItem key={brand.id} value={brand.id.toString()}>{brand.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label>Modelo</Label>
+            <Select
+              value={draft.modelId}
+              onValueChange={(value) => setDraft(prev => ({ ...prev, modelId: value }))}
+              disabled={!draft.brandId}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_MODELS}>Todos os modelos</SelectItem>
+                {brandModels.map(model => (
+                  <SelectItem key={model.id} value={model.id.toString()}>{model.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="freight-amount">Frete (R$)</Label>
+            <Input
+              id="freight-amount"
+              type="number"
+              step="0.01"
+              min="0"
+              value={draft.amount}
+              onChange={(e) => setDraft(prev => ({ ...prev, amount: e.target.value }))}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={isSaving} className="flex-1">
+              {isSaving ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : editingId ? (
+                <Save className="mr-2 h-4 w-4" />
+              ) : (
+                <Plus className="mr-2 h-4 w-4" />
+              )}
+              {editingId ? "Salvar" : "Adicionar"}
+            </Button>
+            {editingId && (
+              <Button variant="ghost" onClick={resetForm}>
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Label>Filtrar por UF</Label>
+          <Select value={stateFilter} onValueChange={setStateFilter}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todas</SelectItem>
+              {BRAZILIAN_STATES.map(state => (
+                <SelectItem key={state} value={state}>{state}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center h-24">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            <span className="ml-2">Carregando fretes...</span>
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 text-red-700">
+            <p className="font-medium">Erro ao carregar fretes</p>
+          </div>
+        ) : visibleRates.length === 0 ? (
+          <div className="text-center p-8 text-gray-500">
+            Nenhum frete cadastrado.
+          </div>
+        ) : (
+          <div className="border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>UF</TableHead>
+                  <TableHead>Marca</TableHead>
+                  <TableHead>Modelo</TableHead>
+                  <TableHead className="text-right">Frete</TableHead>
+                  <TableHead className="w-24"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleRates.map(rate => (
+                  <TableRow key={rate.id}>
+                    <TableCell className="font-medium">{rate.state}</TableCell>
+                    <TableCell>{rate.brand?.name}</TableCell>
+                    <TableCell>{rate.model?.name || <span className="text-muted-foreground">Todos os modelos</span>}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(Number(rate.amount))}</TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button size="sm" variant="ghost" onClick={() => handleEdit(rate)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => handleDelete(rate)}>
+                          <Trash className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { StatePriceAdjustment } from "@/lib/types";
+import { BRAZILIAN_STATES } from "@shared/customers";
+import FreightRates from "./FreightRates";
+
+// Percentual digitado por UF; vazio = sem ajuste
+type AdjustmentDraft = Record<string, string>;
+
+export default function RegionalPricesPage() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<AdjustmentDraft>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: adjustments, isLoading, error } = useQuery<StatePriceAdjustment[]>({
+    queryKey: ["/api/regional-prices/adjustments"],
+  });
+
+  useEffect(() => {
+    if (adjustments) {
+      setDraft(Object.fromEntries(adjustments.map(item => [item.state, String(Number(item.adjustmentPercentage))])));
+    }
+  }, [adjustments]);
+
+  const handleSave = async () => {
+    const items = Object.entries(draft)
+      .filter(([, value]) => value.trim() !== '')
+      .map(([state, value]) => ({
+        state,
+        adjustmentPercentage: Number(value),
+        notes: adjustments?.find(item => item.state === state)?.notes ?? null
+      }));
+
+    setIsSaving(true);
+    try {
+      const response = await apiRequest("PUT", "/api/regional-prices/adjustments", items);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.errors?.[0]?.message || errorData.message || "Erro ao salvar ajustes por UF");
+      }
+
+      toast({
+        title: "Ajustes salvos",
+        description: "Os preços do configurador e da exportação passam a usar os novos percentuais.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/regional-prices/adjustments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pricing/calculate"] });
+    } catch (error) {
+      console.error("Erro ao salvar ajustes por UF:", error);
+      toast({
+        title: "Erro ao salvar",
+        description: error instanceof Error ? error.message : "Não foi possível salvar os ajustes.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-semibold text-gray-800">Preços Regionais</h1>
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-start gap-4">
+            <div>
+              <CardTitle>Ajuste de preço por UF</CardTitle>
+              <CardDescription>
+                Percentual aplicado sobre o preço base nacional (preço público, PcD IPI e Taxi IPI) na UF
+                de venda. Preços com isenção de ICMS não recebem o ajuste. Deixe em branco para vender a
+                UF pelo preço nacional; valores negativos reduzem o preço.
+              </CardDescription>
+            </div>
+            <Button onClick={handleSave} disabled={isSaving || isLoading || !!error}>
+              {isSaving ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
+              Salvar Ajustes
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center items-center h-24">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              <span className="ml-2">Carregando...</span>
+            </div>
+          ) : error ? (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 text-red-700">
+              <p className="font-medium">Erro ao carregar ajustes por UF</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-3 md:grid-cols-6 lg:grid-cols-9 gap-3">
+              {BRAZILIAN_STATES.map(state => (
+                <div key={state} className="grid gap-1">
+                  <Label htmlFor={`adjustment-${state}`}>{state} (%)</Label>
+                  <Input
+                    id={`adjustment-${state}`}
+                    type="number"
+                    step="0.01"
+                    min="-50"
+                    max="100"
+                    placeholder="0"
+                    value={draft[state] ?? ""}
+                    onChange={(e) => setDraft(prev => ({ ...prev, [state]: e.target.value }))}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <FreightRates />
+    </div>
+  );
+}
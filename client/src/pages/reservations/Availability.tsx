@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronLeft, Loader2, Save, Search } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Vehicle } from "@/lib/types";
+import { AvailabilityItem } from "@shared/reservations";
+
+const itemKey = (item: AvailabilityItem) => `${item.vehicleId}:${item.versionColorId}`;
+
+// Quantidade disponível para venda de cada veículo em cada cor da versão
+export default function AvailabilityPage() {
+  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+  // Quantidades editadas e ainda não salvas, por "veículo:cor da versão"
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+
+  const { data: items = [], isLoading, error } = useQuery<AvailabilityItem[]>({
+    queryKey: ["/api/availability"],
+  });
+
+  const { data: vehicles = [] } = useQuery<Vehicle[]>({
+    queryKey: ["/api/vehicles"],
+  });
+
+  const vehicleLabel = (vehicle: Vehicle) =>
+    `${vehicle.version.model.brand.name} ${vehicle.version.model.name} ${vehicle.version.name} ${vehicle.year}`;
+
+  const term = search.trim().toLowerCase();
+  const visibleVehicles = vehicles
+    .filter(vehicle => !term || vehicleLabel(vehicle).toLowerCase().includes(term))
+    .map(vehicle => ({ vehicle, colors: items.filter(item => item.vehicleId === vehicle.id) }))
+    .filter(group => group.colors.length > 0);
+
+  const handleSave = async (item: AvailabilityItem) => {
+    const key = itemKey(item);
+    const quantity = Number(drafts[key]);
+
+    setSavingKey(key);
+    try {
+      const response = await apiRequest("PUT", "/api/availability", {
+        vehicleId: item.vehicleId,
+        versionColorId: item.versionColorId,
+        quantity
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.errors?.[0]?.message || errorData.message || "Erro ao salvar quantidade");
+      }
+
+      setDrafts(prev => {
+        const { [key]: _saved, ...rest } = prev;
+        return rest;
+      });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/availability")
+      });
+    } catch (error) {
+      console.error("Erro ao salvar disponibilidade:", error);
+      toast({
+        title: "Erro ao salvar",
+        description: error instanceof Error ? error.message : "Não foi possível salvar a quantidade.",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center">
+        <Link href="/reservations" className="mr-4">
+          <Button variant="outline" size="sm">
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Reservas
+          </Button>
+        </Link>
+        <h1 className="text-2xl font-semibold text-gray-800">Disponibilidade de Veículos</h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Quantidade por veículo e cor</CardTitle>
+          <CardDescription>
+            Unidades que os vendedores podem reservar. O disponível é a quantidade menos as reservas
+            ativas; sem quantidade cadastrada, a cor não pode ser reservada.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+            <Input
+              type="text"
+              placeholder="Buscar por marca, modelo ou versão..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center items-center h-24">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              <span className="ml-2">Carregando...</span>
+            </div>
+          ) : error ? (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 text-red-700">
+              <p className="font-medium">Erro ao carregar disponibilidade</p>
+            </div>
+          ) : visibleVehicles.length === 0 ? (
+            <div className="text-center p-8 text-gray-500">
+              Nenhum veículo com cores cadastradas.
+            </div>
+          ) : (
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Veículo</TableHead>
+                    <TableHead>Cor</TableHead>
+                    <TableHead className="w-32">Quantidade</TableHead>
+                    <TableHead className="text-right">Reservadas</TableHead>
+                    <TableHead className="text-right">Disponível</TableHead>
+                    <TableHead className="w-16"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleVehicles.flatMap(({ vehicle, colors }) =>
+                    colors.map((item, index) => {
+                      const key = itemKey(item);
+                      const isDirty = key in drafts && drafts[key] !== String(item.quantity);
+                      return (
+                        <TableRow key={key}>
+                          <TableCell className="font-medium">{index === 0 ? vehicleLabel(vehicle) : ""}</TableCell>
+                          <TableCell>{item.colorName}</TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min={item.reserved}
+                              step="1"
+                              value={drafts[key] ?? String(item.quantity)}
+                              onChange={(e) => setDrafts(prev => ({ ...prev, [key]: e.target.value }))}
+                            />
+                          </TableCell>
+                          <TableCell className="text-right">{item.reserved}</TableCell>
+                          <TableCell className="text-right font-medium">{item.available}</TableCell>
+                          <TableCell>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleSave(item)}
+                              disabled={!isDirty || drafts[key].trim() === "" || savingKey === key}
+                            >
+                              {savingKey === key ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import React from 'react';
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Unlock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { hasPermission } from "@/lib/permissions";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { VehicleReservation } from "@/lib/types";
+import { formatDocument } from "@shared/customers";
+import { RESERVATION_STATUSES, RESERVATION_STATUS_LABELS, ReservationStatus } from "@shared/reservations";
+
+const STATUS_COLORS: Record<ReservationStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  released: 'bg-gray-100 text-gray-800',
+  expired: 'bg-yellow-100 text-yellow-800'
+};
+
+// O Select não aceita valor vazio; "all" desliga o filtro
+const ALL = "all";
+
+export default function ReservationList() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [releaseId, setReleaseId] = React.useState<number | null>(null);
+  const [statusFilter, setStatusFilter] = React.useState(ALL);
+  const [onlyMine, setOnlyMine] = React.useState(false);
+
+  // Gestores da disponibilidade liberam reservas de qualquer vendedor
+  const canManage = hasPermission("/availability", user?.role?.name);
+
+  const params = new URLSearchParams();
+  if (statusFilter !== ALL) params.set("status", statusFilter);
+  if (onlyMine) params.set("mine", "true");
+  const queryString = params.toString();
+
+  const { data: reservations = [], isLoading, error } = useQuery<VehicleReservation[]>({
+    queryKey: [queryString ? `/api/reservations?${queryString}` : "/api/reservations"],
+  });
+
+  const handleRelease = async (reservation: VehicleReservation) => {
+    const reason = window.prompt(`Liberar a reserva #${reservation.id} de ${reservation.customerName}? Informe o motivo (opcional):`);
+    if (reason === null) return;
+
+    setReleaseId(reservation.id);
+    try {
+      const response = await apiRequest("POST", `/api/reservations/${reservation.id}/release`, { reason: reason || null });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || "Erro ao liberar reserva");
+      }
+
+      toast({
+        title: "Reserva liberada",
+        description: "A unidade voltou a ficar disponível.",
+      });
+    } catch (error) {
+      console.error("Erro ao liberar reserva:", error);
+      toast({
+        title: "Erro ao liberar",
+        description: error instanceof Error ? error.message : "Não foi possível liberar a reserva.",
+        variant: "destructive",
+      });
+    } finally {
+      setReleaseId(null);
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/reservations") ||
+          String(query.queryKey[0]).startsWith("/api/availability")
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Reservas de Veículos</CardTitle>
+          <CardDescription>
+            Reservas feitas no configurador para clientes; cada reserva ativa ocupa uma unidade até ser liberada ou expirar
+          </CardDescription>
+        </div>
+        {canManage && (
+          <Link href="/availability">
+            <Button variant="outline">Disponibilidade</Button>
+          </Link>
+        )}
+      </CardHeader>
+      <CardContent>
+        <div className="mb-6 flex flex-wrap items-center gap-6">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Todas as situações</SelectItem>
+              {RESERVATION_STATUSES.map(status => (
+                <SelectItem key={status} value={status}>{RESERVATION_STATUS_LABELS[status]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Checkbox id="only-mine" checked={onlyMine} onCheckedChange={(checked) => setOnlyMine(checked === true)} />
+            <Label htmlFor="only-mine">Somente as minhas reservas</Label>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center h-32">
+            <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full"></div>
+            <span className="ml-2">Carregando...</span>
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 text-red-700">
+            <p className="font-medium">Erro ao carregar reservas</p>
+            <p className="text-sm mt-1">Por favor, tente novamente mais tarde.</p>
+          </div>
+        ) : reservations.length === 0 ? (
+          <div className="text-center p-8 text-gray-500">
+            <p>Nenhuma reserva encontrada</p>
+            <p className="text-sm mt-2">
+              As reservas são feitas no "Monte seu Veículo", com um cliente e uma cor selecionados.
+            </p>
+          </div>
+        ) : (
+          <div className="border rounded-md overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-muted/50">
+                  <th className="text-left p-3 font-medium">#</th>
+                  <th className="text-left p-3 font-medium">Veículo</th>
+                  <th className="text-left p-3 font-medium">Cliente</th>
+                  <th className="text-left p-3 font-medium">Vendedor</th>
+                  <th className="text-left p-3 font-medium">Reservado em</th>
+                  <th className="text-left p-3 font-medium">Válida até</th>
+                  <th className="text-left p-3 font-medium">Situação</th>
+                  <th className="text-right p-3 font-medium">Ações</th>
+                </tr>
+              </thead>
+              <tbody>
+                {reservations.map(reservation => (
+                  <tr key={reservation.id} className="border-t align-top">
+                    <td className="p-3 text-sm">{reservation.id}</td>
+                    <td className="p-3 text-sm">
+                      <div>
+                        {reservation.vehicle
+                          ? `${reservation.vehicle.version.model.brand.name} ${reservation.vehicle.version.model.name} ${reservation.vehicle.version.name} ${reservation.vehicle.year}`
+                          : "-"}
+                      </div>
+                      {reservation.versionColor?.color && (
+                        <div className="text-muted-foreground">{reservation.versionColor.color.name}</div>
+                      )}
+                    </td>
+                    <td className="p-3 text-sm">
+                      <div className="font-medium">{reservation.customerName}</div>
+                      <div className="text-muted-foreground whitespace-nowrap">{formatDocument(reservation.customerDocument)}</div>
+                      {reservation.notes && <div className="text-muted-foreground mt-1">{reservation.notes}</div>}
+                    </td>
+                    <td className="p-3 text-sm">{reservation.user?.name || "-"}</td>
+                    <td className="p-3 text-sm whitespace-nowrap">{new Date(reservation.createdAt).toLocaleString('pt-BR')}</td>
+                    <td className="p-3 text-sm whitespace-nowrap">{new Date(reservation.expiresAt).toLocaleString('pt-BR')}</td>
+                    <td className="p-3 text-sm">
+                      <Badge className={STATUS_COLORS[reservation.status]} variant="outline">
+                        {RESERVATION_STATUS_LABELS[reservation.status]}
+                      </Badge>
+                      {reservation.releasedAt && (
+                        <div className="text-muted-foreground mt-1 whitespace-nowrap">
+                          {new Date(reservation.releasedAt).toLocaleString('pt-BR')}
+                          {reservation.releasedByUser && ` por ${reservation.releasedByUser.name}`}
+                        </div>
+                      )}
+                      {reservation.releaseReason && (
+                        <div className="text-muted-foreground">{reservation.releaseReason}</div>
+                      )}
+                    </td>
+                    <td className="p-3 text-right">
+                      {reservation.status === 'active' && (reservation.userId === user?.id || canManage) && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleRelease(reservation)}
+                          disabled={releaseId === reservation.id}
+                        >
+                          {releaseId === reservation.id ? (
+                            <div className="animate-spin h-4 w-4 border-2 border-primary border-t-transparent rounded-full" />
+                          ) : (
+                            <>
+                              <Unlock className="h-4 w-4 mr-1" />
+                              Liberar
+                            </>
+                          )}
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
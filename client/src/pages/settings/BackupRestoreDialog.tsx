@@ -0,0 +1,402 @@
+import * as React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Eye, Loader2, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Brand } from "@/lib/types";
+import {
+  BackupMigrationSummary,
+  BackupRestoreResult,
+  RESTORE_ACTION_LABELS,
+  RESTORE_PHASE_LABELS,
+  RestoreJob,
+  RestorePreview,
+  RestoreRecordAction
+} from "@shared/backupRestore";
+
+interface BackupRestoreDialogProps {
+  backup: any | null;
+  onClose: () => void;
+}
+
+interface BackupManifestSummary {
+  tableOrder: string[];
+  tableCounts: Record<string, number>;
+}
+
+// Intervalo de consulta do andamento da restauração
+const RESTORE_POLL_INTERVAL_MS = 1000;
+
+const ACTION_STYLES: Record<RestoreRecordAction, string> = {
+  insert: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  unchanged: 'bg-gray-100 text-gray-700',
+  conflict: 'bg-red-100 text-red-800'
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// Restauração seletiva: escolha de tabelas e marcas, pré-visualização e confirmação
+export default function BackupRestoreDialog({ backup, onClose }: BackupRestoreDialogProps) {
+  const { toast } = useToast();
+  const needsPassphrase = backup?.isEncrypted && backup?.encryptionKeySource === 'passphrase';
+
+  const [passphrase, setPassphrase] = React.useState('');
+  const [manifest, setManifest] = React.useState<BackupManifestSummary | null>(null);
+  const [migrations, setMigrations] = React.useState<BackupMigrationSummary[]>([]);
+  const [selectedTables, setSelectedTables] = React.useState<string[]>([]);
+  const [selectedBrands, setSelectedBrands] = React.useState<number[]>([]);
+  const [mode, setMode] = React.useState<'merge' | 'replace'>('merge');
+  const [preview, setPreview] = React.useState<RestorePreview | null>(null);
+  const [isLoadingManifest, setIsLoadingManifest] = React.useState(false);
+  const [isPreviewing, setIsPreviewing] = React.useState(false);
+  const [isRestoring, setIsRestoring] = React.useState(false);
+  const [job, setJob] = React.useState<RestoreJob | null>(null);
+
+  const { data: brands = [] } = useQuery<Brand[]>({
+    queryKey: ["/api/brands"],
+    enabled: !!backup,
+  });
+
+  // Reinicia o estado ao abrir para outro backup
+  React.useEffect(() => {
+    setPassphrase('');
+    setManifest(null);
+    setMigrations([]);
+    setSelectedTables([]);
+    setSelectedBrands([]);
+    setMode('merge');
+    setPreview(null);
+    if (backup && !needsPassphrase) {
+      loadManifest('');
+    }
+  }, [backup?.id]);
+
+  // Qualquer mudança nas opções invalida a pré-visualização
+  React.useEffect(() => {
+    setPreview(null);
+  }, [selectedTables, selectedBrands, mode]);
+
+  const loadManifest = async (currentPassphrase: string) => {
+    if (!backup) return;
+    setIsLoadingManifest(true);
+    try {
+      const response = await apiRequest("POST", "/api/backups/validate", {
+        backupId: backup.id,
+        passphrase: currentPassphrase || undefined
+      });
+      const result = await response.json();
+      if (!response.ok || !result.valid) {
+        throw new Error(result.message || result.errors?.join(' ') || "Não foi possível ler o backup.");
+      }
+      setManifest(result.manifest);
+      setMigrations(result.migrations || []);
+      setSelectedTables(result.manifest.tableOrder);
+    } catch (error) {
+      toast({
+        title: "Erro ao ler backup",
+        description: error instanceof Error ? error.message : "Não foi possível ler o backup.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoadingManifest(false);
+    }
+  };
+
+  const submitRestore = async (dryRun: boolean): Promise<BackupRestoreResult> => {
+    const response = await apiRequest("POST", "/api/backups/restore", {
+      backupId: backup.id,
+      mode,
+      dryRun,
+      passphrase: passphrase || undefined,
+      tables: selectedTables,
+      brandIds: mode === 'merge' && selectedBrands.length > 0 ? selectedBrands : undefined
+    });
+    let current: RestoreJob = await response.json();
+    if (!response.ok) {
+      throw new Error((current as any).message || "Ocorreu um erro ao restaurar o backup.");
+    }
+
+    // A restauração roda em segundo plano no servidor; acompanhar até terminar
+    setJob(current);
+    try {
+      while (current.status === 'running') {
+        await new Promise(resolve => setTimeout(resolve, RESTORE_POLL_INTERVAL_MS));
+        const pollResponse = await apiRequest("GET", `/api/backups/restore/${current.id}`);
+        if (!pollResponse.ok) {
+          throw new Error("Não foi possível acompanhar a restauração.");
+        }
+        current = await pollResponse.json();
+        setJob(current);
+      }
+    } finally {
+      setJob(null);
+    }
+
+    const result = current.result;
+    if (!result?.success) {
+      throw new Error(result?.message || "Ocorreu um erro ao restaurar o backup.");
+    }
+    return result;
+  };
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    try {
+      const result = await submitRestore(true);
+      setPreview(result.preview || null);
+    } catch (error) {
+      toast({
+        title: "Erro na pré-visualização",
+        description: error instanceof Error ? error.message : "Não foi possível gerar a pré-visualização.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (mode === 'replace' && !confirm("ATENÇÃO: no modo substituir, as tabelas selecionadas serão apagadas antes da restauração. Deseja continuar?")) {
+      return;
+    }
+
+    setIsRestoring(true);
+    try {
+      const result = await submitRestore(false);
+      toast({
+        title: "Backup restaurado",
+        description: `${result.message} A página será recarregada.`,
+      });
+      // Recarregar a página após restauração
+      setTimeout(() => window.location.reload(), 2000);
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Erro na restauração",
+        description: error instanceof Error ? error.message : "Ocorreu um erro ao restaurar o backup.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const toggleTable = (table: string, checked: boolean) => {
+    setSelectedTables(prev => checked ? [...prev, table] : prev.filter(t => t !== table));
+  };
+
+  const toggleBrand = (brandId: number, checked: boolean) => {
+    setSelectedBrands(prev => checked ? [...prev, brandId] : prev.filter(id => id !== brandId));
+  };
+
+  const hasChanges = !!preview && preview.totals.insert + preview.totals.update > 0;
+
+  return (
+    <Dialog open={!!backup} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Restaurar backup</DialogTitle>
+          <DialogDescription>
+            {backup?.name}: escolha o que restaurar e confira as alterações antes de aplicar.
+          </DialogDescription>
+        </DialogHeader>
+
+        {needsPassphrase && !manifest && (
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="restore-passphrase">Senha do backup</Label>
+              <Input
+                id="restore-passphrase"
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+              />
+            </div>
+            <Button onClick={() => loadManifest(passphrase)} disabled={!passphrase || isLoadingManifest}>
+              {isLoadingManifest && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Abrir backup
+            </Button>
+          </div>
+        )}
+
+        {isLoadingManifest && !needsPassphrase && (
+          <div className="flex justify-center items-center h-24">
+            <Loader2 className="animate-spin h-6 w-6 text-primary" />
+            <span className="ml-2">Lendo backup...</span>
+          </div>
+        )}
+
+        {manifest && (
+          <div className="space-y-4">
+            {migrations.length > 0 && (
+              <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+                <p className="font-medium">Backup de uma versão anterior do sistema</p>
+                <p>Os registros serão convertidos para o schema atual pelas migrações:</p>
+                <ul className="list-disc pl-5">
+                  {migrations.map(migration => (
+                    <li key={`${migration.from}-${migration.to}`}>
+                      {migration.from} → {migration.to}: {migration.description}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label>Modo</Label>
+              <Select value={mode} onValueChange={(value) => setMode(value as 'merge' | 'replace')}>
+                <SelectTrigger className="w-72">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="merge">Mesclar (inserir e atualizar)</SelectItem>
+                  <SelectItem value="replace">Substituir (apagar e inserir)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Tabelas</Label>
+                <div className="space-x-2">
+                  <Button type="button" variant="link" size="sm" onClick={() => setSelectedTables(manifest.tableOrder)}>Todas</Button>
+                  <Button type="button" variant="link" size="sm" onClick={() => setSelectedTables([])}>Nenhuma</Button>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                {manifest.tableOrder.map(table => (
+                  <label key={table} className="flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      checked={selectedTables.includes(table)}
+                      onCheckedChange={(checked) => toggleTable(table, checked === true)}
+                    />
+                    <span className="font-mono">{table}</span>
+                    <span className="text-muted-foreground">({manifest.tableCounts[table] ?? 0})</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {mode === 'merge' && brands.length > 0 && (
+              <div className="space-y-2">
+                <Label>Filtrar por marca</Label>
+                <p className="text-sm text-muted-foreground">
+                  Restringe marcas, modelos, versões, veículos, preços, cores/opcionais das versões, orçamentos e vendas diretas às marcas marcadas. Sem seleção, restaura todas.
+                </p>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2 max-h-32 overflow-y-auto">
+                  {brands.map(brand => (
+                    <label key={brand.id} className="flex items-center space-x-2 text-sm">
+                      <Checkbox
+                        checked={selectedBrands.includes(brand.id)}
+                        onCheckedChange={(checked) => toggleBrand(brand.id, checked === true)}
+                      />
+                      <span>{brand.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {preview && (
+              <div className="space-y-3 border-t pt-4">
+                <div className="flex flex-wrap gap-2 text-sm">
+                  {(Object.keys(RESTORE_ACTION_LABELS) as RestoreRecordAction[]).map(action => (
+                    <span key={action} className={`px-2 py-1 rounded ${ACTION_STYLES[action]}`}>
+                      {RESTORE_ACTION_LABELS[action]}: {preview.totals[action]}
+                    </span>
+                  ))}
+                </div>
+                {preview.totals.conflict > 0 && (
+                  <p className="text-sm text-red-600">Registros em conflito não serão restaurados.</p>
+                )}
+
+                {preview.tables.map(table => (
+                  <details key={table.table} className="border rounded p-2">
+                    <summary className="cursor-pointer text-sm">
+                      <span className="font-mono font-medium">{table.table}</span>
+                      {" — "}
+                      {table.totals.insert} inserções, {table.totals.update} atualizações, {table.totals.conflict} conflitos, {table.totals.unchanged} sem alteração
+                      {table.brandFilterApplied && table.filteredOut > 0 && (
+                        <span className="text-muted-foreground"> ({table.filteredOut} fora das marcas selecionadas)</span>
+                      )}
+                    </summary>
+                    <div className="mt-2 space-y-2">
+                      {table.records.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Nenhuma alteração nesta tabela.</p>
+                      ) : table.records.map(record => (
+                        <div key={record.id} className="text-sm border-b pb-1">
+                          <span className={`px-1.5 py-0.5 rounded text-xs mr-2 ${ACTION_STYLES[record.action]}`}>
+                            {RESTORE_ACTION_LABELS[record.action]}
+                          </span>
+                          {record.label}
+                          {record.changes && (
+                            <ul className="ml-4 text-xs text-muted-foreground">
+                              {Object.entries(record.changes).map(([field, change]) => (
+                                <li key={field}>
+                                  <span className="font-mono">{field}</span>: {formatValue(change.from)} → {formatValue(change.to)}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                          {record.conflicts && (
+                            <ul className="ml-4 text-xs text-red-600">
+                              {record.conflicts.map(conflict => <li key={conflict}>{conflict}</li>)}
+                            </ul>
+                          )}
+                        </div>
+                      ))}
+                      {table.truncated && (
+                        <p className="text-xs text-muted-foreground">Lista limitada; os totais consideram todos os registros.</p>
+                      )}
+                    </div>
+                  </details>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {job && (
+          <div className="space-y-1 border-t pt-4">
+            <div className="flex justify-between text-sm">
+              <span>
+                {RESTORE_PHASE_LABELS[job.phase]}
+                {job.currentTable && <span className="font-mono"> — {job.currentTable}</span>}
+              </span>
+              {job.totalRecords > 0 && (
+                <span className="text-muted-foreground">{job.processedRecords} / {job.totalRecords} registros</span>
+              )}
+            </div>
+            <Progress value={job.totalRecords > 0 ? (job.processedRecords / job.totalRecords) * 100 : 0} />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isRestoring}>Cancelar</Button>
+          <Button
+            variant="outline"
+            onClick={handlePreview}
+            disabled={!manifest || selectedTables.length === 0 || isPreviewing || isRestoring}
+          >
+            {isPreviewing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Eye className="mr-2 h-4 w-4" />}
+            Pré-visualizar
+          </Button>
+          <Button onClick={handleRestore} disabled={!hasChanges || isRestoring}>
+            {isRestoring ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+            Restaurar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,183 @@
+import * as React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Clock, Loader2, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  BACKUP_SCHEDULE_PRESETS,
+  BackupScheduleConfig,
+  BackupScheduleStatus,
+  DEFAULT_BACKUP_SCHEDULE
+} from "@shared/backupSchedule";
+
+const LAST_RUN_LABELS: Record<string, string> = {
+  completed: 'Concluído',
+  creating: 'Em execução',
+  failed: 'Falhou',
+  deleted: 'Removido pela retenção'
+};
+
+// Configuração dos backups automáticos (aba Backup das configurações)
+export default function BackupScheduleCard() {
+  const { toast } = useToast();
+  const [form, setForm] = React.useState<BackupScheduleConfig>(DEFAULT_BACKUP_SCHEDULE);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const { data: schedule, isLoading } = useQuery<BackupScheduleStatus>({
+    queryKey: ["/api/backups/schedule"],
+  });
+
+  React.useEffect(() => {
+    if (schedule) {
+      setForm({
+        enabled: schedule.enabled,
+        cron: schedule.cron,
+        keepDaily: schedule.keepDaily,
+        keepWeekly: schedule.keepWeekly,
+        keepMonthly: schedule.keepMonthly
+      });
+    }
+  }, [schedule]);
+
+  const handleNumberChange = (key: 'keepDaily' | 'keepWeekly' | 'keepMonthly') =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setForm(prev => ({ ...prev, [key]: parseInt(e.target.value) || 0 }));
+    };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await apiRequest("PUT", "/api/backups/schedule", form);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || `Erro ao salvar agendamento: ${response.statusText}`);
+      }
+
+      const saved: BackupScheduleStatus = await response.json();
+      queryClient.setQueryData(["/api/backups/schedule"], saved);
+      toast({
+        title: "Agendamento salvo",
+        description: saved.enabled && saved.nextRunAt
+          ? `Próximo backup automático em ${new Date(saved.nextRunAt).toLocaleString('pt-BR')}.`
+          : "Backups automáticos desativados.",
+      });
+    } catch (error) {
+      toast({
+        title: "Erro ao salvar agendamento",
+        description: error instanceof Error ? error.message : "Não foi possível salvar o agendamento.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Clock className="mr-2 h-5 w-5" />
+          Backup Automático
+        </CardTitle>
+        <CardDescription>
+          Agende backups no formato cron (minuto hora dia-do-mês mês dia-da-semana) e defina quantos manter
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center items-center h-24">
+            <Loader2 className="animate-spin h-6 w-6 text-primary" />
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="backup-schedule-enabled"
+                checked={form.enabled}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, enabled: checked }))}
+              />
+              <Label htmlFor="backup-schedule-enabled">Ativar backups automáticos</Label>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="backup-schedule-cron">Agendamento</Label>
+              <Input
+                id="backup-schedule-cron"
+                value={form.cron}
+                onChange={(e) => setForm(prev => ({ ...prev, cron: e.target.value }))}
+                placeholder="0 2 * * *"
+                className="font-mono max-w-xs"
+              />
+              <div className="flex flex-wrap gap-2">
+                {BACKUP_SCHEDULE_PRESETS.map(preset => (
+                  <Button
+                    key={preset.cron}
+                    type="button"
+                    size="sm"
+                    variant={form.cron === preset.cron ? "default" : "outline"}
+                    onClick={() => setForm(prev => ({ ...prev, cron: preset.cron }))}
+                  >
+                    {preset.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 max-w-xl">
+              <div className="space-y-2">
+                <Label htmlFor="backup-keep-daily">Diários mantidos</Label>
+                <Input id="backup-keep-daily" type="number" min="1" value={form.keepDaily} onChange={handleNumberChange('keepDaily')} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="backup-keep-weekly">Semanais mantidos</Label>
+                <Input id="backup-keep-weekly" type="number" min="0" value={form.keepWeekly} onChange={handleNumberChange('keepWeekly')} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="backup-keep-monthly">Mensais mantidos</Label>
+                <Input id="backup-keep-monthly" type="number" min="0" value={form.keepMonthly} onChange={handleNumberChange('keepMonthly')} />
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Após cada execução, são mantidos o backup automático mais recente de cada um dos últimos dias, semanas e meses configurados.
+              Os demais backups automáticos são removidos; backups criados manualmente nunca são removidos.
+            </p>
+
+            <div className="text-sm space-y-1">
+              <p className="text-muted-foreground">
+                {schedule?.encrypted
+                  ? "Os backups automáticos são criptografados com a chave do servidor (BACKUP_ENCRYPTION_KEY)."
+                  : "Os backups automáticos não são criptografados: configure BACKUP_ENCRYPTION_KEY no servidor para criptografá-los."}
+              </p>
+              {schedule?.enabled && schedule.nextRunAt && (
+                <p>Próxima execução: <strong>{new Date(schedule.nextRunAt).toLocaleString('pt-BR')}</strong></p>
+              )}
+              {schedule?.lastRun && (
+                <p>
+                  Última execução: <strong>{new Date(schedule.lastRun.createdAt).toLocaleString('pt-BR')}</strong>
+                  {" — "}{LAST_RUN_LABELS[schedule.lastRun.status] || schedule.lastRun.status}
+                  {schedule.lastRun.errorMessage && (
+                    <span className="text-red-600"> ({schedule.lastRun.errorMessage})</span>
+                  )}
+                </p>
+              )}
+            </div>
+
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
+              Salvar Agendamento
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
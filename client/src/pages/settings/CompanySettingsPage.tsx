@@ -36,7 +36,8 @@ export default function CompanySettingsPage() {
   
   // Consulta configurações
   const { data: settings = [], isLoading: isLoadingSettings } = useQuery<Setting[]>({
-    queryKey: ["/api/settings"],
+    // Lista completa (a rota /api/settings só devolve as configurações públicas)
+    queryKey: ["/api/settings/all"],
   });
   
   // Extrair valores das configurações
@@ -92,7 +93,9 @@ export default function CompanySettingsPage() {
       });
       
       // Recarregar as configurações
-      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/settings")
+      });
       
     } catch (error) {
       console.error("Erro ao salvar configurações:", error);
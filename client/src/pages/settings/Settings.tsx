@@ -3,6 +3,10 @@ import { useToast } from "@/hooks/use-toast";
 import { useQuery } from "@tanstack/react-query";
 import { queryClient, getQueryFn, apiRequest } from "@/lib/queryClient";
 import DirectSaleList from "../../pages/direct-sales/DirectSaleList";
+import { BACKUP_STORAGE_TARGET_LABELS, BackupLocation } from "@shared/backupStorage";
+import { BackupMigrationSummary } from "@shared/backupRestore";
+import BackupScheduleCard from "./BackupScheduleCard";
+import BackupRestoreDialog from "./BackupRestoreDialog";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -28,13 +32,17 @@ export default function Settings() {
   
   // Estados para backup
   const [backupName, setBackupName] = React.useState('');
+  const [encryptBackup, setEncryptBackup] = React.useState(false);
+  const [backupPassphrase, setBackupPassphrase] = React.useState('');
   const [isCreatingBackup, setIsCreatingBackup] = React.useState(false);
   const [isValidatingBackup, setIsValidatingBackup] = React.useState(false);
-  const [isRestoringBackup, setIsRestoringBackup] = React.useState(false);
+  // Backup aberto no diálogo de restauração seletiva
+  const [restoringBackup, setRestoringBackup] = React.useState<any | null>(null);
   
   // Buscar configurações do servidor
   const { data: settings = [], isLoading, error } = useQuery<Setting[]>({
-    queryKey: ["/api/settings"],
+    // Lista completa (a rota /api/settings só devolve as configurações públicas)
+    queryKey: ["/api/settings/all"],
   });
 
   // Buscar backups existentes
@@ -98,7 +106,9 @@ export default function Settings() {
       });
       
       // Atualizar o cache para que os dados sejam recarregados
-      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/settings")
+      });
     } catch (error) {
       console.error("Erro ao salvar configurações:", error);
       toast({
@@ -124,18 +134,27 @@ export default function Settings() {
     
     setIsCreatingBackup(true);
     try {
-      await apiRequest("POST", "/api/backups", { name: backupName });
+      const response = await apiRequest("POST", "/api/backups", {
+        name: backupName,
+        encrypt: encryptBackup,
+        passphrase: encryptBackup && backupPassphrase ? backupPassphrase : undefined
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || "Ocorreu um erro ao criar o backup. Tente novamente.");
+      }
       toast({
         title: "Backup criado",
-        description: "O backup foi criado com sucesso.",
+        description: encryptBackup ? "O backup criptografado foi criado com sucesso." : "O backup foi criado com sucesso.",
       });
       setBackupName('');
+      setBackupPassphrase('');
       refetchBackups();
     } catch (error) {
       console.error("Erro ao criar backup:", error);
       toast({
         title: "Erro ao criar backup",
-        description: "Ocorreu um erro ao criar o backup. Tente novamente.",
+        description: error instanceof Error ? error.message : "Ocorreu um erro ao criar o backup. Tente novamente.",
         variant: "destructive",
       });
     } finally {
@@ -143,25 +162,41 @@ export default function Settings() {
     }
   };
   
+  // Backups criptografados com senha pedem a senha antes de validar ou restaurar.
+  // Retorna null quando o usuário cancela.
+  const askBackupPassphrase = (backup: any): string | undefined | null => {
+    if (!backup.isEncrypted || backup.encryptionKeySource !== 'passphrase') {
+      return undefined;
+    }
+    return window.prompt(`Informe a senha do backup "${backup.name}":`);
+  };
+  
   // Função para validar backup
-  const handleValidateBackup = async (backupId: number) => {
+  const handleValidateBackup = async (backup: any) => {
+    const passphrase = askBackupPassphrase(backup);
+    if (passphrase === null) return;
+    
     setIsValidatingBackup(true);
     try {
-      const response = await fetch(`/api/backups/${backupId}/validate`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' }
-      });
+      const response = await apiRequest("POST", "/api/backups/validate", { backupId: backup.id, passphrase });
       const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || "Ocorreu um erro ao validar o backup.");
+      }
+      const migrations: BackupMigrationSummary[] = result.migrations || [];
+      const migrationNote = migrations.length > 0
+        ? ` Migrações aplicadas: ${migrations.map(m => `${m.from} → ${m.to} (${m.description})`).join('; ')}.`
+        : '';
       toast({
-        title: result.isValid ? "Backup válido" : "Backup inválido",
-        description: result.message || (result.isValid ? "O backup passou na validação." : "O backup apresentou problemas."),
-        variant: result.isValid ? "default" : "destructive",
+        title: result.valid ? "Backup válido" : "Backup inválido",
+        description: result.valid ? `O backup passou na validação.${migrationNote}` : (result.errors?.join(' ') || "O backup apresentou problemas."),
+        variant: result.valid ? "default" : "destructive",
       });
     } catch (error) {
       console.error("Erro ao validar backup:", error);
       toast({
         title: "Erro ao validar",
-        description: "Ocorreu um erro ao validar o backup.",
+        description: error instanceof Error ? error.message : "Ocorreu um erro ao validar o backup.",
         variant: "destructive",
       });
     } finally {
@@ -219,33 +254,6 @@ export default function Settings() {
     }
   };
   
-  // Função para restaurar backup
-  const handleRestoreBackup = async (backupId: number) => {
-    if (!confirm("ATENÇÃO: A restauração irá substituir todos os dados atuais. Esta ação não pode ser desfeita. Deseja continuar?")) {
-      return;
-    }
-    
-    setIsRestoringBackup(true);
-    try {
-      await apiRequest("POST", `/api/backups/${backupId}/restore`);
-      toast({
-        title: "Backup restaurado",
-        description: "O backup foi restaurado com sucesso. A página será recarregada.",
-      });
-      // Recarregar a página após restauração
-      setTimeout(() => window.location.reload(), 2000);
-    } catch (error) {
-      console.error("Erro ao restaurar backup:", error);
-      toast({
-        title: "Erro na restauração",
-        description: "Ocorreu um erro ao restaurar o backup.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsRestoringBackup(false);
-    }
-  };
-  
   if (isLoading) {
     return (
       <div className="flex justify-center items-center h-64">
@@ -266,7 +274,6 @@ export default function Settings() {
   
   // Agrupar configurações por tipo
   const generalSettings = settings.filter(s => ["admin_email", "default_currency"].includes(s.key));
-  const taxSettings = settings.filter(s => ["tax_rate", "enable_pcd_discounts"].includes(s.key));
   const companySettings = settings.filter(s => ["company_name", "company_logo_url"].includes(s.key));
   const appSettings = settings.filter(s => ["app_name", "app_favicon"].includes(s.key));
   const themeSettings = settings.filter(s => s.key.startsWith("theme_color_"));
@@ -525,11 +532,37 @@ export default function Settings() {
                   )}
                 </Button>
               </div>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="backup-encrypt"
+                  checked={encryptBackup}
+                  onCheckedChange={setEncryptBackup}
+                  disabled={isCreatingBackup}
+                />
+                <Label htmlFor="backup-encrypt">Criptografar backup (AES-256-GCM)</Label>
+              </div>
+              {encryptBackup && (
+                <div className="space-y-1">
+                  <Input
+                    type="password"
+                    placeholder="Senha do backup (opcional)"
+                    value={backupPassphrase}
+                    onChange={(e) => setBackupPassphrase(e.target.value)}
+                    disabled={isCreatingBackup}
+                    autoComplete="new-password"
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    Sem senha, é usada a chave do servidor (BACKUP_ENCRYPTION_KEY). A senha não é armazenada: sem ela o backup não pode ser restaurado.
+                  </p>
+                </div>
+              )}
               <p className="text-sm text-muted-foreground">
                 O backup incluirá todas as tabelas do sistema: veículos, marcas, modelos, versões, cores, opcionais, configurações e dados de usuários.
               </p>
             </CardContent>
           </Card>
+
+          <BackupScheduleCard />
           
           {/* Seção de Lista de Backups */}
           <Card>
@@ -560,7 +593,17 @@ export default function Settings() {
                     <div key={backup.id} className="border rounded-lg p-4 space-y-3">
                       <div className="flex justify-between items-start">
                         <div className="space-y-1">
-                          <h3 className="font-medium">{backup.name}</h3>
+                          <h3 className="font-medium">
+                            {backup.name}
+                            {backup.isEncrypted && (
+                              <span className="ml-2 px-2 py-0.5 rounded text-xs font-normal bg-purple-100 text-purple-800">
+                                {backup.encryptionKeySource === 'passphrase' ? 'Criptografado (senha)' : 'Criptografado'}
+                              </span>
+                            )}
+                            {backup.trigger === 'scheduled' && (
+                              <span className="ml-2 px-2 py-0.5 rounded text-xs font-normal bg-blue-100 text-blue-800">Automático</span>
+                            )}
+                          </h3>
                           <div className="flex items-center space-x-4 text-sm text-muted-foreground">
                             <span className="flex items-center">
                               <Calendar className="mr-1 h-4 w-4" />
@@ -581,6 +624,29 @@ export default function Settings() {
                               Tabelas: {backup.tablesCount}
                             </span>
                           </div>
+                          {backup.locations?.length > 0 && (
+                            <div className="flex flex-wrap items-center gap-1 text-xs">
+                              <span className="text-muted-foreground mr-1">Disponível em:</span>
+                              {backup.locations.map((location: BackupLocation) => (
+                                <span
+                                  key={location.target}
+                                  title={location.errorMessage || location.location}
+                                  className={`px-2 py-0.5 rounded ${
+                                    location.status === 'available' ? 'bg-green-50 text-green-700' :
+                                    location.status === 'failed' ? 'bg-red-50 text-red-700' :
+                                    'bg-gray-100 text-gray-500 line-through'
+                                  }`}
+                                >
+                                  {BACKUP_STORAGE_TARGET_LABELS[location.target]}
+                                  {location.status === 'failed' && ' (falha no envio)'}
+                                  {location.status === 'missing' && ' (arquivo ausente)'}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                          {backup.status === 'failed' && backup.errorMessage && (
+                            <p className="text-sm text-red-600">{backup.errorMessage}</p>
+                          )}
                         </div>
                         <div className={`px-2 py-1 rounded text-xs font-medium ${
                           backup.status === 'completed' ? 'bg-green-100 text-green-800' :
@@ -615,7 +681,7 @@ export default function Settings() {
                         <Button
                           size="sm"
                           variant="outline"
-                          onClick={() => handleValidateBackup(backup.id)}
+                          onClick={() => handleValidateBackup(backup)}
                           disabled={backup.status !== 'completed' || isValidatingBackup}
                         >
                           {isValidatingBackup ? (
@@ -634,20 +700,11 @@ export default function Settings() {
                         <Button
                           size="sm"
                           variant="outline"
-                          onClick={() => handleRestoreBackup(backup.id)}
-                          disabled={backup.status !== 'completed' || isRestoringBackup}
+                          onClick={() => setRestoringBackup(backup)}
+                          disabled={backup.status !== 'completed'}
                         >
-                          {isRestoringBackup ? (
-                            <>
-                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                              Restaurando...
-                            </>
-                          ) : (
-                            <>
-                              <Upload className="mr-2 h-4 w-4" />
-                              Restaurar
-                            </>
-                          )}
+                          <Upload className="mr-2 h-4 w-4" />
+                          Restaurar
                         </Button>
                         
                         <Button
@@ -701,7 +758,8 @@ export default function Settings() {
               <div className="bg-red-50 border border-red-200 rounded-md p-3">
                 <h4 className="font-medium text-red-900 mb-2">⚠️ Atenção:</h4>
                 <ul className="text-sm text-red-700 space-y-1">
-                  <li>• A restauração substitui TODOS os dados atuais</li>
+                  <li>• No modo substituir, as tabelas selecionadas são apagadas antes da restauração</li>
+                  <li>• Confira a pré-visualização: registros em conflito não são restaurados</li>
                   <li>• Esta ação NÃO pode ser desfeita</li>
                   <li>• Sempre confirme se é o backup correto antes de restaurar</li>
                   <li>• Recomendamos criar um backup antes de restaurar outro</li>
@@ -711,6 +769,8 @@ export default function Settings() {
           </Card>
         </TabsContent>
       </Tabs>
+
+      <BackupRestoreDialog backup={restoringBackup} onClose={() => setRestoringBackup(null)} />
     </div>
   );
 }
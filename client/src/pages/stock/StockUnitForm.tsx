@@ -0,0 +1,359 @@
+import { useEffect, useState } from "react";
+import { Link, useParams, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, ChevronLeft, Loader2, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { StockUnit, Vehicle } from "@/lib/types";
+import {
+  STOCK_UNIT_STATUSES,
+  STOCK_UNIT_STATUS_LABELS,
+  StockUnitInput,
+  normalizeVin,
+  stockUnitInputSchema
+} from "@shared/stockUnits";
+
+interface VersionColorOption {
+  id: number;
+  versionId: number;
+  colorId: number;
+  color?: { id: number; name: string };
+}
+
+const defaultValues: StockUnitInput = {
+  vehicleId: 0,
+  versionColorId: 0,
+  vin: "",
+  renavam: "",
+  arrivalDate: "",
+  location: "",
+  status: "inTransit",
+  cost: null,
+  notes: ""
+};
+
+const vehicleLabel = (vehicle: Vehicle) =>
+  `${vehicle.version.model.brand.name} ${vehicle.version.model.name} ${vehicle.version.name} ${vehicle.year}`;
+
+export default function StockUnitForm() {
+  const { id } = useParams();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const isEditing = Boolean(id);
+  const [serverError, setServerError] = useState<string | null>(null);
+
+  const form = useForm<StockUnitInput>({
+    resolver: zodResolver(stockUnitInputSchema),
+    defaultValues,
+  });
+
+  const { data: unit, isLoading: isLoadingUnit } = useQuery<StockUnit>({
+    queryKey: [isEditing ? `/api/stock-units/${id}` : null],
+    enabled: isEditing,
+  });
+
+  const { data: vehicles = [] } = useQuery<Vehicle[]>({
+    queryKey: ["/api/vehicles"],
+  });
+
+  const vehicleId = Number(form.watch("vehicleId"));
+  const selectedVehicle = vehicles.find(vehicle => vehicle.id === vehicleId);
+
+  // Só as cores cadastradas para a versão do veículo escolhido
+  const { data: versionColors = [] } = useQuery<VersionColorOption[]>({
+    queryKey: [`/api/version-colors?versionId=${selectedVehicle?.versionId}`],
+    enabled: !!selectedVehicle,
+  });
+
+  useEffect(() => {
+    if (unit) {
+      form.reset({
+        vehicleId: unit.vehicleId,
+        versionColorId: unit.versionColorId,
+        vin: unit.vin,
+        renavam: unit.renavam || "",
+        arrivalDate: unit.arrivalDate || "",
+        location: unit.location || "",
+        status: unit.status,
+        cost: unit.cost != null ? Number(unit.cost) : null,
+        notes: unit.notes || ""
+      });
+    }
+  }, [unit, form]);
+
+  const handleSubmit = async (values: StockUnitInput) => {
+    setServerError(null);
+    try {
+      const response = isEditing
+        ? await apiRequest("PATCH", `/api/stock-units/${id}`, values)
+        : await apiRequest("POST", "/api/stock-units", values);
+      const result = await response.json();
+
+      if (!response.ok) {
+        const message = result.message || result.errors?.[0]?.message || "Ocorreu um erro ao salvar a unidade.";
+        setServerError(message);
+        toast({ title: "Erro ao salvar", description: message, variant: "destructive" });
+        return;
+      }
+
+      toast({
+        title: isEditing ? "Unidade atualizada" : "Unidade cadastrada",
+        description: `A unidade de chassi ${result.vin} foi salva com sucesso!`,
+      });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/stock-units")
+      });
+      navigate("/stock-units");
+    } catch (error) {
+      console.error("Erro ao salvar unidade de estoque:", error);
+      toast({
+        title: "Erro ao salvar",
+        description: "Ocorreu um erro ao salvar a unidade.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isEditing && isLoadingUnit) {
+    return <div>Carregando...</div>;
+  }
+
+  return (
+    <div>
+      <div className="flex items-center mb-6">
+        <Link href="/stock-units" className="mr-4">
+          <Button variant="outline" size="sm">
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Voltar
+          </Button>
+        </Link>
+        <h1 className="text-2xl font-semibold text-gray-800">
+          {isEditing ? `Editar Unidade: ${unit?.vin}` : "Nova Unidade de Estoque"}
+        </h1>
+      </div>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+          {serverError && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4 mr-2" />
+              <AlertDescription>{serverError}</AlertDescription>
+            </Alert>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Dados da Unidade</CardTitle>
+              <CardDescription>
+                Carro físico de um veículo do catálogo, na cor cadastrada para a versão
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="vehicleId"
+                render={({ field }) => (
+                  <FormItem className="md:col-span-2">
+                    <FormLabel>Veículo</FormLabel>
+                    <Select
+                      value={field.value ? String(field.value) : ""}
+                      onValueChange={(value) => {
+                        field.onChange(parseInt(value));
+                        form.setValue("versionColorId", 0);
+                      }}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione o veículo" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {vehicles.map(vehicle => (
+                          <SelectItem key={vehicle.id} value={vehicle.id.toString()}>{vehicleLabel(vehicle)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="versionColorId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cor</FormLabel>
+                    <Select
+                      value={field.value ? String(field.value) : ""}
+                      onValueChange={(value) => field.onChange(parseInt(value))}
+                      disabled={!selectedVehicle}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder={selectedVehicle ? "Selecione a cor" : "Selecione o veículo primeiro"} />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {versionColors.map(versionColor => (
+                          <SelectItem key={versionColor.id} value={versionColor.id.toString()}>
+                            {versionColor.color?.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="status"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Situação</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {STOCK_UNIT_STATUSES.map(status => (
+                          <SelectItem key={status} value={status}>{STOCK_UNIT_STATUS_LABELS[status]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="vin"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Chassi (VIN)</FormLabel>
+                    <FormControl>
+                      <Input
+                        className="font-mono uppercase"
+                        maxLength={20}
+                        {...field}
+                        onBlur={() => {
+                          field.onChange(normalizeVin(field.value));
+                          field.onBlur();
+                        }}
+                      />
+                    </FormControl>
+                    <FormDescription>17 caracteres; o dígito verificador é conferido</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="renavam"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>RENAVAM</FormLabel>
+                    <FormControl>
+                      <Input className="font-mono" maxLength={11} {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormDescription>Opcional para veículos ainda não emplacados</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="arrivalDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Data de chegada</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="location"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Local</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Pátio, loja, transportadora..." {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="cost"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Custo (R$)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                        onBlur={field.onBlur}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem className="md:col-span-2">
+                    <FormLabel>Observações</FormLabel>
+                    <FormControl>
+                      <Textarea rows={3} {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+          </Card>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={form.formState.isSubmitting}>
+              {form.formState.isSubmitting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
+              {isEditing ? "Salvar Alterações" : "Cadastrar Unidade"}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+}
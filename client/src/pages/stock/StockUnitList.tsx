@@ -0,0 +1,264 @@
+import React from 'react';
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PlusCircle, Edit, Trash, Search } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { formatCurrency, formatDate } from "@/lib/formatters";
+import { Brand, Model, StockUnit } from "@/lib/types";
+import { STOCK_UNIT_STATUSES, STOCK_UNIT_STATUS_LABELS, StockUnitStatus } from "@shared/stockUnits";
+
+const STATUS_COLORS: Record<StockUnitStatus, string> = {
+  inTransit: 'bg-yellow-100 text-yellow-800',
+  inStock: 'bg-green-100 text-green-800',
+  reserved: 'bg-blue-100 text-blue-800',
+  sold: 'bg-gray-100 text-gray-800'
+};
+
+// O Select não aceita valor vazio; "all" desliga o filtro
+const ALL = "all";
+
+export default function StockUnitList() {
+  const { toast } = useToast();
+  const [deleteId, setDeleteId] = React.useState<number | null>(null);
+  const [searchFilter, setSearchFilter] = React.useState("");
+  const [statusFilter, setStatusFilter] = React.useState(ALL);
+  const [brandFilter, setBrandFilter] = React.useState(ALL);
+  const [modelFilter, setModelFilter] = React.useState(ALL);
+  const [locationFilter, setLocationFilter] = React.useState("");
+
+  const { data: brands = [] } = useQuery<Brand[]>({
+    queryKey: ["/api/brands"],
+  });
+
+  const { data: models = [] } = useQuery<Model[]>({
+    queryKey: ["/api/models"],
+  });
+
+  const brandModels = models.filter(model => brandFilter === ALL || model.brandId === parseInt(brandFilter));
+
+  // Os filtros são aplicados no servidor
+  const params = new URLSearchParams();
+  if (searchFilter.trim()) params.set("search", searchFilter.trim());
+  if (statusFilter !== ALL) params.set("status", statusFilter);
+  if (brandFilter !== ALL) params.set("brandId", brandFilter);
+  if (modelFilter !== ALL) params.set("modelId", modelFilter);
+  if (locationFilter.trim()) params.set("location", locationFilter.trim());
+  const queryString = params.toString();
+  const hasFilters = queryString !== "";
+
+  const { data: units = [], isLoading, error } = useQuery<StockUnit[]>({
+    queryKey: [hasFilters ? `/api/stock-units?${queryString}` : "/api/stock-units"],
+  });
+
+  const handleDelete = async (unit: StockUnit) => {
+    if (!window.confirm(`Excluir a unidade de chassi ${unit.vin}?`)) return;
+
+    setDeleteId(unit.id);
+    try {
+      const response = await apiRequest("DELETE", `/api/stock-units/${unit.id}`);
+      if (!response.ok) {
+        throw new Error(`Erro ao excluir unidade: ${response.statusText}`);
+      }
+
+      toast({
+        title: "Unidade excluída",
+        description: "A unidade foi removida do estoque.",
+      });
+
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/stock-units")
+      });
+    } catch (error) {
+      console.error("Erro ao excluir unidade de estoque:", error);
+      toast({
+        title: "Erro ao excluir",
+        description: "Ocorreu um erro ao excluir a unidade. Tente novamente.",
+        variant: "destructive",
+      });
+    } finally {
+      setDeleteId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Estoque</CardTitle>
+          <CardDescription>Unidades físicas no pátio ou a caminho, identificadas pelo chassi</CardDescription>
+        </div>
+        <Link href="/stock-units/new">
+          <Button className="flex items-center">
+            <PlusCircle className="mr-2 h-4 w-4" />
+            Nova Unidade
+          </Button>
+        </Link>
+      </CardHeader>
+      <CardContent>
+        <div className="mb-6 grid grid-cols-1 md:grid-cols-5 gap-3">
+          <div className="relative md:col-span-2">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+            <Input
+              type="text"
+              placeholder="Buscar por chassi ou RENAVAM..."
+              value={searchFilter}
+              onChange={(e) => setSearchFilter(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Todas as situações</SelectItem>
+              {STOCK_UNIT_STATUSES.map(status => (
+                <SelectItem key={status} value={status}>{STOCK_UNIT_STATUS_LABELS[status]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={brandFilter}
+            onValueChange={(value) => {
+              setBrandFilter(value);
+              setModelFilter(ALL);
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Todas as marcas</SelectItem>
+              {brands.map(brand => (
+                <SelectItem key={brand.id} value={brand.id.toString()}>{brand.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={modelFilter} onValueChange={setModelFilter}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Todos os modelos</SelectItem>
+              {brandModels.map(model => (
+                <SelectItem key={model.id} value={model.id.toString()}>{model.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="text"
+            placeholder="Local (pátio, loja...)"
+            value={locationFilter}
+            onChange={(e) => setLocationFilter(e.target.value)}
+            className="md:col-span-2"
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center h-32">
+            <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full"></div>
+            <span className="ml-2">Carregando...</span>
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 text-red-700">
+            <p className="font-medium">Erro ao carregar estoque</p>
+            <p className="text-sm mt-1">Por favor, tente novamente mais tarde.</p>
+          </div>
+        ) : units.length === 0 ? (
+          <div className="text-center p-8 text-gray-500">
+            {hasFilters ? (
+              <p>Nenhuma unidade encontrada com os filtros selecionados</p>
+            ) : (
+              <>
+                <p>Nenhuma unidade em estoque</p>
+                <p className="text-sm mt-2">
+                  Clique em "Nova Unidade" para adicionar.
+                </p>
+              </>
+            )}
+          </div>
+        ) : (
+          <div className="border rounded-md overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-muted/50">
+                  <th className="text-left p-3 font-medium">Chassi</th>
+                  <th className="text-left p-3 font-medium">Veículo</th>
+                  <th className="text-left p-3 font-medium">Cor</th>
+                  <th className="text-left p-3 font-medium">Situação</th>
+                  <th className="text-left p-3 font-medium">Chegada</th>
+                  <th className="text-left p-3 font-medium">Local</th>
+                  <th className="text-right p-3 font-medium">Custo</th>
+                  <th className="text-right p-3 font-medium">Ações</th>
+                </tr>
+              </thead>
+              <tbody>
+                {units.map(unit => (
+                  <tr key={unit.id} className="border-t">
+                    <td className="p-3 font-mono text-sm whitespace-nowrap">
+                      <div>{unit.vin}</div>
+                      {unit.renavam && <div className="text-muted-foreground">RENAVAM {unit.renavam}</div>}
+                    </td>
+                    <td className="p-3 text-sm">
+                      {unit.vehicle
+                        ? `${unit.vehicle.version.model.brand.name} ${unit.vehicle.version.model.name} ${unit.vehicle.version.name} ${unit.vehicle.year}`
+                        : "-"}
+                    </td>
+                    <td className="p-3 text-sm">
+                      {unit.versionColor?.color ? (
+                        <div className="flex items-center gap-2">
+                          <span
+                            className="inline-block h-3 w-3 rounded-full border"
+                            style={{ backgroundColor: unit.versionColor.color.hexCode }}
+                          />
+                          {unit.versionColor.color.name}
+                        </div>
+                      ) : "-"}
+                    </td>
+                    <td className="p-3">
+                      <Badge className={STATUS_COLORS[unit.status]} variant="outline">
+                        {STOCK_UNIT_STATUS_LABELS[unit.status]}
+                      </Badge>
+                    </td>
+                    <td className="p-3 text-sm whitespace-nowrap">{unit.arrivalDate ? formatDate(unit.arrivalDate) : "-"}</td>
+                    <td className="p-3 text-sm">{unit.location || "-"}</td>
+                    <td className="p-3 text-sm text-right whitespace-nowrap">
+                      {unit.cost != null ? formatCurrency(Number(unit.cost)) : "-"}
+                    </td>
+                    <td className="p-3 text-right">
+                      <div className="flex justify-end gap-2">
+                        <Link href={`/stock-units/${unit.id}/edit`}>
+                          <Button size="sm" variant="ghost">
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        </Link>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleDelete(unit)}
+                          disabled={deleteId === unit.id}
+                        >
+                          {deleteId === unit.id ? (
+                            <div className="animate-spin h-4 w-4 border-2 border-primary border-t-transparent rounded-full" />
+                          ) : (
+                            <Trash className="h-4 w-4 text-red-500" />
+                          )}
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Calculator, Edit, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/formatters";
+import { IMPORT_PRICE_FIELD_LABELS } from "@shared/priceImport";
+import { IPI_CATEGORY_LABELS, TaxRulesApplyResult, TaxRulesDiscrepancy } from "@shared/taxRules";
+
+// Somente veículos com preços calculados e categoria identificada podem receber os valores
+function canApply(item: TaxRulesDiscrepancy): boolean {
+  return !item.override && item.category !== null;
+}
+
+// Veículos cujos preços de isenção vigentes diferem dos calculados pelas regras
+export default function TaxDiscrepancyReport() {
+  const { toast } = useToast();
+  const [showOverrides, setShowOverrides] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const { data: discrepancies = [], isLoading, error } = useQuery<TaxRulesDiscrepancy[]>({
+    queryKey: ["/api/tax-rules/discrepancies"],
+  });
+
+  const visible = discrepancies.filter(item => showOverrides || !item.override);
+  const applicableIds = visible.filter(canApply).map(item => item.vehicleId);
+  const allSelected = applicableIds.length > 0 && applicableIds.every(id => selectedIds.includes(id));
+
+  const toggleSelected = (vehicleId: number, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, vehicleId] : prev.filter(id => id !== vehicleId));
+  };
+
+  const handleApply = async () => {
+    const vehicleIds = selectedIds.filter(id => applicableIds.includes(id));
+    if (vehicleIds.length === 0) return;
+
+    setIsApplying(true);
+    try {
+      const response = await apiRequest("POST", "/api/tax-rules/apply", { vehicleIds });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || "Erro ao aplicar preços calculados");
+      }
+      const result: TaxRulesApplyResult = await response.json();
+
+      toast({
+        title: "Preços atualizados",
+        description: `${result.updated} veículo(s) com os preços calculados, vigentes a partir de hoje.`,
+      });
+      setSelectedIds([]);
+      queryClient.invalidateQueries({ queryKey: ["/api/tax-rules/discrepancies"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
+    } catch (error) {
+      console.error("Erro ao aplicar preços calculados:", error);
+      toast({
+        title: "Erro ao aplicar",
+        description: error instanceof Error ? error.message : "Não foi possível atualizar os preços.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Conferência dos preços de isenção</CardTitle>
+        <CardDescription>
+          Veículos cujos preços PcD/Taxi vigentes diferem dos calculados pelas regras acima. Ao aplicar, os
+          valores calculados entram no histórico de preços a partir de hoje; veículos com preços manuais
+          não são alterados.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+          <div className="flex items-center gap-2">
+            <Switch id="show-overrides" checked={showOverrides} onCheckedChange={setShowOverrides} />
+            <Label htmlFor="show-overrides">Mostrar veículos com preços manuais</Label>
+          </div>
+          <Button
+            onClick={handleApply}
+            disabled={isApplying || !selectedIds.some(id => applicableIds.includes(id))}
+          >
+            {isApplying ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Calculator className="mr-2 h-4 w-4" />
+            )}
+            Aplicar valores calculados
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center h-24">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            <span className="ml-2">Conferindo preços...</span>
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4 text-red-700">
+            <p className="font-medium">Erro ao conferir os preços de isenção</p>
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="text-center p-8 text-gray-500">
+            Todos os veículos estão com os preços de isenção de acordo com as regras.
+          </div>
+        ) : (
+          <div className="border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={allSelected}
+                      disabled={applicableIds.length === 0}
+                      onCheckedChange={(checked) => setSelectedIds(checked ? applicableIds : [])}
+                    />
+                  </TableHead>
+                  <TableHead>Veículo</TableHead>
+                  <TableHead>Motor / Categoria IPI</TableHead>
+                  <TableHead className="text-right">Preço Público</TableHead>
+                  <TableHead>Diferenças (cadastrado → calculado)</TableHead>
+                  <TableHead className="w-10"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.map(item => (
+                  <TableRow key={item.vehicleId}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selectedIds.includes(item.vehicleId)}
+                        disabled={!canApply(item)}
+                        onCheckedChange={(checked) => toggleSelected(item.vehicleId, checked === true)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{item.brand} {item.model}</div>
+                      <div className="text-sm text-muted-foreground">{item.version} - {item.year}</div>
+                      {item.override && <Badge variant="outline" className="mt-1">Preços manuais</Badge>}
+                    </TableCell>
+                    <TableCell>
+                      <div>{item.engine}</div>
+                      {item.category ? (
+                        <div className="text-sm text-muted-foreground">{IPI_CATEGORY_LABELS[item.category]}</div>
+                      ) : (
+                        <Badge className="mt-1 bg-yellow-100 text-yellow-800 hover:bg-yellow-100">Motor não identificado</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">{formatCurrency(item.publicPrice)}</TableCell>
+                    <TableCell>
+                      {item.differences.map(difference => (
+                        <div key={difference.field} className="text-sm whitespace-nowrap">
+                          <span className="text-muted-foreground">{IMPORT_PRICE_FIELD_LABELS[difference.field]}:</span>{" "}
+                          {formatCurrency(difference.stored)} → <span className="font-medium">{formatCurrency(difference.computed)}</span>
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell>
+                      <Link href={`/vehicles/${item.vehicleId}/edit`}>
+                        <Button size="sm" variant="ghost">
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                      </Link>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,216 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { BRAZILIAN_STATES } from "@shared/customers";
+import { BrazilianState, IPI_CATEGORIES, IPI_CATEGORY_LABELS, IpiCategory, TaxRules } from "@shared/taxRules";
+import TaxDiscrepancyReport from "./TaxDiscrepancyReport";
+
+type PriceCapKey = 'pcdIpiPriceCap' | 'pcdIcmsPriceCap' | 'taxiIpiPriceCap' | 'taxiIcmsPriceCap';
+
+const PRICE_CAPS: Array<{ key: PriceCapKey; label: string }> = [
+  { key: 'pcdIpiPriceCap', label: 'PcD - isenção de IPI' },
+  { key: 'pcdIcmsPriceCap', label: 'PcD - isenção de ICMS' },
+  { key: 'taxiIpiPriceCap', label: 'Taxi - isenção de IPI' },
+  { key: 'taxiIcmsPriceCap', label: 'Taxi - isenção de ICMS' }
+];
+
+export default function TaxRulesPage() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<TaxRules | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: rules, isLoading, error } = useQuery<TaxRules>({
+    queryKey: ["/api/tax-rules"],
+  });
+
+  useEffect(() => {
+    if (rules) setDraft(rules);
+  }, [rules]);
+
+  const setIpiRate = (category: IpiCategory, value: string) => {
+    setDraft(prev => prev && { ...prev, ipiRates: { ...prev.ipiRates, [category]: Number(value) } });
+  };
+
+  const setIcmsRate = (state: BrazilianState, value: string) => {
+    setDraft(prev => prev && { ...prev, icmsRates: { ...prev.icmsRates, [state]: Number(value) } });
+  };
+
+  // Campo vazio = sem teto
+  const setPriceCap = (key: PriceCapKey, value: string) => {
+    setDraft(prev => prev && { ...prev, [key]: value.trim() === '' ? null : Number(value) });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    setIsSaving(true);
+    try {
+      const response = await apiRequest("PUT", "/api/tax-rules", draft);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.errors?.[0]?.message || errorData.message || "Erro ao salvar regras de impostos");
+      }
+
+      toast({
+        title: "Regras salvas",
+        description: "Os preços de isenção passam a ser calculados com as novas regras.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/tax-rules"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tax-rules/discrepancies"] });
+    } catch (error) {
+      console.error("Erro ao salvar regras de impostos:", error);
+      toast({
+        title: "Erro ao salvar",
+        description: error instanceof Error ? error.message : "Não foi possível salvar as regras.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading || (!draft && !error)) {
+    return (
+      <div className="flex justify-center items-center h-32">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <span className="ml-2">Carregando...</span>
+      </div>
+    );
+  }
+
+  if (error || !draft) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-md p-4 text-red-700">
+        <p className="font-medium">Erro ao carregar regras de impostos</p>
+        <p className="text-sm mt-1">Por favor, tente novamente mais tarde.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-semibold text-gray-800">Regras de Impostos</h1>
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Save className="mr-2 h-4 w-4" />
+          )}
+          Salvar Regras
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>IPI por categoria</CardTitle>
+          <CardDescription>
+            Alíquotas (%) por cilindrada e combustível. A categoria de cada veículo vem do campo Motor
+            (ex.: "1.0 TSI", "2.0 16V") e do tipo de combustível.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            {IPI_CATEGORIES.map(category => (
+              <div key={category} className="grid gap-2">
+                <Label htmlFor={`ipi-${category}`}>{IPI_CATEGORY_LABELS[category]}</Label>
+                <Input
+                  id={`ipi-${category}`}
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="100"
+                  value={draft.ipiRates[category]}
+                  onChange={(e) => setIpiRate(category, e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>ICMS por UF</CardTitle>
+          <CardDescription>
+            Alíquotas (%) de ICMS de cada estado. O cálculo usa a UF da revenda.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-2 max-w-xs">
+            <Label>UF da revenda</Label>
+            <Select
+              value={draft.state}
+              onValueChange={(value) => setDraft(prev => prev && { ...prev, state: value as BrazilianState })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BRAZILIAN_STATES.map(state => (
+                  <SelectItem key={state} value={state}>{state}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-3 md:grid-cols-6 lg:grid-cols-9 gap-3">
+            {BRAZILIAN_STATES.map(state => (
+              <div key={state} className="grid gap-1">
+                <Label htmlFor={`icms-${state}`} className={state === draft.state ? "font-semibold text-primary" : ""}>
+                  {state}
+                </Label>
+                <Input
+                  id={`icms-${state}`}
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="100"
+                  value={draft.icmsRates[state]}
+                  onChange={(e) => setIcmsRate(state, e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Tetos de preço das isenções</CardTitle>
+          <CardDescription>
+            Preço público máximo (R$) para cada isenção; acima do teto o preço fica sem ela.
+            Deixe em branco para não limitar.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            {PRICE_CAPS.map(cap => (
+              <div key={cap.key} className="grid gap-2">
+                <Label htmlFor={cap.key}>{cap.label}</Label>
+                <Input
+                  id={cap.key}
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="Sem limite"
+                  value={draft[cap.key] ?? ""}
+                  onChange={(e) => setPriceCap(cap.key, e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <TaxDiscrepancyReport />
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, KeyRound, Loader2, Plus, XCircle } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import {
+  API_TOKEN_EXPIRY_DAYS,
+  API_TOKEN_SCOPES,
+  API_TOKEN_SCOPE_DEFINITIONS,
+  API_TOKEN_STATUS_LABELS,
+  ApiTokenScope,
+  ApiTokenSummary,
+  CreatedApiToken
+} from "@shared/apiTokens";
+
+// Resposta de erro da API: mensagem do serviço ou erros de validação do zod
+async function readResult(response: Response) {
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.message || result.errors?.[0]?.message || "Erro ao processar a solicitação");
+  }
+  return result;
+}
+
+const formatDate = (value: string | null) => value ? new Date(value).toLocaleString('pt-BR') : '-';
+
+// Tokens pessoais para integrações (ERP, site) usarem a API com Authorization: Bearer
+export default function ApiTokensCard() {
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState("90");
+  // Token recém-criado; só pode ser copiado agora
+  const [createdToken, setCreatedToken] = useState<CreatedApiToken | null>(null);
+
+  const { data: tokens = [], isLoading } = useQuery<ApiTokenSummary[]>({
+    queryKey: ['/api/user/api-tokens'],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () =>
+      readResult(await apiRequest('POST', '/api/user/api-tokens', {
+        name,
+        scopes,
+        expiresInDays: parseInt(expiresInDays),
+      })),
+    onSuccess: (token: CreatedApiToken) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/user/api-tokens'] });
+      setShowCreateDialog(false);
+      setCreatedToken(token);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao criar token", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) =>
+      readResult(await apiRequest('DELETE', `/api/user/api-tokens/${id}`)),
+    onSuccess: (token: ApiTokenSummary) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/user/api-tokens'] });
+      toast({ title: "Token revogado", description: `O token "${token.name}" não é mais aceito pela API.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Erro ao revogar token", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openCreateDialog = () => {
+    setName("");
+    setScopes([]);
+    setExpiresInDays("90");
+    setShowCreateDialog(true);
+  };
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes(current => checked ? [...current, scope] : current.filter(item => item !== scope));
+  };
+
+  const copyToken = async () => {
+    if (!createdToken) return;
+    try {
+      await navigator.clipboard.writeText(createdToken.token);
+      toast({ title: "Token copiado", description: "Guarde-o na configuração da integração." });
+    } catch {
+      toast({ title: "Não foi possível copiar", description: "Selecione o token e copie manualmente.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Tokens de API</CardTitle>
+            <CardDescription>
+              Permitem que sistemas externos usem a API em seu nome, limitados aos escopos escolhidos e às permissões do seu papel.
+            </CardDescription>
+          </div>
+          <Button onClick={openCreateDialog} className="shrink-0">
+            <Plus className="mr-2 h-4 w-4" />
+            Novo Token
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Nome</TableHead>
+              <TableHead>Escopos</TableHead>
+              <TableHead>Expira em</TableHead>
+              <TableHead>Último uso</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8">
+                  <Loader2 className="h-5 w-5 animate-spin inline" />
+                </TableCell>
+              </TableRow>
+            ) : tokens.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8">
+                  Nenhum token criado.
+                </TableCell>
+              </TableRow>
+            ) : tokens.map(token => (
+              <TableRow key={token.id}>
+                <TableCell>
+                  <div className="font-medium">{token.name}</div>
+                  <div className="text-xs text-muted-foreground font-mono">{token.tokenPrefix}…</div>
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {token.scopes.map(scope => (
+                      <Badge key={scope} variant="outline">{API_TOKEN_SCOPE_DEFINITIONS[scope]?.label ?? scope}</Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="whitespace-nowrap">{formatDate(token.expiresAt)}</TableCell>
+                <TableCell className="whitespace-nowrap">
+                  {formatDate(token.lastUsedAt)}
+                  {token.lastUsedIp && <div className="text-xs text-muted-foreground">IP: {token.lastUsedIp}</div>}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={token.status === 'active' ? "default" : "secondary"}>
+                    {API_TOKEN_STATUS_LABELS[token.status]}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  {token.status === 'active' && (
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => revokeMutation.mutate(token.id)}
+                      disabled={revokeMutation.isPending}
+                    >
+                      <XCircle className="mr-1 h-3 w-3" />
+                      Revogar
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      {/* Diálogo para criar token */}
+      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Novo token de API</DialogTitle>
+            <DialogDescription>
+              Dê um nome que identifique a integração e escolha apenas os escopos de que ela precisa.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="api-token-name">Nome</Label>
+              <Input id="api-token-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Ex.: ERP - leitura de preços" />
+            </div>
+            <div className="space-y-2">
+              <Label>Escopos</Label>
+              {API_TOKEN_SCOPES.map(scope => (
+                <div key={scope} className="flex items-start space-x-2">
+                  <Checkbox
+                    id={`api-token-scope-${scope}`}
+                    checked={scopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                  />
+                  <div className="grid gap-0.5 leading-none">
+                    <Label htmlFor={`api-token-scope-${scope}`}>{API_TOKEN_SCOPE_DEFINITIONS[scope].label}</Label>
+                    <p className="text-xs text-muted-foreground">{API_TOKEN_SCOPE_DEFINITIONS[scope].description}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-1">
+              <Label>Validade</Label>
+              <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {API_TOKEN_EXPIRY_DAYS.map(days => (
+                    <SelectItem key={days} value={days.toString()}>{days} dias</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCreateDialog(false)}>Cancelar</Button>
+            <Button onClick={() => createMutation.mutate()} disabled={name.trim().length < 3 || scopes.length === 0 || createMutation.isPending}>
+              {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Criar token
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Token criado: exibido uma única vez */}
+      <Dialog open={!!createdToken} onOpenChange={(open) => !open && setCreatedToken(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              Token criado
+            </DialogTitle>
+            <DialogDescription>
+              Copie o token agora: ele não será exibido novamente. Se perdê-lo, revogue e crie outro.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input readOnly value={createdToken?.token ?? ""} className="font-mono" onFocus={(e) => e.target.select()} />
+            <Button variant="outline" size="icon" onClick={copyToken} title="Copiar token">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Envie o token no cabeçalho <code className="font-mono">Authorization: Bearer &lt;token&gt;</code> das requisições para <code className="font-mono">/api</code>.
+          </p>
+          <DialogFooter>
+            <Button onClick={() => setCreatedToken(null)}>Fechar</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import RecoveryCodesList from "@/components/RecoveryCodesList";
+import TwoFactorEnrollmentForm from "@/components/TwoFactorEnrollmentForm";
+import type { TwoFactorEnrollment, TwoFactorStatus } from "@shared/twoFactor";
+
+// Resposta de erro da API: mensagem do serviço ou erros de validação do zod
+async function readResult(response: Response) {
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.message || result.errors?.[0]?.message || "Erro ao processar a solicitação");
+  }
+  return result;
+}
+
+// Autenticação em dois fatores (TOTP) do próprio usuário
+export default function TwoFactorCard() {
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  // Códigos recém-gerados; só podem ser vistos agora
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ['/api/user/2fa'],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => readResult(await apiRequest('POST', '/api/user/2fa/setup')),
+    onSuccess: (result: TwoFactorEnrollment) => setEnrollment(result),
+    onError: onError("Erro ao gerar o QR code"),
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async (confirmationCode: string) =>
+      readResult(await apiRequest('POST', '/api/user/2fa/confirm', { code: confirmationCode })),
+    onSuccess: (result: { recoveryCodes: string[] }) => {
+      setEnrollment(null);
+      setRecoveryCodes(result.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ['/api/user/2fa'] });
+      toast({ title: "Autenticação em dois fatores ativada", description: "O código do aplicativo será pedido nos próximos logins." });
+    },
+    onError: onError("Código não aceito"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => readResult(await apiRequest('POST', '/api/user/2fa/recovery-codes', { code })),
+    onSuccess: (result: { recoveryCodes: string[] }) => {
+      setCode("");
+      setRecoveryCodes(result.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ['/api/user/2fa'] });
+    },
+    onError: onError("Erro ao gerar novos códigos"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => readResult(await apiRequest('DELETE', '/api/user/2fa', { code })),
+    onSuccess: (result: TwoFactorStatus) => {
+      setCode("");
+      queryClient.setQueryData(['/api/user/2fa'], result);
+      toast({ title: "Autenticação em dois fatores desativada" });
+    },
+    onError: onError("Erro ao desativar"),
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Autenticação em dois fatores
+            </CardTitle>
+            <CardDescription>
+              Além da senha, o login pede um código gerado por um aplicativo no seu celular.
+            </CardDescription>
+          </div>
+          {status && (
+            <Badge variant={status.enabled ? "default" : "secondary"}>
+              {status.enabled ? "Ativa" : "Inativa"}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !status ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : recoveryCodes ? (
+          <>
+            <RecoveryCodesList codes={recoveryCodes} />
+            <Button onClick={() => setRecoveryCodes(null)}>Já guardei os códigos</Button>
+          </>
+        ) : enrollment ? (
+          <>
+            <TwoFactorEnrollmentForm
+              enrollment={enrollment}
+              isPending={confirmMutation.isPending}
+              onConfirm={(confirmationCode) => confirmMutation.mutate(confirmationCode)}
+            />
+            <Button variant="outline" className="w-full" onClick={() => setEnrollment(null)}>
+              Cancelar
+            </Button>
+          </>
+        ) : !status.enabled ? (
+          <>
+            {status.required && (
+              <p className="text-sm text-destructive">
+                O seu papel exige autenticação em dois fatores: ela será pedida no próximo login.
+              </p>
+            )}
+            <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+              {setupMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Ativar autenticação em dois fatores
+            </Button>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Códigos de recuperação restantes: <strong>{status.recoveryCodesRemaining}</strong>
+            </p>
+            <div className="space-y-1">
+              <Label htmlFor="two-factor-manage-code">Código do aplicativo ou de recuperação</Label>
+              <Input
+                id="two-factor-manage-code"
+                autoComplete="one-time-code"
+                placeholder="000000"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                onClick={() => regenerateMutation.mutate()}
+                disabled={code.trim().length < 6 || regenerateMutation.isPending}
+              >
+                Gerar novos códigos de recuperação
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => disableMutation.mutate()}
+                disabled={status.required || code.trim().length < 6 || disableMutation.isPending}
+              >
+                Desativar
+              </Button>
+            </div>
+            {status.required && (
+              <p className="text-xs text-muted-foreground">
+                O seu papel exige autenticação em dois fatores, por isso ela não pode ser desativada.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -12,9 +12,12 @@ import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, For
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
-import { Link, useLocation } from "wouter";
+import { Link, useLocation, useSearch } from "wouter";
 import { X } from "lucide-react";
 import InputMask from "react-input-mask";
+import TwoFactorCard from "./TwoFactorCard";
+import ApiTokensCard from "./ApiTokensCard";
+import StateSelect from "@/components/StateSelect";
 
 // Schema para validação do formulário de perfil
 const profileSchema = z.object({
@@ -26,6 +29,7 @@ const profileSchema = z.object({
   }),
   address: z.string().optional(),
   phone: z.string().optional(),
+  state: z.string().nullable().optional(),
 });
 
 type ProfileFormData = z.infer<typeof profileSchema>;
@@ -49,11 +53,9 @@ export default function ProfilePage() {
   const [updating, setUpdating] = useState(false);
   const [changingPassword, setChangingPassword] = useState(false);
   // Obter parâmetro de query string para a aba ativa
-  const searchParams = new URLSearchParams(window.location.search);
-  const tabParam = searchParams.get('tab');
-  const [activeTab, setActiveTab] = useState<'profile' | 'password'>(
-    tabParam === 'password' ? 'password' : 'profile'
-  );
+  const tabParam = new URLSearchParams(useSearch()).get('tab');
+  const activeTab: 'profile' | 'password' | 'api-tokens' =
+    tabParam === 'password' || tabParam === 'api-tokens' ? tabParam : 'profile';
 
   // Form para o perfil
   const profileForm = useForm<ProfileFormData>({
@@ -65,6 +67,7 @@ export default function ProfilePage() {
       logoUrl: (user as any)?.logoUrl || "",
       address: (user as any)?.address || "",
       phone: (user as any)?.phone || "",
+      state: user?.state ?? null,
     },
   });
 
@@ -88,6 +91,7 @@ export default function ProfilePage() {
         logoUrl: (user as any)?.logoUrl || "",
         address: (user as any)?.address || "",
         phone: (user as any)?.phone || "",
+        state: user.state ?? null,
       });
     }
   }, [user, profileForm]);
@@ -118,6 +122,7 @@ export default function ProfilePage() {
         logoUrl: updatedUser.logoUrl || "",
         address: updatedUser.address || "",
         phone: updatedUser.phone || "",
+        state: updatedUser.state ?? null,
       });
       
       toast({
@@ -226,14 +231,24 @@ export default function ProfilePage() {
               variant={activeTab === 'password' ? "default" : "outline"} 
               className="w-full justify-start"
             >
-              Alterar Senha
+              Senha e Segurança
+            </Button>
+          </Link>
+          <Link href="/user/profile?tab=api-tokens">
+            <Button 
+              variant={activeTab === 'api-tokens' ? "default" : "outline"} 
+              className="w-full justify-start"
+            >
+              Tokens de API
             </Button>
           </Link>
         </div>
         
         {/* Conteúdo */}
         <div className="md:col-span-2">
-          {activeTab === 'profile' ? (
+          {activeTab === 'api-tokens' ? (
+            <ApiTokensCard />
+          ) : activeTab === 'profile' ? (
             <Card>
               <CardHeader>
                 <CardTitle>Perfil</CardTitle>
@@ -351,6 +366,23 @@ export default function ProfilePage() {
                         </FormItem>
                       )}
                     />
+
+                    <FormField
+                      control={profileForm.control}
+                      name="state"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>UF de venda</FormLabel>
+                          <FormControl>
+                            <StateSelect value={field.value} onChange={field.onChange} />
+                          </FormControl>
+                          <FormDescription>
+                            Os preços do configurador e da exportação de veículos usam o ajuste e o frete desta UF.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                     
                     <Button type="submit" disabled={updating}>
                       {updating ? (
@@ -446,6 +478,8 @@ export default function ProfilePage() {
               </CardContent>
             </Card>
           )}
+
+          {activeTab === 'password' && <TwoFactorCard />}
         </div>
       </div>
     </div>
@@ -3,9 +3,10 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Trash2, Monitor, Smartphone, AlertTriangle } from "lucide-react";
+import { Trash2, Monitor, Smartphone, AlertTriangle, ShieldAlert, Check } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { SECURITY_EVENT_LABELS, SecurityEventSummary } from "@shared/loginSecurity";
 
 interface UserSession {
   id: number;
@@ -25,6 +26,33 @@ export default function SessionsPage() {
     queryKey: ['/api/sessions'],
   });
 
+  // Logins de dispositivos ou IPs novos e bloqueios da conta
+  const { data: securityEvents = [] } = useQuery<SecurityEventSummary[]>({
+    queryKey: ['/api/security-events'],
+  });
+
+  // Mark a security event as recognized
+  const reviewEventMutation = useMutation({
+    mutationFn: async (eventId: number) => {
+      const response = await apiRequest('POST', `/api/security-events/${eventId}/review`);
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Erro ao marcar evento');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/security-events'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro",
+        description: error.message || "Erro ao marcar evento",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Terminate specific session
   const terminateSessionMutation = useMutation({
     mutationFn: async (sessionId: string) => {
@@ -256,6 +284,63 @@ export default function SessionsPage() {
         )}
       </div>
 
+      {/* Security Events */}
+      <div className="space-y-4">
+        <h2 className="text-xl font-semibold">Atividade de Segurança</h2>
+
+        {securityEvents.length === 0 ? (
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-center text-gray-500">
+                <ShieldAlert className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                <p>Nenhum evento de segurança registrado</p>
+                <p className="text-sm mt-2">
+                  Logins de dispositivos ou endereços novos e bloqueios da conta aparecem aqui
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {securityEvents.map((event) => (
+              <Card key={event.id} className={event.reviewedAt ? "" : "border-yellow-200 bg-yellow-50"}>
+                <CardContent className="pt-4">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3">
+                      <ShieldAlert className="w-4 h-4" />
+                      <div>
+                        <p className="font-medium">{SECURITY_EVENT_LABELS[event.type]}</p>
+                        {(event.deviceInfo || event.ipAddress) && (
+                          <p className="text-sm text-gray-600">
+                            {[event.deviceInfo, event.ipAddress && `IP: ${event.ipAddress}`].filter(Boolean).join(' • ')}
+                          </p>
+                        )}
+                        <p className="text-xs text-gray-500">
+                          {formatDate(event.createdAt)}
+                        </p>
+                      </div>
+                    </div>
+                    {event.reviewedAt ? (
+                      <Badge variant="secondary">Reconhecido</Badge>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => reviewEventMutation.mutate(event.id)}
+                        disabled={reviewEventMutation.isPending}
+                      >
+                        <Check className="w-4 h-4 mr-2" />
+                        Fui eu
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Security Information */}
       <Card className="border-blue-200 bg-blue-50">
         <CardHeader>
@@ -269,6 +354,7 @@ export default function SessionsPage() {
           <p>• Recomendamos fazer logout de dispositivos públicos ou compartilhados</p>
           <p>• As sessões expiram automaticamente após 24 horas de inatividade</p>
           <p>• Você pode encerrar todas as outras sessões como medida de segurança</p>
+          <p>• Se não reconhece um evento da atividade de segurança, encerre as outras sessões e troque a sua senha</p>
         </CardContent>
       </Card>
     </div>
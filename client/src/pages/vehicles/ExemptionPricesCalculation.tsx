@@ -0,0 +1,93 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { AlertTriangle, Calculator } from "lucide-react";
+import {
+  ExemptionPrices,
+  IPI_CATEGORY_LABELS,
+  IpiCategory,
+  TaxRules,
+  calculateVehicleExemptionPrices
+} from "@shared/taxRules";
+
+interface ExemptionPricesInput {
+  // Preço público já convertido para decimal com ponto ("1234.56")
+  publicPrice: string;
+  engine: string;
+  fuelType: string;
+  override: boolean;
+}
+
+/**
+ * Calcula os preços de isenção pelas regras de impostos enquanto o cadastrador preenche
+ * o veículo e os repassa ao formulário. Com valores manuais, os campos não são alterados.
+ * O servidor repete o cálculo ao salvar.
+ */
+export function useCalculatedExemptionPrices(input: ExemptionPricesInput, apply: (prices: ExemptionPrices) => void) {
+  const { data: rules } = useQuery<TaxRules>({
+    queryKey: ["/api/tax-rules"],
+  });
+
+  const calculation = rules
+    ? calculateVehicleExemptionPrices(input, rules)
+    : { category: null, prices: null };
+
+  useEffect(() => {
+    if (input.override || !calculation.prices) return;
+    apply(calculation.prices);
+  }, [
+    input.override,
+    calculation.prices?.pcdIpiIcms,
+    calculation.prices?.pcdIpi,
+    calculation.prices?.taxiIpiIcms,
+    calculation.prices?.taxiIpi
+  ]);
+
+  return { rules, category: calculation.category };
+}
+
+interface TaxCalculationSummaryProps {
+  rules?: TaxRules;
+  category: IpiCategory | null;
+  engine: string;
+  override: boolean;
+}
+
+// Explica de onde vêm os valores da aba de preços especiais
+export function TaxCalculationSummary({ rules, category, engine, override }: TaxCalculationSummaryProps) {
+  if (override) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Os preços abaixo são informados manualmente e não acompanham as{" "}
+        <Link href="/tax-rules" className="underline">regras de impostos</Link>.
+      </p>
+    );
+  }
+
+  if (!rules) return null;
+
+  if (!category) {
+    return (
+      <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+        <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+        <span>
+          {engine.trim()
+            ? `Não foi possível identificar a cilindrada do motor "${engine}". `
+            : "Informe o motor na aba Detalhes Técnicos para calcular os preços. "}
+          Para salvar sem o cálculo, informe os preços manualmente.
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-start gap-2 rounded-md border bg-muted/40 p-3 text-sm">
+      <Calculator className="h-4 w-4 mt-0.5 shrink-0" />
+      <span>
+        Calculados pelas <Link href="/tax-rules" className="underline">regras de impostos</Link>:
+        IPI {IPI_CATEGORY_LABELS[category]} ({rules.ipiRates[category]}%),
+        ICMS {rules.state} ({rules.icmsRates[rules.state]}%).
+      </span>
+    </div>
+  );
+}
@@ -18,6 +18,8 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Brand, Model, Version, Color, FuelType, TransmissionType, VehicleSituation, Vehicle } from "@/lib/types";
 import { formatBRCurrency, parseBRCurrency } from "@/lib/formatters";
+import { EXEMPTION_PRICE_FIELDS } from "@shared/taxRules";
+import { TaxCalculationSummary, useCalculatedExemptionPrices } from "./ExemptionPricesCalculation";
 
 const FUEL_TYPES = [
   { value: 'flex', label: 'Flex' },
@@ -58,6 +60,7 @@ const formSchema = z.object({
   fuelType: z.enum(['flex', 'gasoline', 'diesel', 'electric', 'hybrid']),
   transmission: z.enum(['manual', 'automatic', 'cvt', 'dct']),
   isActive: z.boolean(),
+  exemptionPricesOverride: z.boolean(),
   pcdIpiIcms: z.string()
     .transform((val) => parseBRCurrency(val))
     .refine((val) => parseFloat(val) >= 0, "O valor deve ser um valor numérico positivo"),
@@ -85,6 +88,7 @@ type FormValues = {
   fuelType: 'flex' | 'gasoline' | 'diesel' | 'electric' | 'hybrid';
   transmission: 'manual' | 'automatic' | 'cvt' | 'dct';
   isActive: boolean;
+  exemptionPricesOverride: boolean;
   pcdIpiIcms: string;
   pcdIpi: string;
   taxiIpiIcms: string;
@@ -116,6 +120,7 @@ export default function VehicleForm() {
       fuelType: "flex",
       transmission: "automatic",
       isActive: true,
+      exemptionPricesOverride: false,
       pcdIpiIcms: "0",
       pcdIpi: "0",
       taxiIpiIcms: "0",
@@ -178,6 +183,7 @@ export default function VehicleForm() {
         fuelType: vehicle.fuelType,
         transmission: vehicle.transmission,
         isActive: vehicle.isActive,
+        exemptionPricesOverride: vehicle.exemptionPricesOverride,
         pcdIpiIcms: vehicle.pcdIpiIcms.toString(),
         pcdIpi: vehicle.pcdIpi.toString(),
         taxiIpiIcms: vehicle.taxiIpiIcms.toString(),
@@ -219,29 +225,15 @@ export default function VehicleForm() {
   
   // A função formatBRCurrency foi movida para lib/formatters.ts
 
-  // Calculate tax exemption prices based on public price
-  const handlePublicPriceChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
-    // Aplica o valor não formatado no campo de entrada
-    form.setValue("publicPrice", value);
-    
-    // Converte para float para cálculos
-    const publicPrice = parseFloat(value.replace(/\./g, "").replace(",", "."));
-    
-    if (!isNaN(publicPrice)) {
-      // These are just example calculations, adjust according to actual rules
-      const pcdIpiIcms = publicPrice * 0.88; // 12% discount
-      const pcdIpi = publicPrice * 0.96; // 4% discount
-      const taxiIpiIcms = publicPrice * 0.85; // 15% discount
-      const taxiIpi = publicPrice * 0.96; // 4% discount
-      
-      // Define valores formatados nos campos respectivos
-      form.setValue("pcdIpiIcms", formatBRCurrency(pcdIpiIcms));
-      form.setValue("pcdIpi", formatBRCurrency(pcdIpi));
-      form.setValue("taxiIpiIcms", formatBRCurrency(taxiIpiIcms));
-      form.setValue("taxiIpi", formatBRCurrency(taxiIpi));
+  // Preços de isenção calculados pelas regras de impostos a partir do preço público
+  const [publicPrice, engine, fuelType, exemptionPricesOverride] =
+    form.watch(["publicPrice", "engine", "fuelType", "exemptionPricesOverride"]);
+  const taxCalculation = useCalculatedExemptionPrices(
+    { publicPrice: parseBRCurrency(publicPrice), engine, fuelType, override: exemptionPricesOverride },
+    (prices) => {
+      EXEMPTION_PRICE_FIELDS.forEach(field => form.setValue(field, formatBRCurrency(prices[field])));
     }
-  };
+  );
   
   const handleSubmit = async (values: FormValues) => {
     console.log("handleSubmit foi chamada com:", values);
@@ -541,14 +533,7 @@ export default function VehicleForm() {
                           <FormControl>
                             <div className="relative">
                               <span className="absolute left-3 top-2.5 text-gray-500">R$</span>
-                              <Input 
-                                className="pl-8" 
-                                {...field} 
-                                onChange={(e) => {
-                                  field.onChange(e);
-                                  handlePublicPriceChange(e);
-                                }}
-                              />
+                              <Input className="pl-8" {...field} />
                             </div>
                           </FormControl>
                           <FormMessage />
@@ -693,6 +678,31 @@ export default function VehicleForm() {
                 </TabsContent>
                 
                 <TabsContent value="pricing" className="space-y-6">
+                  <FormField
+                    control={form.control}
+                    name="exemptionPricesOverride"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                        <div className="space-y-0.5">
+                          <FormLabel className="text-base">Informar preços manualmente</FormLabel>
+                          <FormDescription>
+                            Desative para calcular os preços de isenção pelas regras de impostos
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+
+                  <TaxCalculationSummary
+                    rules={taxCalculation.rules}
+                    category={taxCalculation.category}
+                    engine={engine}
+                    override={exemptionPricesOverride}
+                  />
+
                   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-2 gap-6">
                     <FormField
                       control={form.control}
@@ -703,7 +713,7 @@ export default function VehicleForm() {
                           <FormControl>
                             <div className="relative">
                               <span className="absolute left-3 top-2.5 text-gray-500">R$</span>
-                              <Input className="pl-8" {...field} />
+                              <Input className="pl-8" {...field} readOnly={!exemptionPricesOverride} />
                             </div>
                           </FormControl>
                           <FormMessage />
@@ -720,7 +730,7 @@ export default function VehicleForm() {
                           <FormControl>
                             <div className="relative">
                               <span className="absolute left-3 top-2.5 text-gray-500">R$</span>
-                              <Input className="pl-8" {...field} />
+                              <Input className="pl-8" {...field} readOnly={!exemptionPricesOverride} />
                             </div>
                           </FormControl>
                           <FormMessage />
@@ -737,7 +747,7 @@ export default function VehicleForm() {
                           <FormControl>
                             <div className="relative">
                               <span className="absolute left-3 top-2.5 text-gray-500">R$</span>
-                              <Input className="pl-8" {...field} />
+                              <Input className="pl-8" {...field} readOnly={!exemptionPricesOverride} />
                             </div>
                           </FormControl>
                           <FormMessage />
@@ -754,7 +764,7 @@ export default function VehicleForm() {
                           <FormControl>
                             <div className="relative">
                               <span className="absolute left-3 top-2.5 text-gray-500">R$</span>
-                              <Input className="pl-8" {...field} />
+                              <Input className="pl-8" {...field} readOnly={!exemptionPricesOverride} />
                             </div>
                           </FormControl>
                           <FormMessage />
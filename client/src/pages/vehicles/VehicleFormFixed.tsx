@@ -17,6 +17,9 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Brand, Model, Version, Color, FuelType, TransmissionType, VehicleSituation, Vehicle } from "@/lib/types";
 import { formatBRCurrency, formatBRCurrencyWithSymbol, parseBRCurrency } from "@/lib/formatters";
+import VehiclePriceTimeline from "./VehiclePriceTimeline";
+import { EXEMPTION_PRICE_FIELDS } from "@shared/taxRules";
+import { TaxCalculationSummary, useCalculatedExemptionPrices } from "./ExemptionPricesCalculation";
 
 const FUEL_TYPES = [
   { value: 'flex', label: 'Flex' },
@@ -53,6 +56,7 @@ const formSchema = z.object({
   fuelType: z.enum(['flex', 'gasoline', 'diesel', 'electric', 'hybrid']),
   transmission: z.enum(['manual', 'automatic', 'cvt', 'dct']),
   isActive: z.boolean().default(true),
+  exemptionPricesOverride: z.boolean().default(false),
   pcdIpiIcms: z.string().default("0"),
   pcdIpi: z.string().default("0"),
   taxiIpiIcms: z.string().default("0"),
@@ -89,6 +93,7 @@ export default function VehicleFormFixed() {
       fuelType: "flex",
       transmission: "automatic",
       isActive: true,
+      exemptionPricesOverride: false,
       pcdIpiIcms: "",
       pcdIpi: "",
       taxiIpiIcms: "",
@@ -197,6 +202,7 @@ export default function VehicleFormFixed() {
           fuelType: vehicle.fuelType,
           transmission: vehicle.transmission,
           isActive: vehicle.isActive,
+          exemptionPricesOverride: vehicle.exemptionPricesOverride,
           pcdIpiIcms: formatBRCurrency(Number(vehicle.pcdIpiIcms)),
           pcdIpi: formatBRCurrency(Number(vehicle.pcdIpi)),
           taxiIpiIcms: formatBRCurrency(Number(vehicle.taxiIpiIcms)),
@@ -291,10 +297,20 @@ export default function VehicleFormFixed() {
     // Define o valor formatado no campo
     form.setValue("publicPrice", formattedValue);
     
-    // Não calculamos mais os preços automaticamente para PCD e Taxi
-    // Deixamos esses campos vazios conforme solicitado
+    // Os preços para PCD e Taxi são recalculados pelas regras de impostos
+    // (useCalculatedExemptionPrices), salvo quando informados manualmente
   };
   
+  // Preços de isenção calculados pelas regras de impostos a partir do preço público
+  const [publicPrice, engine, fuelType, exemptionPricesOverride] =
+    form.watch(["publicPrice", "engine", "fuelType", "exemptionPricesOverride"]);
+  const taxCalculation = useCalculatedExemptionPrices(
+    { publicPrice: parseBRCurrency(publicPrice), engine, fuelType, override: exemptionPricesOverride },
+    (prices) => {
+      EXEMPTION_PRICE_FIELDS.forEach(field => form.setValue(field, formatBRCurrency(prices[field])));
+    }
+  );
+
   // Função para formatar valores em campos monetários
   const formatMoneyField = (name: keyof FormValues) => (e: React.ChangeEvent<HTMLInputElement>) => {
     const rawValue = e.target.value;
@@ -345,6 +361,7 @@ export default function VehicleFormFixed() {
         fuelType: data.fuelType,
         transmission: data.transmission,
         isActive: data.isActive,
+        exemptionPricesOverride: data.exemptionPricesOverride,
         pcdIpiIcms: parseBRCurrency(data.pcdIpiIcms),
         pcdIpi: parseBRCurrency(data.pcdIpi),
         taxiIpiIcms: parseBRCurrency(data.taxiIpiIcms),
@@ -410,6 +427,7 @@ export default function VehicleFormFixed() {
         if (isEditing) {
           // Invalidar a consulta específica deste veículo para forçar recarregar
           queryClient.invalidateQueries({ queryKey: [`/api/vehicles/${id}`] });
+          queryClient.invalidateQueries({ queryKey: [`/api/vehicles/${id}/prices`] });
           
           // Atualizar os dados no formulário com os valores recém-salvos
           toast({
@@ -468,6 +486,7 @@ export default function VehicleFormFixed() {
                   fuelType: updatedVehicle.fuelType,
                   transmission: updatedVehicle.transmission,
                   isActive: updatedVehicle.isActive,
+                  exemptionPricesOverride: updatedVehicle.exemptionPricesOverride,
                   pcdIpiIcms: formatBRCurrency(Number(updatedVehicle.pcdIpiIcms)),
                   pcdIpi: formatBRCurrency(Number(updatedVehicle.pcdIpi)),
                   taxiIpiIcms: formatBRCurrency(Number(updatedVehicle.taxiIpiIcms)),
@@ -508,6 +527,7 @@ export default function VehicleFormFixed() {
             fuelType: "flex",
             transmission: "automatic",
             isActive: true,
+            exemptionPricesOverride: false,
             pcdIpiIcms: "",
             pcdIpi: "",
             taxiIpiIcms: "",
@@ -947,6 +967,31 @@ export default function VehicleFormFixed() {
                 
                 <TabsContent value="pricing" className="space-y-6">
                   {/* Conteúdo da aba Preços Especiais */}
+                  <FormField
+                    control={form.control}
+                    name="exemptionPricesOverride"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                        <div className="space-y-0.5">
+                          <FormLabel className="text-base">Informar preços manualmente</FormLabel>
+                          <FormDescription>
+                            Desative para calcular os preços de isenção pelas regras de impostos
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+
+                  <TaxCalculationSummary
+                    rules={taxCalculation.rules}
+                    category={taxCalculation.category}
+                    engine={engine}
+                    override={exemptionPricesOverride}
+                  />
+
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     {/* Campo: PCD (IPI+ICMS) */}
                     <FormField
@@ -961,6 +1006,7 @@ export default function VehicleFormFixed() {
                               <Input 
                                 className="pl-8" 
                                 {...field} 
+                                readOnly={!exemptionPricesOverride}
                                 onChange={formatMoneyField("pcdIpiIcms")}
                               />
                             </div>
@@ -983,6 +1029,7 @@ export default function VehicleFormFixed() {
                               <Input 
                                 className="pl-8" 
                                 {...field} 
+                                readOnly={!exemptionPricesOverride}
                                 onChange={formatMoneyField("pcdIpi")}
                               />
                             </div>
@@ -1005,6 +1052,7 @@ export default function VehicleFormFixed() {
                               <Input 
                                 className="pl-8" 
                                 {...field} 
+                                readOnly={!exemptionPricesOverride}
                                 onChange={formatMoneyField("taxiIpiIcms")}
                               />
                             </div>
@@ -1027,6 +1075,7 @@ export default function VehicleFormFixed() {
                               <Input 
                                 className="pl-8" 
                                 {...field} 
+                                readOnly={!exemptionPricesOverride}
                                 onChange={formatMoneyField("taxiIpi")}
                               />
                             </div>
@@ -1075,6 +1124,8 @@ export default function VehicleFormFixed() {
           </Tabs>
         </CardContent>
       </Card>
+
+      {isEditing && id && <VehiclePriceTimeline vehicleId={id} />}
     </div>
   );
 }
\ No newline at end of file
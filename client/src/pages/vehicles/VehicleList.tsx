@@ -8,16 +8,21 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Progress } from "@/components/ui/progress";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Plus, Search, Pencil, Trash, Download, CheckCircle, FileText, Loader2 } from "lucide-react";
+import { Plus, Search, Pencil, Trash, Download, Upload, CheckCircle, FileText, Loader2 } from "lucide-react";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Vehicle, VehicleStatus } from "@/lib/types";
 import { formatCurrency } from "@/lib/formatters";
+import { useAuth } from "@/hooks/use-auth";
+import StateSelect from "@/components/StateSelect";
 
 export default function VehicleList() {
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
+  const { user } = useAuth();
+  // UF da exportação: preços com o ajuste e o frete da UF (padrão: a UF do perfil)
+  const [exportState, setExportState] = useState<string | null>(user?.state ?? null);
   const [downloadProgress, setDownloadProgress] = useState({
     isDownloading: false,
     progress: 0,
@@ -82,7 +87,10 @@ export default function VehicleList() {
         }
       }, 800);
 
-      const response = await fetch('/api/vehicles/export', {
+      const exportUrl = exportState
+        ? `/api/vehicles/export?state=${encodeURIComponent(exportState)}`
+        : '/api/vehicles/export';
+      const response = await fetch(exportUrl, {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
@@ -108,7 +116,7 @@ export default function VehicleList() {
       const url = window.URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      link.download = `veiculos_${new Date().toISOString().split('T')[0]}.csv`;
+      link.download = `veiculos_${exportState ? `${exportState}_` : ''}${new Date().toISOString().split('T')[0]}.csv`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -196,6 +204,12 @@ export default function VehicleList() {
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-semibold text-gray-800">Veículos</h1>
         <div className="flex gap-2">
+          <StateSelect
+            value={exportState}
+            onChange={setExportState}
+            disabled={downloadProgress.isDownloading}
+            className="w-44"
+          />
           <Button 
             onClick={handleExportCSV} 
             variant="outline"
@@ -213,6 +227,12 @@ export default function VehicleList() {
             )}
             {downloadProgress.isDownloading ? 'Exportando...' : 'Exportar Veículos'}
           </Button>
+          <Link href="/vehicles/import">
+            <Button variant="outline">
+              <Upload className="mr-2 h-4 w-4" />
+              Importar Preços
+            </Button>
+          </Link>
           <Link href="/vehicles/new">
             <Button>
               <Plus className="mr-2 h-4 w-4" />
@@ -334,7 +354,7 @@ export default function VehicleList() {
                             <AlertDialogHeader>
                               <AlertDialogTitle>Confirmar exclusão</AlertDialogTitle>
                               <AlertDialogDescription>
-                                Tem certeza que deseja excluir este veículo? Esta ação não pode ser desfeita.
+                                O veículo será movido para a Lixeira, de onde um administrador pode restaurá-lo.
                               </AlertDialogDescription>
                             </AlertDialogHeader>
                             <AlertDialogFooter>
@@ -0,0 +1,304 @@
+import { useRef, useState } from "react";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { ArrowLeft, CheckCircle, FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { formatCurrency, formatDate } from "@/lib/formatters";
+import {
+  IMPORT_PRICE_FIELD_LABELS,
+  PriceImportResult,
+  PriceImportRowStatus
+} from "@shared/priceImport";
+
+const STATUS_LABELS: Record<PriceImportRowStatus, string> = {
+  changed: 'Alterado',
+  unchanged: 'Sem alteração',
+  not_found: 'Não encontrado',
+  invalid: 'Inválido'
+};
+
+const STATUS_BADGE_CLASSES: Record<PriceImportRowStatus, string> = {
+  changed: 'bg-blue-100 text-blue-800',
+  unchanged: 'bg-gray-100 text-gray-800',
+  not_found: 'bg-yellow-100 text-yellow-800',
+  invalid: 'bg-red-100 text-red-800'
+};
+
+export default function VehiclePriceImport() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  // Vazio = a nova tabela vale a partir de hoje
+  const [effectiveFrom, setEffectiveFrom] = useState("");
+  const [result, setResult] = useState<PriceImportResult | null>(null);
+  const [statusFilter, setStatusFilter] = useState<string>("changed");
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  // Envia o arquivo para prévia (dryRun) ou para aplicação das alterações
+  const sendFile = async (dryRun: boolean) => {
+    if (!file) return;
+
+    setIsProcessing(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('dryRun', String(dryRun));
+      if (effectiveFrom) {
+        formData.append('effectiveFrom', effectiveFrom);
+      }
+
+      const response = await fetch('/api/vehicles/import', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || `Erro ao importar preços: ${response.statusText}`);
+      }
+
+      const data: PriceImportResult = await response.json();
+      setResult(data);
+
+      if (data.applied) {
+        queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
+        toast({
+          title: "Preços atualizados",
+          description: `${data.summary.vehiclesUpdated} veículo(s) com nova tabela vigente a partir de ${formatDate(data.effectiveFrom)}.`,
+        });
+        setFile(null);
+        if (fileInputRef.current) fileInputRef.current.value = '';
+      } else {
+        setStatusFilter(data.summary.changed > 0 ? "changed" : "all");
+      }
+    } catch (error) {
+      console.error("Erro ao importar preços:", error);
+      toast({
+        title: "Erro na importação",
+        description: error instanceof Error ? error.message : "Não foi possível processar o arquivo.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(event.target.files?.[0] || null);
+    setResult(null);
+  };
+
+  // A prévia compara com os preços vigentes na data escolhida: mudar a data exige nova prévia
+  const handleEffectiveFromChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setEffectiveFrom(event.target.value);
+    setResult(null);
+  };
+
+  const filteredRows = (result?.rows || []).filter(row =>
+    statusFilter === "all" || row.status === statusFilter
+  );
+
+  const canApply = !!file && !!result && !result.applied &&
+    result.summary.changed > 0 && result.summary.invalid === 0;
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-semibold text-gray-800">Importar Preços</h1>
+        <Link href="/vehicles">
+          <Button variant="outline">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Voltar para Veículos
+          </Button>
+        </Link>
+      </div>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Arquivo da tabela de preços</CardTitle>
+          <CardDescription>
+            Envie um CSV no mesmo layout de "Exportar Veículos" (separado por ponto e vírgula) ou uma planilha XLSX.
+            As linhas são identificadas por Marca, Modelo, Versão e Ano; colunas de preço vazias mantêm o valor atual.
+            Escolha uma data futura para agendar a nova tabela.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col md:flex-row gap-3 md:items-center">
+            <Input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={handleFileChange}
+              className="md:max-w-md"
+            />
+            <div className="flex items-center gap-2">
+              <Label htmlFor="effective-from" className="whitespace-nowrap">Vigente a partir de</Label>
+              <Input
+                id="effective-from"
+                type="date"
+                value={effectiveFrom}
+                onChange={handleEffectiveFromChange}
+                className="w-44"
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => sendFile(true)}
+              disabled={!file || isProcessing}
+            >
+              {isProcessing ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <FileSpreadsheet className="mr-2 h-4 w-4" />
+              )}
+              Pré-visualizar alterações
+            </Button>
+            <Button
+              onClick={() => setConfirmOpen(true)}
+              disabled={!canApply || isProcessing}
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              Aplicar alterações
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              {result.applied && <CheckCircle className="h-5 w-5 text-green-600" />}
+              {result.applied ? "Importação aplicada" : "Prévia da importação"}
+            </CardTitle>
+            <CardDescription>
+              {result.fileName} — {result.summary.totalRows} linha(s) lida(s) — vigência a partir de {formatDate(result.effectiveFrom)}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+              <div className="rounded-md border p-3">
+                <div className="text-sm text-gray-500">Com alteração</div>
+                <div className="text-xl font-semibold text-blue-700">{result.summary.changed}</div>
+              </div>
+              <div className="rounded-md border p-3">
+                <div className="text-sm text-gray-500">Sem alteração</div>
+                <div className="text-xl font-semibold text-gray-700">{result.summary.unchanged}</div>
+              </div>
+              <div className="rounded-md border p-3">
+                <div className="text-sm text-gray-500">Não encontrados</div>
+                <div className="text-xl font-semibold text-yellow-700">{result.summary.notFound}</div>
+              </div>
+              <div className="rounded-md border p-3">
+                <div className="text-sm text-gray-500">Inválidos</div>
+                <div className="text-xl font-semibold text-red-700">{result.summary.invalid}</div>
+              </div>
+            </div>
+
+            {!result.applied && result.summary.invalid > 0 && (
+              <p className="text-sm text-red-600 mb-4">
+                Corrija as linhas inválidas e gere a prévia novamente para poder aplicar as alterações.
+              </p>
+            )}
+
+            <div className="flex justify-end mb-4">
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Filtrar por situação" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todas as linhas</SelectItem>
+                  <SelectItem value="changed">Com alteração</SelectItem>
+                  <SelectItem value="unchanged">Sem alteração</SelectItem>
+                  <SelectItem value="not_found">Não encontrados</SelectItem>
+                  <SelectItem value="invalid">Inválidos</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Linha</TableHead>
+                  <TableHead>Veículo</TableHead>
+                  <TableHead>Situação</TableHead>
+                  <TableHead>Alterações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredRows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-6 text-gray-500">
+                      Nenhuma linha nesta situação
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  filteredRows.map(row => (
+                    <TableRow key={row.line}>
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{row.brand} {row.model}</div>
+                        <div className="text-sm text-gray-500">{row.version} {row.year ?? ''}</div>
+                      </TableCell>
+                      <TableCell>
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_BADGE_CLASSES[row.status]}`}>
+                          {STATUS_LABELS[row.status]}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        {row.error ? (
+                          <span className="text-sm text-red-600">{row.error}</span>
+                        ) : row.changes.length > 0 ? (
+                          <div className="space-y-1">
+                            {row.changes.map(change => (
+                              <div key={change.field} className="text-sm">
+                                <span className="text-gray-500">{IMPORT_PRICE_FIELD_LABELS[change.field]}:</span>{" "}
+                                <span className="line-through text-gray-400">{formatCurrency(change.oldValue)}</span>{" "}
+                                <span className={change.newValue > change.oldValue ? "text-red-600 font-medium" : "text-green-600 font-medium"}>
+                                  {formatCurrency(change.newValue)}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        ) : (
+                          <span className="text-sm text-gray-400">—</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Aplicar nova tabela de preços?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {result?.summary.changed} linha(s) com alteração serão aplicadas, atualizando {result?.summary.vehiclesUpdated} veículo(s).
+              Todas as alterações são gravadas de uma vez; se alguma falhar, nenhuma é aplicada.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={() => sendFile(false)}>
+              Aplicar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
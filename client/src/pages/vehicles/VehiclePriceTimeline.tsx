@@ -0,0 +1,281 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CalendarClock, History, Loader2, Trash } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { hasPermission } from "@/lib/permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatCurrency, formatDate } from "@/lib/formatters";
+import { VehiclePriceEntry, VehiclePriceSource } from "@/lib/types";
+
+const PRICE_FIELDS = [
+  { key: 'publicPrice', label: 'Preço Público' },
+  { key: 'pcdIpiIcms', label: 'PcD IPI/ICMS' },
+  { key: 'pcdIpi', label: 'PcD IPI' },
+  { key: 'taxiIpiIcms', label: 'Taxi IPI/ICMS' },
+  { key: 'taxiIpi', label: 'Taxi IPI' }
+] as const;
+
+type PriceFieldKey = typeof PRICE_FIELDS[number]['key'];
+
+const SOURCE_LABELS: Record<VehiclePriceSource, string> = {
+  manual: 'Edição do veículo',
+  scheduled: 'Agendamento',
+  import: 'Importação',
+  initial: 'Cadastro inicial',
+  taxRules: 'Regras de impostos'
+};
+
+function todayDate(): string {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+interface VehiclePriceTimelineProps {
+  vehicleId: number;
+}
+
+// Linha do tempo dos preços do veículo, com agendamento de nova tabela
+export default function VehiclePriceTimeline({ vehicleId }: VehiclePriceTimelineProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canEdit = hasPermission(`/vehicles/${vehicleId}/edit`, user?.role?.name);
+  const [effectiveFrom, setEffectiveFrom] = useState("");
+  const [notes, setNotes] = useState("");
+  const [prices, setPrices] = useState<Record<PriceFieldKey, string>>({
+    publicPrice: "",
+    pcdIpiIcms: "",
+    pcdIpi: "",
+    taxiIpiIcms: "",
+    taxiIpi: ""
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const historyUrl = `/api/vehicles/${vehicleId}/prices`;
+  const { data: history = [], isLoading } = useQuery<VehiclePriceEntry[]>({
+    queryKey: [historyUrl],
+  });
+
+  const today = todayDate();
+  // O registro vigente é o mais recente com data até hoje (a lista vem ordenada do mais novo para o mais antigo)
+  const currentEntryId = history.find(entry => entry.effectiveFrom <= today)?.id;
+
+  const refreshAll = () => {
+    queryClient.invalidateQueries({ queryKey: [historyUrl] });
+    queryClient.invalidateQueries({ queryKey: [`/api/vehicles/${vehicleId}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
+  };
+
+  // Preenche o formulário com os preços vigentes para facilitar alterar apenas alguns valores
+  const handleUseCurrentPrices = () => {
+    const current = history.find(entry => entry.id === currentEntryId);
+    if (!current) return;
+    setPrices({
+      publicPrice: current.publicPrice,
+      pcdIpiIcms: current.pcdIpiIcms,
+      pcdIpi: current.pcdIpi,
+      taxiIpiIcms: current.taxiIpiIcms,
+      taxiIpi: current.taxiIpi
+    });
+  };
+
+  const handleSchedule = async () => {
+    if (!effectiveFrom || PRICE_FIELDS.some(field => prices[field.key] === "")) {
+      toast({
+        title: "Dados incompletos",
+        description: "Informe a data de vigência e os cinco preços.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await apiRequest("POST", historyUrl, {
+        ...prices,
+        effectiveFrom,
+        notes: notes || null
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || errorData.errors?.[0]?.message || `Erro ao registrar preço: ${response.statusText}`);
+      }
+
+      toast({
+        title: effectiveFrom > today ? "Preço agendado" : "Preço registrado",
+        description: `Nova tabela vigente a partir de ${formatDate(effectiveFrom)}.`,
+      });
+      setEffectiveFrom("");
+      setNotes("");
+      refreshAll();
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Não foi possível registrar o preço.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancel = async (entry: VehiclePriceEntry) => {
+    if (!window.confirm(`Cancelar o preço agendado para ${formatDate(entry.effectiveFrom)}?`)) return;
+
+    setBusyId(entry.id);
+    try {
+      const response = await apiRequest("DELETE", `${historyUrl}/${entry.id}`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || `Erro ao cancelar agendamento: ${response.statusText}`);
+      }
+      toast({ title: "Agendamento cancelado" });
+      refreshAll();
+    } catch (error) {
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Não foi possível cancelar o agendamento.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Histórico de Preços
+        </CardTitle>
+        <CardDescription>
+          Cada tabela vale a partir da sua data de vigência. Datas futuras ficam agendadas e entram em vigor automaticamente.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {canEdit && (
+          <div className="border rounded-md p-4 mb-6 space-y-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div>
+                <Label htmlFor="price-effective-from">Vigente a partir de</Label>
+                <Input
+                  id="price-effective-from"
+                  type="date"
+                  value={effectiveFrom}
+                  onChange={(e) => setEffectiveFrom(e.target.value)}
+                  className="w-44"
+                />
+              </div>
+              {PRICE_FIELDS.map(field => (
+                <div key={field.key}>
+                  <Label htmlFor={`price-${field.key}`}>{field.label}</Label>
+                  <Input
+                    id={`price-${field.key}`}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={prices[field.key]}
+                    onChange={(e) => setPrices(prev => ({ ...prev, [field.key]: e.target.value }))}
+                    className="w-36"
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="flex-1 min-w-[240px]">
+                <Label htmlFor="price-notes">Observação</Label>
+                <Input
+                  id="price-notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Ex.: tabela do fabricante de março"
+                />
+              </div>
+              <Button type="button" variant="outline" onClick={handleUseCurrentPrices} disabled={!currentEntryId}>
+                Usar preços vigentes
+              </Button>
+              <Button type="button" onClick={handleSchedule} disabled={isSaving}>
+                {isSaving ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <CalendarClock className="h-4 w-4 mr-2" />
+                )}
+                Registrar preço
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-center py-6 text-gray-500">Carregando histórico...</div>
+        ) : history.length === 0 ? (
+          <div className="text-center py-6 text-gray-500">
+            Nenhuma alteração registrada. Os preços atuais passam a fazer parte do histórico na primeira alteração.
+          </div>
+        ) : (
+          <ol className="relative border-l border-gray-200 ml-2">
+            {history.map(entry => {
+              const isScheduled = entry.effectiveFrom > today;
+              const isCurrent = entry.id === currentEntryId;
+
+              return (
+                <li key={entry.id} className="mb-6 ml-4">
+                  <span
+                    className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white ${
+                      isScheduled ? 'bg-yellow-500' : isCurrent ? 'bg-green-600' : 'bg-gray-300'
+                    }`}
+                  />
+                  <div className="flex flex-wrap items-center gap-2 mb-1">
+                    <span className="font-semibold">{formatDate(entry.effectiveFrom)}</span>
+                    {isScheduled && (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">Agendado</span>
+                    )}
+                    {isCurrent && (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">Vigente</span>
+                    )}
+                    <span className="text-sm text-gray-500">
+                      {SOURCE_LABELS[entry.source] || entry.source}
+                      {entry.createdByUser ? ` por ${entry.createdByUser.name}` : ''}
+                      {` em ${new Date(entry.createdAt).toLocaleString('pt-BR')}`}
+                    </span>
+                    {isScheduled && canEdit && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-800"
+                        onClick={() => handleCancel(entry)}
+                        disabled={busyId === entry.id}
+                      >
+                        <Trash className="h-4 w-4 mr-1" />
+                        Cancelar
+                      </Button>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-sm">
+                    {PRICE_FIELDS.map(field => (
+                      <div key={field.key}>
+                        <div className="text-gray-500">{field.label}</div>
+                        <div className="font-medium">{formatCurrency(Number(entry[field.key]))}</div>
+                      </div>
+                    ))}
+                  </div>
+                  {entry.notes && (
+                    <p className="text-sm text-gray-600 mt-1">{entry.notes}</p>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -147,7 +147,7 @@ export default function VersionList() {
                             <AlertDialogHeader>
                               <AlertDialogTitle>Confirmar exclusão</AlertDialogTitle>
                               <AlertDialogDescription>
-                                Tem certeza que deseja excluir a versão "{version.name}"? Esta ação não pode ser desfeita.
+                                A versão "{version.name}" e seus veículos, cores e opcionais vinculados serão movidos para a Lixeira, de onde um administrador pode restaurá-los.
                               </AlertDialogDescription>
                             </AlertDialogHeader>
                             <AlertDialogFooter>
@@ -0,0 +1,312 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { getUser } from "./auth";
+import { db } from "@db";
+import { backups } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import type { AuditAction, AuditChanges } from "@shared/schema";
+import { TRASH_ENTITIES, TRASH_RETENTION_SETTING_KEY } from "@shared/trash";
+import { backupScheduler } from "./services/backupScheduler";
+import { roleService } from "./services/roleService";
+import { invitationService } from "./services/invitationService";
+import { SELF_REGISTRATION_SETTING_KEY } from "@shared/invitations";
+import { TWO_FACTOR_REQUIRED_ROLES_SETTING_KEY } from "@shared/twoFactor";
+import { TAX_RULES_SETTING_KEY } from "@shared/taxRules";
+import { taxRulesService } from "./services/taxRulesService";
+import { reservationService } from "./services/reservationService";
+
+// Recurso auditado: caminho (relativo a /api), entidade e como carregar o estado anterior
+interface AuditedResource {
+  entity: string;
+  pattern: RegExp;
+  // Ação fixa para rotas que não são CRUD (ex.: importação, restauração)
+  action?: AuditAction;
+  // Extrai o id da entidade; por padrão, o primeiro grupo capturado do caminho
+  getEntityId?: (match: RegExpMatchArray, req: Request) => string | undefined;
+  load?: (entityId: string) => Promise<unknown>;
+  // Operações que não alteram nada (prévias/dry-run) não são registradas
+  skip?: (req: Request, responseBody: any) => boolean;
+  // Resume respostas grandes antes de gravar
+  summarize?: (responseBody: any) => unknown;
+  // Autor da ação em rotas públicas (sem usuário na sessão)
+  getActor?: (responseBody: any) => { id: number; name: string } | undefined;
+}
+
+const byNumericId = <T>(loader: (id: number) => Promise<T>) =>
+  (entityId: string) => loader(parseInt(entityId));
+
+// Rotas de alteração do catálogo e da administração que entram na trilha de auditoria
+const AUDITED_RESOURCES: AuditedResource[] = [
+  { entity: 'brands', pattern: /^\/brands(?:\/(\d+))?$/, load: byNumericId(storage.getBrandById) },
+  { entity: 'models', pattern: /^\/models(?:\/(\d+))?$/, load: byNumericId(storage.getModelById) },
+  { entity: 'versions', pattern: /^\/versions(?:\/(\d+))?$/, load: byNumericId(storage.getVersionById) },
+  { entity: 'colors', pattern: /^\/colors(?:\/(\d+))?$/, load: byNumericId(storage.getColorById) },
+  { entity: 'paint_types', pattern: /^\/paint-types(?:\/(\d+))?$/, load: byNumericId(storage.getPaintTypeById) },
+  { entity: 'version_colors', pattern: /^\/version-colors(?:\/(\d+))?$/, load: byNumericId(storage.getVersionColorById) },
+  { entity: 'optionals', pattern: /^\/optionals(?:\/(\d+))?$/, load: byNumericId(storage.getOptionalById) },
+  { entity: 'version_optionals', pattern: /^\/version-optionals(?:\/(\d+))?$/, load: byNumericId(storage.getVersionOptionalById) },
+  {
+    entity: 'vehicle_prices',
+    pattern: /^\/vehicles\/import$/,
+    action: 'import',
+    getEntityId: () => undefined,
+    skip: (_req, body) => !body?.applied,
+    summarize: body => ({ fileName: body?.fileName, effectiveFrom: body?.effectiveFrom, summary: body?.summary })
+  },
+  { entity: 'vehicle_prices', pattern: /^\/vehicles\/(\d+)\/prices(?:\/\d+)?$/, load: byNumericId(id => storage.getVehicleById(id)) },
+  { entity: 'vehicles', pattern: /^\/vehicles(?:\/(\d+))?$/, load: byNumericId(id => storage.getVehicleById(id)) },
+  {
+    entity: 'settings',
+    pattern: /^\/tax-rules$/,
+    getEntityId: () => TAX_RULES_SETTING_KEY,
+    load: () => taxRulesService.getRules()
+  },
+  // Preços calculados pelas regras de impostos gravados no histórico dos veículos escolhidos
+  {
+    entity: 'vehicle_prices',
+    pattern: /^\/tax-rules\/apply$/,
+    action: 'update',
+    getEntityId: () => undefined
+  },
+  // Ajustes por UF: a lista inteira é substituída; registra o percentual de cada UF
+  {
+    entity: 'state_price_adjustments',
+    pattern: /^\/regional-prices\/adjustments$/,
+    getEntityId: () => undefined,
+    summarize: body => Array.isArray(body)
+      ? Object.fromEntries(body.map((item: any) => [item.state, item.adjustmentPercentage]))
+      : body
+  },
+  { entity: 'freight_rates', pattern: /^\/regional-prices\/freight(?:\/(\d+))?$/, load: byNumericId(storage.getFreightRateById) },
+  { entity: 'direct_sales', pattern: /^\/direct-sales(?:\/(\d+))?$/, load: byNumericId(storage.getDirectSaleById) },
+  { entity: 'customers', pattern: /^\/customers(?:\/(\d+))?$/, load: byNumericId(storage.getCustomerById) },
+  { entity: 'stock_units', pattern: /^\/stock-units(?:\/(\d+))?$/, load: byNumericId(storage.getStockUnitById) },
+  // Quantidade de um par veículo/cor, identificado como "veículo:cor da versão"
+  {
+    entity: 'vehicle_availability',
+    pattern: /^\/availability$/,
+    action: 'update',
+    getEntityId: (_match, req) => req.body?.vehicleId && req.body?.versionColorId
+      ? `${req.body.vehicleId}:${req.body.versionColorId}`
+      : undefined,
+    load: entityId => {
+      const [vehicleId, versionColorId] = entityId.split(':').map(Number);
+      return reservationService.getAvailabilityRow(vehicleId, versionColorId);
+    }
+  },
+  {
+    entity: 'vehicle_reservations',
+    pattern: /^\/reservations\/(\d+)\/release$/,
+    action: 'update',
+    load: byNumericId(id => reservationService.getReservation(id))
+  },
+  { entity: 'vehicle_reservations', pattern: /^\/reservations$/ },
+  { entity: 'settings', pattern: /^\/settings\/key\/([^/]+)$/, load: key => storage.getSettingByKey(decodeURIComponent(key)) },
+  { entity: 'settings', pattern: /^\/settings(?:\/(\d+))?$/, load: byNumericId(storage.getSetting) },
+  {
+    entity: 'permissions',
+    pattern: /^\/permissions(?:\/([^/]+))?$/,
+    getEntityId: (match, req) => match[1] ? decodeURIComponent(match[1]) : req.body?.role,
+    load: roleName => storage.getCustomPermissionsByRole(roleName)
+  },
+  { entity: 'roles', pattern: /^\/roles(?:\/(\d+))?$/, load: byNumericId(id => roleService.getRole(id)) },
+  { entity: 'users', pattern: /^\/(?:admin\/)?users\/(\d+)(?:\/(?:role|status|password|2fa|unlock))?$/, load: byNumericId(getUser) },
+  {
+    entity: 'invitations',
+    pattern: /^\/invitations(?:\/(\d+)(?:\/resend)?)?$/,
+    load: byNumericId(id => invitationService.getInvitation(id)),
+    // O link do convite contém o token e não vai para a auditoria
+    summarize: body => {
+      const { inviteUrl: _inviteUrl, ...invitation } = body ?? {};
+      return invitation;
+    }
+  },
+  // Conta criada pelo convidado, que ainda não entrou no sistema: o autor é a própria conta criada
+  {
+    entity: 'users',
+    pattern: /^\/invitations\/accept$/,
+    getEntityId: () => undefined,
+    getActor: body => typeof body?.id === 'number' ? { id: body.id, name: body.name } : undefined
+  },
+  {
+    entity: 'settings',
+    pattern: /^\/two-factor\/policy$/,
+    getEntityId: () => TWO_FACTOR_REQUIRED_ROLES_SETTING_KEY,
+    load: key => storage.getSettingByKey(key)
+  },
+  {
+    entity: 'settings',
+    pattern: /^\/registration-settings$/,
+    getEntityId: () => SELF_REGISTRATION_SETTING_KEY,
+    load: key => storage.getSettingByKey(key)
+  },
+  ...TRASH_ENTITIES.map((entity): AuditedResource => ({
+    entity,
+    pattern: new RegExp(`^/trash/${entity}/(\\d+)/restore$`),
+    action: 'restore'
+  })),
+  {
+    entity: 'settings',
+    pattern: /^\/trash\/retention$/,
+    getEntityId: () => TRASH_RETENTION_SETTING_KEY,
+    load: key => storage.getSettingByKey(key)
+  },
+  {
+    entity: 'settings',
+    pattern: /^\/backups\/schedule$/,
+    getEntityId: () => 'backup_schedule',
+    load: () => backupScheduler.getConfig()
+  },
+  {
+    entity: 'backups',
+    pattern: /^\/backups\/restore$/,
+    action: 'restore',
+    getEntityId: (_match, req) => req.body?.backupId?.toString(),
+    skip: req => req.body?.dryRun === true || req.body?.dryRun === 'true',
+    // A rota só inicia a restauração em segundo plano; registra o job e as opções escolhidas
+    summarize: body => ({
+      jobId: body?.id,
+      mode: body?.mode,
+      tables: body?.tables,
+      brandIds: body?.brandIds
+    })
+  },
+  {
+    entity: 'backups',
+    pattern: /^\/backups(?:\/(\d+))?$/,
+    load: byNumericId(id => db.query.backups.findFirst({ where: eq(backups.id, id) }))
+  }
+];
+
+const MUTATING_METHODS = ['POST', 'PATCH', 'PUT', 'DELETE'];
+
+// Campos que nunca são gravados na auditoria
+const SENSITIVE_KEY = /password|token|secret/i;
+
+// Campos que mudam em toda gravação e só poluiriam o diff
+const IGNORED_DIFF_KEYS = ['updatedAt', 'createdAt'];
+
+function sanitize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sanitize);
+  if (value instanceof Date) return value.toISOString();
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) =>
+        [key, SENSITIVE_KEY.test(key) ? '[REMOVIDO]' : sanitize(item)]
+      )
+    );
+  }
+  return value;
+}
+
+/**
+ * Diferença campo a campo (primeiro nível) entre o estado anterior e o posterior.
+ * Na criação todos os campos vêm de null; na exclusão, todos vão para null.
+ */
+export function computeAuditChanges(before: unknown, after: unknown): AuditChanges {
+  const asRecord = (value: unknown): Record<string, unknown> =>
+    value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+  const previous = asRecord(before);
+  const next = asRecord(after);
+  const changes: AuditChanges = {};
+
+  const keys = Array.from(new Set([...Object.keys(previous), ...Object.keys(next)]));
+  for (const key of keys) {
+    if (IGNORED_DIFF_KEYS.includes(key)) continue;
+    const from = previous[key] ?? null;
+    const to = next[key] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = { from, to };
+    }
+  }
+  return changes;
+}
+
+// Só faz sentido comparar quando a resposta é a própria entidade (algumas rotas respondem apenas uma mensagem)
+function hasEntityDiff(action: AuditAction, before: unknown, after: unknown): boolean {
+  const isEntity = (value: unknown) => !!value && typeof value === 'object' && 'id' in value;
+  if (action === 'create') return isEntity(after);
+  if (action === 'delete') return isEntity(before);
+  if (action === 'update') return isEntity(after);
+  return false;
+}
+
+function getAction(method: string, resource: AuditedResource): AuditAction {
+  if (resource.action) return resource.action;
+  if (method === 'POST') return 'create';
+  if (method === 'DELETE') return 'delete';
+  return 'update';
+}
+
+/**
+ * Middleware de auditoria: registrado em /api antes das rotas, carrega o estado anterior
+ * da entidade, captura a resposta e grava before/after/diff quando a operação tem sucesso.
+ */
+export async function auditMiddleware(req: Request, res: Response, next: NextFunction) {
+  if (!MUTATING_METHODS.includes(req.method)) return next();
+
+  let resource: AuditedResource | undefined;
+  let match: RegExpMatchArray | null = null;
+  for (const candidate of AUDITED_RESOURCES) {
+    match = req.path.match(candidate.pattern);
+    if (match) {
+      resource = candidate;
+      break;
+    }
+  }
+  if (!resource || !match) return next();
+
+  const action = getAction(req.method, resource);
+  const entityId = resource.getEntityId ? resource.getEntityId(match, req) : match[1];
+
+  let before: unknown = null;
+  if (resource.load && entityId) {
+    try {
+      before = sanitize(await resource.load(entityId)) ?? null;
+    } catch (error) {
+      console.error(`[AUDIT] Erro ao carregar estado anterior de ${resource.entity}#${entityId}:`, error);
+    }
+  }
+
+  // Captura o corpo da resposta para registrar o estado posterior
+  let responseBody: unknown = null;
+  const originalJson = res.json;
+  res.json = function (body: any) {
+    responseBody = body;
+    return originalJson.call(this, body);
+  };
+
+  const auditedResource = resource;
+  res.on('finish', () => {
+    if (res.statusCode >= 400) return;
+    if (auditedResource.skip?.(req, responseBody)) return;
+
+    const body = auditedResource.summarize ? auditedResource.summarize(responseBody) : responseBody;
+    const after = action === 'delete' ? null : sanitize(body);
+    const createdId = action === 'create' && after && typeof after === 'object' && 'id' in after
+      ? String((after as { id: unknown }).id)
+      : undefined;
+
+    const actor = req.user ?? auditedResource.getActor?.(responseBody);
+    storage.createAuditLog({
+      userId: actor?.id ?? null,
+      userName: actor?.name ?? null,
+      action,
+      entity: auditedResource.entity,
+      entityId: entityId ?? createdId ?? null,
+      method: req.method,
+      path: req.originalUrl.split('?')[0],
+      statusCode: res.statusCode,
+      ip: req.ip || req.socket?.remoteAddress || null,
+      userAgent: req.get('User-Agent') || null,
+      before: before as any,
+      after: after as any,
+      changes: hasEntityDiff(action, before, after) ? computeAuditChanges(action === 'create' ? null : before, after) : null
+    }).catch(error => {
+      console.error("[AUDIT] Erro ao gravar registro de auditoria:", error);
+    });
+  });
+
+  next();
+}
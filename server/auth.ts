@@ -1,16 +1,31 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express, Request } from "express";
+import { Express, Request, Response, NextFunction } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { db } from "../db";
-import { users, User as UserType, userRoles } from "@shared/schema";
+import { users, User as UserType, userRoles, userInsertSchema } from "@shared/schema";
 import { eq, and } from "drizzle-orm";
 import connectPg from "connect-pg-simple";
 import { pool } from "../db/index";
 import { loginLimiter, logSecurityEvent } from "./security";
 import * as storage from "./storage";
+import { findPermissionByDescription, isPermissionGranted } from "@shared/permissions";
+import { SELF_REGISTRATION_SETTING_KEY } from "@shared/invitations";
+import { TwoFactorChallenge, twoFactorCodeSchema } from "@shared/twoFactor";
+import { twoFactorService, TwoFactorError } from "./services/twoFactorService";
+import { LoginContext, loginSecurityService } from "./services/loginSecurityService";
+import { apiTokenService } from "./services/apiTokenService";
+import { ApiTokenScope, isAllowedByApiTokenScopes } from "@shared/apiTokens";
+import { z } from "zod";
+
+// Papel atribuído a quem se cadastra pela tela de login
+const SELF_REGISTRATION_ROLE_NAME = "Usuário";
+
+// Tempo e tentativas para concluir a segunda etapa do login
+const TWO_FACTOR_PENDING_MS = 5 * 60 * 1000;
+const TWO_FACTOR_MAX_ATTEMPTS = 5;
 
 const PostgresSessionStore = connectPg(session);
 
@@ -35,17 +50,44 @@ function getDeviceInfo(userAgent: string): string {
   return "Desktop Browser";
 }
 
+// Origem da requisição, usada no registro de sessões e nos eventos de segurança do login
+function getLoginContext(req: Request): LoginContext {
+  const userAgent = req.get('User-Agent') || 'Unknown';
+  return {
+    ipAddress: req.ip || req.connection.remoteAddress || 'Unknown',
+    userAgent,
+    deviceInfo: getDeviceInfo(userAgent)
+  };
+}
+
+// Resposta do login recusado enquanto a conta está bloqueada
+function getLockedAccountInfo(lockedUntil: Date) {
+  const minutes = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 60000));
+  return {
+    message: `Conta bloqueada temporariamente após várias tentativas sem sucesso. Tente novamente em ${minutes} minuto(s) ou peça o desbloqueio ao administrador`,
+    locked: true
+  };
+}
+
 // Session creation and tracking functions
 export async function createSessionForUser(req: Request, user: UserWithRole) {
   try {
     const sessionId = req.sessionID;
-    const userAgent = req.get('User-Agent') || 'Unknown';
-    const ipAddress = req.ip || req.connection.remoteAddress || 'Unknown';
-    const deviceInfo = getDeviceInfo(userAgent);
+    const { userAgent, ipAddress, deviceInfo } = getLoginContext(req);
     
     // Session expires in 24 hours
     const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
     
+    // Dispositivo ou IP que a conta nunca usou: vira evento de segurança antes da nova sessão entrar no histórico
+    try {
+      const anomaly = await loginSecurityService.detectLoginAnomalies(user.id, user.email, { userAgent, ipAddress, deviceInfo });
+      if (anomaly) {
+        logSecurityEvent("LOGIN_ANOMALY", { userId: user.id, type: anomaly, deviceInfo, ipAddress }, req);
+      }
+    } catch (error) {
+      console.error("Error detecting login anomalies:", error);
+    }
+    
     await storage.createUserSession({
       userId: user.id,
       sessionId,
@@ -111,6 +153,26 @@ declare global {
         description?: string | null;
       };
     }
+
+    interface Request {
+      // Requisição autenticada por token pessoal de API (Authorization: Bearer), sem sessão
+      apiToken?: {
+        id: number;
+        scopes: ApiTokenScope[];
+      };
+    }
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // Login que acertou a senha e aguarda a segunda etapa (código ou cadastro do aplicativo)
+    pendingTwoFactor?: {
+      userId: number;
+      enrollment: boolean;
+      expiresAt: number;
+      attempts: number;
+    };
   }
 }
 
@@ -198,6 +260,7 @@ export async function updateUser(id: number, data: {
   logoUrl?: string; 
   address?: string; 
   phone?: string; 
+  state?: string | null;
 }) {
   const [updatedUser] = await db.update(users)
     .set({
@@ -321,8 +384,8 @@ export function setupAuth(app: Express) {
   // Configurar estratégia local de autenticação
   passport.use(
     new LocalStrategy(
-      { usernameField: "email" },
-      async (email, password, done) => {
+      { usernameField: "email", passReqToCallback: true },
+      async (req, email, password, done) => {
         try {
           const user = await getUserByEmail(email);
 
@@ -331,9 +394,19 @@ export function setupAuth(app: Express) {
             return done(null, false, { message: "Usuário não encontrado ou inativo" });
           }
 
+          // Conta bloqueada: a senha nem é conferida, para não servir de oráculo durante o bloqueio
+          if (loginSecurityService.isLocked(user)) {
+            return done(null, false, getLockedAccountInfo(user.lockedUntil!));
+          }
+
           // Verificar se a senha está correta
           const isValid = await comparePasswords(password, user.password);
           if (!isValid) {
+            const { lockedUntil } = await loginSecurityService.registerFailedLogin(user.id, getLoginContext(req));
+            if (lockedUntil) {
+              logSecurityEvent("ACCOUNT_LOCKED", { userId: user.id, email: user.email, lockedUntil }, req);
+              return done(null, false, getLockedAccountInfo(lockedUntil));
+            }
             return done(null, false, { message: "Senha incorreta" });
           }
 
@@ -360,6 +433,93 @@ export function setupAuth(app: Express) {
     }
   });
 
+  // Conclui o login de um usuário já verificado (senha e, quando exigido, segundo fator)
+  const completeLogin = async (req: Request, res: Response, next: NextFunction, user: Express.User, extra: Record<string, unknown> = {}) => {
+    // NOVA LÓGICA: Encerrar todas as sessões ativas do usuário antes de criar nova sessão
+    try {
+      // Importar funções para verificar e encerrar sessões
+      const { getActiveSessionsCount, deactivateAllUserSessions } = await import("./storage");
+      
+      // SEMPRE encerrar todas as sessões ativas do usuário quando ele fizer login
+      // Isso garante que apenas uma sessão permaneça ativa por vez
+      const activeSessionsCount = await getActiveSessionsCount(user.id);
+      
+      if (activeSessionsCount > 0) {
+        // Encerrar TODAS as sessões do usuário antes de criar a nova
+        const kickedSessions = await deactivateAllUserSessions(user.id);
+        
+        logSecurityEvent("USER_SESSIONS_KICKED", {
+          userId: user.id,
+          email: user.email,
+          kickedSessionsCount: activeSessionsCount,
+          actualKickedSessions: kickedSessions.length,
+          newLoginIp: req.ip,
+          userAgent: req.get('User-Agent')
+        }, req);
+        
+        console.log(`[LOGIN KICK] Usuário ${user.email} (ID: ${user.id}) teve ${kickedSessions.length} sessões encerradas`);
+      }
+      
+      // Atualizar o último acesso do usuário
+      const lastLogin = await updateUserLastLogin(user.id);
+      await loginSecurityService.registerSuccessfulLogin(user.id);
+      
+      req.logIn(user, async (err) => {
+        if (err) {
+          logSecurityEvent("LOGIN_SESSION_ERROR", { 
+            userId: user.id,
+            error: err.message 
+          }, req);
+          return next(err);
+        }
+        
+        // Create session tracking for multi-device management AFTER Express session is created
+        await createSessionForUser(req, user);
+        
+        logSecurityEvent("LOGIN_SUCCESS", { 
+          userId: user.id,
+          email: user.email,
+          role: user.role?.name
+        }, req);
+        
+        return res.status(200).json({
+          id: user.id,
+          name: user.name,
+          email: user.email,
+          role: user.role,
+          lastLogin: lastLogin,
+          ...extra
+        });
+      });
+    } catch (error: any) {
+      console.error("Erro ao atualizar último acesso:", error);
+      logSecurityEvent("LOGIN_UPDATE_ERROR", { 
+        userId: user.id,
+        error: error instanceof Error ? error.message : String(error)
+      }, req);
+      
+      req.logIn(user, (err) => {
+        if (err) {
+          return next(err);
+        }
+        
+        logSecurityEvent("LOGIN_SUCCESS", { 
+          userId: user.id,
+          email: user.email,
+          role: user.role?.name 
+        }, req);
+        
+        return res.status(200).json({
+          id: user.id,
+          name: user.name,
+          email: user.email,
+          role: user.role,
+          ...extra
+        });
+      });
+    }
+  };
+
   // Rotas de autenticação
   app.post("/api/login", loginLimiter, (req, res, next) => {
     // COMENTADO: Verificação se usuário já está autenticado - agora permitimos override
@@ -380,7 +540,7 @@ export function setupAuth(app: Express) {
     //   });
     // }
 
-    passport.authenticate("local", async (err: Error, user: Express.User, info: { message: string }) => {
+    passport.authenticate("local", async (err: Error, user: Express.User, info: { message: string; locked?: boolean }) => {
       if (err) {
         logSecurityEvent("LOGIN_ERROR", { error: err.message }, req);
         return next(err);
@@ -390,120 +550,173 @@ export function setupAuth(app: Express) {
           email: req.body.email,
           reason: info.message 
         }, req);
-        return res.status(401).json({ message: info.message });
+        return res.status(info.locked ? 423 : 401).json({ message: info.message });
       }
       
-      // NOVA LÓGICA: Encerrar todas as sessões ativas do usuário antes de criar nova sessão
+      // Segunda etapa: aplicativo autenticador cadastrado, ou 2FA obrigatório para o papel
       try {
-        // Importar funções para verificar e encerrar sessões
-        const { getActiveSessionsCount, deactivateAllUserSessions } = await import("./storage");
-        
-        // SEMPRE encerrar todas as sessões ativas do usuário quando ele fizer login
-        // Isso garante que apenas uma sessão permaneça ativa por vez
-        const activeSessionsCount = await getActiveSessionsCount(user.id);
-        
-        if (activeSessionsCount > 0) {
-          // Encerrar TODAS as sessões do usuário antes de criar a nova
-          const kickedSessions = await deactivateAllUserSessions(user.id);
-          
-          logSecurityEvent("USER_SESSIONS_KICKED", {
+        const requirement = await twoFactorService.getLoginRequirement(user);
+        if (requirement !== 'none') {
+          req.session.pendingTwoFactor = {
             userId: user.id,
-            email: user.email,
-            kickedSessionsCount: activeSessionsCount,
-            actualKickedSessions: kickedSessions.length,
-            newLoginIp: req.ip,
-            userAgent: req.get('User-Agent')
-          }, req);
-          
-          console.log(`[LOGIN KICK] Usuário ${user.email} (ID: ${user.id}) teve ${kickedSessions.length} sessões encerradas`);
-        }
-        
-        // Atualizar o último acesso do usuário
-        const lastLogin = await updateUserLastLogin(user.id);
-        
-        req.logIn(user, async (err) => {
-          if (err) {
-            logSecurityEvent("LOGIN_SESSION_ERROR", { 
-              userId: user.id,
-              error: err.message 
-            }, req);
-            return next(err);
-          }
-          
-          // Create session tracking for multi-device management AFTER Express session is created
-          await createSessionForUser(req, user);
-          
-          logSecurityEvent("LOGIN_SUCCESS", { 
+            enrollment: requirement === 'enroll',
+            expiresAt: Date.now() + TWO_FACTOR_PENDING_MS,
+            attempts: 0
+          };
+          logSecurityEvent("LOGIN_TWO_FACTOR_REQUIRED", {
             userId: user.id,
             email: user.email,
-            role: user.role?.name
+            enrollment: requirement === 'enroll'
           }, req);
-          
-          return res.status(200).json({
-            id: user.id,
-            name: user.name,
-            email: user.email,
-            role: user.role,
-            lastLogin: lastLogin
-          });
-        });
-      } catch (error: any) {
-        console.error("Erro ao atualizar último acesso:", error);
-        logSecurityEvent("LOGIN_UPDATE_ERROR", { 
-          userId: user.id,
-          error: error instanceof Error ? error.message : String(error)
-        }, req);
-        
-        req.logIn(user, (err) => {
-          if (err) {
-            return next(err);
-          }
-          
-          logSecurityEvent("LOGIN_SUCCESS", { 
-            userId: user.id,
-            email: user.email,
-            role: user.role?.name 
-          }, req);
-          
-          return res.status(200).json({
-            id: user.id,
-            name: user.name,
-            email: user.email,
-            role: user.role
-          });
-        });
+          const challenge: TwoFactorChallenge = { twoFactorRequired: true, enrollmentRequired: requirement === 'enroll' };
+          return res.status(200).json(challenge);
+        }
+      } catch (error) {
+        return next(error);
       }
+
+      await completeLogin(req, res, next, user);
     })(req, res, next);
   });
 
+  // Login aguardando a segunda etapa; expira e é descartado após várias tentativas erradas
+  const getPendingTwoFactorUser = async (req: Request) => {
+    const pending = req.session.pendingTwoFactor;
+    if (!pending) return null;
+    if (pending.expiresAt < Date.now() || pending.attempts >= TWO_FACTOR_MAX_ATTEMPTS) {
+      delete req.session.pendingTwoFactor;
+      return null;
+    }
+    const user = await getUser(pending.userId);
+    if (!user || !user.isActive) {
+      delete req.session.pendingTwoFactor;
+      return null;
+    }
+    return { pending, user };
+  };
+
+  const handleTwoFactorError = async (req: Request, res: Response, next: NextFunction, error: unknown) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.errors });
+    }
+    if (error instanceof TwoFactorError) {
+      const pending = req.session.pendingTwoFactor;
+      logSecurityEvent("LOGIN_TWO_FACTOR_FAILED", {
+        userId: pending?.userId || 'unknown',
+        reason: error.message
+      }, req);
+      if (pending) {
+        pending.attempts++;
+        // Códigos errados contam para o bloqueio da conta, como as senhas erradas
+        try {
+          const { lockedUntil } = await loginSecurityService.registerFailedLogin(pending.userId, getLoginContext(req));
+          if (lockedUntil) {
+            delete req.session.pendingTwoFactor;
+            logSecurityEvent("ACCOUNT_LOCKED", { userId: pending.userId, lockedUntil }, req);
+            return res.status(423).json({ message: getLockedAccountInfo(lockedUntil).message });
+          }
+        } catch (lockError) {
+          return next(lockError);
+        }
+      }
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    next(error);
+  };
+
+  const TWO_FACTOR_EXPIRED_MESSAGE = "A verificação expirou. Entre novamente com email e senha";
+
+  // Segunda etapa do login: código do aplicativo ou código de recuperação
+  app.post("/api/login/2fa", loginLimiter, async (req, res, next) => {
+    try {
+      const pendingLogin = await getPendingTwoFactorUser(req);
+      if (!pendingLogin || pendingLogin.pending.enrollment) {
+        return res.status(401).json({ message: TWO_FACTOR_EXPIRED_MESSAGE });
+      }
+
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const { usedRecoveryCode } = await twoFactorService.verifyCode(pendingLogin.user.id, code);
+      delete req.session.pendingTwoFactor;
+      if (usedRecoveryCode) {
+        logSecurityEvent("LOGIN_RECOVERY_CODE_USED", { userId: pendingLogin.user.id }, req);
+      }
+      await completeLogin(req, res, next, pendingLogin.user, { usedRecoveryCode });
+    } catch (error) {
+      return await handleTwoFactorError(req, res, next, error);
+    }
+  });
+
+  // Papel com 2FA obrigatório e sem aplicativo cadastrado: o cadastro faz parte do login
+  app.post("/api/login/2fa/enroll", loginLimiter, async (req, res, next) => {
+    try {
+      const pendingLogin = await getPendingTwoFactorUser(req);
+      if (!pendingLogin || !pendingLogin.pending.enrollment) {
+        return res.status(401).json({ message: TWO_FACTOR_EXPIRED_MESSAGE });
+      }
+      res.json(await twoFactorService.startEnrollment(pendingLogin.user));
+    } catch (error) {
+      return await handleTwoFactorError(req, res, next, error);
+    }
+  });
+
+  app.post("/api/login/2fa/enroll/confirm", loginLimiter, async (req, res, next) => {
+    try {
+      const pendingLogin = await getPendingTwoFactorUser(req);
+      if (!pendingLogin || !pendingLogin.pending.enrollment) {
+        return res.status(401).json({ message: TWO_FACTOR_EXPIRED_MESSAGE });
+      }
+
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const recoveryCodes = await twoFactorService.confirmEnrollment(pendingLogin.user.id, code);
+      delete req.session.pendingTwoFactor;
+      logSecurityEvent("TWO_FACTOR_ENABLED", { userId: pendingLogin.user.id }, req);
+      await completeLogin(req, res, next, pendingLogin.user, { recoveryCodes });
+    } catch (error) {
+      return await handleTwoFactorError(req, res, next, error);
+    }
+  });
+
+  // Autocadastro: só quando liberado nas configurações; caso contrário, o acesso é por convite
   app.post("/api/register", async (req, res, next) => {
     try {
+      const selfRegistration = await storage.getSettingByKey(SELF_REGISTRATION_SETTING_KEY);
+      if (selfRegistration?.value !== 'true') {
+        logSecurityEvent("SELF_REGISTRATION_BLOCKED", { email: req.body?.email || 'unknown' }, req);
+        return res.status(403).json({ message: "O cadastro é feito apenas por convite do administrador" });
+      }
+
+      const data = userInsertSchema.pick({ name: true, email: true, password: true }).parse(req.body);
+
       // Verificar se o email já está em uso
-      const existingUser = await getUserByEmail(req.body.email);
+      const existingUser = await getUserByEmail(data.email);
       if (existingUser) {
         return res.status(400).json({ message: "Este email já está em uso" });
       }
 
+      // O papel de quem se cadastra sozinho é sempre o de menor acesso, nunca o enviado pelo cliente
+      const defaultRole = await db.query.userRoles.findFirst({ where: eq(userRoles.name, SELF_REGISTRATION_ROLE_NAME) });
+      if (!defaultRole) {
+        return res.status(500).json({ message: "Papel padrão de cadastro não encontrado" });
+      }
+
       // Criar novo usuário
-      const user = await createUser(req.body);
+      const user = await createUser({ ...data, roleId: defaultRole.id });
       
       if (!user) {
         return res.status(500).json({ message: "Erro ao criar usuário" });
       }
 
-      // Autenticar o usuário recém-criado
-      req.logIn(user, (err) => {
-        if (err) {
-          return next(err);
-        }
-        return res.status(201).json({
-          id: user.id,
-          name: user.name,
-          email: user.email,
-          role: user.role
-        });
+      // Sem login automático: a entrada passa pelo /api/login, que aplica o 2FA exigido para o papel
+      return res.status(201).json({
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        role: user.role
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
       next(error);
     }
   });
@@ -584,14 +797,15 @@ export function setupAuth(app: Express) {
         cnpj: userDetails?.cnpj,
         logoUrl: userDetails?.logoUrl,
         address: userDetails?.address,
-        phone: userDetails?.phone
+        phone: userDetails?.phone,
+        state: userDetails?.state
       });
     }
     return res.status(401).json({ message: "Não autenticado" });
   });
 
   // Rota para obter todos os usuários (apenas para administradores)
-  app.get("/api/users", isAuthenticated, isAdmin, async (req, res) => {
+  app.get("/api/users", requirePermission("Gerenciamento de usuários"), async (req, res) => {
     try {
       const allUsers = await getAllUsers();
       res.status(200).json(allUsers);
@@ -599,16 +813,11 @@ export function setupAuth(app: Express) {
       res.status(500).json({ message: "Erro ao buscar usuários" });
     }
   });
+}
 
-  // Rota para obter todos os papéis (roles)
-  app.get("/api/roles", isAuthenticated, isAdmin, async (req, res) => {
-    try {
-      const roles = await getAllRoles();
-      res.status(200).json(roles);
-    } catch (error) {
-      res.status(500).json({ message: "Erro ao buscar papéis" });
-    }
-  });
+// Marca explicitamente uma rota da API como pública (dados exibidos na landing page, antes do login)
+export function allowPublic(req: Request, res: any, next: any) {
+  next();
 }
 
 // Middleware para verificar se o usuário está autenticado
@@ -619,22 +828,83 @@ export function isAuthenticated(req: Request, res: any, next: any) {
   res.status(401).json({ message: "Não autenticado" });
 }
 
-// Middleware para verificar se o usuário é administrador
-export function isAdmin(req: Request, res: any, next: any) {
-  if (req.user && req.user.role && req.user.role.name === "Administrador") {
-    return next();
+/**
+ * Autentica a requisição sem sessão pelo token pessoal de API do cabeçalho Authorization.
+ * Só é chamada por requirePermission: rotas que dependem da sessão (login, perfil pelo
+ * cookie, etc.) continuam exigindo o cookie.
+ */
+async function authenticateApiToken(req: Request): Promise<'authenticated' | 'missing' | 'invalid'> {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.get('Authorization') || '');
+  if (!match) return 'missing';
+
+  const result = await apiTokenService.authenticate(match[1], req.ip || null);
+  if (!result) {
+    logSecurityEvent("API_TOKEN_REJECTED", { path: req.originalUrl }, req);
+    return 'invalid';
   }
-  res.status(403).json({ message: "Acesso negado: Requer permissão de administrador" });
+
+  await new Promise<void>((resolve, reject) => {
+    req.login(result.user, { session: false }, err => err ? reject(err) : resolve());
+  });
+  req.apiToken = result.token;
+  return 'authenticated';
 }
 
-// Middleware para verificar se o usuário é cadastrador ou administrador
-export function isCadastrador(req: Request, res: any, next: any) {
-  if (
-    req.user && 
-    req.user.role && 
-    (req.user.role.name === "Administrador" || req.user.role.name === "Cadastrador")
-  ) {
-    return next();
-  }
-  res.status(403).json({ message: "Acesso negado: Requer permissão de cadastrador ou administrador" });
-}
\ No newline at end of file
+/**
+ * Middleware que exige uma permissão da matriz compartilhada (shared/permissions.ts), pela
+ * descrição; com várias descrições, basta ter uma delas. Aplica as permissões personalizadas
+ * da tabela custom_permissions com as mesmas regras da interface, de modo que a API nunca
+ * libera o que a interface esconde. Descrições inexistentes na matriz falham ao registrar a rota.
+ */
+export function requirePermission(...descriptions: string[]) {
+  const permissions = descriptions.map(description => {
+    const permission = findPermissionByDescription(description);
+    if (!permission) {
+      throw new Error(`Permissão não registrada na matriz: ${description}`);
+    }
+    return permission;
+  });
+
+  return async (req: Request, res: any, next: any) => {
+    try {
+      if (!req.isAuthenticated()) {
+        const authenticated = await authenticateApiToken(req);
+        if (authenticated === 'missing') {
+          return res.status(401).json({ message: "Não autenticado" });
+        }
+        if (authenticated === 'invalid') {
+          return res.status(401).json({ message: "Token de API inválido, expirado ou revogado" });
+        }
+      }
+
+      // Com token de API, a rota também precisa estar nos escopos do token
+      if (req.apiToken && !isAllowedByApiTokenScopes(req.apiToken.scopes, descriptions, req.method)) {
+        logSecurityEvent("API_TOKEN_SCOPE_DENIED", {
+          userId: req.user!.id,
+          apiTokenId: req.apiToken.id,
+          permission: descriptions.join(' | '),
+          method: req.method,
+          path: req.originalUrl
+        }, req);
+        return res.status(403).json({ message: "Acesso negado: a rota não faz parte dos escopos do token de API" });
+      }
+
+      const roleName = req.user!.role?.name;
+      const customPermissions = await storage.getCustomPermissionMap();
+      if (roleName && permissions.some(permission => isPermissionGranted(permission, roleName, customPermissions))) {
+        return next();
+      }
+
+      logSecurityEvent("PERMISSION_DENIED", {
+        userId: req.user!.id,
+        role: roleName,
+        permission: descriptions.join(' | '),
+        method: req.method,
+        path: req.originalUrl
+      }, req);
+      res.status(403).json({ message: `Acesso negado: requer a permissão "${descriptions.join('" ou "')}"` });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
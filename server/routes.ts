@@ -1,15 +1,14 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, toDateString, todayDate, type AuditLogFilters } from "./storage";
 import { z } from "zod";
 import { db } from "@db";
-import { eq } from "drizzle-orm";
+import { eq, and, isNotNull } from "drizzle-orm";
 import { versionColors } from "@shared/schema";
 import { 
   setupAuth, 
-  isAuthenticated, 
-  isAdmin, 
-  isCadastrador,
+  requirePermission,
+  allowPublic,
   getAllUsers,
   getUserByEmail,
   updateUser,
@@ -20,10 +19,41 @@ import {
   updateUserRole,
   updateUserStatus,
   getAllRoles,
-  updateUserSessionActivity
+  updateUserSessionActivity,
+  getUser
 } from "./auth";
-import { sensitiveApiLimiter, logSecurityEvent } from "./security";
-import { backupService } from "./services/backupService";
+import { sensitiveApiLimiter, passwordResetLimiter, logSecurityEvent } from "./security";
+import { backupService, BackupError } from "./services/backupService";
+import { backupScheduler, BackupScheduleError } from "./services/backupScheduler";
+import { backupRestoreRequestSchema } from "@shared/backupRestore";
+import { pricingService, PricingError } from "./services/pricingService";
+import { getRegionalAdjustmentAmount, toAmount, type PriceType } from "@shared/pricing";
+import { reportPdfService } from "./services/reportPdfService";
+import { vehicleReportDataSchema } from "@shared/report";
+import { priceImportService, PriceImportError } from "./services/priceImportService";
+import multer from "multer";
+import { auditMiddleware } from "./audit";
+import { trashService, TrashError } from "./services/trashService";
+import { roleService, RoleError } from "./services/roleService";
+import { invitationService, InvitationError } from "./services/invitationService";
+import { invitationAcceptSchema, invitationInputSchema } from "@shared/invitations";
+import { passwordResetService, PasswordResetError } from "./services/passwordResetService";
+import { passwordResetConfirmSchema, passwordResetRequestSchema } from "@shared/passwordReset";
+import { twoFactorService, TwoFactorError } from "./services/twoFactorService";
+import { loginSecurityService, LoginSecurityError } from "./services/loginSecurityService";
+import { apiTokenService, ApiTokenError } from "./services/apiTokenService";
+import { apiTokenInputSchema } from "@shared/apiTokens";
+import { twoFactorCodeSchema } from "@shared/twoFactor";
+import { CUSTOMER_TYPE_LABELS, customerInputSchema, formatDocument } from "@shared/customers";
+import { FreightRateInput, freightRateInputSchema, stateSchema, statePriceAdjustmentsInputSchema } from "@shared/regionalPricing";
+import { StockUnitData, stockUnitFiltersSchema, stockUnitInputSchema } from "@shared/stockUnits";
+import { reservationService, ReservationError } from "./services/reservationService";
+import { reservationFiltersSchema, reservationReleaseSchema } from "@shared/reservations";
+import { taxRulesService, TaxRulesError } from "./services/taxRulesService";
+import { taxRulesApplySchema } from "@shared/taxRules";
+import { ADMIN_ROLE_NAME, findPermissionByDescription, roleDeleteSchema, roleInputSchema } from "@shared/permissions";
+import { TRASH_ENTITIES, TrashEntity } from "@shared/trash";
+import { isPublicSettingKey } from "@shared/settings";
 import { 
   brandInsertSchema, 
   modelInsertSchema, 
@@ -36,6 +66,11 @@ import {
   optionalInsertSchema,
   versionOptionalInsertSchema,
   directSalesInsertSchema,
+  quoteInsertSchema,
+  quoteRequestSchema,
+  type QuoteRequest,
+  vehiclePriceInsertSchema,
+  auditActions,
   brands,
   models,
   directSales
@@ -59,6 +94,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.error("[SESSION CLEANUP] Erro na limpeza automática:", error);
     }
   }, 5 * 60 * 1000); // 5 minutos
+
+  // Aplicar nas colunas de vehicles os preços agendados que entraram em vigor (a cada hora)
+  const runScheduledPrices = async () => {
+    try {
+      const updatedVehicles = await storage.applyScheduledVehiclePrices();
+      if (updatedVehicles.length > 0) {
+        console.log(`[PRICE SCHEDULE] Preços agendados aplicados em ${updatedVehicles.length} veículo(s)`);
+      }
+    } catch (error) {
+      console.error("[PRICE SCHEDULE] Erro ao aplicar preços agendados:", error);
+    }
+  };
+  runScheduledPrices();
+  setInterval(runScheduledPrices, 60 * 60 * 1000); // 1 hora
+
+  // Remover definitivamente da lixeira o que passou do período de retenção (a cada 6 horas)
+  const runTrashPurge = async () => {
+    try {
+      const { purged, skipped } = await trashService.purgeExpired();
+      const total = Object.values(purged).reduce((sum, count) => sum + count, 0);
+      if (total > 0 || skipped > 0) {
+        console.log(`[TRASH] ${total} registro(s) removido(s) definitivamente, ${skipped} mantido(s) por ainda estarem em uso`, purged);
+      }
+    } catch (error) {
+      console.error("[TRASH] Erro na limpeza da lixeira:", error);
+    }
+  };
+  runTrashPurge();
+  setInterval(runTrashPurge, 6 * 60 * 60 * 1000); // 6 horas
+
+  // Liberar as reservas de veículos com prazo vencido (a cada 5 minutos)
+  const runReservationExpiry = async () => {
+    try {
+      const expired = await reservationService.expireOverdue();
+      if (expired.length > 0) {
+        console.log(`[RESERVATIONS] ${expired.length} reserva(s) expirada(s) liberada(s)`);
+      }
+    } catch (error) {
+      console.error("[RESERVATIONS] Erro ao liberar reservas expiradas:", error);
+    }
+  };
+  runReservationExpiry();
+  setInterval(runReservationExpiry, 5 * 60 * 1000); // 5 minutos
+
+  // Backups automáticos conforme o agendamento configurado (verificado a cada minuto)
+  backupScheduler.start();
   
   // Middleware para logar todas as solicitações de API
   app.use(apiPrefix, (req, res, next) => {
@@ -66,8 +147,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     next();
   });
 
+  // Trilha de auditoria das alterações de catálogo e administração
+  app.use(apiPrefix, auditMiddleware);
+
   // Brands API
-  app.get(`${apiPrefix}/brands`, async (req, res) => {
+  app.get(`${apiPrefix}/brands`, allowPublic, async (req, res) => {
     try {
       const brands = await storage.getBrands();
       res.json(brands);
@@ -77,7 +161,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get(`${apiPrefix}/brands/:id`, async (req, res) => {
+  app.get(`${apiPrefix}/brands/:id`, requirePermission("Configurador de veículos"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const brand = await storage.getBrandById(id);
@@ -93,9 +177,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post(`${apiPrefix}/brands`, async (req, res) => {
+  app.post(`${apiPrefix}/brands`, requirePermission("Cadastrar novas marcas"), async (req, res) => {
     try {
       const validatedData = brandInsertSchema.parse(req.body);
+
+      // O nome é único: uma marca excluída continua ocupando o nome até ser removida da lixeira
+      const trashedBrand = await db.query.brands.findFirst({
+        where: and(eq(brands.name, validatedData.name), isNotNull(brands.deletedAt))
+      });
+      if (trashedBrand) {
+        return res.status(409).json({
+          message: `A marca "${trashedBrand.name}" está na lixeira. Restaure-a na Lixeira em vez de cadastrá-la novamente.`
+        });
+      }
+
       const newBrand = await storage.createBrand(validatedData);
       res.status(201).json(newBrand);
     } catch (error) {
@@ -107,7 +202,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch(`${apiPrefix}/brands/:id`, async (req, res) => {
+  app.patch(`${apiPrefix}/brands/:id`, requirePermission("Editar marcas existentes"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = brandInsertSchema.parse(req.body);
@@ -128,30 +223,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete(`${apiPrefix}/brands/:id`, async (req, res) => {
+  app.delete(`${apiPrefix}/brands/:id`, requirePermission("Editar marcas existentes"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       console.log(`[API DELETE /brands/:id] Requesting deletion of brand ID: ${id}`);
       
-      // Verificar se existem modelos associados a esta marca diretamente na rota
-      const associatedModels = await db.query.models.findMany({
-        where: eq(models.brandId, id)
-      });
-      
-      console.log(`[API DELETE /brands/:id] Found ${associatedModels.length} associated models`);
-      
-      if (associatedModels.length > 0) {
-        console.log(`[API DELETE /brands/:id] Cannot delete: has associated models`);
-        
-        // Criar uma lista com os nomes dos modelos
-        const modelNames = associatedModels.map(model => model.name).join(", ");
-        
-        return res.status(409).json({ 
-          message: `Não é possível excluir esta marca porque ela possui ${associatedModels.length} modelos associados: ${modelNames}. Exclua os modelos primeiro.`,
-          models: associatedModels.map(model => ({ id: model.id, name: model.name }))
-        });
-      }
-      
       // Verificar se existem vendas diretas associadas
       const associatedDirectSales = await db.query.directSales.findMany({
         where: eq(directSales.brandId, id)
@@ -169,10 +245,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // Se não houver dependências, excluir a marca
-      console.log(`[API DELETE /brands/:id] No dependencies found, proceeding with deletion`);
-      await db.delete(brands).where(eq(brands.id, id));
-      console.log(`[API DELETE /brands/:id] Brand deleted successfully`);
+      // Marca vai para a lixeira junto com seus modelos, versões e veículos
+      console.log(`[API DELETE /brands/:id] No blocking dependencies found, moving brand to trash`);
+      await storage.deleteBrand(id);
+      console.log(`[API DELETE /brands/:id] Brand moved to trash successfully`);
       
       res.status(204).end();
     } catch (error) {
@@ -192,7 +268,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Models API
-  app.get(`${apiPrefix}/models`, async (req, res) => {
+  app.get(`${apiPrefix}/models`, allowPublic, async (req, res) => {
     try {
       const models = await storage.getModels();
       res.json(models);
@@ -202,7 +278,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get(`${apiPrefix}/models/:id`, async (req, res) => {
+  app.get(`${apiPrefix}/models/:id`, requirePermission("Configurador de veículos"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const model = await storage.getModelById(id);
@@ -218,7 +294,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post(`${apiPrefix}/models`, async (req, res) => {
+  app.post(`${apiPrefix}/models`, requirePermission("Cadastrar novos modelos"), async (req, res) => {
     try {
       const validatedData = modelInsertSchema.parse(req.body);
       const newModel = await storage.createModel(validatedData);
@@ -232,7 +308,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch(`${apiPrefix}/models/:id`, async (req, res) => {
+  app.patch(`${apiPrefix}/models/:id`, requirePermission("Editar modelos existentes"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = modelInsertSchema.parse(req.body);
@@ -253,7 +329,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete(`${apiPrefix}/models/:id`, async (req, res) => {
+  app.delete(`${apiPrefix}/models/:id`, requirePermission("Editar modelos existentes"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteModel(id);
@@ -265,7 +341,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Versions API
-  app.get(`${apiPrefix}/versions`, async (req, res) => {
+  app.get(`${apiPrefix}/versions`, allowPublic, async (req, res) => {
     try {
       const versions = await storage.getVersions();
       res.json(versions);
@@ -275,7 +351,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get(`${apiPrefix}/versions/:id`, async (req, res) => {
+  app.get(`${apiPrefix}/versions/:id`, requirePermission("Configurador de veículos"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const version = await storage.getVersionById(id);
@@ -291,7 +367,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post(`${apiPrefix}/versions`, async (req, res) => {
+  app.post(`${apiPrefix}/versions`, requirePermission("Cadastrar novas versões"), async (req, res) => {
     try {
       const validatedData = versionInsertSchema.parse(req.body);
       const newVersion = await storage.createVersion(validatedData);
@@ -305,7 +381,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch(`${apiPrefix}/versions/:id`, async (req, res) => {
+  app.patch(`${apiPrefix}/versions/:id`, requirePermission("Editar versões existentes"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = versionInsertSchema.parse(req.body);
@@ -326,7 +402,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete(`${apiPrefix}/versions/:id`, async (req, res) => {
+  app.delete(`${apiPrefix}/versions/:id`, requirePermission("Editar versões existentes"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteVersion(id);
@@ -338,7 +414,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Colors API
-  app.get(`${apiPrefix}/colors`, async (req, res) => {
+  app.get(`${apiPrefix}/colors`, requirePermission("Configurador de veículos"), async (req, res) => {
     try {
       const colors = await storage.getColors();
       res.json(colors);
@@ -348,7 +424,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get(`${apiPrefix}/colors/:id`, async (req, res) => {
+  app.get(`${apiPrefix}/colors/:id`, requirePermission("Configurador de veículos"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const color = await storage.getColorById(id);
@@ -364,7 +440,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post(`${apiPrefix}/colors`, async (req, res) => {
+  app.post(`${apiPrefix}/colors`, requirePermission("Cadastrar novas cores"), async (req, res) => {
     try {
       const validatedData = colorInsertSchema.parse(req.body);
       const newColor = await storage.createColor(validatedData);
@@ -378,7 +454,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch(`${apiPrefix}/colors/:id`, async (req, res) => {
+  app.patch(`${apiPrefix}/colors/:id`, requirePermission("Editar cores existentes"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = colorInsertSchema.parse(req.body);
@@ -399,7 +475,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete(`${apiPrefix}/colors/:id`, async (req, res) => {
+  app.delete(`${apiPrefix}/colors/:id`, requirePermission("Editar cores existentes"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteColor(id);
@@ -411,7 +487,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Paint Types API
-  app.get(`${apiPrefix}/paint-types`, async (req, res) => {
+  app.get(`${apiPrefix}/paint-types`, requirePermission("Configurador de veículos"), async (req, res) => {
     try {
       const paintTypes = await storage.getPaintTypes();
       res.json(paintTypes);
@@ -421,7 +497,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get(`${apiPrefix}/paint-types/:id`, async (req, res) => {
+  app.get(`${apiPrefix}/paint-types/:id`, requirePermission("Configurador de veículos"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const paintType = await storage.getPaintTypeById(id);
@@ -437,7 +513,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post(`${apiPrefix}/paint-types`, async (req, res) => {
+  app.post(`${apiPrefix}/paint-types`, requirePermission("Cadastrar novos tipos de pintura"), async (req, res) => {
     try {
       const validatedData = paintTypeInsertSchema.parse(req.body);
       const newPaintType = await storage.createPaintType(validatedData);
@@ -451,7 +527,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch(`${apiPrefix}/paint-types/:id`, async (req, res) => {
+  app.patch(`${apiPrefix}/paint-types/:id`, requirePermission("Editar tipos de pintura existentes"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = paintTypeInsertSchema.parse(req.body);
@@ -472,7 +548,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete(`${apiPrefix}/paint-types/:id`, async (req, res) => {
+  app.delete(`${apiPrefix}/paint-types/:id`, requirePermission("Editar tipos de pintura existentes"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deletePaintType(id);
@@ -484,7 +560,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Version Colors API
-  app.get(`${apiPrefix}/version-colors`, isAuthenticated, async (req, res) => {
+  app.get(`${apiPrefix}/version-colors`, requirePermission("Configurador de veículos"), async (req, res) => {
     try {
       const modelId = req.query.modelId ? parseInt(req.query.modelId as string) : undefined;
       const versionId = req.query.versionId ? parseInt(req.query.versionId as string) : undefined;
@@ -497,7 +573,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get(`${apiPrefix}/version-colors/:id`, isAuthenticated, async (req, res) => {
+  app.get(`${apiPrefix}/version-colors/:id`, requirePermission("Configurador de veículos"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const versionColor = await storage.getVersionColorById(id);
@@ -513,7 +589,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post(`${apiPrefix}/version-colors`, isAuthenticated, async (req, res) => {
+  app.post(`${apiPrefix}/version-colors`, requirePermission("Associar cores às versões"), async (req, res) => {
     try {
       const validatedData = versionColorInsertSchema.parse(req.body);
       const newVersionColor = await storage.createVersionColor(validatedData);
@@ -527,7 +603,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch(`${apiPrefix}/version-colors/:id`, isAuthenticated, async (req, res) => {
+  app.patch(`${apiPrefix}/version-colors/:id`, requirePermission("Editar cores das versões"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = versionColorInsertSchema.parse(req.body);
@@ -548,7 +624,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete(`${apiPrefix}/version-colors/:id`, isAuthenticated, async (req, res) => {
+  app.delete(`${apiPrefix}/version-colors/:id`, requirePermission("Editar cores das versões"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteVersionColor(id);
@@ -560,9 +636,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Vehicles API
-  app.get(`${apiPrefix}/vehicles`, async (req, res) => {
+  // Data opcional (?date=AAAA-MM-DD) para consultar os preços vigentes em outro dia
+  const parsePriceDate = (value: unknown): string | undefined | null => {
+    if (value === undefined || value === '') return undefined;
+    return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : null;
+  };
+
+  app.get(`${apiPrefix}/vehicles`, allowPublic, async (req, res) => {
     try {
-      const vehicles = await storage.getVehicles();
+      const date = parsePriceDate(req.query.date);
+      if (date === null) {
+        return res.status(400).json({ message: "Data inválida (use AAAA-MM-DD)" });
+      }
+      const vehicles = await storage.getVehicles(date);
       res.json(vehicles);
     } catch (error) {
       console.error("Error fetching vehicles:", error);
@@ -571,8 +657,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Vehicle export endpoint - deve vir antes do endpoint :id
-  app.get(`${apiPrefix}/vehicles/export`, isAuthenticated, async (req, res) => {
+  // Com ?state=UF, os preços saem com o ajuste da UF e as colunas UF e Frete no final
+  app.get(`${apiPrefix}/vehicles/export`, requirePermission("Visualizar veículos"), async (req, res) => {
     try {
+      const parsedState = req.query.state ? stateSchema.safeParse(req.query.state) : null;
+      if (parsedState && !parsedState.success) {
+        return res.status(400).json({ message: "UF inválida" });
+      }
+      const regional = parsedState ? await storage.getRegionalPricing(parsedState.data) : null;
+
       // Query SQL direta para evitar problemas com ORM
       const query = `
         SELECT 
@@ -586,11 +679,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
           ver.name as version_name,
           m.name as model_name,
           b.name as brand_name,
+          m.brand_id,
+          ver.model_id,
           v.version_id
         FROM vehicles v
         LEFT JOIN versions ver ON v.version_id = ver.id
         LEFT JOIN models m ON ver.model_id = m.id
         LEFT JOIN brands b ON m.brand_id = b.id
+        -- Itens na lixeira (o próprio veículo ou a versão, modelo ou marca) não são exportados
+        WHERE v.deleted_at IS NULL AND ver.deleted_at IS NULL AND m.deleted_at IS NULL AND b.deleted_at IS NULL
         ORDER BY b.name, m.name, ver.name
       `;
 
@@ -621,22 +718,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
         }
         
+        // Preço com o ajuste da UF (os isentos de ICMS ficam iguais)
+        const regionalPrice = (value: unknown, priceType: PriceType) => {
+          const text = value ? String(value) : '';
+          if (!regional || !text) return text;
+          const price = toAmount(text);
+          return (price + getRegionalAdjustmentAmount(price, priceType, regional.adjustmentPercentage)).toFixed(2);
+        };
+        
         vehiclesWithDetails.push({
           marca: vehicle.brand_name || '',
           modelo: vehicle.model_name || '',
           versao: vehicle.version_name || '',
           ano: vehicle.year?.toString() || '',
-          precoPublico: vehicle.public_price || '',
-          defFisicoIpiIcms: vehicle.pcd_ipi_icms || '',
-          defFisicoIpi: vehicle.pcd_ipi || '',
-          taxiIpiIcms: vehicle.taxi_ipi_icms || '',
-          taxiIpi: vehicle.taxi_ipi || '',
-          cores: colors
+          precoPublico: regionalPrice(vehicle.public_price, 'public'),
+          defFisicoIpiIcms: regionalPrice(vehicle.pcd_ipi_icms, 'pcdIpiIcms'),
+          defFisicoIpi: regionalPrice(vehicle.pcd_ipi, 'pcdIpi'),
+          taxiIpiIcms: regionalPrice(vehicle.taxi_ipi_icms, 'taxiIpiIcms'),
+          taxiIpi: regionalPrice(vehicle.taxi_ipi, 'taxiIpi'),
+          cores: colors,
+          uf: regional?.state || '',
+          frete: regional ? regional.freightFor(Number(vehicle.brand_id), Number(vehicle.model_id)).toFixed(2) : ''
         });
       }
 
       // Gerar CSV com formatação específica para Excel
-      const csvHeader = '"Marca";"Modelo";"Versão";"Ano";"Preço Público";"Def. Físico (IPI/ICMS)";"Def. Físico (IPI)";"Taxi (IPI/ICMS)";"Taxi (IPI)";"Cores"\n';
+      const csvHeader = '"Marca";"Modelo";"Versão";"Ano";"Preço Público";"Def. Físico (IPI/ICMS)";"Def. Físico (IPI)";"Taxi (IPI/ICMS)";"Taxi (IPI)";"Cores"' +
+        (regional ? ';"UF";"Frete"' : '') + '\n';
       
       const csvRows = vehiclesWithDetails.map(vehicle => {
         // Função para formatar valores CSV com ponto e vírgula como separador
@@ -661,7 +769,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           formatCSVField(vehicle.defFisicoIpi),
           formatCSVField(vehicle.taxiIpiIcms),
           formatCSVField(vehicle.taxiIpi),
-          formatCSVField(vehicle.cores)
+          formatCSVField(vehicle.cores),
+          ...(regional ? [formatCSVField(vehicle.uf), formatCSVField(vehicle.frete)] : [])
         ];
         
         // Unir com ponto e vírgula para compatibilidade com Excel brasileiro
@@ -671,7 +780,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const csv = csvHeader + csvRows;
 
       res.setHeader('Content-Type', 'text/csv; charset=utf-8');
-      res.setHeader('Content-Disposition', 'attachment; filename="veiculos.csv"');
+      res.setHeader('Content-Disposition', `attachment; filename="${regional ? `veiculos-${regional.state}` : 'veiculos'}.csv"`);
       res.setHeader('Cache-Control', 'no-cache');
       
       // Adicionar BOM UTF-8 e configurar para compatibilidade com Excel
@@ -685,7 +794,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get(`${apiPrefix}/vehicles/:id`, async (req, res) => {
+  // Importação em lote de preços (CSV no layout do export ou XLSX).
+  // Por padrão apenas calcula a prévia; com dryRun=false aplica tudo em uma transação.
+  const priceImportUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: 5 * 1024 * 1024 }
+  });
+
+  app.post(`${apiPrefix}/vehicles/import`, requirePermission("Importar tabela de preços dos veículos"), priceImportUpload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "Nenhum arquivo enviado" });
+      }
+
+      const result = await priceImportService.importPrices(req.file.buffer, req.file.originalname, {
+        dryRun: req.body.dryRun !== 'false',
+        effectiveFrom: req.body.effectiveFrom || undefined,
+        userId: req.user?.id
+      });
+
+      if (result.applied) {
+        logSecurityEvent('VEHICLE_PRICE_IMPORT', {
+          userId: req.user?.id,
+          fileName: result.fileName,
+          effectiveFrom: result.effectiveFrom,
+          vehiclesUpdated: result.summary.vehiclesUpdated
+        }, req);
+      }
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof PriceImportError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Erro ao importar preços:", error);
+      res.status(500).json({ message: "Erro ao importar preços" });
+    }
+  });
+
+  app.get(`${apiPrefix}/vehicles/:id`, requirePermission("Configurador de veículos"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       
@@ -694,7 +841,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid vehicle ID" });
       }
       
-      const vehicle = await storage.getVehicleById(id);
+      const date = parsePriceDate(req.query.date);
+      if (date === null) {
+        return res.status(400).json({ message: "Data inválida (use AAAA-MM-DD)" });
+      }
+
+      const vehicle = await storage.getVehicleById(id, date);
       
       if (!vehicle) {
         return res.status(404).json({ message: "Vehicle not found" });
@@ -707,10 +859,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post(`${apiPrefix}/vehicles`, async (req, res) => {
+  app.post(`${apiPrefix}/vehicles`, requirePermission("Cadastrar novos veículos"), async (req, res) => {
     try {
-      console.log("POST /vehicles - Dados recebidos:", JSON.stringify(req.body, null, 2));
-      
       // Garantir que apenas o versionId, colorId e year são convertidos para números
       // mas mantemos os campos de preço como strings para o schema
       const processedData = {
@@ -721,26 +871,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Não convertemos os campos de preço para número
       };
       
-      console.log("Dados processados para validação:", JSON.stringify(processedData, null, 2));
-      
       const validatedData = vehicleInsertSchema.parse(processedData);
-      console.log("Dados validados:", JSON.stringify(validatedData, null, 2));
       
-      const newVehicle = await storage.createVehicle(validatedData);
+      // Preços de isenção calculados pelas regras de impostos, salvo valores manuais
+      const vehicleData = await taxRulesService.applyToVehicle(validatedData);
+      const newVehicle = await storage.createVehicle(vehicleData, req.user?.id);
       res.status(201).json(newVehicle);
     } catch (error) {
       if (error instanceof z.ZodError) {
         console.error("Erro de validação Zod:", JSON.stringify(error.errors, null, 2));
         return res.status(400).json({ errors: error.errors });
       }
+      if (error instanceof TaxRulesError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Error creating vehicle:", error);
       res.status(500).json({ message: "Failed to create vehicle" });
     }
   });
 
-  app.patch(`${apiPrefix}/vehicles/:id`, async (req, res) => {
+  app.patch(`${apiPrefix}/vehicles/:id`, requirePermission("Editar veículos existentes"), async (req, res) => {
     console.log(`[PATCH /api/vehicles/:id] Received request to update vehicle ID: ${req.params.id}`);
-    console.log('[PATCH /api/vehicles/:id] Request body:', JSON.stringify(req.body, null, 2));
     
     try {
       const id = parseInt(req.params.id);
@@ -757,13 +908,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
           // Não convertemos os campos de preço para número
         };
         
-        console.log('Dados processados para validação:', JSON.stringify(processedData, null, 2));
-        
         const validatedData = vehicleInsertSchema.parse(processedData);
         console.log('[PATCH /api/vehicles/:id] Data validated successfully with schema');
         
+        // Preços de isenção calculados pelas regras de impostos, salvo valores manuais
+        const vehicleData = await taxRulesService.applyToVehicle(validatedData);
+        
         console.log('[PATCH /api/vehicles/:id] Calling storage.updateVehicle...');
-        const updatedVehicle = await storage.updateVehicle(id, validatedData);
+        const updatedVehicle = await storage.updateVehicle(id, vehicleData, req.user?.id);
         
         if (!updatedVehicle) {
           console.log(`[PATCH /api/vehicles/:id] Vehicle with ID ${id} not found`);
@@ -777,6 +929,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           console.error('[PATCH /api/vehicles/:id] Validation error:', JSON.stringify(zodError.errors, null, 2));
           return res.status(400).json({ errors: zodError.errors });
         }
+        if (zodError instanceof TaxRulesError) {
+          return res.status(zodError.statusCode).json({ message: zodError.message });
+        }
         throw zodError; // Re-throw if not a Zod error
       }
     } catch (error) {
@@ -788,7 +943,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete(`${apiPrefix}/vehicles/:id`, async (req, res) => {
+  app.delete(`${apiPrefix}/vehicles/:id`, requirePermission("Editar veículos existentes"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteVehicle(id);
@@ -799,79 +954,264 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // API para gerenciamento de permissões personalizadas
-  app.get(`${apiPrefix}/permissions`, isAuthenticated, async (req, res) => {
+  // Histórico de preços do veículo (linha do tempo)
+  app.get(`${apiPrefix}/vehicles/:id/prices`, requirePermission("Visualizar veículos"), async (req, res) => {
     try {
-      const customPermissions = await storage.getCustomPermissions();
-      
-      // Transformar o resultado em um objeto para facilitar o uso no cliente
-      const permissionsMap: Record<string, Record<string, boolean>> = {};
-      
-      customPermissions.forEach(perm => {
-        permissionsMap[perm.roleName] = perm.permissions as Record<string, boolean>;
+      const id = parseInt(req.params.id);
+      if (isNaN(id) || id <= 0) {
+        return res.status(400).json({ message: "ID de veículo inválido" });
+      }
+
+      const vehicle = await storage.getVehicleById(id);
+      if (!vehicle) {
+        return res.status(404).json({ message: "Veículo não encontrado" });
+      }
+
+      const history = await storage.getVehiclePriceHistory(id);
+      res.json(history);
+    } catch (error) {
+      console.error("Erro ao buscar histórico de preços:", error);
+      res.status(500).json({ message: "Erro ao buscar histórico de preços" });
+    }
+  });
+
+  // Registrar um novo preço, vigente a partir de effectiveFrom (hoje, retroativo ou agendado)
+  app.post(`${apiPrefix}/vehicles/:id/prices`, requirePermission("Editar veículos existentes"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id) || id <= 0) {
+        return res.status(400).json({ message: "ID de veículo inválido" });
+      }
+
+      const vehicle = await storage.getVehicleById(id);
+      if (!vehicle) {
+        return res.status(404).json({ message: "Veículo não encontrado" });
+      }
+
+      const validatedData = vehiclePriceInsertSchema.parse({
+        ...req.body,
+        vehicleId: id,
+        source: req.body.effectiveFrom > todayDate() ? 'scheduled' : 'manual',
+        createdBy: req.user!.id
       });
-      
-      res.json(permissionsMap);
+
+      const newPrice = await storage.createVehiclePrice(validatedData);
+      res.status(201).json(newPrice);
     } catch (error) {
-      console.error("Erro ao buscar permissões:", error);
-      res.status(500).json({ message: "Erro ao buscar permissões" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Erro ao registrar preço:", error);
+      res.status(500).json({ message: "Erro ao registrar preço" });
     }
   });
-  
-  app.get(`${apiPrefix}/permissions/:roleName`, isAuthenticated, async (req, res) => {
+
+  // Cancelar um preço agendado (registros já vigentes fazem parte do histórico e não são removidos)
+  app.delete(`${apiPrefix}/vehicles/:id/prices/:priceId`, requirePermission("Editar veículos existentes"), async (req, res) => {
     try {
-      const { roleName } = req.params;
-      const permissions = await storage.getCustomPermissionsByRole(roleName);
-      
-      if (!permissions) {
-        return res.status(404).json({ message: "Permissões não encontradas para este papel" });
+      const id = parseInt(req.params.id);
+      const priceId = parseInt(req.params.priceId);
+
+      const price = await storage.getVehiclePriceById(priceId);
+      if (!price || price.vehicleId !== id) {
+        return res.status(404).json({ message: "Registro de preço não encontrado" });
       }
-      
-      res.json(permissions.permissions);
+      if (price.effectiveFrom <= todayDate()) {
+        return res.status(400).json({ message: "Somente preços agendados para datas futuras podem ser cancelados" });
+      }
+
+      await storage.deleteVehiclePrice(priceId);
+      res.status(204).end();
     } catch (error) {
-      console.error("Erro ao buscar permissões por papel:", error);
-      res.status(500).json({ message: "Erro ao buscar permissões por papel" });
+      console.error("Erro ao cancelar preço agendado:", error);
+      res.status(500).json({ message: "Erro ao cancelar preço agendado" });
     }
   });
-  
-  app.post(`${apiPrefix}/permissions`, isAdmin, async (req, res) => {
+
+  // Regras de impostos: o cadastro de veículos usa as regras para mostrar os preços calculados
+  app.get(`${apiPrefix}/tax-rules`, requirePermission("Visualizar veículos"), async (req, res) => {
     try {
-      const { role, permissions } = req.body;
-      
-      if (!role || !permissions) {
-        return res.status(400).json({ message: "Papel e permissões são obrigatórios" });
+      res.json(await taxRulesService.getRules());
+    } catch (error) {
+      console.error("Erro ao buscar regras de impostos:", error);
+      res.status(500).json({ message: "Erro ao buscar regras de impostos" });
+    }
+  });
+
+  app.put(`${apiPrefix}/tax-rules`, requirePermission("Regras de impostos"), async (req, res) => {
+    try {
+      const rules = await taxRulesService.saveRules(req.body);
+      res.json(rules);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
       }
-      
-      const result = await storage.createOrUpdateCustomPermissions({
-        roleName: role,
-        permissions: permissions
-      });
-      
-      res.json(result[0]);
+      console.error("Erro ao salvar regras de impostos:", error);
+      res.status(500).json({ message: "Erro ao salvar regras de impostos" });
+    }
+  });
+
+  // Veículos com preços de isenção diferentes dos calculados pelas regras
+  app.get(`${apiPrefix}/tax-rules/discrepancies`, requirePermission("Regras de impostos"), async (req, res) => {
+    try {
+      res.json(await taxRulesService.getDiscrepancies());
     } catch (error) {
-      console.error("Erro ao salvar permissões:", error);
-      res.status(500).json({ message: "Erro ao salvar permissões" });
+      console.error("Erro ao conferir preços de isenção:", error);
+      res.status(500).json({ message: "Erro ao conferir preços de isenção" });
     }
   });
-  
-  app.delete(`${apiPrefix}/permissions/:roleName`, isAdmin, async (req, res) => {
+
+  app.post(`${apiPrefix}/tax-rules/apply`, requirePermission("Regras de impostos"), async (req, res) => {
     try {
-      const { roleName } = req.params;
-      const result = await storage.deleteCustomPermissions(roleName);
-      
-      if (!result) {
-        return res.status(404).json({ message: "Permissões não encontradas para este papel" });
+      const { vehicleIds } = taxRulesApplySchema.parse(req.body);
+      const result = await taxRulesService.applyComputedPrices(vehicleIds, req.user?.id);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Erro ao aplicar preços calculados:", error);
+      res.status(500).json({ message: "Erro ao aplicar preços calculados" });
+    }
+  });
+
+  // Preços regionais: ajuste percentual por UF e frete por UF e marca/modelo
+  // Os ajustes são lidos também pelo configurador, para mostrar os preços de tabela da UF
+  app.get(`${apiPrefix}/regional-prices/adjustments`, requirePermission("Configurador de veículos"), async (req, res) => {
+    try {
+      res.json(await storage.getStatePriceAdjustments());
+    } catch (error) {
+      console.error("Erro ao buscar ajustes por UF:", error);
+      res.status(500).json({ message: "Erro ao buscar ajustes por UF" });
+    }
+  });
+
+  app.put(`${apiPrefix}/regional-prices/adjustments`, requirePermission("Preços regionais"), async (req, res) => {
+    try {
+      const items = statePriceAdjustmentsInputSchema.parse(req.body);
+      res.json(await storage.replaceStatePriceAdjustments(items));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Erro ao salvar ajustes por UF:", error);
+      res.status(500).json({ message: "Erro ao salvar ajustes por UF" });
+    }
+  });
+
+  app.get(`${apiPrefix}/regional-prices/freight`, requirePermission("Preços regionais"), async (req, res) => {
+    try {
+      const state = typeof req.query.state === 'string' ? req.query.state : undefined;
+      res.json(await storage.getFreightRates(state));
+    } catch (error) {
+      console.error("Erro ao buscar fretes:", error);
+      res.status(500).json({ message: "Erro ao buscar fretes" });
+    }
+  });
+
+  // Confere se o modelo pertence à marca e se a combinação UF + marca/modelo ainda não existe
+  const validateFreightRate = async (data: FreightRateInput, id?: number) => {
+    if (data.modelId) {
+      const model = await storage.getModelById(data.modelId);
+      if (!model || model.brandId !== data.brandId) {
+        return { status: 400, message: "O modelo selecionado não pertence à marca" };
+      }
+    }
+    const existingRate = await storage.findFreightRate(data.state, data.brandId, data.modelId);
+    if (existingRate && existingRate.id !== id) {
+      return { status: 409, message: `Já existe um frete cadastrado para ${data.state} com esta marca/modelo` };
+    }
+    return null;
+  };
+
+  app.post(`${apiPrefix}/regional-prices/freight`, requirePermission("Preços regionais"), async (req, res) => {
+    try {
+      const validatedData = freightRateInputSchema.parse(req.body);
+      const invalid = await validateFreightRate(validatedData);
+      if (invalid) {
+        return res.status(invalid.status).json({ message: invalid.message });
+      }
+
+      const newRate = await storage.createFreightRate(validatedData);
+      res.status(201).json(newRate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Erro ao criar frete:", error);
+      res.status(500).json({ message: "Erro ao criar frete" });
+    }
+  });
+
+  app.patch(`${apiPrefix}/regional-prices/freight/:id`, requirePermission("Preços regionais"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = freightRateInputSchema.parse(req.body);
+      const invalid = await validateFreightRate(validatedData, id);
+      if (invalid) {
+        return res.status(invalid.status).json({ message: invalid.message });
+      }
+
+      const updatedRate = await storage.updateFreightRate(id, validatedData);
+
+      if (!updatedRate) {
+        return res.status(404).json({ message: "Frete não encontrado" });
+      }
+
+      res.json(updatedRate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
       }
+      console.error("Erro ao atualizar frete:", error);
+      res.status(500).json({ message: "Erro ao atualizar frete" });
+    }
+  });
+
+  app.delete(`${apiPrefix}/regional-prices/freight/:id`, requirePermission("Preços regionais"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      await storage.deleteFreightRate(id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Erro ao excluir frete:", error);
+      res.status(500).json({ message: "Erro ao excluir frete" });
+    }
+  });
+
+  // API para gerenciamento de permissões personalizadas
+  // Todos os usuários carregam as permissões personalizadas para aplicar a mesma matriz da API no menu
+  app.get(`${apiPrefix}/permissions`, requirePermission("Dashboard"), async (req, res) => {
+    try {
+      const customPermissions = await storage.getCustomPermissions();
+      
+      // Transformar o resultado em um objeto para facilitar o uso no cliente
+      const permissionsMap: Record<string, Record<string, boolean>> = {};
       
-      res.json({ message: "Permissões resetadas com sucesso" });
+      customPermissions.forEach(perm => {
+        permissionsMap[perm.roleName] = perm.permissions as Record<string, boolean>;
+      });
+      
+      res.json(permissionsMap);
     } catch (error) {
-      console.error("Erro ao resetar permissões:", error);
-      res.status(500).json({ message: "Erro ao resetar permissões" });
+      console.error("Erro ao buscar permissões:", error);
+      res.status(500).json({ message: "Erro ao buscar permissões" });
     }
   });
 
   // Settings API
-  app.get(`${apiPrefix}/settings`, async (req, res) => {
+  // Rota pública: só as configurações de exibição (nome, logo, cores)
+  app.get(`${apiPrefix}/settings`, allowPublic, async (req, res) => {
+    try {
+      const settings = await storage.getSettings();
+      res.json(settings.filter(setting => isPublicSettingKey(setting.key)));
+    } catch (error) {
+      console.error("Error fetching settings:", error);
+      res.status(500).json({ message: "Failed to fetch settings" });
+    }
+  });
+
+  app.get(`${apiPrefix}/settings/all`, requirePermission("Configurações do sistema"), async (req, res) => {
     try {
       const settings = await storage.getSettings();
       res.json(settings);
@@ -881,7 +1221,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get(`${apiPrefix}/settings/:id`, async (req, res) => {
+  app.get(`${apiPrefix}/settings/:id`, requirePermission("Configurações do sistema"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const setting = await storage.getSetting(id);
@@ -897,7 +1237,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get(`${apiPrefix}/settings/key/:key`, async (req, res) => {
+  app.get(`${apiPrefix}/settings/key/:key`, requirePermission("Configurações do sistema"), async (req, res) => {
     try {
       const key = req.params.key;
       const setting = await storage.getSettingByKey(key);
@@ -913,7 +1253,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post(`${apiPrefix}/settings`, async (req, res) => {
+  app.post(`${apiPrefix}/settings`, requirePermission("Configurações do sistema"), async (req, res) => {
     try {
       const validatedData = settingsInsertSchema.parse(req.body);
       const newSetting = await storage.createSetting(validatedData);
@@ -927,7 +1267,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch(`${apiPrefix}/settings/:id`, async (req, res) => {
+  app.patch(`${apiPrefix}/settings/:id`, requirePermission("Configurações do sistema"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = settingsInsertSchema.parse(req.body);
@@ -948,7 +1288,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch(`${apiPrefix}/settings/key/:key`, async (req, res) => {
+  app.patch(`${apiPrefix}/settings/key/:key`, requirePermission("Configurações do sistema"), async (req, res) => {
     try {
       const key = req.params.key;
       const { value } = req.body;
@@ -974,7 +1314,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete(`${apiPrefix}/settings/:id`, async (req, res) => {
+  app.delete(`${apiPrefix}/settings/:id`, requirePermission("Configurações do sistema"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteSetting(id);
@@ -986,7 +1326,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Opcionais API
-  app.get(`${apiPrefix}/optionals`, async (req, res) => {
+  app.get(`${apiPrefix}/optionals`, requirePermission("Configurador de veículos"), async (req, res) => {
     try {
       const optionals = await storage.getOptionals();
       res.json(optionals);
@@ -996,7 +1336,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get(`${apiPrefix}/optionals/:id`, async (req, res) => {
+  app.get(`${apiPrefix}/optionals/:id`, requirePermission("Configurador de veículos"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const optional = await storage.getOptionalById(id);
@@ -1012,7 +1352,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post(`${apiPrefix}/optionals`, async (req, res) => {
+  app.post(`${apiPrefix}/optionals`, requirePermission("Cadastrar novos opcionais"), async (req, res) => {
     try {
       const validatedData = optionalInsertSchema.parse(req.body);
       const newOptional = await storage.createOptional(validatedData);
@@ -1026,7 +1366,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch(`${apiPrefix}/optionals/:id`, async (req, res) => {
+  app.patch(`${apiPrefix}/optionals/:id`, requirePermission("Editar opcionais existentes"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = optionalInsertSchema.parse(req.body);
@@ -1047,7 +1387,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete(`${apiPrefix}/optionals/:id`, async (req, res) => {
+  app.delete(`${apiPrefix}/optionals/:id`, requirePermission("Editar opcionais existentes"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteOptional(id);
@@ -1059,7 +1399,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Versão-Opcionais API
-  app.get(`${apiPrefix}/version-optionals`, isAuthenticated, async (req, res) => {
+  app.get(`${apiPrefix}/version-optionals`, requirePermission("Configurador de veículos"), async (req, res) => {
     try {
       const { modelId, versionId } = req.query;
       const options: any = {};
@@ -1075,7 +1415,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get(`${apiPrefix}/version-optionals/:id`, isAuthenticated, async (req, res) => {
+  app.get(`${apiPrefix}/version-optionals/:id`, requirePermission("Configurador de veículos"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const versionOptional = await storage.getVersionOptionalById(id);
@@ -1091,7 +1431,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post(`${apiPrefix}/version-optionals`, async (req, res) => {
+  app.post(`${apiPrefix}/version-optionals`, requirePermission("Associar opcionais às versões"), async (req, res) => {
     try {
       const validatedData = versionOptionalInsertSchema.parse(req.body);
       const newVersionOptional = await storage.createVersionOptional(validatedData);
@@ -1105,7 +1445,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch(`${apiPrefix}/version-optionals/:id`, async (req, res) => {
+  app.patch(`${apiPrefix}/version-optionals/:id`, requirePermission("Editar opcionais das versões"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = versionOptionalInsertSchema.parse(req.body);
@@ -1126,7 +1466,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete(`${apiPrefix}/version-optionals/:id`, async (req, res) => {
+  app.delete(`${apiPrefix}/version-optionals/:id`, requirePermission("Editar opcionais das versões"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteVersionOptional(id);
@@ -1138,7 +1478,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Direct Sales API
-  app.get(`${apiPrefix}/direct-sales`, isAuthenticated, async (req, res) => {
+  app.get(`${apiPrefix}/direct-sales`, requirePermission("Configurador de veículos"), async (req, res) => {
     try {
       const directSales = await storage.getDirectSales();
       res.json(directSales);
@@ -1148,7 +1488,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get(`${apiPrefix}/direct-sales/:id`, isAuthenticated, async (req, res) => {
+  app.get(`${apiPrefix}/direct-sales/:id`, requirePermission("Configurador de veículos"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const directSale = await storage.getDirectSaleById(id);
@@ -1164,7 +1504,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post(`${apiPrefix}/direct-sales`, async (req, res) => {
+  app.post(`${apiPrefix}/direct-sales`, requirePermission("Cadastrar novas vendas diretas"), async (req, res) => {
     try {
       const validatedData = directSalesInsertSchema.parse(req.body);
       const newDirectSale = await storage.createDirectSale(validatedData);
@@ -1178,7 +1518,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch(`${apiPrefix}/direct-sales/:id`, async (req, res) => {
+  app.patch(`${apiPrefix}/direct-sales/:id`, requirePermission("Editar vendas diretas existentes"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const validatedData = directSalesInsertSchema.parse(req.body);
@@ -1199,7 +1539,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete(`${apiPrefix}/direct-sales/:id`, async (req, res) => {
+  app.delete(`${apiPrefix}/direct-sales/:id`, requirePermission("Editar vendas diretas existentes"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteDirectSale(id);
@@ -1210,34 +1550,613 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Rotas de gerenciamento de usuários
-  app.get(`${apiPrefix}/users`, isAdmin, async (req, res) => {
+  // Precificação API
+  // Cálculo único usado pelos configuradores e pelos orçamentos, a partir dos preços cadastrados
+  app.post(`${apiPrefix}/pricing/calculate`, requirePermission("Configurador de veículos"), async (req, res) => {
     try {
-      const users = await getAllUsers();
-      res.json(users);
+      const result = await pricingService.calculate(req.body);
+      res.json(result);
     } catch (error) {
-      console.error("Erro ao buscar usuários:", error);
-      res.status(500).json({ message: "Erro ao buscar usuários" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof PricingError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Erro ao calcular preço:", error);
+      res.status(500).json({ message: "Erro ao calcular preço" });
+    }
+  });
+
+  // Relatório do veículo em PDF, gerado no servidor a partir do mesmo payload do VehicleReport
+  app.post(`${apiPrefix}/reports/vehicle-pdf`, requirePermission("Configurador de veículos"), async (req, res) => {
+    try {
+      const reportData = vehicleReportDataSchema.parse(req.body);
+      
+      // A imagem do veículo é a da cor da versão no catálogo, nunca uma URL enviada pelo cliente
+      const [userDetails, logoSetting, nameSetting, versionColor] = await Promise.all([
+        getUser(req.user!.id),
+        storage.getSettingByKey('company_logo_url'),
+        storage.getSettingByKey('company_name'),
+        reportData.versionId && reportData.colorId
+          ? db.query.versionColors.findFirst({
+              where: and(eq(versionColors.versionId, reportData.versionId), eq(versionColors.colorId, reportData.colorId))
+            })
+          : Promise.resolve(undefined)
+      ]);
+      
+      const pdf = await reportPdfService.generateVehicleReport(
+        reportData,
+        {
+          name: nameSetting?.value || 'Cota Zero KM',
+          logoUrl: logoSetting?.value
+        },
+        {
+          name: userDetails?.name || req.user!.name,
+          email: userDetails?.email || req.user!.email,
+          cnpj: userDetails?.cnpj,
+          phone: userDetails?.phone,
+          address: userDetails?.address
+        },
+        versionColor?.imageUrl || null
+      );
+      
+      const fileName = `relatorio-${reportData.brand}-${reportData.model}-${reportData.version}`
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^a-zA-Z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .toLowerCase();
+      
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}.pdf"`);
+      res.setHeader('Content-Length', pdf.length);
+      res.send(pdf);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Erro ao gerar PDF do relatório:", error);
+      res.status(500).json({ message: "Erro ao gerar PDF do relatório" });
+    }
+  });
+
+  // Orçamentos API
+  // Cada vendedor vê apenas os próprios orçamentos; administradores podem listar todos com ?scope=all
+  const canAccessQuote = (user: Express.User | undefined, quote: { userId: number }) =>
+    !!user && (user.id === quote.userId || user.role?.name === ADMIN_ROLE_NAME);
+
+  // Os valores do orçamento são sempre recalculados no servidor; do cliente só se aproveita a configuração.
+  // A tabela de preços é a do dia da criação, mantida nas edições (nunca escolhida pelo cliente).
+  const priceQuote = async (body: unknown, priceDate: string) => {
+    const { snapshot, ...request }: QuoteRequest = quoteRequestSchema.parse(body);
+    const customer = request.customerId ? await storage.getCustomerById(request.customerId) : undefined;
+    if (request.customerId && !customer) {
+      throw new PricingError("Cliente não encontrado", 400);
+    }
+
+    const pricing = await pricingService.calculate({ ...request, date: priceDate });
+
+    return {
+      ...request,
+      customerId: customer?.id ?? null,
+      vehicleId: pricing.vehicleId,
+      priceType: pricing.priceType,
+      basePrice: pricing.basePrice.toFixed(2),
+      paintPrice: pricing.paintPrice.toFixed(2),
+      optionalsTotal: pricing.optionalsTotal.toFixed(2),
+      discountPercentage: pricing.discountPercentage.toFixed(2),
+      discountAmount: pricing.discountAmount.toFixed(2),
+      state: pricing.state,
+      regionalAdjustmentAmount: pricing.regionalAdjustmentAmount.toFixed(2),
+      freightAmount: pricing.freightAmount.toFixed(2),
+      surchargeAmount: pricing.surchargeAmount.toFixed(2),
+      unitPrice: pricing.unitPrice.toFixed(2),
+      quantity: pricing.quantity,
+      totalPrice: pricing.totalPrice.toFixed(2),
+      snapshot: {
+        brand: snapshot.brand,
+        model: snapshot.model,
+        version: snapshot.version,
+        year: snapshot.year,
+        fuelType: snapshot.fuelType,
+        vehicleDescription: snapshot.vehicleDescription ?? null,
+        priceDate,
+        priceTypeLabel: pricing.priceTypeLabel,
+        color: pricing.colorId ? {
+          name: pricing.colorName || '',
+          price: pricing.paintPrice,
+          imageUrl: snapshot.color?.imageUrl ?? null
+        } : undefined,
+        optionals: pricing.optionals.map(opt => ({
+          optionalId: opt.optionalId,
+          name: opt.name || '',
+          price: opt.price
+        })),
+        directSaleName: pricing.directSaleName,
+        customer: customer ? {
+          name: customer.name,
+          document: formatDocument(customer.document),
+          typeLabel: CUSTOMER_TYPE_LABELS[customer.type]
+        } : null
+      }
+    };
+  };
+
+  app.get(`${apiPrefix}/quotes`, requirePermission("Orçamentos"), async (req, res) => {
+    try {
+      const user = req.user!;
+      const showAll = req.query.scope === "all" && user.role?.name === ADMIN_ROLE_NAME;
+      const quotes = await storage.getQuotes(showAll ? {} : { userId: user.id });
+      res.json(quotes);
+    } catch (error) {
+      console.error("Erro ao buscar orçamentos:", error);
+      res.status(500).json({ message: "Erro ao buscar orçamentos" });
+    }
+  });
+
+  app.get(`${apiPrefix}/quotes/:id`, requirePermission("Orçamentos"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const quote = await storage.getQuoteById(id);
+      
+      if (!quote || !canAccessQuote(req.user, quote)) {
+        return res.status(404).json({ message: "Orçamento não encontrado" });
+      }
+      
+      res.json(quote);
+    } catch (error) {
+      console.error("Erro ao buscar orçamento:", error);
+      res.status(500).json({ message: "Erro ao buscar orçamento" });
     }
   });
-  
-  // Rota para obter todos os papéis de usuário
-  app.get(`${apiPrefix}/roles`, isAuthenticated, async (req, res) => {
+
+  app.post(`${apiPrefix}/quotes`, requirePermission("Orçamentos"), async (req, res) => {
     try {
-      const roles = await getAllRoles();
-      res.json(roles);
+      const validatedData = quoteInsertSchema.parse({
+        ...(await priceQuote(req.body, todayDate())),
+        userId: req.user!.id
+      });
+      const newQuote = await storage.createQuote(validatedData);
+      res.status(201).json(newQuote);
     } catch (error) {
-      console.error("Erro ao buscar papéis:", error);
-      res.status(500).json({ message: "Erro ao buscar papéis de usuário" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof PricingError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Erro ao criar orçamento:", error);
+      res.status(500).json({ message: "Erro ao criar orçamento" });
     }
   });
 
-  app.put(`${apiPrefix}/users/:id`, isAuthenticated, sensitiveApiLimiter, async (req, res) => {
-    const userId = parseInt(req.params.id);
-    
-    // Verificar se o usuário está tentando editar seu próprio perfil
-    // @ts-ignore - Sabemos que req.user existe devido ao middleware isAuthenticated
-    if (req.user.id !== userId && req.user.role.name !== "Administrador") {
+  app.patch(`${apiPrefix}/quotes/:id`, requirePermission("Orçamentos"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existingQuote = await storage.getQuoteById(id);
+      
+      if (!existingQuote || !canAccessQuote(req.user, existingQuote)) {
+        return res.status(404).json({ message: "Orçamento não encontrado" });
+      }
+      
+      // O dono do orçamento nunca muda, mesmo quando editado por um administrador
+      // Orçamentos antigos sem data gravada usam a tabela do dia em que foram criados
+      const priceDate = existingQuote.snapshot.priceDate || toDateString(new Date(existingQuote.createdAt));
+      const validatedData = quoteInsertSchema.parse({
+        ...(await priceQuote(req.body, priceDate)),
+        userId: existingQuote.userId
+      });
+      
+      const updatedQuote = await storage.updateQuote(id, validatedData);
+      res.json(updatedQuote);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof PricingError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Erro ao atualizar orçamento:", error);
+      res.status(500).json({ message: "Erro ao atualizar orçamento" });
+    }
+  });
+
+  app.post(`${apiPrefix}/quotes/:id/duplicate`, requirePermission("Orçamentos"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existingQuote = await storage.getQuoteById(id);
+      
+      if (!existingQuote || !canAccessQuote(req.user, existingQuote)) {
+        return res.status(404).json({ message: "Orçamento não encontrado" });
+      }
+      
+      const newQuote = await storage.duplicateQuote(id, req.user!.id);
+      res.status(201).json(newQuote);
+    } catch (error) {
+      console.error("Erro ao duplicar orçamento:", error);
+      res.status(500).json({ message: "Erro ao duplicar orçamento" });
+    }
+  });
+
+  app.delete(`${apiPrefix}/quotes/:id`, requirePermission("Orçamentos"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existingQuote = await storage.getQuoteById(id);
+      
+      if (!existingQuote || !canAccessQuote(req.user, existingQuote)) {
+        return res.status(404).json({ message: "Orçamento não encontrado" });
+      }
+      
+      await storage.deleteQuote(id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Erro ao excluir orçamento:", error);
+      res.status(500).json({ message: "Erro ao excluir orçamento" });
+    }
+  });
+
+  // Clientes API
+  app.get(`${apiPrefix}/customers`, requirePermission("Visualizar clientes"), async (req, res) => {
+    try {
+      const search = typeof req.query.search === 'string' ? req.query.search : undefined;
+      const customers = await storage.getCustomers(search);
+      res.json(customers);
+    } catch (error) {
+      console.error("Erro ao buscar clientes:", error);
+      res.status(500).json({ message: "Erro ao buscar clientes" });
+    }
+  });
+
+  app.get(`${apiPrefix}/customers/:id`, requirePermission("Visualizar clientes"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const customer = await storage.getCustomerById(id);
+
+      if (!customer) {
+        return res.status(404).json({ message: "Cliente não encontrado" });
+      }
+
+      res.json(customer);
+    } catch (error) {
+      console.error("Erro ao buscar cliente:", error);
+      res.status(500).json({ message: "Erro ao buscar cliente" });
+    }
+  });
+
+  app.post(`${apiPrefix}/customers`, requirePermission("Cadastrar novos clientes"), async (req, res) => {
+    try {
+      const validatedData = customerInputSchema.parse(req.body);
+
+      const existingCustomer = await storage.getCustomerByDocument(validatedData.document);
+      if (existingCustomer) {
+        return res.status(409).json({
+          message: `Já existe um cliente com este documento: "${existingCustomer.name}"`
+        });
+      }
+
+      const newCustomer = await storage.createCustomer(validatedData, req.user!.id);
+      res.status(201).json(newCustomer);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Erro ao criar cliente:", error);
+      res.status(500).json({ message: "Erro ao criar cliente" });
+    }
+  });
+
+  app.patch(`${apiPrefix}/customers/:id`, requirePermission("Editar clientes existentes"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = customerInputSchema.parse(req.body);
+
+      const existingCustomer = await storage.getCustomerByDocument(validatedData.document);
+      if (existingCustomer && existingCustomer.id !== id) {
+        return res.status(409).json({
+          message: `Já existe um cliente com este documento: "${existingCustomer.name}"`
+        });
+      }
+
+      const updatedCustomer = await storage.updateCustomer(id, validatedData);
+
+      if (!updatedCustomer) {
+        return res.status(404).json({ message: "Cliente não encontrado" });
+      }
+
+      res.json(updatedCustomer);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Erro ao atualizar cliente:", error);
+      res.status(500).json({ message: "Erro ao atualizar cliente" });
+    }
+  });
+
+  app.delete(`${apiPrefix}/customers/:id`, requirePermission("Editar clientes existentes"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      await storage.deleteCustomer(id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Erro ao excluir cliente:", error);
+      res.status(500).json({ message: "Erro ao excluir cliente" });
+    }
+  });
+
+  // Estoque: unidades físicas (chassi) de cada veículo e cor
+  app.get(`${apiPrefix}/stock-units`, requirePermission("Visualizar estoque"), async (req, res) => {
+    try {
+      const filters = stockUnitFiltersSchema.parse(req.query);
+      res.json(await storage.getStockUnits(filters));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Erro ao buscar estoque:", error);
+      res.status(500).json({ message: "Erro ao buscar estoque" });
+    }
+  });
+
+  // Quantidade em estoque e em trânsito do veículo, por cor, mostrada no configurador
+  app.get(`${apiPrefix}/stock-units/summary`, requirePermission("Configurador de veículos"), async (req, res) => {
+    try {
+      const vehicleId = parseInt(req.query.vehicleId as string);
+      if (isNaN(vehicleId)) {
+        return res.status(400).json({ message: "Informe o veículo" });
+      }
+      res.json(await storage.getStockSummary(vehicleId));
+    } catch (error) {
+      console.error("Erro ao buscar resumo do estoque:", error);
+      res.status(500).json({ message: "Erro ao buscar resumo do estoque" });
+    }
+  });
+
+  app.get(`${apiPrefix}/stock-units/:id`, requirePermission("Visualizar estoque"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const unit = await storage.getStockUnitById(id);
+
+      if (!unit) {
+        return res.status(404).json({ message: "Unidade de estoque não encontrada" });
+      }
+
+      res.json(unit);
+    } catch (error) {
+      console.error("Erro ao buscar unidade de estoque:", error);
+      res.status(500).json({ message: "Erro ao buscar unidade de estoque" });
+    }
+  });
+
+  // Confere se a cor pertence à versão do veículo e se o chassi ainda não foi cadastrado
+  const validateStockUnit = async (data: StockUnitData, id?: number) => {
+    const vehicle = await storage.getVehicleById(data.vehicleId);
+    if (!vehicle) {
+      return { status: 400, message: "Veículo não encontrado" };
+    }
+    const versionColor = await storage.getVersionColorById(data.versionColorId);
+    if (!versionColor || versionColor.versionId !== vehicle.versionId) {
+      return { status: 400, message: "A cor selecionada não pertence à versão do veículo" };
+    }
+    const existingUnit = await storage.getStockUnitByVin(data.vin);
+    if (existingUnit && existingUnit.id !== id) {
+      return { status: 409, message: `Já existe uma unidade cadastrada com o chassi ${data.vin}` };
+    }
+    return null;
+  };
+
+  app.post(`${apiPrefix}/stock-units`, requirePermission("Cadastrar unidades de estoque"), async (req, res) => {
+    try {
+      const validatedData = stockUnitInputSchema.parse(req.body);
+      const invalid = await validateStockUnit(validatedData);
+      if (invalid) {
+        return res.status(invalid.status).json({ message: invalid.message });
+      }
+
+      const newUnit = await storage.createStockUnit(validatedData, req.user!.id);
+      res.status(201).json(newUnit);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Erro ao cadastrar unidade de estoque:", error);
+      res.status(500).json({ message: "Erro ao cadastrar unidade de estoque" });
+    }
+  });
+
+  app.patch(`${apiPrefix}/stock-units/:id`, requirePermission("Editar unidades de estoque"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = stockUnitInputSchema.parse(req.body);
+      const invalid = await validateStockUnit(validatedData, id);
+      if (invalid) {
+        return res.status(invalid.status).json({ message: invalid.message });
+      }
+
+      const updatedUnit = await storage.updateStockUnit(id, validatedData);
+
+      if (!updatedUnit) {
+        return res.status(404).json({ message: "Unidade de estoque não encontrada" });
+      }
+
+      res.json(updatedUnit);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Erro ao atualizar unidade de estoque:", error);
+      res.status(500).json({ message: "Erro ao atualizar unidade de estoque" });
+    }
+  });
+
+  app.delete(`${apiPrefix}/stock-units/:id`, requirePermission("Editar unidades de estoque"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      await storage.deleteStockUnit(id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Erro ao excluir unidade de estoque:", error);
+      res.status(500).json({ message: "Erro ao excluir unidade de estoque" });
+    }
+  });
+
+  // Disponibilidade por veículo e cor; lida também pelo configurador para oferecer a reserva
+  app.get(`${apiPrefix}/availability`, requirePermission("Configurador de veículos"), async (req, res) => {
+    try {
+      const vehicleId = req.query.vehicleId ? parseInt(req.query.vehicleId as string) : undefined;
+      if (vehicleId !== undefined && isNaN(vehicleId)) {
+        return res.status(400).json({ message: "Veículo inválido" });
+      }
+      res.json(await reservationService.getAvailability(vehicleId));
+    } catch (error) {
+      console.error("Erro ao buscar disponibilidade:", error);
+      res.status(500).json({ message: "Erro ao buscar disponibilidade" });
+    }
+  });
+
+  app.put(`${apiPrefix}/availability`, requirePermission("Disponibilidade de veículos"), async (req, res) => {
+    try {
+      res.json(await reservationService.setAvailability(req.body, req.user!.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof ReservationError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Erro ao salvar disponibilidade:", error);
+      res.status(500).json({ message: "Erro ao salvar disponibilidade" });
+    }
+  });
+
+  // Reservas de veículos: histórico completo (ativas, liberadas e expiradas)
+  app.get(`${apiPrefix}/reservations`, requirePermission("Reservas de veículos"), async (req, res) => {
+    try {
+      const filters = reservationFiltersSchema.parse(req.query);
+      res.json(await reservationService.getReservations(filters, req.user!.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Erro ao buscar reservas:", error);
+      res.status(500).json({ message: "Erro ao buscar reservas" });
+    }
+  });
+
+  app.post(`${apiPrefix}/reservations`, requirePermission("Reservas de veículos"), async (req, res) => {
+    try {
+      const reservation = await reservationService.createReservation(req.user!, req.body);
+      res.status(201).json(reservation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof ReservationError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Erro ao criar reserva:", error);
+      res.status(500).json({ message: "Erro ao criar reserva" });
+    }
+  });
+
+  app.post(`${apiPrefix}/reservations/:id/release`, requirePermission("Reservas de veículos"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { reason } = reservationReleaseSchema.parse(req.body ?? {});
+      res.json(await reservationService.releaseReservation(req.user!, id, reason));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof ReservationError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Erro ao liberar reserva:", error);
+      res.status(500).json({ message: "Erro ao liberar reserva" });
+    }
+  });
+
+  // Rotas de gerenciamento de usuários
+  app.get(`${apiPrefix}/users`, requirePermission("Gerenciamento de usuários"), async (req, res) => {
+    try {
+      const users = await getAllUsers();
+      res.json(users);
+    } catch (error) {
+      console.error("Erro ao buscar usuários:", error);
+      res.status(500).json({ message: "Erro ao buscar usuários" });
+    }
+  });
+  
+  // Rota para obter todos os papéis de usuário, com a quantidade de usuários de cada um
+  app.get(`${apiPrefix}/roles`, requirePermission("Gerenciamento de usuários", "Configurar permissões do sistema"), async (req, res) => {
+    try {
+      const roles = await roleService.listRoles();
+      res.json(roles);
+    } catch (error) {
+      console.error("Erro ao buscar papéis:", error);
+      res.status(500).json({ message: "Erro ao buscar papéis de usuário" });
+    }
+  });
+
+  // Cadastro de papéis pelos administradores
+  app.post(`${apiPrefix}/roles`, requirePermission("Configurar permissões do sistema"), async (req, res) => {
+    try {
+      const role = await roleService.createRole(roleInputSchema.parse(req.body));
+      res.status(201).json(role);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof RoleError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Erro ao criar papel:", error);
+      res.status(500).json({ message: "Erro ao criar papel" });
+    }
+  });
+
+  app.patch(`${apiPrefix}/roles/:id`, requirePermission("Configurar permissões do sistema"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const role = await roleService.updateRole(id, roleInputSchema.omit({ copyFromRoleId: true }).parse(req.body));
+      res.json(role);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof RoleError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Erro ao atualizar papel:", error);
+      res.status(500).json({ message: "Erro ao atualizar papel" });
+    }
+  });
+
+  app.delete(`${apiPrefix}/roles/:id`, requirePermission("Configurar permissões do sistema"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { replacementRoleId } = roleDeleteSchema.parse(req.body ?? {});
+      const result = await roleService.deleteRole(id, replacementRoleId);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof RoleError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Erro ao excluir papel:", error);
+      res.status(500).json({ message: "Erro ao excluir papel" });
+    }
+  });
+
+  app.put(`${apiPrefix}/users/:id`, requirePermission("Perfil de usuário"), sensitiveApiLimiter, async (req, res) => {
+    const userId = parseInt(req.params.id);
+    
+    // Verificar se o usuário está tentando editar seu próprio perfil
+    // @ts-ignore - Sabemos que req.user existe devido ao middleware requirePermission
+    if (req.user.id !== userId && req.user.role.name !== ADMIN_ROLE_NAME) {
       logSecurityEvent("USER_UPDATE_UNAUTHORIZED", {
         attemptedUserId: userId,
         currentUserId: req.user.id,
@@ -1248,6 +2167,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     try {
       const { name, email, cnpj, logoUrl, address, phone } = req.body;
+      // UF de venda: vazio remove a região (preços nacionais)
+      const state = req.body.state ? stateSchema.safeParse(req.body.state) : null;
+      if (state && !state.success) {
+        return res.status(400).json({ message: "UF de venda inválida" });
+      }
       
       // Verificar se o e-mail já existe (exceto para o próprio usuário)
       const existingUser = await getUserByEmail(email);
@@ -1263,6 +2187,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...(logoUrl !== undefined && { logoUrl }),
         ...(address !== undefined && { address }),
         ...(phone !== undefined && { phone }),
+        ...(req.body.state !== undefined && { state: state?.data ?? null }),
       };
       
       // Atualizar usuário
@@ -1289,7 +2214,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put(`${apiPrefix}/users/:id/password`, isAuthenticated, sensitiveApiLimiter, async (req, res) => {
+  app.put(`${apiPrefix}/users/:id/password`, requirePermission("Perfil de usuário"), sensitiveApiLimiter, async (req, res) => {
     const userId = parseInt(req.params.id);
     const currentUser = req.user as any;
     
@@ -1350,8 +2275,127 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Autenticação em dois fatores do próprio usuário (página de perfil)
+  const handleTwoFactorRouteError = (res: Response, error: unknown, logMessage: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ errors: error.errors });
+    }
+    if (error instanceof TwoFactorError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error(`${logMessage}:`, error);
+    res.status(500).json({ message: logMessage });
+  };
+
+  app.get(`${apiPrefix}/user/2fa`, requirePermission("Perfil de usuário"), async (req, res) => {
+    try {
+      res.json(await twoFactorService.getStatus(req.user!));
+    } catch (error) {
+      handleTwoFactorRouteError(res, error, "Erro ao consultar autenticação em dois fatores");
+    }
+  });
+
+  app.post(`${apiPrefix}/user/2fa/setup`, requirePermission("Perfil de usuário"), sensitiveApiLimiter, async (req, res) => {
+    try {
+      res.json(await twoFactorService.startEnrollment(req.user!));
+    } catch (error) {
+      handleTwoFactorRouteError(res, error, "Erro ao iniciar cadastro do aplicativo autenticador");
+    }
+  });
+
+  app.post(`${apiPrefix}/user/2fa/confirm`, requirePermission("Perfil de usuário"), sensitiveApiLimiter, async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const recoveryCodes = await twoFactorService.confirmEnrollment(req.user!.id, code);
+      logSecurityEvent("TWO_FACTOR_ENABLED", { userId: req.user!.id }, req);
+      res.json({ recoveryCodes });
+    } catch (error) {
+      handleTwoFactorRouteError(res, error, "Erro ao ativar autenticação em dois fatores");
+    }
+  });
+
+  app.post(`${apiPrefix}/user/2fa/recovery-codes`, requirePermission("Perfil de usuário"), sensitiveApiLimiter, async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(req.user!.id, code);
+      logSecurityEvent("TWO_FACTOR_RECOVERY_CODES_REGENERATED", { userId: req.user!.id }, req);
+      res.json({ recoveryCodes });
+    } catch (error) {
+      handleTwoFactorRouteError(res, error, "Erro ao gerar novos códigos de recuperação");
+    }
+  });
+
+  app.delete(`${apiPrefix}/user/2fa`, requirePermission("Perfil de usuário"), sensitiveApiLimiter, async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      await twoFactorService.disable(req.user!, code);
+      logSecurityEvent("TWO_FACTOR_DISABLED", { userId: req.user!.id }, req);
+      res.json(await twoFactorService.getStatus(req.user!));
+    } catch (error) {
+      handleTwoFactorRouteError(res, error, "Erro ao desativar autenticação em dois fatores");
+    }
+  });
+
+  // Tokens pessoais de API do próprio usuário; o token completo só aparece na criação
+  app.get(`${apiPrefix}/user/api-tokens`, requirePermission("Perfil de usuário"), async (req, res) => {
+    try {
+      res.json(await apiTokenService.listTokens(req.user!.id));
+    } catch (error) {
+      console.error("Erro ao buscar tokens de API:", error);
+      res.status(500).json({ message: "Erro ao buscar tokens de API" });
+    }
+  });
+
+  app.post(`${apiPrefix}/user/api-tokens`, requirePermission("Perfil de usuário"), sensitiveApiLimiter, async (req, res) => {
+    try {
+      const created = await apiTokenService.createToken(req.user!, apiTokenInputSchema.parse(req.body));
+      logSecurityEvent("API_TOKEN_CREATED", { userId: req.user!.id, apiTokenId: created.id, scopes: created.scopes }, req);
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof ApiTokenError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Erro ao criar token de API:", error);
+      res.status(500).json({ message: "Erro ao criar token de API" });
+    }
+  });
+
+  app.delete(`${apiPrefix}/user/api-tokens/:id`, requirePermission("Perfil de usuário"), async (req, res) => {
+    try {
+      const revoked = await apiTokenService.revokeToken(req.user!.id, parseInt(req.params.id));
+      logSecurityEvent("API_TOKEN_REVOKED", { userId: req.user!.id, apiTokenId: revoked.id }, req);
+      res.json(revoked);
+    } catch (error) {
+      if (error instanceof ApiTokenError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Erro ao revogar token de API:", error);
+      res.status(500).json({ message: "Erro ao revogar token de API" });
+    }
+  });
+
+  // Papéis que precisam de 2FA para entrar no sistema
+  app.get(`${apiPrefix}/two-factor/policy`, requirePermission("Configurar permissões do sistema"), async (req, res) => {
+    try {
+      res.json(await twoFactorService.getPolicy());
+    } catch (error) {
+      handleTwoFactorRouteError(res, error, "Erro ao buscar política de autenticação em dois fatores");
+    }
+  });
+
+  app.put(`${apiPrefix}/two-factor/policy`, requirePermission("Configurar permissões do sistema"), async (req, res) => {
+    try {
+      res.json(await twoFactorService.savePolicy(req.body));
+    } catch (error) {
+      handleTwoFactorRouteError(res, error, "Erro ao salvar política de autenticação em dois fatores");
+    }
+  });
+
   // Rota para atualizar o papel de um usuário (apenas para administradores)
-  app.put(`${apiPrefix}/users/:id/role`, isAuthenticated, isAdmin, sensitiveApiLimiter, async (req, res) => {
+  app.put(`${apiPrefix}/users/:id/role`, requirePermission("Gerenciamento de usuários"), sensitiveApiLimiter, async (req, res) => {
     const userId = parseInt(req.params.id);
     const { roleId } = req.body;
     const currentUser = req.user as any;
@@ -1392,7 +2436,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Rota para atualizar o status de um usuário (apenas para administradores)
-  app.put(`${apiPrefix}/users/:id/status`, isAuthenticated, isAdmin, sensitiveApiLimiter, async (req, res) => {
+  app.put(`${apiPrefix}/users/:id/status`, requirePermission("Gerenciamento de usuários"), sensitiveApiLimiter, async (req, res) => {
     const userId = parseInt(req.params.id);
     const { isActive } = req.body;
     const currentUser = req.user as any;
@@ -1432,28 +2476,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Rotas para gerenciar permissões personalizadas
-  app.get(`${apiPrefix}/permissions`, isAuthenticated, isAdmin, async (req, res) => {
-    try {
-      // Buscar todas as permissões personalizadas
-      const customPermissions = await storage.getCustomPermissions();
-      
-      // Transformar em um objeto organizado por papel
-      const result: Record<string, Record<string, boolean>> = {};
-      
-      customPermissions.forEach(permission => {
-        result[permission.roleName] = permission.permissions as Record<string, boolean>;
-      });
-      
-      res.json(result);
-    } catch (error) {
-      console.error("Erro ao buscar permissões:", error);
-      res.status(500).json({ message: "Erro ao buscar permissões" });
-    }
-  });
-
+  // Rotas para gerenciar permissões personalizadas (a listagem geral, usada por todos os usuários, está mais acima)
   // Buscar permissões de um papel específico
-  app.get(`${apiPrefix}/permissions/:roleName`, isAuthenticated, isAdmin, async (req, res) => {
+  app.get(`${apiPrefix}/permissions/:roleName`, requirePermission("Visualizar permissões do sistema"), async (req, res) => {
     try {
       const { roleName } = req.params;
       const permissions = await storage.getCustomPermissionsByRole(roleName);
@@ -1471,7 +2496,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Criar ou atualizar permissões
-  app.post(`${apiPrefix}/permissions`, isAuthenticated, isAdmin, async (req, res) => {
+  app.post(`${apiPrefix}/permissions`, requirePermission("Configurar permissões do sistema"), async (req, res) => {
     try {
       const { role, permissions } = req.body;
       
@@ -1483,6 +2508,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Permissões inválidas" });
       }
       
+      // Apenas permissões do catálogo (matriz compartilhada), com valores booleanos
+      const unknownPermissions = Object.entries(permissions)
+        .filter(([key, value]) => !findPermissionByDescription(key) || typeof value !== 'boolean')
+        .map(([key]) => key);
+      if (unknownPermissions.length > 0) {
+        return res.status(400).json({ message: `Permissões inválidas: ${unknownPermissions.join(', ')}` });
+      }
+      
       // Verificar se o papel existe
       const roles = await getAllRoles();
       const roleExists = roles.some(r => r.name === role);
@@ -1492,7 +2525,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Não permitir modificar permissões de Administrador
-      if (role === "Administrador") {
+      if (role === ADMIN_ROLE_NAME) {
         return res.status(403).json({ 
           message: "Não é possível modificar permissões do Administrador, que sempre tem acesso total" 
         });
@@ -1511,12 +2544,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Excluir permissões personalizadas (voltar ao padrão)
-  app.delete(`${apiPrefix}/permissions/:roleName`, isAuthenticated, isAdmin, async (req, res) => {
+  app.delete(`${apiPrefix}/permissions/:roleName`, requirePermission("Configurar permissões do sistema"), async (req, res) => {
     try {
       const { roleName } = req.params;
       
       // Não permitir modificar permissões de Administrador
-      if (roleName === "Administrador") {
+      if (roleName === ADMIN_ROLE_NAME) {
         return res.status(403).json({ 
           message: "Não é possível modificar permissões do Administrador, que sempre tem acesso total" 
         });
@@ -1537,7 +2570,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Session Management APIs
   
   // Heartbeat endpoint to keep session alive
-  app.post(`${apiPrefix}/heartbeat`, isAuthenticated, async (req, res) => {
+  app.post(`${apiPrefix}/heartbeat`, requirePermission("Dashboard"), async (req, res) => {
     try {
       // Verificar se a sessão ainda está ativa no banco de dados
       const sessionId = req.sessionID;
@@ -1564,7 +2597,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Get user's active sessions
-  app.get(`${apiPrefix}/sessions`, isAuthenticated, async (req, res) => {
+  app.get(`${apiPrefix}/sessions`, requirePermission("Perfil de usuário"), async (req, res) => {
     try {
       // @ts-ignore - req.user exists due to middleware
       const userId = req.user.id;
@@ -1589,7 +2622,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Terminate a specific session
-  app.delete(`${apiPrefix}/sessions/:sessionId`, isAuthenticated, async (req, res) => {
+  app.delete(`${apiPrefix}/sessions/:sessionId`, requirePermission("Perfil de usuário"), async (req, res) => {
     try {
       // @ts-ignore - req.user exists due to middleware
       const userId = req.user.id;
@@ -1625,7 +2658,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Terminate all other sessions (except current)
-  app.post(`${apiPrefix}/sessions/terminate-others`, isAuthenticated, async (req, res) => {
+  app.post(`${apiPrefix}/sessions/terminate-others`, requirePermission("Perfil de usuário"), async (req, res) => {
     try {
       // @ts-ignore - req.user exists due to middleware
       const userId = req.user.id;
@@ -1652,7 +2685,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Admin endpoints for managing all user sessions
   
   // Get all active users and their sessions (Admin only)
-  app.get(`${apiPrefix}/admin/active-users`, isAuthenticated, isAdmin, async (req, res) => {
+  app.get(`${apiPrefix}/admin/active-users`, requirePermission("Gerenciamento de usuários"), async (req, res) => {
     try {
       const activeUsers = await storage.getAllActiveUsersWithSessions();
       res.json(activeUsers);
@@ -1663,7 +2696,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Terminate specific session by admin
-  app.post(`${apiPrefix}/admin/sessions/:sessionId/terminate`, isAuthenticated, isAdmin, async (req, res) => {
+  app.post(`${apiPrefix}/admin/sessions/:sessionId/terminate`, requirePermission("Gerenciamento de usuários"), async (req, res) => {
     try {
       // @ts-ignore - req.user exists due to middleware
       const adminUserId = req.user.id;
@@ -1697,7 +2730,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Terminate all sessions for a specific user (Admin only)
-  app.post(`${apiPrefix}/admin/users/:userId/terminate-all-sessions`, isAuthenticated, isAdmin, async (req, res) => {
+  app.post(`${apiPrefix}/admin/users/:userId/terminate-all-sessions`, requirePermission("Gerenciamento de usuários"), async (req, res) => {
     try {
       // @ts-ignore - req.user exists due to middleware
       const adminUserId = req.user.id;
@@ -1726,10 +2759,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Eventos de segurança da própria conta (dispositivo ou IP novo, bloqueios)
+  app.get(`${apiPrefix}/security-events`, requirePermission("Perfil de usuário"), async (req, res) => {
+    try {
+      res.json(await loginSecurityService.listEvents(req.user!.id));
+    } catch (error) {
+      console.error("Erro ao buscar eventos de segurança:", error);
+      res.status(500).json({ message: "Erro ao buscar eventos de segurança" });
+    }
+  });
+
+  app.post(`${apiPrefix}/security-events/:id/review`, requirePermission("Perfil de usuário"), async (req, res) => {
+    try {
+      await loginSecurityService.markEventReviewed(req.user!.id, parseInt(req.params.id));
+      res.json({ message: "Evento marcado como reconhecido" });
+    } catch (error) {
+      if (error instanceof LoginSecurityError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Erro ao marcar evento de segurança:", error);
+      res.status(500).json({ message: "Erro ao marcar evento de segurança" });
+    }
+  });
+
+  // Contas bloqueadas por tentativas de login (Admin only)
+  app.get(`${apiPrefix}/admin/locked-users`, requirePermission("Gerenciamento de usuários"), async (req, res) => {
+    try {
+      res.json(await loginSecurityService.listLockedAccounts());
+    } catch (error) {
+      console.error("Erro ao buscar contas bloqueadas:", error);
+      res.status(500).json({ message: "Erro ao buscar contas bloqueadas" });
+    }
+  });
+
+  app.post(`${apiPrefix}/admin/users/:userId/unlock`, requirePermission("Gerenciamento de usuários"), async (req, res) => {
+    try {
+      const targetUserId = parseInt(req.params.userId);
+      if (isNaN(targetUserId)) {
+        return res.status(400).json({ message: "ID de usuário inválido" });
+      }
+
+      await loginSecurityService.unlockAccount(targetUserId, req.user!.id);
+
+      logSecurityEvent("ADMIN_ACCOUNT_UNLOCKED", {
+        targetUserId,
+        adminUserId: req.user!.id,
+        adminIp: req.ip
+      }, req);
+
+      res.json({ message: "Conta desbloqueada. O usuário já pode entrar novamente" });
+    } catch (error) {
+      if (error instanceof LoginSecurityError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Erro ao desbloquear conta:", error);
+      res.status(500).json({ message: "Erro ao desbloquear conta" });
+    }
+  });
+
 
 
   // Admin user management endpoints
-  app.get(`${apiPrefix}/admin/users`, isAuthenticated, isAdmin, async (req, res) => {
+  app.get(`${apiPrefix}/admin/users`, requirePermission("Gerenciamento de usuários"), async (req, res) => {
     try {
       const users = await getAllUsers();
       res.json(users);
@@ -1739,7 +2830,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get(`${apiPrefix}/admin/roles`, isAuthenticated, isAdmin, async (req, res) => {
+  app.get(`${apiPrefix}/admin/roles`, requirePermission("Gerenciamento de usuários"), async (req, res) => {
     try {
       const roles = await getAllRoles();
       res.json(roles);
@@ -1749,7 +2840,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put(`${apiPrefix}/admin/users/:id/role`, isAuthenticated, isAdmin, async (req, res) => {
+  app.put(`${apiPrefix}/admin/users/:id/role`, requirePermission("Gerenciamento de usuários"), async (req, res) => {
     try {
       const userId = parseInt(req.params.id);
       const { roleId } = req.body;
@@ -1781,7 +2872,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put(`${apiPrefix}/admin/users/:id/status`, isAuthenticated, isAdmin, async (req, res) => {
+  // Remove o 2FA de um usuário que perdeu o aplicativo e os códigos de recuperação
+  app.delete(`${apiPrefix}/admin/users/:id/2fa`, requirePermission("Gerenciamento de usuários"), sensitiveApiLimiter, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const reset = await twoFactorService.reset(userId);
+      if (!reset) {
+        return res.status(404).json({ message: "O usuário não tem autenticação em dois fatores ativa" });
+      }
+      logSecurityEvent("TWO_FACTOR_RESET_BY_ADMIN", { userId, resetBy: req.user!.id }, req);
+      res.json({ message: "Autenticação em dois fatores removida. O usuário poderá cadastrar um novo aplicativo" });
+    } catch (error) {
+      console.error("Erro ao remover autenticação em dois fatores:", error);
+      res.status(500).json({ message: "Erro ao remover autenticação em dois fatores" });
+    }
+  });
+
+  app.put(`${apiPrefix}/admin/users/:id/status`, requirePermission("Gerenciamento de usuários"), async (req, res) => {
     try {
       const userId = parseInt(req.params.id);
       const { isActive } = req.body;
@@ -1803,8 +2910,296 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Convites de cadastro
+  // Endereço dos links enviados por email (convites e redefinição de senha). Vem só de APP_URL:
+  // o cabeçalho Host é controlado pelo cliente e mandaria o token para outro domínio
+  const getBaseUrl = (): string | null => {
+    const appUrl = process.env.APP_URL?.trim();
+    if (!appUrl) return null;
+    try {
+      const url = new URL(appUrl);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+      return `${url.origin}${url.pathname.replace(/\/$/, '')}`;
+    } catch {
+      return null;
+    }
+  };
+  const missingBaseUrlMessage = "O endereço do sistema (APP_URL) não está configurado; não é possível enviar links por email";
+
+  app.get(`${apiPrefix}/invitations`, requirePermission("Gerenciamento de usuários"), async (req, res) => {
+    try {
+      const invitations = await invitationService.listInvitations();
+      res.json(invitations);
+    } catch (error) {
+      console.error("Erro ao buscar convites:", error);
+      res.status(500).json({ message: "Erro ao buscar convites" });
+    }
+  });
+
+  app.post(`${apiPrefix}/invitations`, requirePermission("Gerenciamento de usuários"), sensitiveApiLimiter, async (req, res) => {
+    try {
+      const input = invitationInputSchema.parse(req.body);
+      const baseUrl = getBaseUrl();
+      if (!baseUrl) {
+        return res.status(503).json({ message: missingBaseUrlMessage });
+      }
+      const invitation = await invitationService.createInvitation(input, req.user!.id, baseUrl);
+      res.status(201).json(invitation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof InvitationError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Erro ao criar convite:", error);
+      res.status(500).json({ message: "Erro ao criar convite" });
+    }
+  });
+
+  app.post(`${apiPrefix}/invitations/:id/resend`, requirePermission("Gerenciamento de usuários"), sensitiveApiLimiter, async (req, res) => {
+    try {
+      const baseUrl = getBaseUrl();
+      if (!baseUrl) {
+        return res.status(503).json({ message: missingBaseUrlMessage });
+      }
+      const invitation = await invitationService.resendInvitation(parseInt(req.params.id), baseUrl);
+      res.json(invitation);
+    } catch (error) {
+      if (error instanceof InvitationError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Erro ao reenviar convite:", error);
+      res.status(500).json({ message: "Erro ao reenviar convite" });
+    }
+  });
+
+  app.delete(`${apiPrefix}/invitations/:id`, requirePermission("Gerenciamento de usuários"), async (req, res) => {
+    try {
+      const invitation = await invitationService.revokeInvitation(parseInt(req.params.id));
+      res.json(invitation);
+    } catch (error) {
+      if (error instanceof InvitationError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Erro ao cancelar convite:", error);
+      res.status(500).json({ message: "Erro ao cancelar convite" });
+    }
+  });
+
+  // Rotas do convidado: o token vai no corpo para não aparecer em logs de URL
+  app.post(`${apiPrefix}/invitations/preview`, allowPublic, sensitiveApiLimiter, async (req, res) => {
+    try {
+      const preview = await invitationService.previewInvitation(String(req.body?.token ?? ''));
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof InvitationError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Erro ao consultar convite:", error);
+      res.status(500).json({ message: "Erro ao consultar convite" });
+    }
+  });
+
+  app.post(`${apiPrefix}/invitations/accept`, allowPublic, sensitiveApiLimiter, async (req, res) => {
+    try {
+      if (req.isAuthenticated()) {
+        return res.status(400).json({ message: "Saia da sua conta antes de aceitar um convite" });
+      }
+      const input = invitationAcceptSchema.parse(req.body);
+      const user = await invitationService.acceptInvitation(String(req.body?.token ?? ''), input);
+      if (!user) {
+        return res.status(500).json({ message: "Erro ao criar usuário" });
+      }
+
+      logSecurityEvent("INVITATION_ACCEPTED", { userId: user.id, email: user.email }, req);
+      // Sem login automático: a entrada passa pelo /api/login, que aplica o 2FA exigido para o papel
+      res.status(201).json({
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        role: user.role
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof InvitationError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Erro ao aceitar convite:", error);
+      res.status(500).json({ message: "Erro ao aceitar convite" });
+    }
+  });
+
+  // Esqueci minha senha: a resposta não depende de o email existir, e o envio acontece depois dela
+  app.post(`${apiPrefix}/password-reset/request`, allowPublic, passwordResetLimiter, async (req, res) => {
+    try {
+      const { email } = passwordResetRequestSchema.parse(req.body);
+      const baseUrl = getBaseUrl();
+      if (!baseUrl) {
+        return res.status(503).json({ message: missingBaseUrlMessage });
+      }
+      logSecurityEvent("PASSWORD_RESET_REQUESTED", { email }, req);
+      passwordResetService.requestReset(email, baseUrl, req.ip || null).catch(error => {
+        console.error("Erro ao enviar email de redefinição de senha:", error);
+      });
+      res.json({ message: "Se o email estiver cadastrado, você receberá um link para redefinir a senha." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Erro ao solicitar redefinição de senha:", error);
+      res.status(500).json({ message: "Erro ao solicitar redefinição de senha" });
+    }
+  });
+
+  app.post(`${apiPrefix}/password-reset/confirm`, allowPublic, passwordResetLimiter, async (req, res) => {
+    try {
+      const result = await passwordResetService.confirmReset(passwordResetConfirmSchema.parse(req.body));
+      logSecurityEvent("PASSWORD_RESET_COMPLETED", { userId: result.userId }, req);
+      res.json({ message: "Senha redefinida com sucesso. Entre com a nova senha." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof PasswordResetError) {
+        logSecurityEvent("PASSWORD_RESET_INVALID_TOKEN", {}, req);
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Erro ao redefinir senha:", error);
+      res.status(500).json({ message: "Erro ao redefinir senha" });
+    }
+  });
+
+  // Autocadastro na tela de login; a consulta é pública para a tela decidir se mostra o cadastro
+  app.get(`${apiPrefix}/registration-settings`, allowPublic, async (req, res) => {
+    try {
+      res.json({ selfRegistrationEnabled: await invitationService.isSelfRegistrationEnabled() });
+    } catch (error) {
+      console.error("Erro ao buscar configuração de cadastro:", error);
+      res.status(500).json({ message: "Erro ao buscar configuração de cadastro" });
+    }
+  });
+
+  app.put(`${apiPrefix}/registration-settings`, requirePermission("Gerenciamento de usuários"), async (req, res) => {
+    try {
+      if (typeof req.body?.selfRegistrationEnabled !== 'boolean') {
+        return res.status(400).json({ message: "selfRegistrationEnabled deve ser um valor booleano" });
+      }
+      const selfRegistrationEnabled = await invitationService.setSelfRegistrationEnabled(req.body.selfRegistrationEnabled);
+      res.json({ selfRegistrationEnabled });
+    } catch (error) {
+      console.error("Erro ao salvar configuração de cadastro:", error);
+      res.status(500).json({ message: "Erro ao salvar configuração de cadastro" });
+    }
+  });
+
+  // Lixeira - Admin Only
+  app.get(`${apiPrefix}/trash`, requirePermission("Lixeira do catálogo"), async (req, res) => {
+    try {
+      const listing = await trashService.list();
+      res.json(listing);
+    } catch (error) {
+      console.error("Erro ao listar lixeira:", error);
+      res.status(500).json({ message: "Erro ao listar lixeira" });
+    }
+  });
+
+  app.post(`${apiPrefix}/trash/:entity/:id/restore`, requirePermission("Lixeira do catálogo"), async (req, res) => {
+    try {
+      const entity = req.params.entity as TrashEntity;
+      const id = parseInt(req.params.id);
+      if (!TRASH_ENTITIES.includes(entity) || isNaN(id) || id <= 0) {
+        return res.status(400).json({ message: "Item da lixeira inválido" });
+      }
+
+      const result = await trashService.restore(entity, id);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof TrashError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Erro ao restaurar item da lixeira:", error);
+      res.status(500).json({ message: "Erro ao restaurar item da lixeira" });
+    }
+  });
+
+  app.put(`${apiPrefix}/trash/retention`, requirePermission("Lixeira do catálogo"), async (req, res) => {
+    try {
+      const retentionDays = await trashService.setRetentionDays(Number(req.body?.retentionDays));
+      res.json({ retentionDays });
+    } catch (error) {
+      if (error instanceof TrashError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Erro ao salvar retenção da lixeira:", error);
+      res.status(500).json({ message: "Erro ao salvar retenção da lixeira" });
+    }
+  });
+
+  // Auditoria - Admin Only
+  const parseAuditFilters = (query: any): AuditLogFilters => {
+    const isDate = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+    return {
+      userId: parseInt(query.userId) || undefined,
+      entity: typeof query.entity === 'string' && query.entity ? query.entity : undefined,
+      entityId: typeof query.entityId === 'string' && query.entityId ? query.entityId : undefined,
+      action: auditActions.includes(query.action) ? query.action : undefined,
+      from: isDate(query.from) ? query.from : undefined,
+      to: isDate(query.to) ? query.to : undefined
+    };
+  };
+
+  app.get(`${apiPrefix}/audit-logs`, requirePermission("Auditoria de alterações"), async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const offset = parseInt(req.query.offset as string) || 0;
+
+      const result = await storage.getAuditLogs({ ...parseAuditFilters(req.query), limit, offset });
+      res.json(result);
+    } catch (error) {
+      console.error("Erro ao listar auditoria:", error);
+      res.status(500).json({ message: "Erro ao listar auditoria" });
+    }
+  });
+
+  app.get(`${apiPrefix}/audit-logs/export`, requirePermission("Auditoria de alterações"), async (req, res) => {
+    try {
+      const { logs } = await storage.getAuditLogs({ ...parseAuditFilters(req.query), limit: 10000, offset: 0 });
+
+      // Mesmo formato do export de veículos: ponto e vírgula, campos entre aspas e BOM para o Excel
+      const formatCSVField = (value: unknown) => {
+        if (value === null || value === undefined) return '""';
+        return `"${String(value).trim().replace(/"/g, '""')}"`;
+      };
+
+      const csvHeader = '"Data/Hora";"Usuário";"Ação";"Entidade";"ID";"Método";"Caminho";"IP";"Alterações"\n';
+      const csvRows = logs.map(log => [
+        formatCSVField(log.createdAt.toISOString()),
+        formatCSVField(log.userName || (log.userId ? `#${log.userId}` : '')),
+        formatCSVField(log.action),
+        formatCSVField(log.entity),
+        formatCSVField(log.entityId),
+        formatCSVField(log.method),
+        formatCSVField(log.path),
+        formatCSVField(log.ip),
+        formatCSVField(log.changes ? JSON.stringify(log.changes) : '')
+      ].join(';')).join('\n');
+
+      const fileDate = new Date().toISOString().split('T')[0];
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="auditoria_${fileDate}.csv"`);
+      res.setHeader('Cache-Control', 'no-cache');
+      res.send('\uFEFF' + csvHeader + csvRows);
+    } catch (error) {
+      console.error("Erro ao exportar auditoria:", error);
+      res.status(500).json({ message: "Erro ao exportar auditoria" });
+    }
+  });
+
   // Backup API Routes - Admin Only
-  app.get(`${apiPrefix}/backups`, isAuthenticated, isAdmin, async (req, res) => {
+  app.get(`${apiPrefix}/backups`, requirePermission("Configurações do sistema"), async (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 50;
       const offset = parseInt(req.query.offset as string) || 0;
@@ -1817,9 +3212,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post(`${apiPrefix}/backups`, isAuthenticated, isAdmin, async (req, res) => {
+  app.post(`${apiPrefix}/backups`, requirePermission("Configurações do sistema"), async (req, res) => {
     try {
-      const { name } = req.body;
+      const { name, encrypt, passphrase } = req.body;
       
       if (!name || typeof name !== 'string' || name.trim().length === 0) {
         return res.status(400).json({ message: "Nome do backup é obrigatório" });
@@ -1830,36 +3225,72 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Usuário não autenticado" });
       }
       
-      const result = await backupService.createBackup(name.trim(), userId);
+      if (passphrase !== undefined && typeof passphrase !== 'string') {
+        return res.status(400).json({ message: "Senha do backup inválida" });
+      }
+      
+      const result = await backupService.createBackup(name.trim(), userId, 'manual', {
+        encrypt: encrypt === true,
+        passphrase
+      });
       res.status(201).json(result);
     } catch (error) {
+      if (error instanceof BackupError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error("Erro ao criar backup:", error);
       res.status(500).json({ message: "Erro ao criar backup" });
     }
   });
 
-  app.get(`${apiPrefix}/backups/:id/download`, isAuthenticated, isAdmin, async (req, res) => {
+  // Agendamento dos backups automáticos e política de retenção
+  app.get(`${apiPrefix}/backups/schedule`, requirePermission("Configurações do sistema"), async (req, res) => {
+    try {
+      const status = await backupScheduler.getStatus();
+      res.json(status);
+    } catch (error) {
+      console.error("Erro ao buscar agendamento de backup:", error);
+      res.status(500).json({ message: "Erro ao buscar agendamento de backup" });
+    }
+  });
+
+  app.put(`${apiPrefix}/backups/schedule`, requirePermission("Configurações do sistema"), async (req, res) => {
+    try {
+      const status = await backupScheduler.saveConfig(req.body);
+      res.json(status);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message, errors: error.errors });
+      }
+      if (error instanceof BackupScheduleError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Erro ao salvar agendamento de backup:", error);
+      res.status(500).json({ message: "Erro ao salvar agendamento de backup" });
+    }
+  });
+
+  app.get(`${apiPrefix}/backups/:id/download`, requirePermission("Configurações do sistema"), async (req, res) => {
     try {
       const backupId = parseInt(req.params.id);
-      const filePath = await backupService.getBackupFilePath(backupId);
+      // Arquivo local ou cópia externa (espelho/S3), transmitido sem carregar em memória
+      const backup = await backupService.openBackupStream(backupId);
       
-      if (!filePath) {
+      if (!backup) {
         return res.status(404).json({ message: "Backup não encontrado ou não disponível" });
       }
       
       // Definir headers para download
-      const fileName = filePath.split('/').pop() || 'backup.tar.gz';
+      const { stream: fileStream, fileName } = backup;
       res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
-      res.setHeader('Content-Type', 'application/gzip');
-      
-      // Stream o arquivo para o cliente
-      const fs = require('fs');
-      const fileStream = fs.createReadStream(filePath);
+      res.setHeader('Content-Type', fileName.endsWith('.enc') ? 'application/octet-stream' : 'application/gzip');
       
       fileStream.on('error', (error) => {
         console.error("Erro ao ler arquivo de backup:", error);
         if (!res.headersSent) {
           res.status(500).json({ message: "Erro ao baixar backup" });
+        } else {
+          res.destroy(error);
         }
       });
       
@@ -1870,7 +3301,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete(`${apiPrefix}/backups/:id`, isAuthenticated, isAdmin, async (req, res) => {
+  app.delete(`${apiPrefix}/backups/:id`, requirePermission("Configurações do sistema"), async (req, res) => {
     try {
       const backupId = parseInt(req.params.id);
       const success = await backupService.deleteBackup(backupId);
@@ -1886,9 +3317,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post(`${apiPrefix}/backups/validate`, isAuthenticated, isAdmin, async (req, res) => {
+  app.post(`${apiPrefix}/backups/validate`, requirePermission("Configurações do sistema"), async (req, res) => {
     try {
-      const { backupId, filePath } = req.body;
+      const { backupId, filePath, passphrase } = req.body;
       
       let targetFilePath = filePath;
       
@@ -1904,7 +3335,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "backupId ou filePath é obrigatório" });
       }
       
-      const validation = await backupService.validateBackup(targetFilePath);
+      const validation = await backupService.validateBackup(targetFilePath, typeof passphrase === 'string' ? passphrase : undefined);
       res.json(validation);
     } catch (error) {
       console.error("Erro ao validar backup:", error);
@@ -1912,40 +3343,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post(`${apiPrefix}/backups/restore`, isAuthenticated, isAdmin, async (req, res) => {
+  app.post(`${apiPrefix}/backups/restore`, requirePermission("Configurações do sistema"), async (req, res) => {
     try {
-      const { backupId, filePath, mode = 'merge', dryRun = false } = req.body;
+      const { backupId, filePath, mode, dryRun, passphrase, tables, brandIds } = backupRestoreRequestSchema.parse(req.body);
       
       let targetFilePath = filePath;
       
       // Se backupId foi fornecido, buscar o caminho do arquivo
-      if (backupId && typeof backupId === 'number') {
-        targetFilePath = await backupService.getBackupFilePath(backupId);
-        if (!targetFilePath) {
+      if (backupId) {
+        const backupFilePath = await backupService.getBackupFilePath(backupId);
+        if (!backupFilePath) {
           return res.status(404).json({ message: "Backup não encontrado ou não disponível" });
         }
+        targetFilePath = backupFilePath;
       }
       
-      if (!targetFilePath || typeof targetFilePath !== 'string') {
-        return res.status(400).json({ message: "backupId ou filePath é obrigatório" });
-      }
-      
-      if (mode !== 'merge' && mode !== 'replace') {
-        return res.status(400).json({ message: "Modo deve ser 'merge' ou 'replace'" });
+      // A restauração roda em segundo plano; o cliente acompanha por GET /backups/restore/:jobId
+      const job = backupService.startRestore(targetFilePath!, { mode, dryRun, passphrase, tables, brandIds });
+      res.status(202).json(job);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message, errors: error.errors });
       }
-      
-      const result = await backupService.restoreBackup(targetFilePath, mode, dryRun);
-      
-      if (result.success) {
-        res.json(result);
-      } else {
-        res.status(400).json(result);
+      if (error instanceof BackupError) {
+        return res.status(error.statusCode).json({ message: error.message });
       }
-    } catch (error) {
       console.error("Erro ao restaurar backup:", error);
       res.status(500).json({ message: "Erro ao restaurar backup" });
     }
   });
 
+  app.get(`${apiPrefix}/backups/restore/:jobId`, requirePermission("Configurações do sistema"), async (req, res) => {
+    const job = backupService.getRestoreJob(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ message: "Restauração não encontrada" });
+    }
+    res.json(job);
+  });
+
   return httpServer;
 }
@@ -23,6 +23,17 @@ export const loginLimiter = rateLimit({
   skipSuccessfulRequests: true, // não conta requests bem-sucedidos
 });
 
+// Rate limiting para a redefinição de senha (pedido e confirmação), nos moldes do login
+export const passwordResetLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutos
+  max: 5, // máximo 5 pedidos por IP por janela
+  message: {
+    error: "Muitas tentativas de redefinição de senha. Tente novamente em 15 minutos."
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 // Rate limiting para APIs sensíveis
 export const sensitiveApiLimiter = rateLimit({
   windowMs: 5 * 60 * 1000, // 5 minutos
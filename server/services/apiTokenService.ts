@@ -0,0 +1,149 @@
+import { createHash, randomBytes } from "crypto";
+import { db } from "@db";
+import { apiTokens, users } from "@shared/schema";
+import { and, desc, eq, isNull, lt, or } from "drizzle-orm";
+import {
+  API_TOKEN_PREFIX,
+  API_TOKEN_SCOPE_DEFINITIONS,
+  ApiTokenInput,
+  ApiTokenStatus,
+  ApiTokenSummary,
+  CreatedApiToken,
+  apiTokenInputSchema
+} from "@shared/apiTokens";
+import { findPermissionByDescription, isPermissionGranted } from "@shared/permissions";
+import * as storage from "../storage";
+
+// Erro dos tokens de API com o status HTTP que a rota deve devolver
+export class ApiTokenError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = "ApiTokenError";
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// lastUsedAt é gravado no máximo uma vez por minuto por token, e não a cada requisição
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+const MAX_ACTIVE_TOKENS_PER_USER = 20;
+
+type ApiTokenRow = typeof apiTokens.$inferSelect;
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function getStatus(token: ApiTokenRow): ApiTokenStatus {
+  if (token.revokedAt) return 'revoked';
+  if (token.expiresAt <= new Date()) return 'expired';
+  return 'active';
+}
+
+function toSummary(token: ApiTokenRow): ApiTokenSummary {
+  return {
+    id: token.id,
+    name: token.name,
+    tokenPrefix: token.tokenPrefix,
+    scopes: token.scopes,
+    status: getStatus(token),
+    expiresAt: token.expiresAt.toISOString(),
+    lastUsedAt: token.lastUsedAt?.toISOString() ?? null,
+    lastUsedIp: token.lastUsedIp,
+    createdAt: token.createdAt.toISOString()
+  };
+}
+
+/**
+ * Tokens pessoais de API. O token age em nome do usuário que o criou: cada requisição passa
+ * pela mesma verificação de permissões do papel (requirePermission) e, além dela, pelos
+ * escopos escolhidos na criação.
+ */
+export class ApiTokenService {
+
+  async listTokens(userId: number): Promise<ApiTokenSummary[]> {
+    const tokens = await db.query.apiTokens.findMany({
+      where: eq(apiTokens.userId, userId),
+      orderBy: desc(apiTokens.createdAt)
+    });
+    return tokens.map(toSummary);
+  }
+
+  async createToken(user: { id: number; role?: { name: string } }, input: ApiTokenInput): Promise<CreatedApiToken> {
+    const data = apiTokenInputSchema.parse(input);
+
+    // Só faz sentido pedir um escopo cujas permissões o papel do usuário tenha
+    const roleName = user.role?.name;
+    const customPermissions = await storage.getCustomPermissionMap();
+    for (const scope of data.scopes) {
+      const granted = API_TOKEN_SCOPE_DEFINITIONS[scope].grants.some(grant => {
+        const permission = findPermissionByDescription(grant.permission);
+        return !!roleName && !!permission && isPermissionGranted(permission, roleName, customPermissions);
+      });
+      if (!granted) {
+        throw new ApiTokenError(`O seu papel não tem acesso ao escopo "${API_TOKEN_SCOPE_DEFINITIONS[scope].label}"`, 403);
+      }
+    }
+
+    const activeTokens = (await this.listTokens(user.id)).filter(token => token.status === 'active');
+    if (activeTokens.length >= MAX_ACTIVE_TOKENS_PER_USER) {
+      throw new ApiTokenError(`Limite de ${MAX_ACTIVE_TOKENS_PER_USER} tokens ativos atingido. Revogue tokens sem uso antes de criar outro`, 409);
+    }
+
+    const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const [created] = await db.insert(apiTokens).values({
+      userId: user.id,
+      name: data.name,
+      tokenHash: hashToken(token),
+      tokenPrefix: token.slice(0, API_TOKEN_PREFIX.length + 6),
+      scopes: Array.from(new Set(data.scopes)),
+      expiresAt: new Date(Date.now() + data.expiresInDays * DAY_MS)
+    }).returning();
+
+    return { ...toSummary(created), token };
+  }
+
+  async revokeToken(userId: number, tokenId: number): Promise<ApiTokenSummary> {
+    const [revoked] = await db.update(apiTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiTokens.id, tokenId), eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)))
+      .returning();
+    if (!revoked) {
+      throw new ApiTokenError("Token não encontrado ou já revogado", 404);
+    }
+    return toSummary(revoked);
+  }
+
+  /**
+   * Confere um token recebido em Authorization: Bearer. Devolve o dono (com o papel) e os
+   * escopos, ou null para token desconhecido, revogado, expirado ou de usuário inativo.
+   */
+  async authenticate(rawToken: string, ip: string | null) {
+    if (!rawToken.startsWith(API_TOKEN_PREFIX)) return null;
+
+    const token = await db.query.apiTokens.findFirst({
+      where: eq(apiTokens.tokenHash, hashToken(rawToken))
+    });
+    if (!token || getStatus(token) !== 'active') return null;
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, token.userId),
+      with: { role: true }
+    });
+    if (!user || !user.isActive) return null;
+    if (user.lockedUntil && user.lockedUntil > new Date()) return null;
+
+    const now = new Date();
+    await db.update(apiTokens)
+      .set({ lastUsedAt: now, lastUsedIp: ip })
+      .where(and(
+        eq(apiTokens.id, token.id),
+        or(isNull(apiTokens.lastUsedAt), lt(apiTokens.lastUsedAt, new Date(now.getTime() - LAST_USED_UPDATE_INTERVAL_MS)))
+      ));
+
+    return { user, token: { id: token.id, scopes: token.scopes } };
+  }
+}
+
+export const apiTokenService = new ApiTokenService();
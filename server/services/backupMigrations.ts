@@ -0,0 +1,303 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { once } from "events";
+import { finished } from "stream/promises";
+import { BackupMigrationSummary } from "@shared/backupRestore";
+
+// Migrações de schema para restaurar backups criados em versões anteriores do sistema.
+// Cada migração leva os registros de uma versão à seguinte; versões sem migração registrada
+// não podem ser restauradas.
+
+type BackupRecord = Record<string, any>;
+
+// Registro produzido por uma transformação, com a tabela de destino
+export interface MigratedRecord {
+  table: string;
+  record: BackupRecord;
+}
+
+/**
+ * Transformação aplicada a cada registro do arquivo, em ordem. `tables` informa em quais
+ * tabelas uma tabela de origem se transforma (renomeação, divisão), o que vale também para
+ * tabelas vazias; sem ela, a tabela mantém o nome. `existing` são as tabelas do arquivo.
+ */
+export interface MigrationStep {
+  tables?(table: string, existing: string[]): string[];
+  transform(table: string, record: BackupRecord): MigratedRecord[];
+}
+
+export interface BackupMigration {
+  from: string;
+  to: string;
+  description: string;
+  steps: MigrationStep[];
+}
+
+// Partes do manifest atualizadas pela migração
+export interface MigratableManifest {
+  schemaVersion: string;
+  tableOrder: string[];
+  tableCounts: Record<string, number>;
+  checksums: Record<string, string>;
+}
+
+// Lê uma tabela do diretório extraído em lotes
+export type MigrationTableReader = (name: string) => AsyncIterable<BackupRecord[]>;
+
+export function renameColumn(table: string, from: string, to: string): MigrationStep {
+  return {
+    transform: (name, record) => {
+      if (name !== table || !(from in record)) return [{ table: name, record }];
+      const { [from]: value, ...rest } = record;
+      return [{ table: name, record: { ...rest, [to]: value } }];
+    }
+  };
+}
+
+// Nova coluna: preenche com o valor padrão (ou calculado a partir do registro) quando ausente
+export function addColumn(table: string, column: string, defaultValue: unknown | ((record: BackupRecord) => unknown)): MigrationStep {
+  return {
+    transform: (name, record) => {
+      if (name !== table || column in record) return [{ table: name, record }];
+      const value = typeof defaultValue === 'function' ? defaultValue(record) : defaultValue;
+      return [{ table: name, record: { ...record, [column]: value } }];
+    }
+  };
+}
+
+export function dropColumn(table: string, column: string): MigrationStep {
+  return {
+    transform: (name, record) => {
+      if (name !== table) return [{ table: name, record }];
+      const { [column]: _removed, ...rest } = record;
+      return [{ table: name, record: rest }];
+    }
+  };
+}
+
+export function renameTable(from: string, to: string): MigrationStep {
+  return {
+    tables: name => [name === from ? to : name],
+    transform: (name, record) => [{ table: name === from ? to : name, record }]
+  };
+}
+
+// Nova tabela: entra vazia logo depois de `after` na ordem de restauração (foreign keys),
+// a menos que o arquivo já a tenha (tabela criada antes da mudança de versão do schema)
+export function addTable(table: string, after: string): MigrationStep {
+  return {
+    tables: (name, existing) => name === after && !existing.includes(table) ? [after, table] : [name],
+    transform: (name, record) => [{ table: name, record }]
+  };
+}
+
+/**
+ * Divide uma tabela em duas: `split` devolve o que permanece na tabela original (null para
+ * descartar o registro) e os registros da nova tabela, que entra logo depois da original
+ * na ordem de restauração.
+ */
+export function splitTable(
+  table: string,
+  into: string,
+  split: (record: BackupRecord) => { keep: BackupRecord | null; extracted: BackupRecord[] }
+): MigrationStep {
+  return {
+    tables: name => name === table ? [table, into] : [name],
+    transform: (name, record) => {
+      if (name !== table) return [{ table: name, record }];
+      const { keep, extracted } = split(record);
+      return [
+        ...(keep ? [{ table, record: keep }] : []),
+        ...extracted.map(item => ({ table: into, record: item }))
+      ];
+    }
+  };
+}
+
+// Tabelas do catálogo que passaram a ter lixeira (exclusão lógica)
+const SOFT_DELETE_TABLES = ['brands', 'models', 'versions', 'colors', 'version_colors', 'version_optionals', 'vehicles'];
+
+// Migrações em ordem; a última `to` deve ser a SCHEMA_VERSION atual do backupService
+export const BACKUP_MIGRATIONS: BackupMigration[] = [
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    description: 'Orçamentos, histórico de preços e lixeira do catálogo: tabelas quotes e vehicle_prices (quando ausentes) e coluna deletedAt (registros ativos)',
+    steps: [
+      // Backups 1.0.0 gerados depois dos orçamentos ou do histórico de preços já trazem essas tabelas
+      addTable('quotes', 'vehicles'),
+      addTable('vehicle_prices', 'quotes'),
+      ...SOFT_DELETE_TABLES.map(table => addColumn(table, 'deletedAt', null))
+    ]
+  },
+  {
+    from: '1.1.0',
+    to: '1.2.0',
+    description: 'Cadastro de clientes: tabela customers (sem clientes) e coluna customerId nos orçamentos (sem cliente)',
+    steps: [
+      addTable('customers', 'optionals'),
+      addColumn('quotes', 'customerId', null)
+    ]
+  },
+  {
+    from: '1.2.0',
+    to: '1.3.0',
+    description: 'Regras de impostos: coluna exemptionPricesOverride nos veículos (preços calculados)',
+    steps: [addColumn('vehicles', 'exemptionPricesOverride', false)]
+  },
+  {
+    from: '1.3.0',
+    to: '1.4.0',
+    description: 'Preços regionais: tabelas state_price_adjustments e freight_rates (sem ajustes nem fretes), UF de venda dos usuários e UF, ajuste regional e frete nos orçamentos',
+    steps: [
+      addTable('state_price_adjustments', 'settings'),
+      addTable('freight_rates', 'direct_sales'),
+      addColumn('users', 'state', null),
+      addColumn('quotes', 'state', null),
+      addColumn('quotes', 'regionalAdjustmentAmount', '0.00'),
+      addColumn('quotes', 'freightAmount', '0.00')
+    ]
+  },
+  {
+    from: '1.4.0',
+    to: '1.5.0',
+    description: 'Estoque: tabela stock_units (sem unidades)',
+    steps: [addTable('stock_units', 'vehicles')]
+  },
+  {
+    from: '1.5.0',
+    to: '1.6.0',
+    description: 'Reservas: tabelas vehicle_availability e vehicle_reservations (sem quantidades nem reservas)',
+    steps: [
+      addTable('vehicle_availability', 'stock_units'),
+      addTable('vehicle_reservations', 'vehicle_availability')
+    ]
+  }
+];
+
+interface MigrationOutput {
+  filePath: string;
+  stream: fs.WriteStream;
+  hash: crypto.Hash;
+  count: number;
+}
+
+export class BackupMigrator {
+  constructor(private migrations: BackupMigration[] = BACKUP_MIGRATIONS) {}
+
+  // Cadeia de migrações entre as versões; null quando não há caminho
+  findPath(fromVersion: string, toVersion: string): BackupMigration[] | null {
+    const chain: BackupMigration[] = [];
+    let version = fromVersion;
+    while (version !== toVersion) {
+      const next = this.migrations.find(migration => migration.from === version);
+      if (!next || chain.length >= this.migrations.length) return null;
+      chain.push(next);
+      version = next.to;
+    }
+    return chain;
+  }
+
+  /**
+   * Aplica as migrações ao diretório extraído, reescrevendo os .jsonl em streaming e
+   * atualizando o manifest (ordem das tabelas, contagens, checksums e versão).
+   * Os checksums originais devem ter sido conferidos antes.
+   */
+  async migrate(
+    dir: string,
+    manifest: MigratableManifest,
+    chain: BackupMigration[],
+    readTable: MigrationTableReader
+  ): Promise<BackupMigrationSummary[]> {
+    const applied: BackupMigrationSummary[] = [];
+    for (const migration of chain) {
+      try {
+        await this.applyMigration(dir, manifest, migration, readTable);
+      } catch (error) {
+        throw new Error(`Erro na migração ${migration.from} → ${migration.to}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      applied.push({ from: migration.from, to: migration.to, description: migration.description });
+    }
+    return applied;
+  }
+
+  private async applyMigration(
+    dir: string,
+    manifest: MigratableManifest,
+    migration: BackupMigration,
+    readTable: MigrationTableReader
+  ): Promise<void> {
+    const outputs = new Map<string, MigrationOutput>();
+    const tableOrder: string[] = [];
+
+    try {
+      for (const source of manifest.tableOrder) {
+        const targets = migration.steps.reduce(
+          (names, step) => names.flatMap(name => step.tables ? step.tables(name, manifest.tableOrder) : [name]),
+          [source]
+        );
+        for (const target of targets) {
+          if (outputs.has(target)) {
+            throw new Error(`Tabela ${target} gerada por mais de uma tabela do backup`);
+          }
+          const filePath = path.join(dir, `${target}.jsonl.migrating`);
+          outputs.set(target, { filePath, stream: fs.createWriteStream(filePath), hash: crypto.createHash('sha256'), count: 0 });
+          tableOrder.push(target);
+        }
+
+        for await (const batch of readTable(source)) {
+          for (const record of batch) {
+            let results: MigratedRecord[] = [{ table: source, record }];
+            for (const step of migration.steps) {
+              results = results.flatMap(result => step.transform(result.table, result.record));
+            }
+
+            for (const result of results) {
+              const output = targets.includes(result.table) ? outputs.get(result.table) : undefined;
+              if (!output) {
+                throw new Error(`Registro de ${source} gerado para a tabela não declarada ${result.table}`);
+              }
+              const line = JSON.stringify(result.record) + '\n';
+              output.hash.update(line);
+              output.count++;
+              if (!output.stream.write(line)) {
+                await once(output.stream, 'drain');
+              }
+            }
+          }
+        }
+      }
+
+      for (const output of Array.from(outputs.values())) {
+        output.stream.end();
+        await finished(output.stream);
+      }
+    } catch (error) {
+      for (const output of Array.from(outputs.values())) {
+        output.stream.destroy();
+        fs.rmSync(output.filePath, { force: true });
+      }
+      throw error;
+    }
+
+    // Substituir os arquivos só depois de todas as tabelas migradas
+    for (const source of manifest.tableOrder) {
+      fs.rmSync(path.join(dir, `${source}.jsonl`), { force: true });
+    }
+    const tableCounts: Record<string, number> = {};
+    const checksums: Record<string, string> = {};
+    outputs.forEach((output, table) => {
+      fs.renameSync(output.filePath, path.join(dir, `${table}.jsonl`));
+      tableCounts[table] = output.count;
+      checksums[table] = output.hash.digest('hex');
+    });
+
+    manifest.schemaVersion = migration.to;
+    manifest.tableOrder = tableOrder;
+    manifest.tableCounts = tableCounts;
+    manifest.checksums = checksums;
+  }
+}
+
+export const backupMigrator = new BackupMigrator();
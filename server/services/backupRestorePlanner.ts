@@ -0,0 +1,300 @@
+import { getTableColumns, inArray } from "drizzle-orm";
+import { getTableConfig, PgTable } from "drizzle-orm/pg-core";
+import {
+  RestorePreview,
+  RestoreRecordAction,
+  RestoreTablePreview
+} from "@shared/backupRestore";
+
+export interface RestoreTableInfo {
+  name: string;
+  table: any;
+}
+
+type BackupRecord = Record<string, any>;
+
+export interface RestorePlanOptions {
+  mode: 'merge' | 'replace';
+  // Todas as tabelas conhecidas pelo backup, para resolver chaves estrangeiras
+  allTables: RestoreTableInfo[];
+  brandIds?: number[];
+  // Mapas de marca montados com buildBrandMaps (obrigatórios quando há brandIds)
+  brandMaps?: BrandMaps;
+}
+
+// Lê uma tabela do arquivo em lotes
+export type RestoreTableReader = (name: string) => AsyncIterable<BackupRecord[]>;
+
+// Registros listados por tabela na pré-visualização; os demais só entram nos totais
+const PREVIEW_RECORD_LIMIT = 200;
+const LOOKUP_BATCH_SIZE = 1000;
+const SENSITIVE_KEY = /password|token|secret/i;
+
+export interface BrandMaps {
+  modelBrand: Map<number, number>;
+  versionBrand: Map<number, number>;
+  vehicleBrand: Map<number, number>;
+}
+
+// Como chegar à marca de cada registro das tabelas ligadas ao catálogo
+const BRAND_SCOPE: Record<string, (record: BackupRecord, maps: BrandMaps) => number | null | undefined> = {
+  brands: record => record.id,
+  models: record => record.brandId,
+  versions: (record, maps) => maps.modelBrand.get(record.modelId),
+  version_colors: (record, maps) => maps.versionBrand.get(record.versionId),
+  version_optionals: (record, maps) => maps.versionBrand.get(record.versionId),
+  vehicles: (record, maps) => maps.versionBrand.get(record.versionId),
+  quotes: (record, maps) => maps.versionBrand.get(record.versionId),
+  direct_sales: record => record.brandId,
+  vehicle_prices: (record, maps) => maps.vehicleBrand.get(record.vehicleId)
+};
+
+function emptyTotals(): Record<RestoreRecordAction, number> {
+  return { insert: 0, update: 0, unchanged: 0, conflict: 0 };
+}
+
+// Valores do arquivo vêm do JSON; os do banco trazem Date
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  return value ?? null;
+}
+
+function diffRecords(live: BackupRecord, incoming: BackupRecord): Record<string, { from: unknown; to: unknown }> {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  for (const key of Object.keys(incoming)) {
+    const from = normalize(live[key]);
+    const to = normalize(incoming[key]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = SENSITIVE_KEY.test(key) ? { from: '[REMOVIDO]', to: '[REMOVIDO]' } : { from, to };
+    }
+  }
+  return changes;
+}
+
+function recordLabel(record: BackupRecord): string {
+  const label = record.name ?? record.key ?? record.username ?? record.description;
+  return label ? `#${record.id} ${label}` : `#${record.id}`;
+}
+
+async function selectByValues(tx: any, table: any, key: string, values: unknown[]): Promise<BackupRecord[]> {
+  const rows: BackupRecord[] = [];
+  for (let i = 0; i < values.length; i += LOOKUP_BATCH_SIZE) {
+    const batch = values.slice(i, i + LOOKUP_BATCH_SIZE);
+    rows.push(...await tx.select().from(table).where(inArray(table[key], batch)));
+  }
+  return rows;
+}
+
+/**
+ * Compara, lote a lote, os registros do backup com o banco (via tx, enxergando o que a própria
+ * restauração já gravou) e classifica cada um como inserção, atualização, sem alteração ou conflito.
+ * Conflitos: valor único já usado por outro registro ou referência a registro inexistente.
+ * As tabelas devem ser processadas na ordem do manifest e cada lote gravado antes do seguinte,
+ * para que as referências a registros restaurados sejam encontradas no banco.
+ * Memória retida: totais e até PREVIEW_RECORD_LIMIT registros de prévia por tabela.
+ */
+export class RestorePlanSession {
+  private tables: RestoreTablePreview[] = [];
+  private totals = emptyTotals();
+  private current: {
+    preview: RestoreTablePreview;
+    table: any;
+    uniqueKeys: string[];
+    foreignKeys: Array<{ key: string; targetTable: string }>;
+  } | null = null;
+  private brandIds: Set<number> | null;
+
+  constructor(private tx: any, private options: RestorePlanOptions) {
+    this.brandIds = options.brandIds && options.brandIds.length > 0 ? new Set(options.brandIds) : null;
+    if (this.brandIds && !options.brandMaps) {
+      throw new Error('Mapas de marca são obrigatórios para filtrar por marca');
+    }
+  }
+
+  beginTable(name: string, table: any): void {
+    const { uniqueKeys, foreignKeys } = describeTable(table, this.options.allTables);
+    const preview: RestoreTablePreview = {
+      table: name,
+      totals: emptyTotals(),
+      filteredOut: 0,
+      brandFilterApplied: !!this.brandIds && !!BRAND_SCOPE[name],
+      records: [],
+      truncated: false
+    };
+    this.tables.push(preview);
+    this.current = { preview, table, uniqueKeys, foreignKeys };
+  }
+
+  // Classifica o lote e devolve os registros a gravar (inserções e atualizações)
+  async planBatch(batch: BackupRecord[]): Promise<BackupRecord[]> {
+    if (!this.current) throw new Error('beginTable deve ser chamado antes de planBatch');
+    const { preview, table, uniqueKeys, foreignKeys } = this.current;
+    const { tx } = this;
+
+    const scope = BRAND_SCOPE[preview.table];
+    const records = preview.brandFilterApplied
+      ? batch.filter(record => {
+          const brandId = scope(record, this.options.brandMaps!);
+          return brandId !== null && brandId !== undefined && this.brandIds!.has(brandId);
+        })
+      : batch;
+    preview.filteredOut += batch.length - records.length;
+
+    const liveById = new Map<number, BackupRecord>();
+    for (const row of await selectByValues(tx, table, 'id', records.map(record => record.id))) {
+      liveById.set(row.id, row);
+    }
+
+    // Donos atuais de cada valor único
+    const uniqueOwners = new Map<string, Map<string, number>>();
+    for (const key of uniqueKeys) {
+      const values = Array.from(new Set(records.map(record => record[key]).filter(value => value != null)));
+      const owners = new Map<string, number>();
+      for (const row of await selectByValues(tx, table, key, values)) {
+        owners.set(String(row[key]), row.id);
+      }
+      uniqueOwners.set(key, owners);
+    }
+
+    // Referências existentes no banco, incluindo as já gravadas por esta restauração
+    const existingRefs = new Map<string, Set<number>>();
+    for (const { key, targetTable } of foreignKeys) {
+      const target = this.options.allTables.find(info => info.name === targetTable)!;
+      const ids = Array.from(new Set(records.map(record => record[key]).filter(value => value != null)));
+      const rows = await selectByValues(tx, target.table, 'id', ids);
+      existingRefs.set(key, new Set(rows.map(row => row.id)));
+    }
+
+    const toApply: BackupRecord[] = [];
+
+    for (const record of records) {
+      const conflicts: string[] = [];
+
+      for (const key of uniqueKeys) {
+        const owner = record[key] != null ? uniqueOwners.get(key)!.get(String(record[key])) : undefined;
+        if (owner !== undefined && owner !== record.id) {
+          conflicts.push(`${key} "${record[key]}" já pertence ao registro #${owner}`);
+        }
+      }
+
+      for (const { key, targetTable } of foreignKeys) {
+        const refId = record[key];
+        if (refId == null) continue;
+        if (!existingRefs.get(key)!.has(refId)) {
+          conflicts.push(`${key} aponta para ${targetTable} #${refId}, que não existe no banco nem na restauração`);
+        }
+      }
+
+      const live = liveById.get(record.id);
+      let action: RestoreRecordAction;
+      let changes: Record<string, { from: unknown; to: unknown }> | undefined;
+      if (conflicts.length > 0) {
+        action = 'conflict';
+      } else if (!live) {
+        action = 'insert';
+      } else {
+        changes = diffRecords(live, record);
+        action = Object.keys(changes).length > 0 ? 'update' : 'unchanged';
+      }
+
+      preview.totals[action]++;
+      this.totals[action]++;
+      if (action === 'insert' || action === 'update') {
+        toApply.push(record);
+      }
+      if (action !== 'unchanged') {
+        if (preview.records.length < PREVIEW_RECORD_LIMIT) {
+          preview.records.push({
+            id: record.id,
+            action,
+            label: recordLabel(record),
+            ...(changes ? { changes } : {}),
+            ...(conflicts.length > 0 ? { conflicts } : {})
+          });
+        } else {
+          preview.truncated = true;
+        }
+      }
+    }
+
+    return toApply;
+  }
+
+  getPreview(): RestorePreview {
+    return { mode: this.options.mode, tables: this.tables, totals: this.totals };
+  }
+}
+
+// Colunas únicas e chaves estrangeiras da tabela, pelos nomes das propriedades dos registros
+function describeTable(table: PgTable, allTables: RestoreTableInfo[]) {
+  const columns = Object.entries(getTableColumns(table));
+  const keyOf = (dbName: string) => columns.find(([, column]) => column.name === dbName)?.[0];
+
+  const uniqueKeys = columns
+    .filter(([key, column]) => column.isUnique && key !== 'id')
+    .map(([key]) => key);
+
+  const foreignKeys = getTableConfig(table).foreignKeys.flatMap(fk => {
+    const reference = fk.reference();
+    const target = allTables.find(info => info.table === reference.foreignTable);
+    const key = reference.columns.length === 1 ? keyOf(reference.columns[0].name) : undefined;
+    return target && key ? [{ key, targetTable: target.name }] : [];
+  });
+
+  return { uniqueKeys, foreignKeys };
+}
+
+export class BackupRestorePlanner {
+
+  /**
+   * No modo replace as tabelas limpas não podem ser referenciadas por tabelas fora da seleção:
+   * a limpeza falharia na chave estrangeira ou, com ON DELETE CASCADE, apagaria os registros
+   * dessas tabelas sem restaurá-los. Devolve a mensagem de erro, ou null se a seleção é válida.
+   */
+  checkReplaceSelection(selected: string[], cleared: string[], allTables: RestoreTableInfo[]): string | null {
+    const problems = cleared.flatMap(name => {
+      const target = allTables.find(info => info.name === name);
+      if (!target) return [];
+      const dependents = allTables
+        .filter(info => !selected.includes(info.name))
+        .filter(info => getTableConfig(info.table).foreignKeys.some(fk => fk.reference().foreignTable === target.table))
+        .map(info => info.name);
+      return dependents.length > 0 ? [`para substituir ${name}, selecione também ${dependents.join(', ')}`] : [];
+    });
+    return problems.length > 0
+      ? `Seleção incompleta para o modo replace: ${problems.join('; ')}`
+      : null;
+  }
+
+  // Marca de cada modelo, versão e veículo do arquivo (apenas pares de ids ficam em memória)
+  async buildBrandMaps(readTable: RestoreTableReader): Promise<BrandMaps> {
+    const modelBrand = new Map<number, number>();
+    for await (const batch of readTable('models')) {
+      for (const model of batch) modelBrand.set(model.id, model.brandId);
+    }
+
+    const versionBrand = new Map<number, number>();
+    for await (const batch of readTable('versions')) {
+      for (const version of batch) {
+        const brandId = modelBrand.get(version.modelId);
+        if (brandId !== undefined) versionBrand.set(version.id, brandId);
+      }
+    }
+
+    const vehicleBrand = new Map<number, number>();
+    for await (const batch of readTable('vehicles')) {
+      for (const vehicle of batch) {
+        const brandId = versionBrand.get(vehicle.versionId);
+        if (brandId !== undefined) vehicleBrand.set(vehicle.id, brandId);
+      }
+    }
+
+    return { modelBrand, versionBrand, vehicleBrand };
+  }
+
+  createSession(tx: any, options: RestorePlanOptions): RestorePlanSession {
+    return new RestorePlanSession(tx, options);
+  }
+}
+
+export const backupRestorePlanner = new BackupRestorePlanner();
@@ -0,0 +1,342 @@
+import { db } from "@db";
+import { backups, settings } from "@shared/schema";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import {
+  BACKUP_SCHEDULE_SETTING_KEYS,
+  BackupScheduleConfig,
+  BackupScheduleStatus,
+  DEFAULT_BACKUP_SCHEDULE,
+  backupScheduleConfigSchema
+} from "@shared/backupSchedule";
+import { backupService } from "./backupService";
+
+// Erro de agendamento com o status HTTP que a rota deve devolver
+export class BackupScheduleError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = "BackupScheduleError";
+  }
+}
+
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // No cron, quando dia do mês e dia da semana são restritos, basta um dos dois casar
+  restrictedDayOfMonth: boolean;
+  restrictedDayOfWeek: boolean;
+}
+
+const CRON_ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *'
+};
+
+const CRON_FIELDS = [
+  { name: 'minuto', min: 0, max: 59 },
+  { name: 'hora', min: 0, max: 23 },
+  { name: 'dia do mês', min: 1, max: 31 },
+  { name: 'mês', min: 1, max: 12 },
+  { name: 'dia da semana', min: 0, max: 7 }
+];
+
+function parseCronField(field: string, { name, min, max }: typeof CRON_FIELDS[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new BackupScheduleError(`Valor inválido para ${name}: "${part}"`);
+    }
+
+    const [, range, stepText] = match;
+    const step = stepText ? parseInt(stepText) : 1;
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [from, to] = range.split('-').map(Number);
+      start = from;
+      // "5/15" equivale a "5-max/15"
+      end = to ?? (stepText ? max : from);
+    }
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new BackupScheduleError(`Intervalo inválido para ${name}: "${part}" (permitido de ${min} a ${max})`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCronExpression(expression: string): CronSchedule {
+  const normalized = CRON_ALIASES[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new BackupScheduleError("A expressão deve ter 5 campos: minuto hora dia-do-mês mês dia-da-semana");
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseCronField(field, CRON_FIELDS[index]));
+  // Domingo pode ser 0 ou 7
+  if (daysOfWeek.has(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    restrictedDayOfMonth: fields[2] !== '*',
+    restrictedDayOfWeek: fields[4] !== '*'
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.restrictedDayOfMonth && schedule.restrictedDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+export function matchesCron(schedule: CronSchedule, date: Date): boolean {
+  return schedule.minutes.has(date.getMinutes()) &&
+    schedule.hours.has(date.getHours()) &&
+    schedule.months.has(date.getMonth() + 1) &&
+    matchesDay(schedule, date);
+}
+
+// Próximo horário (no fuso do servidor) que casa com o agendamento, a partir do minuto seguinte
+export function getNextCronRun(schedule: CronSchedule, from: Date = new Date()): Date | null {
+  const next = new Date(from);
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+
+  // Avança pulando meses, dias e horas que não casam; o limite cobre expressões impossíveis (ex.: 31/02)
+  for (let attempts = 0; attempts < 100000; attempts++) {
+    if (!schedule.months.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, next)) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(next.getMinutes())) {
+      next.setMinutes(next.getMinutes() + 1, 0, 0);
+    } else {
+      return next;
+    }
+  }
+  return null;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function dayKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Semanas começam na segunda-feira
+function weekKey(date: Date): string {
+  const monday = new Date(date);
+  monday.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return dayKey(monday);
+}
+
+function monthKey(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+}
+
+export class BackupScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private lastTriggeredMinute: string | null = null;
+
+  // Verifica o agendamento a cada minuto
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.tick().catch(error => {
+        console.error("[BACKUP SCHEDULE] Erro ao verificar agendamento:", error);
+      });
+    }, 60 * 1000);
+  }
+
+  async getConfig(): Promise<BackupScheduleConfig> {
+    const rows = await db.select().from(settings)
+      .where(inArray(settings.key, Object.values(BACKUP_SCHEDULE_SETTING_KEYS)));
+    const valueOf = (key: string) => rows.find(row => row.key === key)?.value;
+    const numberOf = (key: string, fallback: number) => {
+      const value = parseInt(valueOf(key) ?? '');
+      return isNaN(value) ? fallback : value;
+    };
+
+    return {
+      enabled: valueOf(BACKUP_SCHEDULE_SETTING_KEYS.enabled) === 'true',
+      cron: valueOf(BACKUP_SCHEDULE_SETTING_KEYS.cron) || DEFAULT_BACKUP_SCHEDULE.cron,
+      keepDaily: numberOf(BACKUP_SCHEDULE_SETTING_KEYS.keepDaily, DEFAULT_BACKUP_SCHEDULE.keepDaily),
+      keepWeekly: numberOf(BACKUP_SCHEDULE_SETTING_KEYS.keepWeekly, DEFAULT_BACKUP_SCHEDULE.keepWeekly),
+      keepMonthly: numberOf(BACKUP_SCHEDULE_SETTING_KEYS.keepMonthly, DEFAULT_BACKUP_SCHEDULE.keepMonthly)
+    };
+  }
+
+  async saveConfig(input: unknown): Promise<BackupScheduleStatus> {
+    const config = backupScheduleConfigSchema.parse(input);
+    // Rejeita expressões inválidas (ou que nunca executam, como 31/02) antes de gravar
+    if (!getNextCronRun(parseCronExpression(config.cron))) {
+      throw new BackupScheduleError("O agendamento informado nunca será executado");
+    }
+
+    const entries = [
+      { key: BACKUP_SCHEDULE_SETTING_KEYS.enabled, value: String(config.enabled), label: 'Backup automático ativo', type: 'boolean' },
+      { key: BACKUP_SCHEDULE_SETTING_KEYS.cron, value: config.cron, label: 'Agendamento do backup automático (cron)', type: 'text' },
+      { key: BACKUP_SCHEDULE_SETTING_KEYS.keepDaily, value: String(config.keepDaily), label: 'Backups diários mantidos', type: 'number' },
+      { key: BACKUP_SCHEDULE_SETTING_KEYS.keepWeekly, value: String(config.keepWeekly), label: 'Backups semanais mantidos', type: 'number' },
+      { key: BACKUP_SCHEDULE_SETTING_KEYS.keepMonthly, value: String(config.keepMonthly), label: 'Backups mensais mantidos', type: 'number' }
+    ];
+    for (const entry of entries) {
+      await db.insert(settings)
+        .values(entry)
+        .onConflictDoUpdate({
+          target: settings.key,
+          set: { value: entry.value, updatedAt: new Date() }
+        });
+    }
+
+    return this.getStatus();
+  }
+
+  async getStatus(): Promise<BackupScheduleStatus> {
+    const config = await this.getConfig();
+
+    let nextRunAt: string | null = null;
+    if (config.enabled) {
+      try {
+        nextRunAt = getNextCronRun(parseCronExpression(config.cron))?.toISOString() ?? null;
+      } catch {
+        // Expressão gravada fora desta tela e inválida: sem próxima execução
+      }
+    }
+
+    const [lastRun] = await db.select({
+      id: backups.id,
+      status: backups.status,
+      createdAt: backups.createdAt,
+      errorMessage: backups.errorMessage
+    })
+      .from(backups)
+      .where(eq(backups.trigger, 'scheduled'))
+      .orderBy(desc(backups.createdAt))
+      .limit(1);
+
+    return {
+      ...config,
+      encrypted: backupService.hasEnvEncryptionKey(),
+      nextRunAt,
+      lastRun: lastRun ? { ...lastRun, createdAt: lastRun.createdAt.toISOString() } : null
+    };
+  }
+
+  /**
+   * Executa um backup automático e aplica a política de retenção.
+   * Falhas ficam registradas no próprio backup (status 'failed' e mensagem de erro).
+   */
+  async runScheduledBackup(): Promise<void> {
+    if (this.running) {
+      console.warn("[BACKUP SCHEDULE] Backup automático anterior ainda em execução; execução ignorada");
+      return;
+    }
+
+    this.running = true;
+    try {
+      const now = new Date();
+      const name = `Backup automático ${dayKey(now)} ${pad(now.getHours())}:${pad(now.getMinutes())}`;
+      // Sem administrador para informar senha: criptografa com a chave do ambiente, quando configurada
+      const { fileName } = await backupService.createBackup(name, null, 'scheduled', {
+        encrypt: backupService.hasEnvEncryptionKey()
+      });
+      console.log(`[BACKUP SCHEDULE] Backup automático criado: ${fileName}`);
+    } catch (error) {
+      console.error("[BACKUP SCHEDULE] Falha no backup automático:", error);
+    } finally {
+      try {
+        const pruned = await this.applyRetention(await this.getConfig());
+        if (pruned.length > 0) {
+          console.log(`[BACKUP SCHEDULE] ${pruned.length} backup(s) automático(s) removido(s) pela política de retenção`);
+        }
+      } catch (error) {
+        console.error("[BACKUP SCHEDULE] Erro ao aplicar retenção:", error);
+      }
+      this.running = false;
+    }
+  }
+
+  /**
+   * Mantém o backup automático mais recente de cada um dos últimos N dias, semanas e meses
+   * e remove os demais com deleteBackup. Backups manuais nunca são removidos.
+   */
+  async applyRetention(config: BackupScheduleConfig): Promise<number[]> {
+    const completed = await db.select({ id: backups.id, createdAt: backups.createdAt })
+      .from(backups)
+      .where(and(eq(backups.trigger, 'scheduled'), eq(backups.status, 'completed')))
+      .orderBy(desc(backups.createdAt));
+
+    const keep = new Set<number>();
+    const buckets: Array<{ limit: number; key: (date: Date) => string }> = [
+      { limit: config.keepDaily, key: dayKey },
+      { limit: config.keepWeekly, key: weekKey },
+      { limit: config.keepMonthly, key: monthKey }
+    ];
+    for (const bucket of buckets) {
+      const seen = new Set<string>();
+      for (const backup of completed) {
+        const key = bucket.key(backup.createdAt);
+        if (seen.has(key)) continue;
+        if (seen.size >= bucket.limit) break;
+        seen.add(key);
+        keep.add(backup.id);
+      }
+    }
+
+    const pruned: number[] = [];
+    for (const backup of completed) {
+      if (keep.has(backup.id)) continue;
+      await backupService.deleteBackup(backup.id);
+      pruned.push(backup.id);
+    }
+    return pruned;
+  }
+
+  private async tick(): Promise<void> {
+    const now = new Date();
+    const minute = `${dayKey(now)} ${pad(now.getHours())}:${pad(now.getMinutes())}`;
+    if (minute === this.lastTriggeredMinute) return;
+
+    const config = await this.getConfig();
+    if (!config.enabled) return;
+
+    let schedule: CronSchedule;
+    try {
+      schedule = parseCronExpression(config.cron);
+    } catch (error) {
+      console.error(`[BACKUP SCHEDULE] Expressão de agendamento inválida "${config.cron}":`, error instanceof Error ? error.message : error);
+      return;
+    }
+    if (!matchesCron(schedule, now)) return;
+
+    this.lastTriggeredMinute = minute;
+    await this.runScheduledBackup();
+  }
+}
+
+export const backupScheduler = new BackupScheduler();
@@ -0,0 +1,127 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { db } from "@db";
+import { users, vehicleReservations } from "@shared/schema";
+import { backupService, reviveRecord } from "./backupService";
+import { backupMigrator, MigratableManifest } from "./backupMigrations";
+
+// O db só monta o SQL nestes testes; nenhuma conexão é aberta (o script de teste define
+// um DATABASE_URL fictício)
+
+// Registro como gravado no .jsonl do backup e lido de volta na restauração
+const roundTrip = <T>(row: T): Record<string, any> => JSON.parse(JSON.stringify(row));
+
+test("reserva restaurada volta com todos os timestamps como Date", () => {
+  const reservation: typeof vehicleReservations.$inferSelect = {
+    id: 7,
+    vehicleId: 1,
+    versionColorId: 2,
+    customerId: 3,
+    customerName: "Cliente Teste",
+    customerDocument: "52998224725",
+    userId: 1,
+    status: "released",
+    expiresAt: new Date("2026-01-03T10:00:00.000Z"),
+    releasedAt: new Date("2026-01-02T15:30:00.000Z"),
+    releasedBy: 1,
+    releaseReason: null,
+    notes: null,
+    createdAt: new Date("2026-01-01T10:00:00.000Z")
+  };
+
+  const revived = reviveRecord(vehicleReservations, roundTrip(reservation));
+  assert.deepEqual(revived, reservation);
+
+  // O driver grava timestamps com toISOString: uma string no lugar do Date derrubaria o INSERT
+  const query = db.insert(vehicleReservations).values(revived as typeof reservation).toSQL();
+  assert.ok(query.params.includes(reservation.expiresAt.toISOString()));
+  assert.ok(query.params.includes(reservation.releasedAt!.toISOString()));
+});
+
+test("bloqueio de conta do usuário é restaurado como Date", () => {
+  const revived = reviveRecord(users, roundTrip({
+    id: 1,
+    lockedUntil: new Date("2026-01-01T10:05:00.000Z"),
+    lastFailedLoginAt: new Date("2026-01-01T10:00:00.000Z"),
+    lastLogin: null
+  }));
+
+  assert.ok(revived.lockedUntil instanceof Date);
+  assert.ok(revived.lastFailedLoginAt instanceof Date);
+  assert.equal(revived.lastLogin, null);
+});
+
+// Backup com um registro em cada tabela migrado até a versão atual; devolve o manifest migrado
+const migrateBackup = async (fromVersion: string, tableOrder: string[]) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "backup-migration-"));
+  try {
+    for (const table of tableOrder) {
+      fs.writeFileSync(path.join(dir, `${table}.jsonl`), JSON.stringify({ id: 1 }) + "\n");
+    }
+    const manifest: MigratableManifest = { schemaVersion: fromVersion, tableOrder, tableCounts: {}, checksums: {} };
+    const readTable = async function* (name: string) {
+      const lines = fs.readFileSync(path.join(dir, `${name}.jsonl`), "utf8").split("\n").filter(line => line.trim());
+      yield lines.map(line => JSON.parse(line));
+    };
+
+    const chain = backupMigrator.findPath(fromVersion, "1.6.0");
+    assert.ok(chain);
+    await backupMigrator.migrate(dir, manifest, chain, readTable);
+    return manifest;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+};
+
+test("backup 1.4.0 ganha as tabelas de estoque e reservas, vazias e na ordem das foreign keys", async () => {
+  const manifest = await migrateBackup("1.4.0", ["users", "version_colors", "vehicles", "quotes"]);
+
+  assert.equal(manifest.schemaVersion, "1.6.0");
+  assert.deepEqual(manifest.tableOrder, [
+    "users", "version_colors", "vehicles", "stock_units", "vehicle_availability", "vehicle_reservations", "quotes"
+  ]);
+  assert.deepEqual(manifest.tableCounts, {
+    users: 1, version_colors: 1, vehicles: 1, stock_units: 0, vehicle_availability: 0, vehicle_reservations: 0, quotes: 1
+  });
+});
+
+test("backup 1.3.0 migrado pode ser restaurado por inteiro no modo replace", async () => {
+  const manifest = await migrateBackup("1.3.0", [
+    "user_roles", "users", "brands", "paint_types", "settings", "models", "colors", "optionals", "customers",
+    "versions", "direct_sales", "version_colors", "version_optionals", "vehicles", "quotes", "vehicle_prices",
+    "custom_permissions"
+  ]);
+
+  assert.equal(manifest.tableOrder.indexOf("state_price_adjustments"), manifest.tableOrder.indexOf("settings") + 1);
+  assert.equal(manifest.tableOrder.indexOf("freight_rates"), manifest.tableOrder.indexOf("direct_sales") + 1);
+  assert.equal(backupService.checkReplaceSelection(manifest.tableOrder), null);
+});
+
+test("backup 1.0.0 migrado até a versão atual pode ser restaurado por inteiro no modo replace", async () => {
+  const manifest = await migrateBackup("1.0.0", [
+    "user_roles", "users", "brands", "paint_types", "settings", "models", "colors", "optionals",
+    "versions", "direct_sales", "version_colors", "version_optionals", "vehicles", "custom_permissions"
+  ]);
+
+  assert.equal(manifest.schemaVersion, "1.6.0");
+  assert.deepEqual(manifest.tableOrder, [
+    "user_roles", "users", "brands", "paint_types", "settings", "state_price_adjustments", "models", "colors",
+    "optionals", "customers", "versions", "direct_sales", "freight_rates", "version_colors", "version_optionals",
+    "vehicles", "stock_units", "vehicle_availability", "vehicle_reservations", "quotes", "vehicle_prices",
+    "custom_permissions"
+  ]);
+  assert.equal(backupService.checkReplaceSelection(manifest.tableOrder), null);
+});
+
+test("backup 1.0.0 que já tem orçamentos e histórico de preços mantém os registros", async () => {
+  const manifest = await migrateBackup("1.0.0", ["users", "vehicles", "quotes", "vehicle_prices"]);
+
+  assert.deepEqual(manifest.tableOrder, [
+    "users", "vehicles", "stock_units", "vehicle_availability", "vehicle_reservations", "quotes", "vehicle_prices"
+  ]);
+  assert.equal(manifest.tableCounts.quotes, 1);
+  assert.equal(manifest.tableCounts.vehicle_prices, 1);
+});
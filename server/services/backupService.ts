@@ -2,14 +2,23 @@ import { db } from "@db";
 import { 
   brands, models, versions, colors, versionColors, paintTypes, 
   optionals, versionOptionals, vehicles, settings, directSales,
-  users, userRoles, customPermissions, backups 
+  users, userRoles, customPermissions, backups, quotes, vehiclePrices, customers,
+  statePriceAdjustments, freightRates, stockUnits, vehicleAvailability, vehicleReservations
 } from "@shared/schema.ts";
-import { eq, sql, gt, asc } from "drizzle-orm";
+import { eq, sql, gt, asc, desc, ne, getTableColumns } from "drizzle-orm";
+import { PgTable } from "drizzle-orm/pg-core";
 import * as crypto from "crypto";
 import * as fs from "fs";
 import * as path from "path";
 import * as tar from "tar";
 import * as zlib from "zlib";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { BackupLocation, BackupStorageTargetName } from "@shared/backupStorage";
+import { backupStorage } from "./backupStorage";
+import { backupRestorePlanner } from "./backupRestorePlanner";
+import { backupMigrator } from "./backupMigrations";
+import { BackupMigrationSummary, BackupRestoreResult, RestoreJob, RestorePreview } from "@shared/backupRestore";
 
 // Definir ordem das tabelas respeitando foreign keys com metadata de primary key
 const BACKUP_TABLES = [
@@ -19,40 +28,259 @@ const BACKUP_TABLES = [
   { name: 'brands', table: brands, keyColumn: 'id' },
   { name: 'paint_types', table: paintTypes, keyColumn: 'id' },
   { name: 'settings', table: settings, keyColumn: 'id' },
+  { name: 'state_price_adjustments', table: statePriceAdjustments, keyColumn: 'id' },
   
   // Tabelas com dependências de primeiro nível
   { name: 'models', table: models, keyColumn: 'id' },
   { name: 'colors', table: colors, keyColumn: 'id' },
   { name: 'optionals', table: optionals, keyColumn: 'id' },
+  { name: 'customers', table: customers, keyColumn: 'id' },
   
   // Tabelas com dependências de segundo nível
   { name: 'versions', table: versions, keyColumn: 'id' },
   { name: 'direct_sales', table: directSales, keyColumn: 'id' },
+  { name: 'freight_rates', table: freightRates, keyColumn: 'id' },
   
   // Tabelas com dependências de terceiro nível
   { name: 'version_colors', table: versionColors, keyColumn: 'id' },
   { name: 'version_optionals', table: versionOptionals, keyColumn: 'id' },
   { name: 'vehicles', table: vehicles, keyColumn: 'id' },
+  { name: 'quotes', table: quotes, keyColumn: 'id' },
+  { name: 'vehicle_prices', table: vehiclePrices, keyColumn: 'id' },
+  { name: 'stock_units', table: stockUnits, keyColumn: 'id' },
+  { name: 'vehicle_availability', table: vehicleAvailability, keyColumn: 'id' },
+  { name: 'vehicle_reservations', table: vehicleReservations, keyColumn: 'id' },
   
   // Tabelas de sistema
   { name: 'custom_permissions', table: customPermissions, keyColumn: 'id' }
 ];
 
+// Não limpas no modo replace, por segurança: os registros do backup são mesclados
+const REPLACE_PRESERVED_TABLES = ['user_roles', 'users'];
+
 const BACKUP_DIR = path.join(process.cwd(), 'backups');
-const SCHEMA_VERSION = '1.0.0';
+// Ao alterar o schema das tabelas do backup, incrementar e registrar a migração em backupMigrations
+const SCHEMA_VERSION = '1.6.0';
+
+// Criptografia opcional do arquivo (AES-256-GCM). Formato do arquivo criptografado:
+// cabeçalho (magic + versão + origem da chave + salt + IV) | tar.gz cifrado | auth tag
+const ENCRYPTION_MAGIC = Buffer.from('VMSBKENC');
+const ENCRYPTION_FORMAT_VERSION = 1;
+const ENCRYPTION_SALT_LENGTH = 16;
+const ENCRYPTION_IV_LENGTH = 12;
+const ENCRYPTION_TAG_LENGTH = 16;
+const ENCRYPTION_HEADER_LENGTH = ENCRYPTION_MAGIC.length + 2 + ENCRYPTION_SALT_LENGTH + ENCRYPTION_IV_LENGTH;
+const ENCRYPTION_KEY_ENV = 'BACKUP_ENCRYPTION_KEY';
+const MIN_PASSPHRASE_LENGTH = 8;
+
+// Chave do ambiente (BACKUP_ENCRYPTION_KEY) ou senha informada pelo administrador
+export type BackupKeySource = 'env' | 'passphrase';
+
+export interface BackupEncryptionOptions {
+  encrypt?: boolean;
+  passphrase?: string;
+}
+
+interface EncryptionHeader {
+  keySource: BackupKeySource;
+  salt: Buffer;
+  iv: Buffer;
+}
+
+export class BackupError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = "BackupError";
+  }
+}
+
+export interface RestoreOptions {
+  mode?: 'merge' | 'replace';
+  dryRun?: boolean;
+  passphrase?: string;
+  tables?: string[];
+  brandIds?: number[];
+}
+
+// Interrompe a transação da pré-visualização para desfazer tudo o que foi feito nela
+class RestorePreviewRollback extends Error {}
+
+// Andamento da restauração, atualizado à medida que os lotes são gravados
+type RestoreProgress = Pick<RestoreJob, 'phase' | 'currentTable' | 'processedRecords' | 'totalRecords'>;
+
+// Registros lidos e gravados por vez na restauração
+const RESTORE_BATCH_SIZE = 500;
+const JSONL_READ_CHUNK_SIZE = 64 * 1024;
+const RESTORE_JOB_TTL_MS = 60 * 60 * 1000;
 
 interface BackupManifest {
   appName: string;
   schemaVersion: string;
   createdAt: string;
-  createdBy: number;
+  createdBy: number | null;
   tableOrder: string[];
   tableCounts: Record<string, number>;
   checksums: Record<string, string>;
   dbVersion: string;
 }
 
+// Deriva a chave AES-256 da chave do ambiente ou da senha, com salt próprio de cada arquivo
+function deriveEncryptionKey(keySource: BackupKeySource, passphrase: string | undefined, salt: Buffer): Buffer {
+  const secret = keySource === 'env' ? process.env[ENCRYPTION_KEY_ENV] : passphrase;
+  if (!secret) {
+    throw new BackupError(keySource === 'env'
+      ? `Backup criptografado com a chave do servidor, mas ${ENCRYPTION_KEY_ENV} não está configurada`
+      : 'Backup criptografado com senha: informe a senha para continuar');
+  }
+  return crypto.scryptSync(secret, salt, 32);
+}
+
+// Lê o cabeçalho de criptografia; retorna null para arquivos tar.gz comuns
+function readEncryptionHeader(filePath: string): EncryptionHeader | null {
+  const header = Buffer.alloc(ENCRYPTION_HEADER_LENGTH);
+  const fd = fs.openSync(filePath, 'r');
+  let bytesRead: number;
+  try {
+    bytesRead = fs.readSync(fd, header, 0, ENCRYPTION_HEADER_LENGTH, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  if (bytesRead < ENCRYPTION_HEADER_LENGTH || !header.subarray(0, ENCRYPTION_MAGIC.length).equals(ENCRYPTION_MAGIC)) {
+    return null;
+  }
+
+  let offset = ENCRYPTION_MAGIC.length;
+  const version = header[offset++];
+  if (version !== ENCRYPTION_FORMAT_VERSION) {
+    throw new BackupError(`Versão de criptografia do backup não suportada: ${version}`);
+  }
+  const keySource: BackupKeySource = header[offset++] === 1 ? 'passphrase' : 'env';
+  const salt = header.subarray(offset, offset + ENCRYPTION_SALT_LENGTH);
+  offset += ENCRYPTION_SALT_LENGTH;
+  const iv = header.subarray(offset, offset + ENCRYPTION_IV_LENGTH);
+
+  return { keySource, salt, iv };
+}
+
+async function encryptFile(sourcePath: string, targetPath: string, keySource: BackupKeySource, passphrase?: string): Promise<void> {
+  const salt = crypto.randomBytes(ENCRYPTION_SALT_LENGTH);
+  const iv = crypto.randomBytes(ENCRYPTION_IV_LENGTH);
+  const key = deriveEncryptionKey(keySource, passphrase, salt);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+
+  fs.writeFileSync(targetPath, Buffer.concat([
+    ENCRYPTION_MAGIC,
+    Buffer.from([ENCRYPTION_FORMAT_VERSION, keySource === 'passphrase' ? 1 : 0]),
+    salt,
+    iv
+  ]));
+  await pipeline(fs.createReadStream(sourcePath), cipher, fs.createWriteStream(targetPath, { flags: 'a' }));
+  fs.appendFileSync(targetPath, cipher.getAuthTag());
+}
+
+async function decryptFile(sourcePath: string, targetPath: string, header: EncryptionHeader, passphrase?: string): Promise<void> {
+  const fileSize = fs.statSync(sourcePath).size;
+  if (fileSize < ENCRYPTION_HEADER_LENGTH + ENCRYPTION_TAG_LENGTH) {
+    throw new BackupError('Arquivo de backup criptografado está truncado');
+  }
+
+  const tag = Buffer.alloc(ENCRYPTION_TAG_LENGTH);
+  const fd = fs.openSync(sourcePath, 'r');
+  try {
+    fs.readSync(fd, tag, 0, ENCRYPTION_TAG_LENGTH, fileSize - ENCRYPTION_TAG_LENGTH);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  const key = deriveEncryptionKey(header.keySource, passphrase, header.salt);
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, header.iv);
+  decipher.setAuthTag(tag);
+
+  try {
+    await pipeline(
+      fs.createReadStream(sourcePath, { start: ENCRYPTION_HEADER_LENGTH, end: fileSize - ENCRYPTION_TAG_LENGTH - 1 }),
+      decipher,
+      fs.createWriteStream(targetPath)
+    );
+  } catch (error) {
+    if (fs.existsSync(targetPath)) {
+      fs.unlinkSync(targetPath);
+    }
+    // O GCM só acusa a falha de autenticação no final: chave errada ou arquivo adulterado
+    throw new BackupError(header.keySource === 'env'
+      ? `Não foi possível descriptografar o backup: a chave ${ENCRYPTION_KEY_ENV} não corresponde à usada na criação ou o arquivo está corrompido`
+      : 'Não foi possível descriptografar o backup: senha incorreta ou arquivo corrompido');
+  }
+}
+
+// Checksum SHA-256 calculado em streaming
+async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  await pipeline(fs.createReadStream(filePath), hash);
+  return hash.digest('hex');
+}
+
+/**
+ * Converte de volta para Date os timestamps que o JSON do backup guardou como string.
+ * Vale para toda coluna timestamp da tabela (o driver chama toISOString ao gravar);
+ * as colunas date em modo string ficam como estão.
+ */
+export function reviveRecord(table: PgTable, record: Record<string, any>): Record<string, any> {
+  const convertedRecord = { ...record };
+  for (const [key, column] of Object.entries(getTableColumns(table))) {
+    if (column.columnType === 'PgTimestamp' && typeof convertedRecord[key] === 'string') {
+      convertedRecord[key] = new Date(convertedRecord[key]);
+    }
+  }
+  return convertedRecord;
+}
+
+// Lê um arquivo .jsonl em lotes, sem carregá-lo inteiro em memória
+async function* readJsonlBatches(filePath: string, batchSize: number): AsyncGenerator<Record<string, any>[]> {
+  if (!fs.existsSync(filePath)) return;
+  
+  let pending = '';
+  let batch: Record<string, any>[] = [];
+  for await (const chunk of fs.createReadStream(filePath, { encoding: 'utf8', highWaterMark: JSONL_READ_CHUNK_SIZE })) {
+    const lines = (pending + chunk).split('\n');
+    pending = lines.pop()!;
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      batch.push(JSON.parse(line));
+      if (batch.length >= batchSize) {
+        yield batch;
+        batch = [];
+      }
+    }
+  }
+  if (pending.trim()) {
+    batch.push(JSON.parse(pending));
+  }
+  if (batch.length > 0) {
+    yield batch;
+  }
+}
+
 export class BackupService {
+  private restoreJobs = new Map<string, RestoreJob>();
+  
+  // Indica se o servidor tem chave de criptografia configurada no ambiente
+  hasEnvEncryptionKey(): boolean {
+    return !!process.env[ENCRYPTION_KEY_ENV];
+  }
+  
+  // Devolve o caminho do tar.gz legível: o próprio arquivo ou a versão descriptografada em workDir
+  private async prepareArchive(filePath: string, workDir: string, passphrase?: string): Promise<string> {
+    const header = readEncryptionHeader(filePath);
+    if (!header) {
+      return filePath;
+    }
+    
+    const archivePath = `${workDir}.tar.gz`;
+    await decryptFile(filePath, archivePath, header, passphrase);
+    return archivePath;
+  }
   
   // Garantir que o diretório de backup existe
   private async ensureBackupDir(): Promise<void> {
@@ -61,20 +289,37 @@ export class BackupService {
     }
   }
   
-  // Criar backup completo
-  async createBackup(name: string, createdBy: number): Promise<{ backupId: number; fileName: string }> {
-    await this.ensureBackupDir();
+  // Criar backup completo (createdBy nulo para backups automáticos).
+  // Com encrypt, usa a senha informada ou, sem ela, a chave do ambiente.
+  async createBackup(
+    name: string,
+    createdBy: number | null,
+    trigger: 'manual' | 'scheduled' = 'manual',
+    encryption: BackupEncryptionOptions = {}
+  ): Promise<{ backupId: number; fileName: string }> {
+    const passphrase = encryption.passphrase || undefined;
+    const encrypt = !!encryption.encrypt || !!passphrase;
+    const keySource: BackupKeySource | null = encrypt ? (passphrase ? 'passphrase' : 'env') : null;
+    
+    // Falhas de configuração são recusadas antes de registrar o backup
+    if (passphrase && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new BackupError(`A senha do backup deve ter pelo menos ${MIN_PASSPHRASE_LENGTH} caracteres`);
+    }
+    if (keySource === 'env' && !this.hasEnvEncryptionKey()) {
+      throw new BackupError(`Informe uma senha ou configure ${ENCRYPTION_KEY_ENV} para criptografar o backup`);
+    }
     
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const fileName = `backup-${timestamp}.tar.gz`;
+    const fileName = encrypt ? `backup-${timestamp}.tar.gz.enc` : `backup-${timestamp}.tar.gz`;
     const filePath = path.join(BACKUP_DIR, fileName);
     const tempDir = path.join(BACKUP_DIR, `temp-${timestamp}`);
+    // Arquivo compactado antes da criptografia
+    const plainArchivePath = encrypt ? `${tempDir}.tar.gz` : filePath;
+    let backupId: number | undefined;
     
     try {
-      // Criar diretório temporário
-      fs.mkdirSync(tempDir, { recursive: true });
-      
-      // Criar backup na base de dados com status 'creating'
+      // Criar backup na base de dados com status 'creating' antes de qualquer etapa que possa falhar,
+      // para que toda execução (inclusive as que falham) apareça na lista
       const [backupRecord] = await db.insert(backups).values({
         name,
         fileName,
@@ -86,8 +331,17 @@ export class BackupService {
         schemaVersion: SCHEMA_VERSION,
         tablesCount: BACKUP_TABLES.length,
         recordsCount: 0, // Será calculado
-        createdBy
+        isEncrypted: encrypt,
+        encryptionKeySource: keySource,
+        createdBy,
+        trigger
       }).returning();
+      backupId = backupRecord.id;
+      
+      await this.ensureBackupDir();
+      
+      // Criar diretório temporário
+      fs.mkdirSync(tempDir, { recursive: true });
       
       const tableCounts: Record<string, number> = {};
       const checksums: Record<string, string> = {};
@@ -125,14 +379,18 @@ export class BackupService {
       // Criar arquivo tar.gz
       await tar.create({
         gzip: true,
-        file: filePath,
+        file: plainArchivePath,
         cwd: tempDir
       }, ['.']);
       
+      if (keySource) {
+        await encryptFile(plainArchivePath, filePath, keySource, passphrase);
+        fs.unlinkSync(plainArchivePath);
+      }
+      
       // Calcular checksum do arquivo final
-      const fileBuffer = fs.readFileSync(filePath);
-      const fileChecksum = crypto.createHash('sha256').update(fileBuffer).digest('hex');
-      const fileSize = fileBuffer.length;
+      const fileChecksum = await hashFile(filePath);
+      const fileSize = fs.statSync(filePath).size;
       
       // Atualizar registro do backup
       await db.update(backups).set({
@@ -149,16 +407,22 @@ export class BackupService {
       
       console.log(`Backup criado com sucesso: ${fileName} (${totalRecords} registros)`);
       
+      // Enviar cópias aos destinos externos; falhas ficam registradas sem invalidar o backup
+      await backupStorage.uploadCopies(backupRecord.id, filePath, fileName);
+      
       return { backupId: backupRecord.id, fileName };
       
     } catch (error) {
       console.error('Erro ao criar backup:', error);
       
-      // Marcar backup como falhou
+      // Marcar backup como falhou, guardando o motivo para exibir na lista
       try {
-        await db.update(backups).set({
-          status: 'failed'
-        }).where(eq(backups.id, (await db.select().from(backups).where(eq(backups.fileName, fileName)))[0]?.id));
+        if (backupId) {
+          await db.update(backups).set({
+            status: 'failed',
+            errorMessage: error instanceof Error ? error.message : String(error)
+          }).where(eq(backups.id, backupId));
+        }
       } catch (updateError) {
         console.error('Erro ao atualizar status do backup:', updateError);
       }
@@ -167,6 +431,9 @@ export class BackupService {
       if (fs.existsSync(tempDir)) {
         fs.rmSync(tempDir, { recursive: true, force: true });
       }
+      if (fs.existsSync(plainArchivePath)) {
+        fs.unlinkSync(plainArchivePath);
+      }
       if (fs.existsSync(filePath)) {
         fs.unlinkSync(filePath);
       }
@@ -234,28 +501,59 @@ export class BackupService {
     }
   }
   
-  // Listar backups existentes
+  // Listar backups existentes, com os locais onde cada um está disponível
   async listBackups(limit: number = 50, offset: number = 0) {
-    return await db.select({
+    const rows = await db.select({
       id: backups.id,
       name: backups.name,
       fileName: backups.fileName,
+      filePath: backups.filePath,
       fileSize: backups.fileSize,
       status: backups.status,
       storageType: backups.storageType,
       tablesCount: backups.tablesCount,
       recordsCount: backups.recordsCount,
+      isEncrypted: backups.isEncrypted,
+      encryptionKeySource: backups.encryptionKeySource,
+      trigger: backups.trigger,
+      errorMessage: backups.errorMessage,
       createdAt: backups.createdAt,
       completedAt: backups.completedAt,
       createdBy: backups.createdBy
     })
     .from(backups)
-    .orderBy(backups.createdAt)
+    // Backups removidos (manualmente ou pela retenção automática) não aparecem na lista
+    .where(ne(backups.status, 'deleted'))
+    .orderBy(desc(backups.createdAt))
     .limit(limit)
     .offset(offset);
+    
+    const copies = await backupStorage.listCopies(rows.map(row => row.id));
+    
+    return rows.map(({ filePath, ...row }) => {
+      const locations: BackupLocation[] = [];
+      if (row.status === 'completed') {
+        locations.push({
+          target: 'local',
+          status: fs.existsSync(filePath) ? 'available' : 'missing',
+          location: filePath,
+          errorMessage: null
+        });
+      }
+      for (const copy of copies) {
+        if (copy.backupId !== row.id || copy.status === 'deleted') continue;
+        locations.push({
+          target: copy.target as BackupStorageTargetName,
+          status: copy.status === 'uploaded' ? 'available' : 'failed',
+          location: copy.location,
+          errorMessage: copy.errorMessage
+        });
+      }
+      return { ...row, locations };
+    });
   }
   
-  // Obter caminho do arquivo de backup
+  // Obter caminho do arquivo de backup. Se o arquivo local sumiu, recupera de uma cópia externa.
   async getBackupFilePath(backupId: number): Promise<string | null> {
     const backup = await db.select().from(backups).where(eq(backups.id, backupId));
     if (backup.length === 0 || backup[0].status !== 'completed') {
@@ -264,12 +562,39 @@ export class BackupService {
     
     const filePath = backup[0].filePath;
     if (!fs.existsSync(filePath)) {
-      return null;
+      await this.ensureBackupDir();
+      if (!await backupStorage.downloadCopy(backupId, filePath)) {
+        return null;
+      }
+      
+      // A cópia recuperada precisa ser idêntica ao arquivo original
+      const checksum = await hashFile(filePath);
+      if (checksum !== backup[0].checksum) {
+        console.error(`Cópia externa do backup ${backupId} com checksum divergente`);
+        fs.unlinkSync(filePath);
+        return null;
+      }
     }
     
     return filePath;
   }
   
+  // Stream para download: arquivo local ou, na falta dele, a primeira cópia externa disponível
+  async openBackupStream(backupId: number): Promise<{ stream: Readable; fileName: string } | null> {
+    const backup = await db.select().from(backups).where(eq(backups.id, backupId));
+    if (backup.length === 0 || backup[0].status !== 'completed') {
+      return null;
+    }
+    
+    const { filePath, fileName } = backup[0];
+    if (fs.existsSync(filePath)) {
+      return { stream: fs.createReadStream(filePath), fileName };
+    }
+    
+    const stream = await backupStorage.openCopyStream(backupId);
+    return stream ? { stream, fileName } : null;
+  }
+  
   // Deletar backup
   async deleteBackup(backupId: number): Promise<boolean> {
     const backup = await db.select().from(backups).where(eq(backups.id, backupId));
@@ -284,6 +609,9 @@ export class BackupService {
       fs.unlinkSync(filePath);
     }
     
+    // Remover cópias dos destinos externos
+    await backupStorage.removeCopies(backupId);
+    
     // Marcar como deletado no banco
     await db.update(backups).set({
       status: 'deleted'
@@ -292,249 +620,367 @@ export class BackupService {
     return true;
   }
   
-  // Validar backup sem aplicar (dry run)
-  async validateBackup(filePath: string): Promise<{ valid: boolean; manifest?: BackupManifest; errors: string[] }> {
+  // Extrair o arquivo (descriptografando se necessário), conferir manifest e checksums e
+  // migrar os registros de backups de versões anteriores para o schema atual.
+  // Os arquivos das tabelas são lidos em streaming, sem carregá-los inteiros em memória.
+  private async extractAndVerify(
+    filePath: string,
+    tempDir: string,
+    passphrase?: string,
+    progress?: RestoreProgress
+  ): Promise<{ manifest?: BackupManifest; errors: string[]; migrations: BackupMigrationSummary[] }> {
     const errors: string[] = [];
+    let archivePath = filePath;
     
+    try {
+      if (progress) progress.phase = 'extracting';
+      archivePath = await this.prepareArchive(filePath, tempDir, passphrase);
+      await tar.extract({
+        file: archivePath,
+        cwd: tempDir
+      });
+    } catch (extractError) {
+      // Erros de criptografia (senha/chave) já trazem a mensagem para o usuário
+      errors.push(extractError instanceof BackupError
+        ? extractError.message
+        : `Erro ao extrair backup: ${extractError instanceof Error ? extractError.message : String(extractError)}`);
+      return { errors, migrations: [] };
+    } finally {
+      if (archivePath !== filePath && fs.existsSync(archivePath)) {
+        fs.unlinkSync(archivePath);
+      }
+    }
+    
+    // Ler manifest
+    const manifestPath = path.join(tempDir, 'manifest.json');
+    if (!fs.existsSync(manifestPath)) {
+      errors.push('Manifest não encontrado no backup');
+      return { errors, migrations: [] };
+    }
+    
+    const manifest: BackupManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+    
+    // Validar versão do schema: versões anteriores precisam de uma cadeia de migrações
+    const migrationChain = backupMigrator.findPath(manifest.schemaVersion, SCHEMA_VERSION);
+    if (!migrationChain) {
+      errors.push(`Versão do schema incompatível. Backup: ${manifest.schemaVersion}, Sistema: ${SCHEMA_VERSION} (nenhuma migração disponível)`);
+    }
+    
+    // Verificar se todas as tabelas estão presentes e validar checksums
+    if (progress) progress.phase = 'validating';
+    for (const tableName of manifest.tableOrder) {
+      const tableFile = path.join(tempDir, `${tableName}.jsonl`);
+      if (!fs.existsSync(tableFile)) {
+        errors.push(`Arquivo da tabela ${tableName} não encontrado`);
+      } else {
+        // Recomputar checksum e comparar com o manifest
+        const computedChecksum = await hashFile(tableFile);
+        const expectedChecksum = manifest.checksums[tableName];
+        
+        if (computedChecksum !== expectedChecksum) {
+          errors.push(`Checksum inválido para tabela ${tableName}. Esperado: ${expectedChecksum}, Computado: ${computedChecksum}`);
+        }
+      }
+    }
+    
+    if (errors.length > 0 || !migrationChain || migrationChain.length === 0) {
+      return { manifest, errors, migrations: [] };
+    }
+    
+    try {
+      if (progress) progress.phase = 'migrating';
+      const migrations = await backupMigrator.migrate(tempDir, manifest, migrationChain,
+        tableName => readJsonlBatches(path.join(tempDir, `${tableName}.jsonl`), RESTORE_BATCH_SIZE));
+      return { manifest, errors, migrations };
+    } catch (migrationError) {
+      errors.push(migrationError instanceof Error ? migrationError.message : String(migrationError));
+      return { manifest, errors, migrations: [] };
+    }
+  }
+  
+  // Validar backup sem aplicar (dry run)
+  // Backups de versões anteriores são migrados como na restauração; `migrations` lista as aplicadas
+  async validateBackup(filePath: string, passphrase?: string): Promise<{
+    valid: boolean;
+    encrypted: boolean;
+    manifest?: BackupManifest;
+    errors: string[];
+    migrations: BackupMigrationSummary[];
+  }> {
     try {
       if (!fs.existsSync(filePath)) {
-        errors.push('Arquivo de backup não encontrado');
-        return { valid: false, errors };
+        return { valid: false, encrypted: false, errors: ['Arquivo de backup não encontrado'], migrations: [] };
       }
       
+      const encrypted = readEncryptionHeader(filePath) !== null;
       const tempDir = path.join(BACKUP_DIR, `validate-${Date.now()}`);
       fs.mkdirSync(tempDir, { recursive: true });
       
       try {
-        // Extrair arquivo
-        await tar.extract({
-          file: filePath,
-          cwd: tempDir
-        });
-        
-        // Ler manifest
-        const manifestPath = path.join(tempDir, 'manifest.json');
-        if (!fs.existsSync(manifestPath)) {
-          errors.push('Manifest não encontrado no backup');
-          return { valid: false, errors };
-        }
-        
-        const manifest: BackupManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
-        
-        // Validar versão do schema
-        if (manifest.schemaVersion !== SCHEMA_VERSION) {
-          errors.push(`Versão do schema incompatível. Backup: ${manifest.schemaVersion}, Sistema: ${SCHEMA_VERSION}`);
-        }
-        
-        // Verificar se todas as tabelas estão presentes e validar checksums
-        for (const tableName of manifest.tableOrder) {
-          const tableFile = path.join(tempDir, `${tableName}.jsonl`);
-          if (!fs.existsSync(tableFile)) {
-            errors.push(`Arquivo da tabela ${tableName} não encontrado`);
-          } else {
-            // Recomputar checksum e comparar com o manifest
-            const fileContent = fs.readFileSync(tableFile, 'utf8');
-            const computedChecksum = crypto.createHash('sha256').update(fileContent).digest('hex');
-            const expectedChecksum = manifest.checksums[tableName];
-            
-            if (computedChecksum !== expectedChecksum) {
-              errors.push(`Checksum inválido para tabela ${tableName}. Esperado: ${expectedChecksum}, Computado: ${computedChecksum}`);
-            }
-          }
-        }
-        
-        // Limpar diretório temporário
-        fs.rmSync(tempDir, { recursive: true, force: true });
-        
+        const { manifest, errors, migrations } = await this.extractAndVerify(filePath, tempDir, passphrase);
         return { 
           valid: errors.length === 0, 
+          encrypted,
           manifest: errors.length === 0 ? manifest : undefined, 
-          errors 
+          errors,
+          migrations
         };
-        
-      } catch (extractError) {
-        errors.push(`Erro ao extrair backup: ${extractError instanceof Error ? extractError.message : String(extractError)}`);
-        // Limpar diretório temporário se criado
-        if (fs.existsSync(tempDir)) {
-          fs.rmSync(tempDir, { recursive: true, force: true });
-        }
-        return { valid: false, errors };
+      } finally {
+        // Limpar diretório temporário
+        fs.rmSync(tempDir, { recursive: true, force: true });
       }
       
     } catch (error) {
-      errors.push(`Erro ao validar backup: ${error instanceof Error ? error.message : String(error)}`);
-      return { valid: false, errors };
+      return { valid: false, encrypted: false, errors: [`Erro ao validar backup: ${error instanceof Error ? error.message : String(error)}`], migrations: [] };
     }
   }
   
-  // Restaurar backup
-  async restoreBackup(
-    filePath: string, 
-    mode: 'merge' | 'replace' = 'merge',
-    dryRun: boolean = false
-  ): Promise<{ success: boolean; message: string; restoredCounts?: Record<string, number> }> {
+  // UPSERT de um lote mantendo os IDs para preservar foreign keys entre tabelas
+  private async upsertBatch(tx: any, table: any, records: Record<string, any>[]): Promise<void> {
+    const columns = getTableColumns(table);
+    const keys = Array.from(new Set(records.flatMap(record => Object.keys(record))))
+      .filter(key => key !== 'id' && key in columns);
+    // Atualizar apenas os campos presentes no backup, com os valores da linha proposta
+    const set = Object.fromEntries(keys.map(key => [key, sql`excluded.${sql.identifier(columns[key].name)}`]));
+    
+    const insert = tx.insert(table).values(records.map(record => reviveRecord(table, record)));
+    await (keys.length > 0
+      ? insert.onConflictDoUpdate({ target: table.id, set })
+      : insert.onConflictDoNothing());
+  }
+  
+  // Tabelas dependentes das que o modo replace vai limpar precisam estar na seleção
+  checkReplaceSelection(tableNames: string[]): string | null {
+    const cleared = tableNames.filter(name => !REPLACE_PRESERVED_TABLES.includes(name));
+    return backupRestorePlanner.checkReplaceSelection(tableNames, cleared, BACKUP_TABLES);
+  }
+  
+  /**
+   * Inicia a restauração em segundo plano e devolve o job para acompanhamento por polling.
+   * Apenas uma restauração pode rodar por vez.
+   */
+  startRestore(filePath: string, options: RestoreOptions = {}): RestoreJob {
+    const running = Array.from(this.restoreJobs.values()).find(job => job.status === 'running');
+    if (running) {
+      throw new BackupError('Já existe uma restauração em andamento', 409);
+    }
+    if (options.mode === 'replace' && options.brandIds && options.brandIds.length > 0) {
+      throw new BackupError('O filtro por marca só pode ser usado no modo merge');
+    }
+    if (options.mode === 'replace' && options.tables && options.tables.length > 0) {
+      const selectionError = this.checkReplaceSelection(options.tables);
+      if (selectionError) throw new BackupError(selectionError);
+    }
+    
+    // Jobs concluídos ficam disponíveis por algum tempo para a última consulta do cliente
+    const expiration = Date.now() - RESTORE_JOB_TTL_MS;
+    this.restoreJobs.forEach((job, id) => {
+      if (job.finishedAt && new Date(job.finishedAt).getTime() < expiration) {
+        this.restoreJobs.delete(id);
+      }
+    });
+    
+    const job: RestoreJob = {
+      id: crypto.randomUUID(),
+      status: 'running',
+      phase: 'extracting',
+      mode: options.mode ?? 'merge',
+      dryRun: options.dryRun ?? false,
+      tables: options.tables && options.tables.length > 0 ? options.tables : null,
+      brandIds: options.brandIds && options.brandIds.length > 0 ? options.brandIds : null,
+      currentTable: null,
+      processedRecords: 0,
+      totalRecords: 0,
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      result: null
+    };
+    this.restoreJobs.set(job.id, job);
+    
+    this.restoreBackup(filePath, options, job)
+      .catch(error => ({
+        success: false,
+        message: `Erro ao restaurar backup: ${error instanceof Error ? error.message : String(error)}`
+      }))
+      .then(result => {
+        job.result = result;
+        job.status = result.success ? 'completed' : 'failed';
+        job.phase = 'finished';
+        job.currentTable = null;
+        job.finishedAt = new Date().toISOString();
+      });
+    
+    return job;
+  }
+  
+  getRestoreJob(jobId: string): RestoreJob | undefined {
+    return this.restoreJobs.get(jobId);
+  }
+  
+  /**
+   * Restaurar backup. Por padrão restaura todas as tabelas do manifest; `tables` restringe a um
+   * subconjunto e `brandIds` filtra as tabelas do catálogo pelas marcas informadas (só no modo merge).
+   * Com dryRun, executa tudo em uma transação desfeita ao final e devolve a pré-visualização
+   * registro a registro (inserções, atualizações e conflitos) contra o banco atual.
+   * Registros em conflito nunca são gravados.
+   *
+   * Os arquivos .jsonl são lidos em streaming e gravados em lotes de RESTORE_BATCH_SIZE, tudo em
+   * uma única transação (atômica). Memória usada, independente do tamanho do arquivo:
+   * - um lote por vez: RESTORE_BATCH_SIZE registros + as linhas correspondentes do banco;
+   * - o buffer de leitura (JSONL_READ_CHUNK_SIZE) e a maior linha do arquivo;
+   * - a pré-visualização: totais e até 200 registros por tabela;
+   * - com filtro por marca, 2 inteiros por modelo, versão e veículo do backup.
+   */
+  async restoreBackup(filePath: string, options: RestoreOptions = {}, progress?: RestoreProgress): Promise<BackupRestoreResult> {
+    const { mode = 'merge', dryRun = false, passphrase, brandIds } = options;
+    
+    if (mode === 'replace' && brandIds && brandIds.length > 0) {
+      return { success: false, message: 'O filtro por marca só pode ser usado no modo merge' };
+    }
+    if (!fs.existsSync(filePath)) {
+      return { success: false, message: 'Backup inválido: Arquivo de backup não encontrado' };
+    }
+    
+    const tempDir = path.join(BACKUP_DIR, `restore-${Date.now()}`);
+    fs.mkdirSync(tempDir, { recursive: true });
+    
     try {
-      // Primeiro validar o backup
-      const validation = await this.validateBackup(filePath);
-      if (!validation.valid) {
+      // Extrair uma única vez e validar os checksums antes de tocar no banco
+      const { manifest, errors, migrations } = await this.extractAndVerify(filePath, tempDir, passphrase, progress);
+      if (!manifest || errors.length > 0) {
         return { 
           success: false, 
-          message: `Backup inválido: ${validation.errors.join(', ')}` 
+          message: `Backup inválido: ${errors.join(', ')}` 
         };
       }
       
-      const manifest = validation.manifest!;
-      const tempDir = path.join(BACKUP_DIR, `restore-${Date.now()}`);
-      fs.mkdirSync(tempDir, { recursive: true });
+      // Tabelas selecionadas, sempre na ordem do manifest (que respeita as foreign keys)
+      const requestedTables = options.tables && options.tables.length > 0 ? options.tables : manifest.tableOrder;
+      const unknownTables = requestedTables.filter(name => !manifest.tableOrder.includes(name));
+      if (unknownTables.length > 0) {
+        return { success: false, message: `Tabelas não encontradas no backup: ${unknownTables.join(', ')}` };
+      }
       
-      try {
-        // Extrair arquivo
-        await tar.extract({
-          file: filePath,
-          cwd: tempDir
-        });
-        
-        if (dryRun) {
-          // Modo dry run - apenas contar registros
-          const counts: Record<string, number> = {};
-          for (const tableName of manifest.tableOrder) {
-            const tableFile = path.join(tempDir, `${tableName}.jsonl`);
-            if (fs.existsSync(tableFile)) {
-              const lines = fs.readFileSync(tableFile, 'utf8').split('\n').filter(line => line.trim());
-              counts[tableName] = lines.length;
-            }
+      const readTable = (tableName: string) => readJsonlBatches(path.join(tempDir, `${tableName}.jsonl`), RESTORE_BATCH_SIZE);
+      
+      const selected = manifest.tableOrder
+        .filter(tableName => requestedTables.includes(tableName))
+        .flatMap(tableName => {
+          const tableInfo = BACKUP_TABLES.find(t => t.name === tableName);
+          if (!tableInfo) {
+            console.warn(`Tabela ${tableName} não encontrada na definição`);
+            return [];
           }
-          
-          // Limpar diretório temporário
-          fs.rmSync(tempDir, { recursive: true, force: true });
-          
-          return {
-            success: true,
-            message: `Dry run completado. ${Object.values(counts).reduce((a, b) => a + b, 0)} registros serão restaurados.`,
-            restoredCounts: counts
-          };
-        }
-        
-        // Modo real - executar restauração em transação
-        const restoredCounts: Record<string, number> = {};
-        
+          return [tableInfo];
+        });
+      
+      if (mode === 'replace') {
+        const selectionError = this.checkReplaceSelection(selected.map(t => t.name));
+        if (selectionError) return { success: false, message: selectionError };
+      }
+      
+      if (progress) {
+        progress.phase = 'restoring';
+        progress.totalRecords = selected.reduce((sum, { name }) => sum + (manifest.tableCounts[name] ?? 0), 0);
+      }
+      
+      const brandMaps = brandIds && brandIds.length > 0
+        ? await backupRestorePlanner.buildBrandMaps(readTable)
+        : undefined;
+      
+      const restoredCounts: Record<string, number> = {};
+      let preview: RestorePreview | undefined;
+      
+      try {
         await db.transaction(async (tx) => {
           if (mode === 'replace') {
-            // Limpar tabelas na ordem inversa (respeitando foreign keys)
+            // Limpar as tabelas selecionadas na ordem inversa (respeitando foreign keys)
             for (let i = BACKUP_TABLES.length - 1; i >= 0; i--) {
               const tableInfo = BACKUP_TABLES[i];
-              if (tableInfo.name !== 'user_roles' && tableInfo.name !== 'users') {
-                // Não limpar usuários e roles por segurança
+              if (!selected.some(t => t.name === tableInfo.name)) continue;
+              if (!REPLACE_PRESERVED_TABLES.includes(tableInfo.name)) {
                 console.log(`Limpando tabela: ${tableInfo.name}`);
                 await tx.delete(tableInfo.table);
               }
             }
           }
           
+          // A comparação roda dentro da transação: enxerga as tabelas já limpas (replace)
+          // e os lotes já gravados, inclusive na pré-visualização, que é desfeita ao final
+          const session = backupRestorePlanner.createSession(tx, {
+            mode,
+            allTables: BACKUP_TABLES,
+            brandIds,
+            brandMaps
+          });
+          
           // Restaurar dados na ordem correta
-          for (const tableName of manifest.tableOrder) {
-            const tableFile = path.join(tempDir, `${tableName}.jsonl`);
-            if (!fs.existsSync(tableFile)) continue;
-            
-            console.log(`Restaurando tabela: ${tableName}`);
-            
-            const lines = fs.readFileSync(tableFile, 'utf8').split('\n').filter(line => line.trim());
-            const records = lines.map(line => JSON.parse(line));
-            
-            if (records.length === 0) {
-              restoredCounts[tableName] = 0;
-              continue;
-            }
+          for (const { name, table } of selected) {
+            console.log(`Restaurando tabela: ${name}`);
+            if (progress) progress.currentTable = name;
+            session.beginTable(name, table);
+            restoredCounts[name] = 0;
             
-            // Encontrar definição da tabela
-            const tableInfo = BACKUP_TABLES.find(t => t.name === tableName);
-            if (!tableInfo) {
-              console.warn(`Tabela ${tableName} não encontrada na definição`);
-              continue;
-            }
-            
-            // Filtrar campos válidos e tratar dados especiais
-            const validRecords = records.map(record => {
-              // Converter campos de timestamp de string para Date primeiro
-              const convertedRecord = { ...record };
-              
-              // Lista de campos que são timestamps e precisam de conversão
-              const timestampFields = ['createdAt', 'updatedAt', 'created_at', 'updated_at', 'lastLogin', 'last_login', 'completedAt', 'completed_at'];
-              
-              for (const field of timestampFields) {
-                if (convertedRecord[field] && typeof convertedRecord[field] === 'string') {
-                  try {
-                    convertedRecord[field] = new Date(convertedRecord[field]);
-                  } catch (error) {
-                    console.warn(`Erro ao converter campo ${field} para Date:`, error);
-                    // Se não conseguir converter, manter como está
-                  }
-                }
-              }
-              
-              return convertedRecord;
-            }).filter(record => record !== null);
-            
-            if (validRecords.length > 0) {
-              if (mode === 'merge') {
-                // Modo merge - usar UPSERT para preservar relacionamentos
-                // Manter IDs para preservar foreign keys entre tabelas
-                for (const record of validRecords) {
-                  try {
-                    // Usar onConflictDoUpdate para UPSERT adequado
-                    await tx.insert(tableInfo.table)
-                      .values(record)
-                      .onConflictDoUpdate({
-                        target: tableInfo.table.id,
-                        set: record // Atualizar todos os campos se já existir
-                      });
-                  } catch (error) {
-                    console.error(`Erro ao fazer UPSERT em ${tableName}:`, error);
-                    throw error;
-                  }
-                }
-              } else {
-                // Modo replace - inserir direto (tabelas já foram limpas)
-                await tx.insert(tableInfo.table).values(validRecords);
+            for await (const batch of readTable(name)) {
+              const records = await session.planBatch(batch);
+              if (records.length > 0) {
+                await this.upsertBatch(tx, table, records);
               }
+              restoredCounts[name] += records.length;
+              if (progress) progress.processedRecords += batch.length;
             }
             
-            restoredCounts[tableName] = validRecords.length;
+            // IDs explícitos não avançam a sequence; ajustar para os próximos cadastros.
+            // setval não é desfeito por rollback, por isso fica fora da pré-visualização.
+            if (!dryRun && restoredCounts[name] > 0) {
+              await tx.execute(sql`SELECT setval(pg_get_serial_sequence(${name}, 'id'), (SELECT COALESCE(MAX(id), 0) + 1 FROM ${sql.identifier(name)}), false)`);
+            }
+          }
+          
+          preview = session.getPreview();
+          if (dryRun) {
+            throw new RestorePreviewRollback();
           }
         });
-        
-        // Limpar diretório temporário
-        fs.rmSync(tempDir, { recursive: true, force: true });
-        
-        const totalRestored = Object.values(restoredCounts).reduce((a, b) => a + b, 0);
-        
-        return {
-          success: true,
-          message: `Backup restaurado com sucesso. ${totalRestored} registros restaurados.`,
-          restoredCounts
-        };
-        
-      } catch (restoreError) {
-        // Limpar diretório temporário em caso de erro
-        if (fs.existsSync(tempDir)) {
-          fs.rmSync(tempDir, { recursive: true, force: true });
+      } catch (error) {
+        if (!(error instanceof RestorePreviewRollback)) {
+          throw error;
         }
-        
-        const errorMsg = restoreError instanceof Error ? restoreError.message : String(restoreError);
+      }
+      
+      const { insert, update, conflict } = preview!.totals;
+      if (dryRun) {
         return {
-          success: false,
-          message: `Erro durante restauração: ${errorMsg}`
+          success: true,
+          message: `Pré-visualização: ${insert} inserções, ${update} atualizações e ${conflict} conflitos.`,
+          restoredCounts,
+          preview,
+          migrations
         };
       }
       
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
+      const totalRestored = Object.values(restoredCounts).reduce((a, b) => a + b, 0);
+      
+      return {
+        success: true,
+        message: `Backup restaurado com sucesso. ${totalRestored} registros restaurados` +
+          (conflict > 0 ? `; ${conflict} registros em conflito foram ignorados.` : '.'),
+        restoredCounts,
+        preview,
+        migrations
+      };
+      
+    } catch (restoreError) {
+      const errorMsg = restoreError instanceof Error ? restoreError.message : String(restoreError);
       return {
         success: false,
-        message: `Erro ao restaurar backup: ${errorMsg}`
+        message: `Erro durante restauração: ${errorMsg}`
       };
+    } finally {
+      // Limpar diretório temporário
+      fs.rmSync(tempDir, { recursive: true, force: true });
     }
   }
 }
 
-export const backupService = new BackupService();
\ No newline at end of file
+export const backupService = new BackupService();
@@ -0,0 +1,231 @@
+import { db } from "@db";
+import { backupCopies, BackupCopy } from "@shared/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import { BackupStorageTargetName } from "@shared/backupStorage";
+import S3 from "aws-sdk/clients/s3";
+import * as fs from "fs";
+import * as path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+
+// Destino externo que recebe uma cópia de cada backup concluído
+export interface BackupStorageTarget {
+  readonly name: Exclude<BackupStorageTargetName, 'local'>;
+  readonly storageType: 'local' | 's3';
+  // Envia o arquivo e devolve a localização gravada em backup_copies
+  upload(filePath: string, fileName: string): Promise<string>;
+  createReadStream(location: string): Promise<Readable>;
+  remove(location: string): Promise<void>;
+}
+
+// Espelho em outro diretório do sistema de arquivos (ex.: volume montado de outro disco)
+export class DirectoryStorageTarget implements BackupStorageTarget {
+  readonly name = 'mirror';
+  readonly storageType = 'local';
+
+  constructor(private directory: string) {}
+
+  async upload(filePath: string, fileName: string): Promise<string> {
+    fs.mkdirSync(this.directory, { recursive: true });
+    const location = path.join(this.directory, fileName);
+    await pipeline(fs.createReadStream(filePath), fs.createWriteStream(location));
+    return location;
+  }
+
+  async createReadStream(location: string): Promise<Readable> {
+    if (!fs.existsSync(location)) {
+      throw new Error(`Arquivo não encontrado no espelho: ${location}`);
+    }
+    return fs.createReadStream(location);
+  }
+
+  async remove(location: string): Promise<void> {
+    if (fs.existsSync(location)) {
+      fs.unlinkSync(location);
+    }
+  }
+}
+
+// Bucket S3 ou compatível (MinIO, etc.), com a localização gravada como s3://bucket/chave
+export class S3StorageTarget implements BackupStorageTarget {
+  readonly name = 's3';
+  readonly storageType = 's3';
+  private client: S3;
+
+  constructor(private bucket: string, private prefix: string, options: S3.ClientConfiguration) {
+    this.client = new S3(options);
+  }
+
+  private keyFromLocation(location: string): string {
+    const bucketPrefix = `s3://${this.bucket}/`;
+    if (!location.startsWith(bucketPrefix)) {
+      throw new Error(`Cópia pertence a outro bucket: ${location}`);
+    }
+    return location.slice(bucketPrefix.length);
+  }
+
+  async upload(filePath: string, fileName: string): Promise<string> {
+    const key = this.prefix ? `${this.prefix.replace(/\/+$/, '')}/${fileName}` : fileName;
+    await this.client.upload({
+      Bucket: this.bucket,
+      Key: key,
+      Body: fs.createReadStream(filePath)
+    }).promise();
+    return `s3://${this.bucket}/${key}`;
+  }
+
+  async createReadStream(location: string): Promise<Readable> {
+    const params = { Bucket: this.bucket, Key: this.keyFromLocation(location) };
+    // Confirma que o objeto existe antes de começar a transmitir para o cliente
+    await this.client.headObject(params).promise();
+    return this.client.getObject(params).createReadStream();
+  }
+
+  async remove(location: string): Promise<void> {
+    await this.client.deleteObject({ Bucket: this.bucket, Key: this.keyFromLocation(location) }).promise();
+  }
+}
+
+/**
+ * Destinos configurados por variáveis de ambiente:
+ * - BACKUP_MIRROR_DIR: diretório que recebe uma cópia de cada backup
+ * - BACKUP_S3_BUCKET (+ BACKUP_S3_ENDPOINT, BACKUP_S3_REGION, BACKUP_S3_PREFIX,
+ *   BACKUP_S3_ACCESS_KEY_ID, BACKUP_S3_SECRET_ACCESS_KEY): bucket S3 ou compatível
+ */
+function createTargetsFromEnv(): BackupStorageTarget[] {
+  const targets: BackupStorageTarget[] = [];
+
+  if (process.env.BACKUP_MIRROR_DIR) {
+    targets.push(new DirectoryStorageTarget(path.resolve(process.env.BACKUP_MIRROR_DIR)));
+  }
+
+  if (process.env.BACKUP_S3_BUCKET) {
+    const endpoint = process.env.BACKUP_S3_ENDPOINT;
+    const options: S3.ClientConfiguration = {
+      region: process.env.BACKUP_S3_REGION || 'us-east-1',
+      signatureVersion: 'v4',
+      // Serviços compatíveis (MinIO) normalmente exigem endereçamento por caminho
+      ...(endpoint ? { endpoint, s3ForcePathStyle: true } : {})
+    };
+    if (process.env.BACKUP_S3_ACCESS_KEY_ID && process.env.BACKUP_S3_SECRET_ACCESS_KEY) {
+      options.accessKeyId = process.env.BACKUP_S3_ACCESS_KEY_ID;
+      options.secretAccessKey = process.env.BACKUP_S3_SECRET_ACCESS_KEY;
+    }
+    targets.push(new S3StorageTarget(process.env.BACKUP_S3_BUCKET, process.env.BACKUP_S3_PREFIX || '', options));
+  }
+
+  return targets;
+}
+
+export class BackupStorageService {
+  private targets: BackupStorageTarget[] | null = null;
+
+  // Lido na primeira utilização para respeitar variáveis carregadas depois da importação
+  getTargets(): BackupStorageTarget[] {
+    if (!this.targets) {
+      this.targets = createTargetsFromEnv();
+    }
+    return this.targets;
+  }
+
+  private findTarget(name: string): BackupStorageTarget | undefined {
+    return this.getTargets().find(target => target.name === name);
+  }
+
+  // Envia o backup a todos os destinos; falhas ficam registradas na cópia e não interrompem os demais
+  async uploadCopies(backupId: number, filePath: string, fileName: string): Promise<BackupCopy[]> {
+    const copies: BackupCopy[] = [];
+
+    for (const target of this.getTargets()) {
+      try {
+        const location = await target.upload(filePath, fileName);
+        const [copy] = await db.insert(backupCopies).values({
+          backupId,
+          target: target.name,
+          storageType: target.storageType,
+          location,
+          status: 'uploaded'
+        }).returning();
+        copies.push(copy);
+      } catch (error) {
+        console.error(`Erro ao enviar backup ${fileName} para ${target.name}:`, error);
+        const [copy] = await db.insert(backupCopies).values({
+          backupId,
+          target: target.name,
+          storageType: target.storageType,
+          location: fileName,
+          status: 'failed',
+          errorMessage: error instanceof Error ? error.message : String(error)
+        }).returning();
+        copies.push(copy);
+      }
+    }
+
+    return copies;
+  }
+
+  async listCopies(backupIds: number[]): Promise<BackupCopy[]> {
+    if (backupIds.length === 0) return [];
+    return await db.select().from(backupCopies)
+      .where(inArray(backupCopies.backupId, backupIds));
+  }
+
+  // Stream da primeira cópia externa disponível, na ordem dos destinos configurados
+  async openCopyStream(backupId: number): Promise<Readable | null> {
+    const copies = await db.select().from(backupCopies)
+      .where(and(eq(backupCopies.backupId, backupId), eq(backupCopies.status, 'uploaded')));
+
+    for (const target of this.getTargets()) {
+      const copy = copies.find(c => c.target === target.name);
+      if (!copy) continue;
+
+      try {
+        return await target.createReadStream(copy.location);
+      } catch (error) {
+        console.error(`Cópia do backup ${backupId} indisponível em ${target.name}:`, error);
+      }
+    }
+
+    return null;
+  }
+
+  // Baixa uma cópia externa para o caminho informado; retorna false se nenhuma estiver disponível
+  async downloadCopy(backupId: number, destination: string): Promise<boolean> {
+    const stream = await this.openCopyStream(backupId);
+    if (!stream) return false;
+
+    try {
+      await pipeline(stream, fs.createWriteStream(destination));
+      return true;
+    } catch (error) {
+      console.error(`Erro ao baixar cópia do backup ${backupId}:`, error);
+      if (fs.existsSync(destination)) {
+        fs.unlinkSync(destination);
+      }
+      return false;
+    }
+  }
+
+  // Remove as cópias externas do backup; as que não puderem ser removidas continuam listadas
+  async removeCopies(backupId: number): Promise<void> {
+    const copies = await db.select().from(backupCopies)
+      .where(and(eq(backupCopies.backupId, backupId), eq(backupCopies.status, 'uploaded')));
+
+    for (const copy of copies) {
+      const target = this.findTarget(copy.target);
+      if (!target) {
+        console.warn(`Destino ${copy.target} não está mais configurado; cópia mantida em ${copy.location}`);
+        continue;
+      }
+
+      try {
+        await target.remove(copy.location);
+        await db.update(backupCopies).set({ status: 'deleted' }).where(eq(backupCopies.id, copy.id));
+      } catch (error) {
+        console.error(`Erro ao remover cópia ${copy.location}:`, error);
+      }
+    }
+  }
+}
+
+export const backupStorage = new BackupStorageService();
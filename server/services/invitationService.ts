@@ -0,0 +1,259 @@
+import { createHash, randomBytes } from "crypto";
+import { db } from "@db";
+import { settings, userInvitations, userRoles, users } from "@shared/schema";
+import { and, desc, eq, gt, isNull } from "drizzle-orm";
+import {
+  INVITATION_VALIDITY_DAYS,
+  InvitationAccept,
+  InvitationInput,
+  InvitationLink,
+  InvitationPreview,
+  InvitationStatus,
+  InvitationSummary,
+  SELF_REGISTRATION_SETTING_KEY
+} from "@shared/invitations";
+import { getUser, getUserByEmail, hashPassword } from "../auth";
+
+// Erro dos convites com o status HTTP que a rota deve devolver
+export class InvitationError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = "InvitationError";
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type InvitationRow = typeof userInvitations.$inferSelect & {
+  role: { name: string } | null;
+  invitedByUser: { name: string } | null;
+};
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function getStatus(invitation: typeof userInvitations.$inferSelect, now = new Date()): InvitationStatus {
+  if (invitation.acceptedAt) return 'accepted';
+  if (invitation.revokedAt) return 'revoked';
+  if (invitation.expiresAt <= now) return 'expired';
+  return 'pending';
+}
+
+function toSummary(invitation: InvitationRow): InvitationSummary {
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    name: invitation.name,
+    roleId: invitation.roleId,
+    roleName: invitation.role?.name ?? '',
+    invitedByName: invitation.invitedByUser?.name ?? null,
+    status: getStatus(invitation),
+    expiresAt: invitation.expiresAt.toISOString(),
+    createdAt: invitation.createdAt.toISOString(),
+    acceptedAt: invitation.acceptedAt?.toISOString() ?? null
+  };
+}
+
+/**
+ * Convites de cadastro. O token vai apenas no link entregue ao administrador; o banco guarda
+ * o hash, e o convite é consumido na mesma instrução que o marca como aceito, então um link
+ * não cria duas contas.
+ */
+export class InvitationService {
+
+  async listInvitations(): Promise<InvitationSummary[]> {
+    const rows = await db.query.userInvitations.findMany({
+      with: { role: true, invitedByUser: true },
+      orderBy: desc(userInvitations.createdAt)
+    });
+    return rows.map(toSummary);
+  }
+
+  async getInvitation(id: number) {
+    return await db.query.userInvitations.findFirst({ where: eq(userInvitations.id, id) });
+  }
+
+  private async getSummary(id: number): Promise<InvitationSummary> {
+    const row = await db.query.userInvitations.findFirst({
+      where: eq(userInvitations.id, id),
+      with: { role: true, invitedByUser: true }
+    });
+    if (!row) {
+      throw new InvitationError("Convite não encontrado", 404);
+    }
+    return toSummary(row);
+  }
+
+  private newToken() {
+    const token = randomBytes(32).toString('base64url');
+    return {
+      token,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + INVITATION_VALIDITY_DAYS * DAY_MS)
+    };
+  }
+
+  private async withLink(id: number, token: string, baseUrl: string): Promise<InvitationLink> {
+    return { ...await this.getSummary(id), inviteUrl: `${baseUrl}/invite/${token}` };
+  }
+
+  // Cria o convite; um convite pendente anterior para o mesmo email é cancelado
+  async createInvitation(input: InvitationInput, invitedBy: number, baseUrl: string): Promise<InvitationLink> {
+    if (await getUserByEmail(input.email)) {
+      throw new InvitationError("Já existe um usuário com este email", 409);
+    }
+    const role = await db.query.userRoles.findFirst({ where: eq(userRoles.id, input.roleId) });
+    if (!role) {
+      throw new InvitationError("Papel não encontrado", 404);
+    }
+
+    const { token, tokenHash, expiresAt } = this.newToken();
+    const invitation = await db.transaction(async (tx) => {
+      await tx.update(userInvitations)
+        .set({ revokedAt: new Date() })
+        .where(and(
+          eq(userInvitations.email, input.email),
+          isNull(userInvitations.acceptedAt),
+          isNull(userInvitations.revokedAt)
+        ));
+
+      const [created] = await tx.insert(userInvitations).values({
+        email: input.email,
+        name: input.name ?? null,
+        roleId: input.roleId,
+        tokenHash,
+        invitedBy,
+        expiresAt
+      }).returning();
+      return created;
+    });
+
+    return this.withLink(invitation.id, token, baseUrl);
+  }
+
+  // Gera um novo link (o anterior deixa de valer) e renova a validade
+  async resendInvitation(id: number, baseUrl: string): Promise<InvitationLink> {
+    const invitation = await this.getInvitation(id);
+    if (!invitation) {
+      throw new InvitationError("Convite não encontrado", 404);
+    }
+    const status = getStatus(invitation);
+    if (status === 'accepted' || status === 'revoked') {
+      throw new InvitationError(`O convite já foi ${status === 'accepted' ? 'aceito' : 'cancelado'}`);
+    }
+
+    const { token, tokenHash, expiresAt } = this.newToken();
+    await db.update(userInvitations)
+      .set({ tokenHash, expiresAt })
+      .where(eq(userInvitations.id, id));
+
+    return this.withLink(id, token, baseUrl);
+  }
+
+  async revokeInvitation(id: number): Promise<InvitationSummary> {
+    const invitation = await this.getInvitation(id);
+    if (!invitation) {
+      throw new InvitationError("Convite não encontrado", 404);
+    }
+    if (invitation.acceptedAt) {
+      throw new InvitationError("O convite já foi aceito");
+    }
+
+    if (!invitation.revokedAt) {
+      await db.update(userInvitations)
+        .set({ revokedAt: new Date() })
+        .where(eq(userInvitations.id, id));
+    }
+    return this.getSummary(id);
+  }
+
+  private async findValidByToken(token: string) {
+    const invitation = await db.query.userInvitations.findFirst({
+      where: eq(userInvitations.tokenHash, hashToken(token)),
+      with: { role: true }
+    });
+    if (!invitation || invitation.revokedAt) {
+      throw new InvitationError("Convite inválido ou cancelado", 404);
+    }
+    if (invitation.acceptedAt) {
+      throw new InvitationError("Este convite já foi utilizado", 410);
+    }
+    if (invitation.expiresAt <= new Date()) {
+      throw new InvitationError("Este convite expirou. Peça um novo convite ao administrador", 410);
+    }
+    return invitation;
+  }
+
+  async previewInvitation(token: string): Promise<InvitationPreview> {
+    const invitation = await this.findValidByToken(token);
+    return {
+      email: invitation.email,
+      name: invitation.name,
+      roleName: invitation.role?.name ?? '',
+      expiresAt: invitation.expiresAt.toISOString()
+    };
+  }
+
+  // Cria a conta do convidado com o papel do convite e consome o convite
+  async acceptInvitation(token: string, input: InvitationAccept) {
+    const invitation = await this.findValidByToken(token);
+    if (await getUserByEmail(invitation.email)) {
+      throw new InvitationError("Já existe um usuário com este email", 409);
+    }
+    const password = await hashPassword(input.password);
+
+    const userId = await db.transaction(async (tx) => {
+      const [claimed] = await tx.update(userInvitations)
+        .set({ acceptedAt: new Date() })
+        .where(and(
+          eq(userInvitations.id, invitation.id),
+          isNull(userInvitations.acceptedAt),
+          isNull(userInvitations.revokedAt),
+          gt(userInvitations.expiresAt, new Date())
+        ))
+        .returning();
+      if (!claimed) {
+        throw new InvitationError("Este convite já foi utilizado", 410);
+      }
+
+      const [user] = await tx.insert(users).values({
+        name: input.name,
+        email: invitation.email,
+        password,
+        roleId: invitation.roleId
+      }).returning();
+
+      await tx.update(userInvitations)
+        .set({ acceptedUserId: user.id })
+        .where(eq(userInvitations.id, invitation.id));
+      return user.id;
+    });
+
+    return await getUser(userId);
+  }
+
+  async isSelfRegistrationEnabled(): Promise<boolean> {
+    const setting = await db.query.settings.findFirst({
+      where: eq(settings.key, SELF_REGISTRATION_SETTING_KEY)
+    });
+    return setting?.value === 'true';
+  }
+
+  async setSelfRegistrationEnabled(enabled: boolean): Promise<boolean> {
+    await db.insert(settings)
+      .values({
+        key: SELF_REGISTRATION_SETTING_KEY,
+        value: String(enabled),
+        label: 'Autocadastro na tela de login',
+        type: 'boolean'
+      })
+      .onConflictDoUpdate({
+        target: settings.key,
+        set: { value: String(enabled), updatedAt: new Date() }
+      });
+    return enabled;
+  }
+}
+
+export const invitationService = new InvitationService();
@@ -0,0 +1,190 @@
+import { db } from "@db";
+import { userSecurityEvents, userSessions, users } from "@shared/schema";
+import { and, desc, eq, gt, sql } from "drizzle-orm";
+import {
+  LOGIN_FAILURE_WINDOW_HOURS,
+  LockedAccountSummary,
+  SecurityEventSummary,
+  SecurityEventType,
+  getLockoutMinutes
+} from "@shared/loginSecurity";
+import { mailService } from "./mailTransport";
+
+// Erro do bloqueio de contas com o status HTTP que a rota deve devolver
+export class LoginSecurityError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = "LoginSecurityError";
+  }
+}
+
+// Origem da tentativa de login, extraída da requisição em auth.ts
+export interface LoginContext {
+  ipAddress: string;
+  userAgent: string;
+  deviceInfo: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+const SECURITY_EVENTS_LIMIT = 50;
+
+/**
+ * Bloqueio por conta (complementa o loginLimiter, que limita por IP) e detecção de login
+ * de dispositivo ou IP que a conta nunca usou, comparando com o histórico de user_sessions.
+ */
+export class LoginSecurityService {
+
+  private async recordEvent(
+    userId: number,
+    type: SecurityEventType,
+    context: Partial<LoginContext>,
+    details?: Record<string, unknown>
+  ) {
+    await db.insert(userSecurityEvents).values({
+      userId,
+      type,
+      deviceInfo: context.deviceInfo ?? null,
+      ipAddress: context.ipAddress ?? null,
+      userAgent: context.userAgent ?? null,
+      details: details ?? null
+    });
+  }
+
+  // O aviso por email não pode impedir o login nem o bloqueio
+  private notifyUser(email: string, subject: string, lines: string[]) {
+    mailService.send({ to: email, subject, text: lines.join("\n") }).catch(error => {
+      console.error(`[LOGIN SECURITY] Erro ao enviar aviso para ${email}:`, error);
+    });
+  }
+
+  isLocked(user: { lockedUntil: Date | null }): boolean {
+    return !!user.lockedUntil && user.lockedUntil > new Date();
+  }
+
+  // Conta a falha e, a partir do limite, bloqueia a conta por um tempo que dobra a cada nova falha
+  async registerFailedLogin(userId: number, context: LoginContext): Promise<{ lockedUntil: Date | null }> {
+    const windowStart = new Date(Date.now() - LOGIN_FAILURE_WINDOW_HOURS * 60 * MINUTE_MS);
+    const [updated] = await db.update(users)
+      .set({
+        failedLoginAttempts: sql`CASE WHEN ${users.lastFailedLoginAt} IS NULL OR ${users.lastFailedLoginAt} < ${windowStart}
+          THEN 1 ELSE ${users.failedLoginAttempts} + 1 END`,
+        lastFailedLoginAt: new Date()
+      })
+      .where(eq(users.id, userId))
+      .returning();
+    if (!updated) return { lockedUntil: null };
+
+    const lockoutMinutes = getLockoutMinutes(updated.failedLoginAttempts);
+    if (lockoutMinutes === 0) return { lockedUntil: null };
+
+    const lockedUntil = new Date(Date.now() + lockoutMinutes * MINUTE_MS);
+    await db.update(users).set({ lockedUntil }).where(eq(users.id, userId));
+    await this.recordEvent(userId, 'account_locked', context, {
+      failedLoginAttempts: updated.failedLoginAttempts,
+      lockedUntil: lockedUntil.toISOString()
+    });
+    this.notifyUser(updated.email, "Conta bloqueada temporariamente", [
+      `Olá, ${updated.name}.`,
+      "",
+      `Houve ${updated.failedLoginAttempts} tentativas de login com senha errada na sua conta,`,
+      `a última a partir do IP ${context.ipAddress}. Por segurança, o login ficará bloqueado por ${lockoutMinutes} minuto(s).`,
+      "",
+      "Se não foi você, recomendamos redefinir a sua senha pela opção \"Esqueceu a senha?\" da tela de login."
+    ]);
+    return { lockedUntil };
+  }
+
+  async registerSuccessfulLogin(userId: number): Promise<void> {
+    await db.update(users)
+      .set({ failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null })
+      .where(eq(users.id, userId));
+  }
+
+  async listLockedAccounts(): Promise<LockedAccountSummary[]> {
+    const locked = await db.query.users.findMany({
+      where: gt(users.lockedUntil, new Date()),
+      orderBy: desc(users.lockedUntil)
+    });
+    return locked.map(user => ({
+      userId: user.id,
+      userName: user.name,
+      userEmail: user.email,
+      failedLoginAttempts: user.failedLoginAttempts,
+      lastFailedLoginAt: user.lastFailedLoginAt?.toISOString() ?? null,
+      lockedUntil: user.lockedUntil!.toISOString()
+    }));
+  }
+
+  async unlockAccount(userId: number, unlockedBy: number): Promise<void> {
+    const [updated] = await db.update(users)
+      .set({ failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null })
+      .where(eq(users.id, userId))
+      .returning();
+    if (!updated) {
+      throw new LoginSecurityError("Usuário não encontrado", 404);
+    }
+    await this.recordEvent(userId, 'account_unlocked', {}, { unlockedBy });
+  }
+
+  /**
+   * Chamado antes de registrar a nova sessão: compara o dispositivo e o IP com as sessões
+   * anteriores da conta. O primeiro login da conta não gera evento.
+   */
+  async detectLoginAnomalies(userId: number, email: string, context: LoginContext): Promise<SecurityEventType | null> {
+    const previousSession = await db.query.userSessions.findFirst({
+      where: eq(userSessions.userId, userId)
+    });
+    if (!previousSession) return null;
+
+    const knownDevice = await db.query.userSessions.findFirst({
+      where: and(eq(userSessions.userId, userId), eq(userSessions.deviceInfo, context.deviceInfo))
+    });
+    const knownIp = await db.query.userSessions.findFirst({
+      where: and(eq(userSessions.userId, userId), eq(userSessions.ipAddress, context.ipAddress))
+    });
+
+    const type: SecurityEventType | null = !knownDevice ? 'new_device' : !knownIp ? 'new_ip' : null;
+    if (!type) return null;
+
+    await this.recordEvent(userId, type, context);
+    if (type === 'new_device') {
+      this.notifyUser(email, "Novo login na sua conta", [
+        `Detectamos um login na sua conta a partir de um dispositivo novo (${context.deviceInfo}, IP ${context.ipAddress}).`,
+        "",
+        "Se foi você, nenhuma ação é necessária. Se não reconhece este acesso, encerre a sessão",
+        "na página \"Gerenciar Sessões\" e troque a sua senha."
+      ]);
+    }
+    return type;
+  }
+
+  async listEvents(userId: number): Promise<SecurityEventSummary[]> {
+    const events = await db.query.userSecurityEvents.findMany({
+      where: eq(userSecurityEvents.userId, userId),
+      orderBy: desc(userSecurityEvents.createdAt),
+      limit: SECURITY_EVENTS_LIMIT
+    });
+    return events.map(event => ({
+      id: event.id,
+      type: event.type,
+      deviceInfo: event.deviceInfo,
+      ipAddress: event.ipAddress,
+      details: event.details,
+      reviewedAt: event.reviewedAt?.toISOString() ?? null,
+      createdAt: event.createdAt.toISOString()
+    }));
+  }
+
+  // O usuário confirma que reconhece o evento
+  async markEventReviewed(userId: number, eventId: number): Promise<void> {
+    const [updated] = await db.update(userSecurityEvents)
+      .set({ reviewedAt: new Date() })
+      .where(and(eq(userSecurityEvents.id, eventId), eq(userSecurityEvents.userId, userId)))
+      .returning();
+    if (!updated) {
+      throw new LoginSecurityError("Evento de segurança não encontrado", 404);
+    }
+  }
+}
+
+export const loginSecurityService = new LoginSecurityService();
@@ -0,0 +1,115 @@
+import nodemailer from "nodemailer";
+import type { Transporter } from "nodemailer";
+import * as fs from "fs";
+import * as path from "path";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Meio de entrega dos emails do sistema (redefinição de senha, etc.)
+export interface MailTransport {
+  readonly name: 'smtp' | 'file' | 'console';
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+  private transporter: Transporter;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; password?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      ...(options.user ? { auth: { user: options.user, pass: options.password } } : {})
+    });
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+// Grava cada email como .json em um diretório: permite testar os fluxos sem servidor de email
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    fs.mkdirSync(this.directory, { recursive: true });
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const filePath = path.join(this.directory, `${timestamp}-${recipient}.json`);
+    fs.writeFileSync(filePath, JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2));
+  }
+}
+
+// Sem configuração de email: o conteúdo vai para o log do servidor
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log(`[MAIL] Para: ${message.to} | Assunto: ${message.subject}\n${message.text}`);
+  }
+}
+
+/**
+ * Transporte escolhido por variáveis de ambiente:
+ * - MAIL_TRANSPORT: smtp, file ou console (padrão: smtp se SMTP_HOST estiver definido, senão console)
+ * - SMTP_HOST, SMTP_PORT (587), SMTP_SECURE (true para TLS direto, normalmente na porta 465),
+ *   SMTP_USER, SMTP_PASSWORD
+ * - MAIL_FILE_DIR: diretório do transporte file (padrão: ./mail-outbox)
+ * - MAIL_FROM: remetente
+ */
+function createTransportFromEnv(): MailTransport {
+  const kind = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+
+  if (kind === 'smtp') {
+    if (!process.env.SMTP_HOST) {
+      throw new Error("MAIL_TRANSPORT=smtp exige SMTP_HOST");
+    }
+    return new SmtpMailTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587'),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD
+    });
+  }
+  if (kind === 'file') {
+    return new FileMailTransport(path.resolve(process.env.MAIL_FILE_DIR || 'mail-outbox'));
+  }
+  if (kind === 'console') {
+    return new ConsoleMailTransport();
+  }
+  throw new Error(`MAIL_TRANSPORT desconhecido: ${kind}`);
+}
+
+export class MailService {
+  private transport: MailTransport | null = null;
+
+  // Lido na primeira utilização para respeitar variáveis carregadas depois da importação
+  getTransport(): MailTransport {
+    if (!this.transport) {
+      this.transport = createTransportFromEnv();
+    }
+    return this.transport;
+  }
+
+  // Permite trocar o transporte (ex.: testes com FileMailTransport)
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const from = process.env.MAIL_FROM || 'AutoPlus <no-reply@localhost>';
+    await this.getTransport().send({ ...message, from });
+  }
+}
+
+export const mailService = new MailService();
@@ -0,0 +1,110 @@
+import { createHash, randomBytes } from "crypto";
+import { db } from "@db";
+import { passwordResetTokens, users } from "@shared/schema";
+import { and, count, eq, gt, isNull } from "drizzle-orm";
+import {
+  PASSWORD_RESET_MAX_REQUESTS_PER_HOUR,
+  PASSWORD_RESET_VALIDITY_MINUTES,
+  PasswordResetConfirm
+} from "@shared/passwordReset";
+import { getUserByEmail, hashPassword } from "../auth";
+import * as storage from "../storage";
+import { mailService } from "./mailTransport";
+
+// Erro da redefinição de senha com o status HTTP que a rota deve devolver
+export class PasswordResetError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = "PasswordResetError";
+  }
+}
+
+const MINUTE_MS = 60 * 1000;
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Esqueci minha senha. O pedido sempre responde da mesma forma, exista ou não a conta,
+ * para não revelar quais emails estão cadastrados; o link vai apenas para o email da conta.
+ */
+export class PasswordResetService {
+
+  async requestReset(email: string, baseUrl: string, ip: string | null): Promise<void> {
+    const user = await getUserByEmail(email);
+    if (!user || !user.isActive) return;
+
+    // Limite por conta, além do limite por IP da rota
+    const [{ total }] = await db.select({ total: count() })
+      .from(passwordResetTokens)
+      .where(and(
+        eq(passwordResetTokens.userId, user.id),
+        gt(passwordResetTokens.createdAt, new Date(Date.now() - 60 * MINUTE_MS))
+      ));
+    if (total >= PASSWORD_RESET_MAX_REQUESTS_PER_HOUR) {
+      console.warn(`[PASSWORD RESET] Limite de pedidos atingido para o usuário ${user.id}`);
+      return;
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    await db.transaction(async (tx) => {
+      // Só o link mais recente vale
+      await tx.update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(eq(passwordResetTokens.userId, user.id), isNull(passwordResetTokens.usedAt)));
+
+      await tx.insert(passwordResetTokens).values({
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + PASSWORD_RESET_VALIDITY_MINUTES * MINUTE_MS),
+        requestedIp: ip
+      });
+    });
+
+    const resetUrl = `${baseUrl}/auth?resetToken=${token}`;
+    await mailService.send({
+      to: user.email,
+      subject: "Redefinição de senha",
+      text: [
+        `Olá, ${user.name}.`,
+        "",
+        "Recebemos um pedido para redefinir a sua senha. Para escolher uma nova senha, acesse:",
+        resetUrl,
+        "",
+        `O link vale por ${PASSWORD_RESET_VALIDITY_MINUTES} minutos e pode ser usado uma única vez.`,
+        "Se você não fez este pedido, ignore este email: a sua senha continua a mesma."
+      ].join("\n")
+    });
+  }
+
+  // Troca a senha e consome o token; as sessões abertas da conta são encerradas e um
+  // bloqueio por tentativas de login é desfeito, já que o dono do email provou o acesso
+  async confirmReset(input: PasswordResetConfirm): Promise<{ userId: number }> {
+    const password = await hashPassword(input.password);
+
+    const userId = await db.transaction(async (tx) => {
+      const [claimed] = await tx.update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(passwordResetTokens.tokenHash, hashToken(input.token)),
+          isNull(passwordResetTokens.usedAt),
+          gt(passwordResetTokens.expiresAt, new Date())
+        ))
+        .returning();
+      if (!claimed) {
+        throw new PasswordResetError("Link de redefinição inválido ou expirado. Solicite um novo link", 410);
+      }
+
+      await tx.update(users)
+        .set({ password, failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null, updatedAt: new Date() })
+        .where(eq(users.id, claimed.userId));
+      return claimed.userId;
+    });
+
+    await storage.deactivateAllUserSessions(userId);
+    return { userId };
+  }
+}
+
+export const passwordResetService = new PasswordResetService();
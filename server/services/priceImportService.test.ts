@@ -0,0 +1,73 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import ExcelJS from "exceljs";
+import { parseCsv, parsePrice, parseXlsx, PriceImportError } from "./priceImportService";
+
+test("preço aceita o formato do export, o brasileiro e o com R$", () => {
+  assert.equal(parsePrice("123456.00"), 123456);
+  assert.equal(parsePrice("123.456,78"), 123456.78);
+  assert.equal(parsePrice("R$ 123.456,78"), 123456.78);
+  assert.equal(parsePrice("123.456"), 123456);
+  assert.equal(parsePrice(99999.999), 100000);
+});
+
+test("preço vazio mantém o atual e preço inválido é rejeitado", () => {
+  assert.equal(parsePrice(undefined), undefined);
+  assert.equal(parsePrice(null), undefined);
+  assert.equal(parsePrice("  "), undefined);
+  assert.equal(parsePrice("abc"), null);
+  assert.equal(parsePrice("-10,00"), null);
+});
+
+test("CSV com ponto e vírgula, aspas e BOM", () => {
+  const csv = "﻿Marca;Modelo;Versão;Ano;Preço Público\r\n" +
+    "Fiat;Argo;\"Drive 1.0; \"\"Flex\"\"\";2025;\"85.990,00\"\r\n" +
+    "\r\n" +
+    "Fiat;Mobi;Like;2025;69990.00\r\n";
+  const sheet = parseCsv(Buffer.from(csv, "utf8"));
+
+  assert.deepEqual(sheet.headers, ["Marca", "Modelo", "Versão", "Ano", "Preço Público"]);
+  assert.deepEqual(sheet.rows, [
+    { line: 2, cells: ["Fiat", "Argo", "Drive 1.0; \"Flex\"", "2025", "85.990,00"] },
+    { line: 4, cells: ["Fiat", "Mobi", "Like", "2025", "69990.00"] }
+  ]);
+});
+
+test("CSV separado por vírgula e salvo em Windows-1252", () => {
+  const csv = "Marca,Modelo,Versão,Ano,Preço Público\nFiat,Argo,Drive,2025,85990\n";
+  const sheet = parseCsv(Buffer.from(csv, "latin1"));
+
+  assert.deepEqual(sheet.headers, ["Marca", "Modelo", "Versão", "Ano", "Preço Público"]);
+  assert.deepEqual(sheet.rows, [{ line: 2, cells: ["Fiat", "Argo", "Drive", "2025", "85990"] }]);
+});
+
+test("CSV com quebra de linha dentro de aspas mantém a numeração das linhas", () => {
+  const csv = "Marca;Modelo;Versão;Ano\nFiat;Argo;\"Drive\n1.0\";2025\nFiat;Mobi;Like;2025";
+  const sheet = parseCsv(Buffer.from(csv, "utf8"));
+
+  assert.deepEqual(sheet.rows.map(row => row.line), [2, 4]);
+  assert.equal(sheet.rows[0].cells[2], "Drive\n1.0");
+  assert.deepEqual(sheet.rows[1].cells, ["Fiat", "Mobi", "Like", "2025"]);
+});
+
+test("XLSX lê a primeira aba com fórmulas e ignora linhas vazias", async () => {
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet("Preços");
+  worksheet.addRow(["Marca", "Modelo", "Versão", "Ano", "Preço Público"]);
+  worksheet.addRow(["Fiat", "Argo", "Drive", 2025, 85990]);
+  worksheet.addRow([]);
+  worksheet.addRow(["Fiat", "Mobi", { richText: [{ text: "Li" }, { text: "ke" }] }, 2025, { formula: "60000+9990", result: 69990 }]);
+  const buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+
+  const sheet = await parseXlsx(buffer);
+
+  assert.deepEqual(sheet.headers, ["Marca", "Modelo", "Versão", "Ano", "Preço Público"]);
+  assert.deepEqual(sheet.rows, [
+    { line: 2, cells: ["Fiat", "Argo", "Drive", 2025, 85990] },
+    { line: 4, cells: ["Fiat", "Mobi", "Like", 2025, 69990] }
+  ]);
+});
+
+test("XLSX corrompido gera erro de importação", async () => {
+  await assert.rejects(parseXlsx(Buffer.from("PK não é uma planilha")), PriceImportError);
+});
@@ -0,0 +1,449 @@
+import { db } from "@db";
+import { vehiclePrices, vehicles } from "@shared/schema";
+import { isNull } from "drizzle-orm";
+import ExcelJS from "exceljs";
+import {
+  applyEffectivePrices,
+  ensureVehiclePriceBaseline,
+  syncVehicleCurrentPrices,
+  todayDate
+} from "../storage";
+import { roundCurrency, toAmount } from "@shared/pricing";
+import {
+  IMPORT_PRICE_FIELDS,
+  ImportPriceField,
+  PriceImportChange,
+  PriceImportResult,
+  PriceImportRow
+} from "@shared/priceImport";
+
+// Erro de importação com o status HTTP que a rota deve devolver
+export class PriceImportError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = "PriceImportError";
+  }
+}
+
+type ImportColumn = 'brand' | 'model' | 'version' | 'year' | ImportPriceField;
+
+// Cabeçalhos aceitos (normalizados, sem acento/pontuação) -> coluna.
+// Inclui os títulos gerados por /api/vehicles/export e os nomes dos campos do cadastro.
+const HEADER_ALIASES: Record<string, ImportColumn> = {
+  marca: 'brand',
+  brand: 'brand',
+  modelo: 'model',
+  model: 'model',
+  versao: 'version',
+  version: 'version',
+  ano: 'year',
+  year: 'year',
+  precopublico: 'publicPrice',
+  publicprice: 'publicPrice',
+  deffisicoipiicms: 'pcdIpiIcms',
+  pcdipiicms: 'pcdIpiIcms',
+  deffisicoipi: 'pcdIpi',
+  pcdipi: 'pcdIpi',
+  taxiipiicms: 'taxiIpiIcms',
+  taxiipi: 'taxiIpi'
+};
+
+interface ParsedSheet {
+  headers: string[];
+  // Cada linha com o número da linha no arquivo (para o usuário localizar o erro)
+  rows: Array<{ line: number; cells: unknown[] }>;
+}
+
+function normalizeHeader(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+// Chave de comparação de nomes: ignora caixa e espaços extras
+function normalizeName(value: string): string {
+  return value.trim().replace(/\s+/g, ' ').toLocaleLowerCase('pt-BR');
+}
+
+function vehicleKey(brand: string, model: string, version: string, year: number): string {
+  return [normalizeName(brand), normalizeName(model), normalizeName(version), year].join('|');
+}
+
+function cellToString(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return String(value).trim();
+}
+
+/**
+ * Converte um preço da planilha para número.
+ * Aceita "123456.00" (formato do export), "123.456,00" e "R$ 123.456,00".
+ * Retorna undefined para célula vazia (mantém o preço atual) e null para valor inválido.
+ */
+export function parsePrice(value: unknown): number | null | undefined {
+  if (value === null || value === undefined) return undefined;
+
+  let amount: number;
+  if (typeof value === 'number') {
+    amount = value;
+  } else {
+    let text = String(value).replace(/R\$/gi, '').replace(/\s/g, '');
+    if (text === '') return undefined;
+
+    if (text.includes(',')) {
+      // Formato brasileiro: ponto como milhar e vírgula como decimal
+      text = text.replace(/\./g, '').replace(',', '.');
+    } else if (/^\d{1,3}(\.\d{3})+$/.test(text)) {
+      // Apenas separadores de milhar (ex.: 123.456)
+      text = text.replace(/\./g, '');
+    }
+    amount = Number(text);
+  }
+
+  if (!Number.isFinite(amount) || amount < 0) return null;
+  return roundCurrency(amount);
+}
+
+// Decodifica o CSV em UTF-8; arquivos salvos pelo Excel em Windows-1252 caem para latin1
+function decodeCsv(buffer: Buffer): string {
+  const utf8 = buffer.toString('utf8');
+  const text = utf8.includes('\uFFFD') ? buffer.toString('latin1') : utf8;
+  return text.replace(/^\uFEFF/, '');
+}
+
+export function parseCsv(buffer: Buffer): ParsedSheet {
+  const text = decodeCsv(buffer);
+
+  // O export usa ponto e vírgula; aceita vírgula se for o separador da primeira linha
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = (firstLine.match(/;/g) || []).length >= (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+  const records: Array<{ line: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const pushRecord = () => {
+    cells.push(field);
+    if (cells.some(cell => cell.trim() !== '')) {
+      records.push({ line: recordLine, cells });
+    }
+    cells = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      pushRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || cells.length > 0) {
+    pushRecord();
+  }
+
+  const [header, ...rows] = records;
+  return {
+    headers: header ? header.cells.map(cell => cell.trim()) : [],
+    rows
+  };
+}
+
+// Extrai o valor "visível" de uma célula do ExcelJS (fórmulas, rich text, hyperlinks)
+function xlsxCellValue(value: ExcelJS.CellValue): unknown {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'object') return value;
+  if (value instanceof Date) return value.toISOString();
+  if ('result' in value) return xlsxCellValue(value.result as ExcelJS.CellValue);
+  if ('richText' in value) return value.richText.map(part => part.text).join('');
+  if ('text' in value) return value.text;
+  return null;
+}
+
+export async function parseXlsx(buffer: Buffer): Promise<ParsedSheet> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(buffer);
+  } catch (error) {
+    throw new PriceImportError("Não foi possível ler a planilha XLSX");
+  }
+
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) {
+    throw new PriceImportError("A planilha não possui abas");
+  }
+
+  let headers: string[] = [];
+  const rows: ParsedSheet['rows'] = [];
+  worksheet.eachRow((row, rowNumber) => {
+    // row.values começa no índice 1 (coluna A)
+    const cells = (row.values as ExcelJS.CellValue[]).slice(1).map(xlsxCellValue);
+    if (headers.length === 0) {
+      headers = cells.map(cellToString);
+      return;
+    }
+    if (cells.some(cell => cellToString(cell) !== '')) {
+      rows.push({ line: rowNumber, cells });
+    }
+  });
+
+  return { headers, rows };
+}
+
+export interface PriceImportOptions {
+  dryRun?: boolean;
+  // Data a partir da qual a nova tabela vale (AAAA-MM-DD); padrão: hoje
+  effectiveFrom?: string;
+  userId?: number;
+}
+
+export class PriceImportService {
+  /**
+   * Lê o arquivo (CSV do export ou XLSX), cruza as linhas com os veículos cadastrados
+   * por marca/modelo/versão/ano e calcula as diferenças em relação aos preços vigentes em effectiveFrom.
+   * Com dryRun = false, grava todas as alterações no histórico de preços em uma única transação.
+   */
+  async importPrices(buffer: Buffer, fileName: string, options: PriceImportOptions = {}): Promise<PriceImportResult> {
+    const dryRun = options.dryRun ?? true;
+    const effectiveFrom = options.effectiveFrom || todayDate();
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveFrom)) {
+      throw new PriceImportError("Data de vigência inválida (use AAAA-MM-DD)");
+    }
+
+    const sheet = await this.parseFile(buffer, fileName);
+    const columns = this.mapColumns(sheet.headers);
+
+    const registeredVehicles = await db.query.vehicles.findMany({
+      where: isNull(vehicles.deletedAt),
+      with: {
+        version: {
+          with: {
+            model: {
+              with: { brand: true }
+            }
+          }
+        }
+      }
+    });
+    const allVehicles = await applyEffectivePrices(registeredVehicles, effectiveFrom);
+
+    const vehiclesByKey = new Map<string, typeof allVehicles>();
+    for (const vehicle of allVehicles) {
+      const brandName = vehicle.version?.model?.brand?.name;
+      const modelName = vehicle.version?.model?.name;
+      const versionName = vehicle.version?.name;
+      if (!brandName || !modelName || !versionName) continue;
+
+      const key = vehicleKey(brandName, modelName, versionName, vehicle.year);
+      vehiclesByKey.set(key, [...(vehiclesByKey.get(key) || []), vehicle]);
+    }
+
+    const seenKeys = new Map<string, number>();
+    // Novos preços por linha, usados na aplicação
+    const updates: Array<{ vehicles: typeof allVehicles; prices: Partial<Record<ImportPriceField, number>> }> = [];
+
+    const rows: PriceImportRow[] = sheet.rows.map(({ line, cells }) => {
+      const valueOf = (column: ImportColumn) => {
+        const index = columns[column];
+        return index === undefined ? undefined : cells[index];
+      };
+
+      const row: PriceImportRow = {
+        line,
+        brand: cellToString(valueOf('brand')),
+        model: cellToString(valueOf('model')),
+        version: cellToString(valueOf('version')),
+        year: null,
+        status: 'invalid',
+        vehicleIds: [],
+        changes: []
+      };
+
+      const yearText = cellToString(valueOf('year'));
+      const year = /^\d{4}$/.test(yearText) ? parseInt(yearText) : NaN;
+      if (!row.brand || !row.model || !row.version || isNaN(year)) {
+        row.error = "Marca, modelo, versão e ano (4 dígitos) são obrigatórios";
+        return row;
+      }
+      row.year = year;
+
+      const prices: Partial<Record<ImportPriceField, number>> = {};
+      const invalidFields: string[] = [];
+      for (const field of IMPORT_PRICE_FIELDS) {
+        const price = parsePrice(valueOf(field));
+        if (price === null) {
+          invalidFields.push(sheet.headers[columns[field]!] || field);
+        } else if (price !== undefined) {
+          prices[field] = price;
+        }
+      }
+      if (invalidFields.length > 0) {
+        row.error = `Preço inválido em: ${invalidFields.join(', ')}`;
+        return row;
+      }
+      if (prices.publicPrice === 0) {
+        row.error = "Preço público não pode ser zero";
+        return row;
+      }
+
+      const key = vehicleKey(row.brand, row.model, row.version, year);
+      const duplicateOf = seenKeys.get(key);
+      if (duplicateOf !== undefined) {
+        row.error = `Veículo repetido (já informado na linha ${duplicateOf})`;
+        return row;
+      }
+      seenKeys.set(key, line);
+
+      const matches = vehiclesByKey.get(key) || [];
+      if (matches.length === 0) {
+        row.status = 'not_found';
+        return row;
+      }
+      row.vehicleIds = matches.map(vehicle => vehicle.id);
+
+      // Compara com o preço atual; com mais de um veículo (ex.: cores diferentes),
+      // mostra o valor do primeiro que estiver diferente
+      const changes: PriceImportChange[] = [];
+      for (const field of IMPORT_PRICE_FIELDS) {
+        const newValue = prices[field];
+        if (newValue === undefined) continue;
+        const differing = matches.find(vehicle => roundCurrency(toAmount(vehicle[field])) !== newValue);
+        if (differing) {
+          changes.push({ field, oldValue: roundCurrency(toAmount(differing[field])), newValue });
+        }
+      }
+
+      row.changes = changes;
+      row.status = changes.length > 0 ? 'changed' : 'unchanged';
+      if (changes.length > 0) {
+        updates.push({ vehicles: matches, prices });
+      }
+      return row;
+    });
+
+    const summary = {
+      totalRows: rows.length,
+      changed: rows.filter(row => row.status === 'changed').length,
+      unchanged: rows.filter(row => row.status === 'unchanged').length,
+      notFound: rows.filter(row => row.status === 'not_found').length,
+      invalid: rows.filter(row => row.status === 'invalid').length,
+      vehiclesUpdated: updates.reduce((sum, update) => sum + update.vehicles.length, 0)
+    };
+
+    if (dryRun || updates.length === 0) {
+      return { dryRun, applied: false, fileName, effectiveFrom, summary, rows };
+    }
+
+    // Uma tabela com linhas inválidas não é aplicada pela metade
+    if (summary.invalid > 0) {
+      throw new PriceImportError(`O arquivo possui ${summary.invalid} linha(s) inválida(s). Corrija-as antes de aplicar.`);
+    }
+
+    await db.transaction(async (tx) => {
+      for (const update of updates) {
+        for (const vehicle of update.vehicles) {
+          // Colunas vazias no arquivo mantêm o preço vigente na data
+          const values = {} as Record<ImportPriceField, string>;
+          for (const field of IMPORT_PRICE_FIELDS) {
+            const price = update.prices[field];
+            values[field] = price !== undefined ? price.toFixed(2) : vehicle[field];
+          }
+
+          await ensureVehiclePriceBaseline(vehicle.id, tx);
+          await tx.insert(vehiclePrices).values({
+            ...values,
+            vehicleId: vehicle.id,
+            effectiveFrom,
+            source: 'import',
+            notes: `Importado de ${fileName}`,
+            createdBy: options.userId ?? null
+          });
+          await syncVehicleCurrentPrices(vehicle.id, tx);
+        }
+      }
+    });
+
+    return { dryRun, applied: true, fileName, effectiveFrom, summary, rows };
+  }
+
+  private async parseFile(buffer: Buffer, fileName: string): Promise<ParsedSheet> {
+    if (!buffer || buffer.length === 0) {
+      throw new PriceImportError("Arquivo vazio");
+    }
+
+    const extension = fileName.toLowerCase().split('.').pop();
+    // Arquivos XLSX são ZIP (assinatura "PK")
+    const isZip = buffer[0] === 0x50 && buffer[1] === 0x4b;
+
+    let sheet: ParsedSheet;
+    if (extension === 'xlsx' || isZip) {
+      sheet = await parseXlsx(buffer);
+    } else if (extension === 'csv' || extension === 'txt') {
+      sheet = parseCsv(buffer);
+    } else {
+      throw new PriceImportError("Formato não suportado. Envie um arquivo CSV ou XLSX");
+    }
+
+    if (sheet.rows.length === 0) {
+      throw new PriceImportError("O arquivo não possui linhas de dados");
+    }
+    return sheet;
+  }
+
+  // Localiza o índice de cada coluna a partir do cabeçalho
+  private mapColumns(headers: string[]): Partial<Record<ImportColumn, number>> {
+    const columns: Partial<Record<ImportColumn, number>> = {};
+    headers.forEach((header, index) => {
+      const column = HEADER_ALIASES[normalizeHeader(header)];
+      if (column && columns[column] === undefined) {
+        columns[column] = index;
+      }
+    });
+
+    // A exportação por UF traz preços com o ajuste regional; importá-la gravaria esses valores como nacionais
+    if (headers.some(header => normalizeHeader(header) === 'uf')) {
+      throw new PriceImportError("O arquivo é uma exportação por UF (preços com ajuste regional). Exporte a tabela nacional para importar preços");
+    }
+
+    const missing = (['brand', 'model', 'version', 'year'] as const)
+      .filter(column => columns[column] === undefined);
+    if (missing.length > 0) {
+      throw new PriceImportError("Cabeçalho inválido: as colunas Marca, Modelo, Versão e Ano são obrigatórias");
+    }
+    if (!IMPORT_PRICE_FIELDS.some(field => columns[field] !== undefined)) {
+      throw new PriceImportError("Cabeçalho inválido: nenhuma coluna de preço encontrada");
+    }
+    return columns;
+  }
+}
+
+export const priceImportService = new PriceImportService();
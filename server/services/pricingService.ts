@@ -0,0 +1,160 @@
+import { db } from "@db";
+import { vehicles, versions, versionColors, versionOptionals, directSales } from "@shared/schema";
+import { and, asc, eq, inArray, isNull } from "drizzle-orm";
+import { applyEffectivePrices, getRegionalPricing } from "../storage";
+import { calculatePricing, pricingRequestSchema, PricingRequest, PricingResult } from "@shared/pricing";
+
+// Erro de precificação com o status HTTP que a rota deve devolver
+export class PricingError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = "PricingError";
+  }
+}
+
+export class PricingService {
+  /**
+   * Calcula o preço de uma configuração usando os valores cadastrados no banco.
+   * Preços nunca são aceitos do cliente: apenas ids, tipo de preço, desconto manual, ágio, quantidade
+   * e a UF de venda, cujo ajuste e frete vêm da tabela de preços regionais.
+   */
+  async calculate(request: PricingRequest): Promise<PricingResult> {
+    const input = pricingRequestSchema.parse(request);
+
+    const version = await db.query.versions.findFirst({
+      where: and(eq(versions.id, input.versionId), isNull(versions.deletedAt)),
+      with: { model: true }
+    });
+    if (!version) {
+      throw new PricingError("Versão não encontrada", 404);
+    }
+
+    const registeredVehicle = await this.findVehicle(input.versionId, input.vehicleId);
+    // Preços da tabela vigente na data pedida (histórico de preços)
+    const [vehicle] = await applyEffectivePrices([registeredVehicle], input.date || undefined);
+
+    let paintPrice = 0;
+    let colorName: string | null = null;
+    if (input.colorId) {
+      const versionColor = await db.query.versionColors.findFirst({
+        where: and(
+          eq(versionColors.versionId, input.versionId),
+          eq(versionColors.colorId, input.colorId),
+          isNull(versionColors.deletedAt)
+        ),
+        with: { color: true }
+      });
+      if (!versionColor) {
+        throw new PricingError("Cor não disponível para esta versão");
+      }
+      paintPrice = Number(versionColor.price) || 0;
+      colorName = versionColor.color?.name || null;
+    }
+
+    const optionalIds = Array.from(new Set(input.optionalIds));
+    const selectedOptionals = optionalIds.length > 0
+      ? await db.query.versionOptionals.findMany({
+          where: and(
+            eq(versionOptionals.versionId, input.versionId),
+            inArray(versionOptionals.optionalId, optionalIds),
+            isNull(versionOptionals.deletedAt)
+          ),
+          with: { optional: true }
+        })
+      : [];
+    if (selectedOptionals.length !== optionalIds.length) {
+      throw new PricingError("Um ou mais opcionais não estão disponíveis para esta versão");
+    }
+
+    let discountPercentage = input.discountPercentage || 0;
+    let directSaleName: string | null = null;
+    if (input.directSaleId) {
+      const directSale = await db.query.directSales.findFirst({
+        where: eq(directSales.id, input.directSaleId)
+      });
+      if (!directSale) {
+        throw new PricingError("Venda direta não encontrada", 404);
+      }
+
+      // A venda direta precisa valer para a marca/modelo/versão e para o tipo de preço escolhido
+      const appliesToVehicle =
+        (!directSale.versionId || directSale.versionId === version.id) &&
+        (!directSale.modelId || directSale.modelId === version.modelId) &&
+        (!directSale.brandId || directSale.brandId === version.model?.brandId);
+      const appliesToPriceType = (directSale.priceType || 'public') === input.priceType;
+      if (!appliesToVehicle || !appliesToPriceType) {
+        throw new PricingError("Venda direta não se aplica a esta configuração");
+      }
+
+      discountPercentage = Number(directSale.discountPercentage) || 0;
+      directSaleName = directSale.name;
+    }
+
+    let regionalAdjustmentPercentage = 0;
+    let freightAmount = 0;
+    if (input.state && version.model) {
+      const regional = await getRegionalPricing(input.state);
+      regionalAdjustmentPercentage = regional.adjustmentPercentage;
+      freightAmount = regional.freightFor(version.model.brandId, version.modelId);
+    }
+
+    const breakdown = calculatePricing({
+      prices: vehicle,
+      priceType: input.priceType,
+      paintPrice,
+      // Mantém a ordem em que os opcionais foram selecionados
+      optionals: optionalIds.map(optionalId => {
+        const versionOptional = selectedOptionals.find(vo => vo.optionalId === optionalId)!;
+        return {
+          optionalId,
+          name: versionOptional.optional?.name,
+          price: versionOptional.price
+        };
+      }),
+      discountPercentage,
+      surchargeAmount: input.surchargeAmount,
+      quantity: input.quantity,
+      regionalAdjustmentPercentage,
+      freightAmount
+    });
+
+    return {
+      ...breakdown,
+      vehicleId: vehicle.id,
+      versionId: version.id,
+      colorId: input.colorId || null,
+      colorName,
+      directSaleId: input.directSaleId || null,
+      directSaleName,
+      state: input.state || null
+    };
+  }
+
+  // O veículo informado (precisa ser da versão) ou o único veículo cadastrado para a versão
+  private async findVehicle(versionId: number, vehicleId?: number | null) {
+    if (vehicleId) {
+      const vehicle = await db.query.vehicles.findFirst({
+        where: and(eq(vehicles.id, vehicleId), isNull(vehicles.deletedAt))
+      });
+      if (!vehicle || vehicle.versionId !== versionId) {
+        throw new PricingError("Veículo não encontrado para esta versão", 404);
+      }
+      return vehicle;
+    }
+
+    const candidates = await db.query.vehicles.findMany({
+      where: and(eq(vehicles.versionId, versionId), isNull(vehicles.deletedAt)),
+      orderBy: asc(vehicles.id),
+      limit: 2
+    });
+    if (candidates.length === 0) {
+      throw new PricingError("Nenhum veículo cadastrado para esta versão", 404);
+    }
+    if (candidates.length > 1) {
+      throw new PricingError("Há mais de um veículo cadastrado para esta versão; informe o veículo", 409);
+    }
+    return candidates[0];
+  }
+}
+
+export const pricingService = new PricingService();
@@ -0,0 +1,403 @@
+import PDFDocument from "pdfkit";
+import { VehicleReportData } from "@shared/report";
+
+// Dados do consultor impressos no rodapé do relatório
+export interface ReportConsultant {
+  name: string;
+  email: string;
+  cnpj?: string | null;
+  phone?: string | null;
+  address?: string | null;
+}
+
+export interface ReportCompany {
+  name: string;
+  logoUrl?: string | null;
+}
+
+const PAGE_MARGIN = 40;
+const COLUMN_GAP = 24;
+const IMAGE_FETCH_TIMEOUT_MS = 8000;
+const IMAGE_MAX_BYTES = 5 * 1024 * 1024;
+
+const COLORS = {
+  text: '#374151',
+  muted: '#6b7280',
+  border: '#e5e7eb',
+  grayBg: '#f9fafb',
+  blueBg: '#eff6ff',
+  blueText: '#1d4ed8',
+  blueStrong: '#1e3a8a',
+  red: '#dc2626',
+  green: '#16a34a'
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  }).format(value);
+
+export class ReportPdfService {
+  /**
+   * Gera o PDF do relatório do veículo com o mesmo conteúdo do VehicleReport:
+   * logo da empresa, dados do veículo, imagem da cor, resumo financeiro, itens de série e consultor.
+   * As imagens vêm das configurações e do catálogo (vehicleImageUrl), nunca do payload do cliente.
+   */
+  async generateVehicleReport(
+    data: VehicleReportData,
+    company: ReportCompany,
+    consultant: ReportConsultant,
+    vehicleImageUrl: string | null = null
+  ): Promise<Buffer> {
+    const [logo, vehicleImage] = await Promise.all([
+      company.logoUrl ? this.loadImage(company.logoUrl) : Promise.resolve(null),
+      this.loadImage(vehicleImageUrl)
+    ]);
+
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: PAGE_MARGIN,
+      info: {
+        Title: `Relatório - ${data.brand} ${data.model} ${data.version}`,
+        Author: company.name
+      }
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    const finished = new Promise<Buffer>((resolve, reject) => {
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+    const columnWidth = (contentWidth - COLUMN_GAP) / 2;
+    const leftX = PAGE_MARGIN;
+    const rightX = PAGE_MARGIN + columnWidth + COLUMN_GAP;
+
+    doc.fillColor(COLORS.text);
+
+    // Cabeçalho com logo (ou nome da empresa como alternativa)
+    let y = PAGE_MARGIN;
+    if (logo) {
+      try {
+        doc.image(logo, leftX, y, { fit: [contentWidth, 60], align: 'center', valign: 'center' });
+        y += 60 + 16;
+      } catch (error) {
+        console.error("Erro ao inserir logo no PDF:", error);
+        y = this.drawCompanyName(doc, company.name, y, contentWidth);
+      }
+    } else {
+      y = this.drawCompanyName(doc, company.name, y, contentWidth);
+    }
+
+    // Coluna esquerda: informações principais
+    let leftY = y;
+    doc.font('Helvetica-Bold').fontSize(14).fillColor(COLORS.text)
+      .text(`${data.brand} ${data.model} ${data.version}`, leftX, leftY, { width: columnWidth });
+    leftY = doc.y + 6;
+
+    doc.font('Helvetica').fontSize(10).fillColor(COLORS.muted)
+      .text(`Ano: ${data.year} | Combustível: ${data.fuelType.toUpperCase()}`, leftX, leftY, { width: columnWidth });
+    leftY = doc.y + 4;
+
+    if (data.selectedColor) {
+      doc.text(`Cor: ${data.selectedColor.name}`, leftX, leftY, { width: columnWidth });
+      leftY = doc.y + 4;
+    }
+
+    leftY += 6;
+    doc.roundedRect(leftX, leftY, columnWidth, 48, 4).fill(COLORS.blueBg);
+    doc.font('Helvetica').fontSize(9).fillColor(COLORS.blueText)
+      .text(data.priceType, leftX + 10, leftY + 8, { width: columnWidth - 20 });
+    doc.font('Helvetica-Bold').fontSize(16).fillColor(COLORS.blueStrong)
+      .text(formatCurrency(data.basePrice), leftX + 10, leftY + 22, { width: columnWidth - 20 });
+    leftY += 48 + 14;
+
+    if (data.selectedOptionals.length > 0) {
+      doc.font('Helvetica-Bold').fontSize(11).fillColor(COLORS.text)
+        .text('Opcionais Selecionados', leftX, leftY, { width: columnWidth });
+      leftY = doc.y + 6;
+
+      doc.font('Helvetica').fontSize(9);
+      for (const optional of data.selectedOptionals) {
+        leftY = this.drawAmountRow(doc, optional.name, formatCurrency(optional.price), leftX, leftY, columnWidth);
+      }
+    }
+
+    // Coluna direita: imagem do veículo e resumo financeiro
+    let rightY = y;
+    const imageHeight = 130;
+    if (vehicleImage) {
+      try {
+        doc.image(vehicleImage, rightX, rightY, { fit: [columnWidth, imageHeight], align: 'center', valign: 'center' });
+      } catch (error) {
+        console.error("Erro ao inserir imagem do veículo no PDF:", error);
+        this.drawImagePlaceholder(doc, rightX, rightY, columnWidth, imageHeight);
+      }
+    } else {
+      this.drawImagePlaceholder(doc, rightX, rightY, columnWidth, imageHeight);
+    }
+    rightY += imageHeight + 12;
+
+    rightY = this.drawFinancialSummary(doc, data, rightX, rightY, columnWidth);
+
+    y = Math.max(leftY, rightY) + 16;
+
+    // Itens de série em duas colunas ocupando toda a largura
+    const seriesItems = data.vehicleDescription?.split('\n').map(item => item.trim()).filter(Boolean) || [];
+    if (seriesItems.length > 0) {
+      y = this.drawSeparator(doc, y, contentWidth);
+      doc.font('Helvetica-Bold').fontSize(11).fillColor(COLORS.text)
+        .text('Itens de Série', leftX, y, { width: contentWidth });
+      y = doc.y + 6;
+
+      const midPoint = Math.ceil(seriesItems.length / 2);
+      const leftItems = seriesItems.slice(0, midPoint);
+      const rightItems = seriesItems.slice(midPoint);
+
+      doc.font('Helvetica').fontSize(8).fillColor(COLORS.text);
+      for (let i = 0; i < leftItems.length; i++) {
+        const rowHeight = Math.max(
+          doc.heightOfString(`• ${leftItems[i]}`, { width: columnWidth }),
+          rightItems[i] ? doc.heightOfString(`• ${rightItems[i]}`, { width: columnWidth }) : 0
+        );
+        y = this.ensureSpace(doc, y, rowHeight);
+        doc.text(`• ${leftItems[i]}`, leftX, y, { width: columnWidth });
+        if (rightItems[i]) {
+          doc.text(`• ${rightItems[i]}`, rightX, y, { width: columnWidth });
+        }
+        y += rowHeight + 2;
+      }
+      y += 10;
+    }
+
+    // Dados do cliente
+    if (data.customer) {
+      y = this.ensureSpace(doc, y, 90);
+      y = this.drawSeparator(doc, y, contentWidth);
+      doc.font('Helvetica-Bold').fontSize(12).fillColor(COLORS.text)
+        .text('Dados do Cliente', leftX, y, { width: contentWidth });
+      y = doc.y + 6;
+
+      const customerLeft: Array<[string, string]> = [
+        ['Nome', data.customer.name],
+        [data.customer.document.length > 14 ? 'CNPJ' : 'CPF', data.customer.document],
+        ['Tipo', data.customer.typeLabel]
+      ];
+      const customerRight: Array<[string, string]> = [];
+      if (data.customer.email) customerRight.push(['Email', data.customer.email]);
+      if (data.customer.phone) customerRight.push(['Telefone', data.customer.phone]);
+      if (data.customer.address) customerRight.push(['Endereço', data.customer.address]);
+
+      const customerLeftEnd = this.drawLabeledLines(doc, customerLeft, leftX, y, columnWidth);
+      const customerRightEnd = this.drawLabeledLines(doc, customerRight, rightX, y, columnWidth);
+      y = Math.max(customerLeftEnd, customerRightEnd) + 12;
+    }
+
+    // Dados do consultor
+    y = this.ensureSpace(doc, y, 90);
+    y = this.drawSeparator(doc, y, contentWidth);
+    doc.font('Helvetica-Bold').fontSize(12).fillColor(COLORS.text)
+      .text('Dados do Consultor', leftX, y, { width: contentWidth });
+    y = doc.y + 6;
+
+    const consultantLeft: Array<[string, string]> = [
+      ['Nome', consultant.name],
+      ['Email', consultant.email]
+    ];
+    if (consultant.cnpj) consultantLeft.push(['CNPJ', consultant.cnpj]);
+    const consultantRight: Array<[string, string]> = [];
+    if (consultant.phone) consultantRight.push(['Telefone', consultant.phone]);
+    if (consultant.address) consultantRight.push(['Endereço', consultant.address]);
+
+    const consultantLeftEnd = this.drawLabeledLines(doc, consultantLeft, leftX, y, columnWidth);
+    const consultantRightEnd = this.drawLabeledLines(doc, consultantRight, rightX, y, columnWidth);
+    y = Math.max(consultantLeftEnd, consultantRightEnd) + 12;
+
+    // Rodapé
+    y = this.ensureSpace(doc, y, 30);
+    y = this.drawSeparator(doc, y, contentWidth);
+    const now = new Date();
+    doc.font('Helvetica').fontSize(9).fillColor(COLORS.muted)
+      .text(
+        `Relatório gerado em ${now.toLocaleDateString('pt-BR')} às ${now.toLocaleTimeString('pt-BR')}`,
+        leftX, y, { width: contentWidth, align: 'center' }
+      );
+
+    doc.end();
+    return finished;
+  }
+
+  /**
+   * Baixa uma imagem para inserir no PDF. O PDFKit só aceita PNG e JPEG;
+   * qualquer outro formato, falha de rede ou imagem acima de IMAGE_MAX_BYTES é ignorado
+   * (o relatório segue sem a imagem)
+   */
+  private async loadImage(url: string | null): Promise<Buffer | null> {
+    if (!url) return null;
+
+    try {
+      let buffer: Buffer;
+      if (url.startsWith('data:')) {
+        const base64 = url.split(',')[1];
+        if (!base64) return null;
+        buffer = Buffer.from(base64, 'base64');
+      } else if (/^https?:\/\//i.test(url)) {
+        const response = await fetch(url, { signal: AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS) });
+        if (!response.ok || !response.body) return null;
+        if (Number(response.headers.get('content-length') || 0) > IMAGE_MAX_BYTES) {
+          await response.body.cancel();
+          return null;
+        }
+        const limited = await this.readLimited(response.body, IMAGE_MAX_BYTES);
+        if (!limited) return null;
+        buffer = limited;
+      } else {
+        return null;
+      }
+
+      const isPng = buffer.length > 8 && buffer.readUInt32BE(0) === 0x89504e47;
+      const isJpeg = buffer.length > 3 && buffer[0] === 0xff && buffer[1] === 0xd8;
+      return isPng || isJpeg ? buffer : null;
+    } catch (error) {
+      console.error(`Erro ao carregar imagem para o PDF (${url}):`, error);
+      return null;
+    }
+  }
+
+  // Lê o corpo da resposta até o limite; acima dele, interrompe o download e devolve null
+  private async readLimited(body: ReadableStream<Uint8Array>, maxBytes: number): Promise<Buffer | null> {
+    const reader = body.getReader();
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      total += value.length;
+      if (total > maxBytes) {
+        await reader.cancel();
+        return null;
+      }
+      chunks.push(value);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  private drawCompanyName(doc: PDFKit.PDFDocument, name: string, y: number, width: number): number {
+    doc.font('Helvetica-Bold').fontSize(20).fillColor(COLORS.text)
+      .text(name, PAGE_MARGIN, y, { width, align: 'center' });
+    return doc.y + 16;
+  }
+
+  private drawImagePlaceholder(doc: PDFKit.PDFDocument, x: number, y: number, width: number, height: number) {
+    doc.roundedRect(x, y, width, height, 4).fill('#f3f4f6');
+    doc.font('Helvetica').fontSize(10).fillColor(COLORS.muted)
+      .text('Imagem não disponível', x, y + height / 2 - 5, { width, align: 'center' });
+  }
+
+  private drawFinancialSummary(doc: PDFKit.PDFDocument, data: VehicleReportData, x: number, y: number, width: number): number {
+    const padding = 12;
+    const innerWidth = width - padding * 2;
+    const optionalsTotal = data.selectedOptionals.reduce((sum, opt) => sum + opt.price, 0);
+
+    const rows: Array<{ label: string; value: string; color: string }> = [
+      { label: 'Preço base:', value: formatCurrency(data.basePrice), color: COLORS.text }
+    ];
+    if (data.regionalAdjustmentAmount) {
+      rows.push({
+        label: `Ajuste regional (${data.state}):`,
+        value: formatCurrency(data.regionalAdjustmentAmount),
+        color: COLORS.text
+      });
+    }
+    if (data.selectedColor && data.selectedColor.price > 0) {
+      rows.push({
+        label: `Cor (${data.selectedColor.name}):`,
+        value: formatCurrency(data.selectedColor.price),
+        color: COLORS.text
+      });
+    }
+    if (data.selectedOptionals.length > 0) {
+      rows.push({ label: 'Opcionais:', value: formatCurrency(optionalsTotal), color: COLORS.text });
+    }
+    if (data.discountAmount > 0) {
+      rows.push({
+        label: `Desconto (${data.discountPercent}%):`,
+        value: `-${formatCurrency(data.discountAmount)}`,
+        color: COLORS.red
+      });
+    }
+    if (data.freightAmount > 0) {
+      rows.push({ label: `Frete (${data.state}):`, value: `+${formatCurrency(data.freightAmount)}`, color: COLORS.text });
+    }
+    if (data.markupAmount > 0) {
+      rows.push({ label: 'Acréscimo:', value: `+${formatCurrency(data.markupAmount)}`, color: COLORS.green });
+    }
+
+    const boxHeight = padding * 2 + 20 + rows.length * 16 + 34;
+    doc.roundedRect(x, y, width, boxHeight, 4).fill(COLORS.grayBg);
+
+    let rowY = y + padding;
+    doc.font('Helvetica-Bold').fontSize(11).fillColor(COLORS.text)
+      .text('Resumo Financeiro', x + padding, rowY, { width: innerWidth });
+    rowY += 20;
+
+    doc.font('Helvetica').fontSize(9);
+    for (const row of rows) {
+      doc.fillColor(row.color);
+      this.drawAmountRow(doc, row.label, row.value, x + padding, rowY, innerWidth);
+      rowY += 16;
+    }
+
+    rowY += 4;
+    doc.moveTo(x + padding, rowY).lineTo(x + width - padding, rowY).strokeColor(COLORS.border).stroke();
+    rowY += 10;
+
+    doc.font('Helvetica-Bold').fontSize(12).fillColor(COLORS.text);
+    this.drawAmountRow(doc, `Total (x${data.quantity}):`, formatCurrency(data.finalPrice), x + padding, rowY, innerWidth);
+
+    return y + boxHeight;
+  }
+
+  // Linha com descrição à esquerda e valor alinhado à direita; retorna o y seguinte
+  private drawAmountRow(doc: PDFKit.PDFDocument, label: string, value: string, x: number, y: number, width: number): number {
+    const valueWidth = Math.min(doc.widthOfString(value) + 4, width / 2);
+    const labelWidth = width - valueWidth - 8;
+    const height = Math.max(doc.heightOfString(label, { width: labelWidth }), doc.currentLineHeight());
+
+    doc.text(label, x, y, { width: labelWidth });
+    doc.text(value, x + width - valueWidth, y, { width: valueWidth, align: 'right' });
+    return y + height + 4;
+  }
+
+  private drawLabeledLines(doc: PDFKit.PDFDocument, lines: Array<[string, string]>, x: number, y: number, width: number): number {
+    for (const [label, value] of lines) {
+      doc.font('Helvetica-Bold').fontSize(10).fillColor(COLORS.text)
+        .text(`${label}: `, x, y, { width, continued: true })
+        .font('Helvetica')
+        .text(value);
+      y = doc.y + 2;
+    }
+    return y;
+  }
+
+  private drawSeparator(doc: PDFKit.PDFDocument, y: number, width: number): number {
+    doc.moveTo(PAGE_MARGIN, y).lineTo(PAGE_MARGIN + width, y).strokeColor(COLORS.border).stroke();
+    return y + 10;
+  }
+
+  // Quebra a página quando o próximo bloco não cabe no espaço restante
+  private ensureSpace(doc: PDFKit.PDFDocument, y: number, height: number): number {
+    if (y + height > doc.page.height - PAGE_MARGIN) {
+      doc.addPage();
+      return PAGE_MARGIN;
+    }
+    return y;
+  }
+}
+
+export const reportPdfService = new ReportPdfService();
@@ -0,0 +1,276 @@
+import { db } from "@db";
+import { customers, vehicleAvailability, vehicleReservations, vehicles, versionColors } from "@shared/schema";
+import { and, desc, eq, gt, inArray, isNull, lte, sql } from "drizzle-orm";
+import {
+  AvailabilityInput,
+  AvailabilityItem,
+  ReservationFilters,
+  availabilityInputSchema,
+  reservationInputSchema
+} from "@shared/reservations";
+import { findPermissionByDescription, isPermissionGranted } from "@shared/permissions";
+import * as storage from "../storage";
+
+// Erro das reservas com o status HTTP que a rota deve devolver
+export class ReservationError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = "ReservationError";
+  }
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Quem tem esta permissão ajusta as quantidades e libera reservas de outros vendedores
+const MANAGE_PERMISSION = "Disponibilidade de veículos";
+
+interface ReservationUser {
+  id: number;
+  role?: { name: string };
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Reserva ativa: status ainda não mudou e o prazo não venceu (a expiração roda periodicamente)
+const isActiveReservation = () => and(
+  eq(vehicleReservations.status, 'active'),
+  gt(vehicleReservations.expiresAt, new Date())
+);
+
+/**
+ * Quantidade disponível por veículo e cor e reservas para clientes. A criação da reserva e a
+ * alteração da quantidade bloqueiam a linha de disponibilidade do par veículo/cor, para que
+ * dois vendedores não reservem a mesma última unidade.
+ */
+export class ReservationService {
+
+  async getAvailability(vehicleId?: number): Promise<AvailabilityItem[]> {
+    await this.expireOverdue();
+
+    const vehicleRows = await db.query.vehicles.findMany({
+      where: and(isNull(vehicles.deletedAt), vehicleId ? eq(vehicles.id, vehicleId) : undefined),
+      columns: { id: true, versionId: true }
+    });
+    if (vehicleRows.length === 0) return [];
+
+    const versionIds = Array.from(new Set(vehicleRows.map(vehicle => vehicle.versionId)));
+    const colorRows = await db.query.versionColors.findMany({
+      where: and(inArray(versionColors.versionId, versionIds), isNull(versionColors.deletedAt)),
+      with: { color: true }
+    });
+
+    const vehicleIds = vehicleRows.map(vehicle => vehicle.id);
+    const quantities = await db.select().from(vehicleAvailability)
+      .where(inArray(vehicleAvailability.vehicleId, vehicleIds));
+    const reservedCounts = await db.select({
+      vehicleId: vehicleReservations.vehicleId,
+      versionColorId: vehicleReservations.versionColorId,
+      count: sql<number>`count(*)::int`
+    })
+      .from(vehicleReservations)
+      .where(and(inArray(vehicleReservations.vehicleId, vehicleIds), isActiveReservation()))
+      .groupBy(vehicleReservations.vehicleId, vehicleReservations.versionColorId);
+
+    const key = (vehicleId: number, versionColorId: number) => `${vehicleId}:${versionColorId}`;
+    const quantityByKey = new Map(quantities.map(row => [key(row.vehicleId, row.versionColorId), row.quantity]));
+    const reservedByKey = new Map(reservedCounts.map(row => [key(row.vehicleId, row.versionColorId), row.count]));
+
+    return vehicleRows.flatMap(vehicle =>
+      colorRows
+        .filter(versionColor => versionColor.versionId === vehicle.versionId)
+        .map(versionColor => {
+          const quantity = quantityByKey.get(key(vehicle.id, versionColor.id)) ?? 0;
+          const reserved = reservedByKey.get(key(vehicle.id, versionColor.id)) ?? 0;
+          return {
+            vehicleId: vehicle.id,
+            versionColorId: versionColor.id,
+            colorId: versionColor.colorId,
+            colorName: versionColor.color.name,
+            quantity,
+            reserved,
+            available: Math.max(quantity - reserved, 0)
+          };
+        })
+    );
+  }
+
+  // Linha de disponibilidade de um par veículo/cor (estado anterior na auditoria)
+  async getAvailabilityRow(vehicleId: number, versionColorId: number) {
+    return db.query.vehicleAvailability.findFirst({
+      where: and(eq(vehicleAvailability.vehicleId, vehicleId), eq(vehicleAvailability.versionColorId, versionColorId))
+    });
+  }
+
+  async setAvailability(input: AvailabilityInput, userId: number) {
+    const data = availabilityInputSchema.parse(input);
+    await this.assertVehicleColor(data.vehicleId, data.versionColorId);
+
+    return await db.transaction(async (tx) => {
+      await this.lockAvailability(tx, data.vehicleId, data.versionColorId);
+      const reserved = await this.countActive(tx, data.vehicleId, data.versionColorId);
+      if (data.quantity < reserved) {
+        throw new ReservationError(`Há ${reserved} reserva(s) ativa(s) deste veículo nesta cor; a quantidade não pode ser menor`, 409);
+      }
+
+      const [row] = await tx.insert(vehicleAvailability)
+        .values({ ...data, updatedBy: userId, updatedAt: new Date() })
+        .onConflictDoUpdate({
+          target: [vehicleAvailability.vehicleId, vehicleAvailability.versionColorId],
+          set: { quantity: data.quantity, updatedBy: userId, updatedAt: new Date() }
+        })
+        .returning();
+      return row;
+    });
+  }
+
+  async getReservations(filters: ReservationFilters, userId: number) {
+    await this.expireOverdue();
+
+    const conditions = [];
+    if (filters.status) conditions.push(eq(vehicleReservations.status, filters.status));
+    if (filters.vehicleId) conditions.push(eq(vehicleReservations.vehicleId, filters.vehicleId));
+    if (filters.mine) conditions.push(eq(vehicleReservations.userId, userId));
+
+    return db.query.vehicleReservations.findMany({
+      where: conditions.length > 0 ? and(...conditions) : undefined,
+      orderBy: desc(vehicleReservations.createdAt),
+      with: {
+        vehicle: {
+          with: {
+            version: {
+              with: {
+                model: {
+                  with: { brand: true }
+                }
+              }
+            }
+          }
+        },
+        versionColor: {
+          with: { color: true }
+        },
+        user: {
+          columns: { id: true, name: true }
+        },
+        releasedByUser: {
+          columns: { id: true, name: true }
+        }
+      }
+    });
+  }
+
+  async getReservation(id: number) {
+    return db.query.vehicleReservations.findFirst({
+      where: eq(vehicleReservations.id, id)
+    });
+  }
+
+  async createReservation(user: ReservationUser, input: unknown) {
+    const data = reservationInputSchema.parse(input);
+    await this.assertVehicleColor(data.vehicleId, data.versionColorId);
+
+    const customer = await db.query.customers.findFirst({
+      where: eq(customers.id, data.customerId)
+    });
+    if (!customer) {
+      throw new ReservationError("Cliente não encontrado");
+    }
+
+    return await db.transaction(async (tx) => {
+      const availability = await this.lockAvailability(tx, data.vehicleId, data.versionColorId);
+      const quantity = availability?.quantity ?? 0;
+      const reserved = await this.countActive(tx, data.vehicleId, data.versionColorId);
+      if (quantity - reserved <= 0) {
+        throw new ReservationError(
+          quantity === 0
+            ? "Não há unidades disponíveis deste veículo nesta cor"
+            : `Todas as ${quantity} unidade(s) deste veículo nesta cor já estão reservadas`,
+          409
+        );
+      }
+
+      const [reservation] = await tx.insert(vehicleReservations).values({
+        vehicleId: data.vehicleId,
+        versionColorId: data.versionColorId,
+        customerId: customer.id,
+        customerName: customer.name,
+        customerDocument: customer.document,
+        userId: user.id,
+        expiresAt: new Date(Date.now() + data.expiresInHours * HOUR_MS),
+        notes: data.notes || null
+      }).returning();
+      return reservation;
+    });
+  }
+
+  // Liberação manual: pelo vendedor que reservou ou por quem gerencia a disponibilidade
+  async releaseReservation(user: ReservationUser, id: number, reason?: string | null) {
+    const reservation = await this.getReservation(id);
+    if (!reservation) {
+      throw new ReservationError("Reserva não encontrada", 404);
+    }
+    if (reservation.userId !== user.id && !(await this.canManage(user))) {
+      throw new ReservationError("Só o vendedor que fez a reserva ou um gestor da disponibilidade pode liberá-la", 403);
+    }
+
+    const [released] = await db.update(vehicleReservations)
+      .set({ status: 'released', releasedAt: new Date(), releasedBy: user.id, releaseReason: reason || null })
+      .where(and(eq(vehicleReservations.id, id), isActiveReservation()))
+      .returning();
+    if (!released) {
+      throw new ReservationError("A reserva já foi liberada ou expirou", 409);
+    }
+    return released;
+  }
+
+  // Chamado periodicamente e antes das consultas: marca como expiradas as reservas vencidas
+  async expireOverdue() {
+    const now = new Date();
+    return db.update(vehicleReservations)
+      .set({ status: 'expired', releasedAt: now })
+      .where(and(eq(vehicleReservations.status, 'active'), lte(vehicleReservations.expiresAt, now)))
+      .returning();
+  }
+
+  private async canManage(user: ReservationUser): Promise<boolean> {
+    const permission = findPermissionByDescription(MANAGE_PERMISSION);
+    if (!permission || !user.role?.name) return false;
+    return isPermissionGranted(permission, user.role.name, await storage.getCustomPermissionMap());
+  }
+
+  // O veículo precisa existir (fora da lixeira) e a cor precisa ser uma cor da sua versão
+  private async assertVehicleColor(vehicleId: number, versionColorId: number) {
+    const vehicle = await db.query.vehicles.findFirst({
+      where: and(eq(vehicles.id, vehicleId), isNull(vehicles.deletedAt))
+    });
+    if (!vehicle) {
+      throw new ReservationError("Veículo não encontrado", 404);
+    }
+    const versionColor = await db.query.versionColors.findFirst({
+      where: and(eq(versionColors.id, versionColorId), isNull(versionColors.deletedAt))
+    });
+    if (!versionColor || versionColor.versionId !== vehicle.versionId) {
+      throw new ReservationError("A cor selecionada não pertence à versão do veículo");
+    }
+  }
+
+  private async lockAvailability(tx: Transaction, vehicleId: number, versionColorId: number) {
+    const [row] = await tx.select().from(vehicleAvailability)
+      .where(and(eq(vehicleAvailability.vehicleId, vehicleId), eq(vehicleAvailability.versionColorId, versionColorId)))
+      .for('update');
+    return row;
+  }
+
+  private async countActive(tx: Transaction, vehicleId: number, versionColorId: number): Promise<number> {
+    const [{ count }] = await tx.select({ count: sql<number>`count(*)::int` })
+      .from(vehicleReservations)
+      .where(and(
+        eq(vehicleReservations.vehicleId, vehicleId),
+        eq(vehicleReservations.versionColorId, versionColorId),
+        isActiveReservation()
+      ));
+    return count;
+  }
+}
+
+export const reservationService = new ReservationService();
@@ -0,0 +1,154 @@
+import { db } from "@db";
+import { customPermissions, userRoles, users } from "@shared/schema";
+import { asc, count, eq } from "drizzle-orm";
+import {
+  RoleInput,
+  RoleSummary,
+  getEffectivePermissions,
+  isSystemRole
+} from "@shared/permissions";
+import * as storage from "../storage";
+
+// Erro do cadastro de papéis com o status HTTP que a rota deve devolver
+export class RoleError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = "RoleError";
+  }
+}
+
+/**
+ * Papéis de usuário cadastrados pelos administradores. As permissões de cada papel ficam em
+ * custom_permissions, indexadas pelo nome; renomear e excluir atualizam essas permissões e os
+ * usuários do papel na mesma transação.
+ */
+export class RoleService {
+
+  async listRoles(): Promise<RoleSummary[]> {
+    const roles = await db.select().from(userRoles).orderBy(asc(userRoles.id));
+    const counts = await db.select({ roleId: users.roleId, total: count() })
+      .from(users)
+      .groupBy(users.roleId);
+
+    return roles.map(role => ({
+      id: role.id,
+      name: role.name,
+      description: role.description,
+      isSystem: isSystemRole(role.name),
+      userCount: counts.find(c => c.roleId === role.id)?.total ?? 0
+    }));
+  }
+
+  async getRole(id: number) {
+    return await db.query.userRoles.findFirst({ where: eq(userRoles.id, id) });
+  }
+
+  private async ensureNameAvailable(name: string, exceptId?: number): Promise<void> {
+    const existing = await db.query.userRoles.findFirst({ where: eq(userRoles.name, name) });
+    if (existing && existing.id !== exceptId) {
+      throw new RoleError(`Já existe um papel chamado "${name}"`, 409);
+    }
+  }
+
+  // Cria o papel; com copyFromRoleId, começa com as permissões efetivas do papel de origem
+  async createRole(input: RoleInput) {
+    await this.ensureNameAvailable(input.name);
+
+    let permissions: Record<string, boolean> | null = null;
+    if (input.copyFromRoleId) {
+      const source = await this.getRole(input.copyFromRoleId);
+      if (!source) {
+        throw new RoleError("Papel de origem não encontrado", 404);
+      }
+      permissions = getEffectivePermissions(source.name, await storage.getCustomPermissionMap());
+    }
+
+    const role = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(userRoles).values({
+        name: input.name,
+        description: input.description ?? null
+      }).returning();
+
+      if (permissions) {
+        await tx.insert(customPermissions).values({ roleName: created.name, permissions });
+      }
+      return created;
+    });
+
+    storage.invalidateCustomPermissionMap();
+    return role;
+  }
+
+  // Renomeia o papel levando junto as permissões personalizadas; os usuários seguem pelo id
+  async updateRole(id: number, input: RoleInput) {
+    const role = await this.getRole(id);
+    if (!role) {
+      throw new RoleError("Papel não encontrado", 404);
+    }
+    if (input.name !== role.name) {
+      if (isSystemRole(role.name)) {
+        throw new RoleError(`O papel ${role.name} é do sistema e não pode ser renomeado`);
+      }
+      await this.ensureNameAvailable(input.name, id);
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      const [saved] = await tx.update(userRoles)
+        .set({ name: input.name, description: input.description ?? null, updatedAt: new Date() })
+        .where(eq(userRoles.id, id))
+        .returning();
+
+      if (input.name !== role.name) {
+        await tx.update(customPermissions)
+          .set({ roleName: input.name, updatedAt: new Date() })
+          .where(eq(customPermissions.roleName, role.name));
+      }
+      return saved;
+    });
+
+    storage.invalidateCustomPermissionMap();
+    return updated;
+  }
+
+  /**
+   * Exclui o papel. Usuários do papel são transferidos para replacementRoleId, obrigatório
+   * quando há usuários, para que ninguém fique sem papel.
+   */
+  async deleteRole(id: number, replacementRoleId?: number): Promise<{ movedUsers: number }> {
+    const role = await this.getRole(id);
+    if (!role) {
+      throw new RoleError("Papel não encontrado", 404);
+    }
+    if (isSystemRole(role.name)) {
+      throw new RoleError(`O papel ${role.name} é do sistema e não pode ser excluído`);
+    }
+
+    const [{ total }] = await db.select({ total: count() }).from(users).where(eq(users.roleId, id));
+    if (total > 0) {
+      if (!replacementRoleId) {
+        throw new RoleError(`O papel ${role.name} tem ${total} usuário(s): informe o papel que irá substituí-lo`);
+      }
+      if (replacementRoleId === id) {
+        throw new RoleError("O papel substituto deve ser diferente do papel excluído");
+      }
+      if (!await this.getRole(replacementRoleId)) {
+        throw new RoleError("Papel substituto não encontrado", 404);
+      }
+    }
+
+    await db.transaction(async (tx) => {
+      if (total > 0) {
+        await tx.update(users)
+          .set({ roleId: replacementRoleId!, updatedAt: new Date() })
+          .where(eq(users.roleId, id));
+      }
+      await tx.delete(customPermissions).where(eq(customPermissions.roleName, role.name));
+      await tx.delete(userRoles).where(eq(userRoles.id, id));
+    });
+
+    storage.invalidateCustomPermissionMap();
+    return { movedUsers: total };
+  }
+}
+
+export const roleService = new RoleService();
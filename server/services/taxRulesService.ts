@@ -0,0 +1,171 @@
+import { db } from "@db";
+import { settings, vehiclePrices, VehicleInsert } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import {
+  ensureVehiclePriceBaseline,
+  getVehicles,
+  syncVehicleCurrentPrices,
+  todayDate
+} from "../storage";
+import { roundCurrency, toAmount } from "@shared/pricing";
+import {
+  DEFAULT_TAX_RULES,
+  EXEMPTION_PRICE_FIELDS,
+  IPI_CATEGORY_LABELS,
+  TAX_RULES_SETTING_KEY,
+  TaxRules,
+  TaxRulesApplyResult,
+  TaxRulesDiscrepancy,
+  calculateVehicleExemptionPrices,
+  taxRulesSchema
+} from "@shared/taxRules";
+
+// Erro das regras de impostos com o status HTTP que a rota deve devolver
+export class TaxRulesError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = "TaxRulesError";
+  }
+}
+
+class TaxRulesService {
+  /**
+   * Regras salvas nas configurações; enquanto nada foi salvo (ou o valor
+   * salvo é inválido) valem as regras padrão
+   */
+  async getRules(): Promise<TaxRules> {
+    const setting = await db.query.settings.findFirst({
+      where: eq(settings.key, TAX_RULES_SETTING_KEY)
+    });
+    if (!setting) return DEFAULT_TAX_RULES;
+
+    try {
+      // Mescla com o padrão para aceitar regras salvas antes de novas categorias/UFs
+      const stored = JSON.parse(setting.value);
+      return taxRulesSchema.parse({
+        ...DEFAULT_TAX_RULES,
+        ...stored,
+        ipiRates: { ...DEFAULT_TAX_RULES.ipiRates, ...stored.ipiRates },
+        icmsRates: { ...DEFAULT_TAX_RULES.icmsRates, ...stored.icmsRates }
+      });
+    } catch (error) {
+      console.error("Regras de impostos inválidas nas configurações; usando o padrão:", error);
+      return DEFAULT_TAX_RULES;
+    }
+  }
+
+  async saveRules(input: unknown): Promise<TaxRules> {
+    const rules = taxRulesSchema.parse(input);
+    const value = JSON.stringify(rules);
+
+    await db.insert(settings)
+      .values({
+        key: TAX_RULES_SETTING_KEY,
+        value,
+        label: 'Regras de impostos (IPI/ICMS)',
+        type: 'json'
+      })
+      .onConflictDoUpdate({
+        target: settings.key,
+        set: { value, updatedAt: new Date() }
+      });
+    return rules;
+  }
+
+  /**
+   * Substitui os preços de isenção do cadastro pelos calculados, a menos que o
+   * veículo use valores manuais
+   */
+  async applyToVehicle(data: VehicleInsert): Promise<VehicleInsert> {
+    if (data.exemptionPricesOverride) return data;
+
+    const { prices } = calculateVehicleExemptionPrices(data, await this.getRules());
+    if (!prices) {
+      throw new TaxRulesError(
+        `Não foi possível identificar a cilindrada do motor "${data.engine}". ` +
+        `Informe os preços de isenção manualmente.`
+      );
+    }
+
+    return {
+      ...data,
+      pcdIpiIcms: prices.pcdIpiIcms.toFixed(2),
+      pcdIpi: prices.pcdIpi.toFixed(2),
+      taxiIpiIcms: prices.taxiIpiIcms.toFixed(2),
+      taxiIpi: prices.taxiIpi.toFixed(2)
+    };
+  }
+
+  /**
+   * Veículos cujos preços de isenção vigentes diferem dos calculados pelas regras,
+   * incluindo os que têm valores manuais e os de motor não identificado
+   */
+  async getDiscrepancies(): Promise<TaxRulesDiscrepancy[]> {
+    const rules = await this.getRules();
+    const vehicleList = await getVehicles();
+
+    const discrepancies: TaxRulesDiscrepancy[] = [];
+    for (const vehicle of vehicleList) {
+      const { category, prices } = calculateVehicleExemptionPrices(vehicle, rules);
+      const differences = prices
+        ? EXEMPTION_PRICE_FIELDS
+          .map(field => ({ field, stored: roundCurrency(toAmount(vehicle[field])), computed: prices[field] }))
+          .filter(difference => difference.stored !== difference.computed)
+        : [];
+      if (category && differences.length === 0) continue;
+
+      discrepancies.push({
+        vehicleId: vehicle.id,
+        brand: vehicle.version.model.brand.name,
+        model: vehicle.version.model.name,
+        version: vehicle.version.name,
+        year: vehicle.year,
+        engine: vehicle.engine,
+        fuelType: vehicle.fuelType,
+        publicPrice: roundCurrency(toAmount(vehicle.publicPrice)),
+        category,
+        override: vehicle.exemptionPricesOverride,
+        differences
+      });
+    }
+    return discrepancies;
+  }
+
+  /**
+   * Grava os preços calculados como novo registro do histórico, vigente hoje.
+   * Veículos com valores manuais ou sem categoria identificada são ignorados.
+   */
+  async applyComputedPrices(vehicleIds: number[], userId?: number): Promise<TaxRulesApplyResult> {
+    const rules = await this.getRules();
+    const selected = (await getVehicles()).filter(vehicle => vehicleIds.includes(vehicle.id));
+
+    let updated = 0;
+    await db.transaction(async (tx) => {
+      for (const vehicle of selected) {
+        if (vehicle.exemptionPricesOverride) continue;
+        const { category, prices } = calculateVehicleExemptionPrices(vehicle, rules);
+        if (!category || !prices) continue;
+
+        await ensureVehiclePriceBaseline(vehicle.id, tx);
+        await tx.insert(vehiclePrices).values({
+          publicPrice: vehicle.publicPrice,
+          pcdIpiIcms: prices.pcdIpiIcms.toFixed(2),
+          pcdIpi: prices.pcdIpi.toFixed(2),
+          taxiIpiIcms: prices.taxiIpiIcms.toFixed(2),
+          taxiIpi: prices.taxiIpi.toFixed(2),
+          vehicleId: vehicle.id,
+          effectiveFrom: todayDate(),
+          source: 'taxRules',
+          notes: `Calculado pelas regras de impostos (${IPI_CATEGORY_LABELS[category]}, ICMS ${rules.state})`,
+          createdBy: userId ?? null
+        });
+        await syncVehicleCurrentPrices(vehicle.id, tx);
+        updated++;
+      }
+    });
+
+    return { updated, skipped: vehicleIds.length - updated };
+  }
+}
+
+export const taxRulesService = new TaxRulesService();
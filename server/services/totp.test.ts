@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { base32Decode, base32Encode, buildOtpauthUrl, generateTotp, getTotpStep, verifyTotp } from "./totp";
+
+// Segredo dos vetores de teste da RFC 6238 (HMAC-SHA1): "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+test("base32 ida e volta", () => {
+  assert.equal(RFC_SECRET, "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+  assert.equal(base32Decode("gezd gnbv gy3t qojq gezd gnbv gy3t qojq").toString(), "12345678901234567890");
+  assert.throws(() => base32Decode("GEZ1"), /Caractere inválido/);
+});
+
+test("códigos dos vetores da RFC 6238 (6 últimos dígitos)", () => {
+  assert.equal(generateTotp(RFC_SECRET, getTotpStep(59 * 1000)), "287082");
+  assert.equal(generateTotp(RFC_SECRET, getTotpStep(1111111109 * 1000)), "081804");
+  assert.equal(generateTotp(RFC_SECRET, getTotpStep(1234567890 * 1000)), "005924");
+  assert.equal(generateTotp(RFC_SECRET, getTotpStep(2000000000 * 1000)), "279037");
+});
+
+test("código confere no passo atual e um passo antes ou depois", () => {
+  const time = 1111111109 * 1000;
+  const step = getTotpStep(time);
+
+  assert.equal(verifyTotp(RFC_SECRET, "081804", 1, time), step);
+  assert.equal(verifyTotp(RFC_SECRET, "081 804", 1, time), step);
+  assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), 1, time), step - 1);
+  assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), 1, time), step + 1);
+});
+
+test("código fora da janela, errado ou mal formatado não confere", () => {
+  const time = 1111111109 * 1000;
+  const step = getTotpStep(time);
+
+  assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), 1, time), null);
+  assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), 0, time), null);
+  assert.equal(verifyTotp(RFC_SECRET, "000000", 1, time), null);
+  assert.equal(verifyTotp(RFC_SECRET, "08180", 1, time), null);
+  assert.equal(verifyTotp(RFC_SECRET, "abcdef", 1, time), null);
+});
+
+test("URL de provisionamento para o aplicativo autenticador", () => {
+  const url = new URL(buildOtpauthUrl("Configurador", "ana@example.com", RFC_SECRET));
+
+  assert.equal(url.protocol, "otpauth:");
+  assert.equal(url.host, "totp");
+  assert.equal(decodeURIComponent(url.pathname), "/Configurador:ana@example.com");
+  assert.equal(url.searchParams.get("secret"), RFC_SECRET);
+  assert.equal(url.searchParams.get("digits"), "6");
+  assert.equal(url.searchParams.get("period"), "30");
+});
@@ -0,0 +1,349 @@
+import { db } from "@db";
+import {
+  brands,
+  models,
+  versions,
+  colors,
+  vehicles,
+  versionColors,
+  versionOptionals,
+  settings
+} from "@shared/schema";
+import { and, eq, inArray, isNotNull, isNull, lt, notInArray, or, type SQL } from "drizzle-orm";
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  TRASH_ENTITIES,
+  TRASH_ENTITY_LABELS,
+  TRASH_RETENTION_SETTING_KEY,
+  TrashEntity,
+  TrashItem,
+  TrashListing,
+  TrashRestoreResult
+} from "@shared/trash";
+
+// Erro da lixeira com o status HTTP que a rota deve devolver
+export class TrashError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = "TrashError";
+  }
+}
+
+// Tabelas com exclusão lógica: as entidades da lixeira e os vínculos que as acompanham
+type SoftDeleteTable = TrashEntity | 'versionColors' | 'versionOptionals';
+
+const TABLES: Record<SoftDeleteTable, any> = {
+  brands,
+  models,
+  versions,
+  colors,
+  vehicles,
+  versionColors,
+  versionOptionals
+};
+
+// Árvore de dependência: excluir o pai leva junto os filhos (pela coluna indicada)
+const CHILDREN: Record<SoftDeleteTable, Array<{ table: SoftDeleteTable; key: string }>> = {
+  brands: [{ table: 'models', key: 'brandId' }],
+  models: [{ table: 'versions', key: 'modelId' }],
+  versions: [
+    { table: 'vehicles', key: 'versionId' },
+    { table: 'versionColors', key: 'versionId' },
+    { table: 'versionOptionals', key: 'versionId' }
+  ],
+  colors: [
+    { table: 'vehicles', key: 'colorId' },
+    { table: 'versionColors', key: 'colorId' }
+  ],
+  vehicles: [],
+  versionColors: [],
+  versionOptionals: []
+};
+
+// Caminho inverso: de quais pais cada tabela depende
+const PARENTS = Object.fromEntries(
+  (Object.keys(TABLES) as SoftDeleteTable[]).map(table => [
+    table,
+    (Object.keys(CHILDREN) as SoftDeleteTable[]).flatMap(parent =>
+      CHILDREN[parent].filter(child => child.table === table).map(child => ({ table: parent, key: child.key }))
+    )
+  ])
+) as Record<SoftDeleteTable, Array<{ table: SoftDeleteTable; key: string }>>;
+
+// Ordem da remoção definitiva: filhos antes dos pais por causa das chaves estrangeiras
+const PURGE_ORDER: SoftDeleteTable[] = ['versionColors', 'versionOptionals', 'vehicles', 'versions', 'models', 'colors', 'brands'];
+
+interface DeletedRow {
+  id: number;
+  deletedAt: Date;
+  [key: string]: any;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class TrashService {
+  /**
+   * Move a entidade e seus dependentes ainda ativos para a lixeira.
+   * Todos recebem o mesmo deleted_at, que identifica o grupo na restauração.
+   * Retorna false se o registro não existe ou já estava na lixeira.
+   */
+  async moveToTrash(entity: TrashEntity, id: number): Promise<boolean> {
+    const table = TABLES[entity];
+    const deletedAt = new Date();
+
+    return db.transaction(async (tx: any) => {
+      const [row] = await tx.update(table)
+        .set({ deletedAt })
+        .where(and(eq(table.id, id), isNull(table.deletedAt)))
+        .returning({ id: table.id });
+      if (!row) return false;
+
+      await this.cascade(tx, entity, [id], null, deletedAt, {});
+      return true;
+    });
+  }
+
+  /**
+   * Restaura a entidade e os dependentes excluídos junto com ela.
+   * Dependentes excluídos antes, em outra operação, continuam na lixeira.
+   */
+  async restore(entity: TrashEntity, id: number): Promise<TrashRestoreResult> {
+    const table = TABLES[entity];
+    const [row] = await db.select().from(table).where(eq(table.id, id));
+    if (!row) {
+      throw new TrashError(`${TRASH_ENTITY_LABELS[entity]} não encontrado(a)`, 404);
+    }
+    if (!row.deletedAt) {
+      throw new TrashError(`${TRASH_ENTITY_LABELS[entity]} não está na lixeira`, 409);
+    }
+
+    const blockedBy = await this.findDeletedParent(entity, row);
+    if (blockedBy) {
+      throw new TrashError(`Não é possível restaurar enquanto ${blockedBy} estiver na lixeira`, 409);
+    }
+
+    const restored: Record<string, number> = { [entity]: 1 };
+    await db.transaction(async (tx: any) => {
+      await tx.update(table).set({ deletedAt: null }).where(eq(table.id, id));
+      await this.cascade(tx, entity, [id], row.deletedAt, null, restored);
+    });
+
+    return { entity, id, restored };
+  }
+
+  async getRetentionDays(): Promise<number> {
+    const setting = await db.query.settings.findFirst({
+      where: eq(settings.key, TRASH_RETENTION_SETTING_KEY)
+    });
+    const days = parseInt(setting?.value ?? '');
+    return days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+  }
+
+  async setRetentionDays(days: number): Promise<number> {
+    if (!Number.isInteger(days) || days < 1 || days > 3650) {
+      throw new TrashError("O período de retenção deve ser um número inteiro de dias entre 1 e 3650");
+    }
+
+    await db.insert(settings)
+      .values({
+        key: TRASH_RETENTION_SETTING_KEY,
+        value: String(days),
+        label: 'Dias de retenção da lixeira',
+        type: 'number'
+      })
+      .onConflictDoUpdate({
+        target: settings.key,
+        set: { value: String(days), updatedAt: new Date() }
+      });
+    return days;
+  }
+
+  /**
+   * Itens da lixeira. Dependentes excluídos junto com o pai não aparecem
+   * separadamente: são contados em `dependents` do item principal.
+   */
+  async list(): Promise<TrashListing> {
+    const retentionDays = await this.getRetentionDays();
+
+    const [deletedBrands, deletedModels, deletedVersions, deletedColors, deletedVehicles, deletedVersionColors, deletedVersionOptionals] =
+      await Promise.all([
+        db.query.brands.findMany({ where: isNotNull(brands.deletedAt) }),
+        db.query.models.findMany({ where: isNotNull(models.deletedAt), with: { brand: true } }),
+        db.query.versions.findMany({
+          where: isNotNull(versions.deletedAt),
+          with: { model: { with: { brand: true } } }
+        }),
+        db.query.colors.findMany({ where: isNotNull(colors.deletedAt), with: { paintType: true } }),
+        db.query.vehicles.findMany({
+          where: isNotNull(vehicles.deletedAt),
+          with: { version: { with: { model: { with: { brand: true } } } }, color: true }
+        }),
+        db.select().from(versionColors).where(isNotNull(versionColors.deletedAt)),
+        db.select().from(versionOptionals).where(isNotNull(versionOptionals.deletedAt))
+      ]);
+
+    const deleted: Record<SoftDeleteTable, DeletedRow[]> = {
+      brands: deletedBrands as DeletedRow[],
+      models: deletedModels as DeletedRow[],
+      versions: deletedVersions as DeletedRow[],
+      colors: deletedColors as DeletedRow[],
+      vehicles: deletedVehicles as DeletedRow[],
+      versionColors: deletedVersionColors as DeletedRow[],
+      versionOptionals: deletedVersionOptionals as DeletedRow[]
+    };
+    const findDeleted = (table: SoftDeleteTable, id: number) => deleted[table].find(row => row.id === id);
+
+    const items: TrashItem[] = [];
+    for (const entity of TRASH_ENTITIES) {
+      for (const row of deleted[entity]) {
+        const deletedParents = PARENTS[entity]
+          .map(parent => ({ table: parent.table, row: row[parent.key] ? findDeleted(parent.table, row[parent.key]) : undefined }))
+          .filter((parent): parent is { table: SoftDeleteTable; row: DeletedRow } => !!parent.row);
+
+        // Excluído junto com o pai: faz parte do item do pai
+        if (deletedParents.some(parent => parent.row.deletedAt.getTime() === row.deletedAt.getTime())) continue;
+
+        const blocking = deletedParents[0];
+        items.push({
+          entity,
+          id: row.id,
+          ...this.describe(entity, row),
+          deletedAt: row.deletedAt.toISOString(),
+          purgeAt: new Date(row.deletedAt.getTime() + retentionDays * DAY_MS).toISOString(),
+          dependents: this.countDependents(entity, row, deleted),
+          restorable: !blocking,
+          blockedBy: blocking ? this.parentLabel(blocking.table as TrashEntity, blocking.row) : undefined
+        });
+      }
+    }
+
+    items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+    return { retentionDays, items };
+  }
+
+  /**
+   * Remove definitivamente o que passou do período de retenção.
+   * Registros ainda referenciados (ex.: vendas diretas) são mantidos e contados em `skipped`.
+   */
+  async purgeExpired(): Promise<{ purged: Record<string, number>; skipped: number }> {
+    const retentionDays = await this.getRetentionDays();
+    const cutoff = new Date(Date.now() - retentionDays * DAY_MS);
+    const purged: Record<string, number> = {};
+    let skipped = 0;
+
+    for (const tableName of PURGE_ORDER) {
+      const table = TABLES[tableName];
+      const expired: Array<{ id: number }> = await db.select({ id: table.id })
+        .from(table)
+        .where(and(isNotNull(table.deletedAt), lt(table.deletedAt, cutoff)));
+
+      for (const { id } of expired) {
+        try {
+          await db.delete(table).where(eq(table.id, id));
+          purged[tableName] = (purged[tableName] || 0) + 1;
+        } catch (error) {
+          skipped++;
+          console.warn(`[TRASH] ${tableName}#${id} não pôde ser removido definitivamente:`, error instanceof Error ? error.message : error);
+        }
+      }
+    }
+
+    return { purged, skipped };
+  }
+
+  /**
+   * Propaga deleted_at para os filhos. Na exclusão (from = null) marca os filhos ativos;
+   * na restauração (to = null) limpa apenas os que têm o mesmo deleted_at do pai
+   * e cujos demais pais não estão na lixeira (ex.: veículo cuja cor foi excluída à parte).
+   */
+  private async cascade(
+    tx: any,
+    parent: SoftDeleteTable,
+    ids: number[],
+    from: Date | null,
+    to: Date | null,
+    counts: Record<string, number>
+  ): Promise<void> {
+    for (const child of CHILDREN[parent]) {
+      const table = TABLES[child.table];
+      const conditions: Array<SQL | undefined> = [
+        inArray(table[child.key], ids),
+        from ? eq(table.deletedAt, from) : isNull(table.deletedAt)
+      ];
+
+      if (to === null) {
+        for (const other of PARENTS[child.table]) {
+          const otherTable = TABLES[other.table];
+          conditions.push(or(
+            isNull(table[other.key]),
+            notInArray(table[other.key], tx.select({ id: otherTable.id }).from(otherTable).where(isNotNull(otherTable.deletedAt)))
+          ));
+        }
+      }
+
+      const rows: Array<{ id: number }> = await tx.update(table)
+        .set({ deletedAt: to })
+        .where(and(...conditions))
+        .returning({ id: table.id });
+      if (rows.length === 0) continue;
+
+      counts[child.table] = (counts[child.table] || 0) + rows.length;
+      await this.cascade(tx, child.table, rows.map(row => row.id), from, to, counts);
+    }
+  }
+
+  // Primeiro pai que ainda está na lixeira, descrito para a mensagem de erro
+  private async findDeletedParent(entity: TrashEntity, row: Record<string, any>): Promise<string | null> {
+    for (const parent of PARENTS[entity]) {
+      const parentId = row[parent.key];
+      if (!parentId) continue;
+
+      const parentTable = TABLES[parent.table];
+      const [parentRow] = await db.select().from(parentTable).where(eq(parentTable.id, parentId));
+      if (parentRow?.deletedAt) {
+        return this.parentLabel(parent.table as TrashEntity, parentRow);
+      }
+    }
+    return null;
+  }
+
+  private parentLabel(entity: TrashEntity, row: Record<string, any>): string {
+    const name = row.name ?? row.description ?? `#${row.id}`;
+    return `${TRASH_ENTITY_LABELS[entity].toLowerCase()} "${name}"`;
+  }
+
+  private countDependents(entity: SoftDeleteTable, row: DeletedRow, deleted: Record<SoftDeleteTable, DeletedRow[]>) {
+    const counts: Record<string, number> = {};
+    const visit = (table: SoftDeleteTable, id: number) => {
+      for (const child of CHILDREN[table]) {
+        for (const childRow of deleted[child.table]) {
+          if (childRow[child.key] !== id || childRow.deletedAt.getTime() !== row.deletedAt.getTime()) continue;
+          counts[child.table] = (counts[child.table] || 0) + 1;
+          visit(child.table, childRow.id);
+        }
+      }
+    };
+    visit(entity, row.id);
+    return counts;
+  }
+
+  private describe(entity: TrashEntity, row: any): { name: string; description: string | null } {
+    switch (entity) {
+      case 'brands':
+        return { name: row.name, description: null };
+      case 'models':
+        return { name: row.name, description: row.brand?.name ?? null };
+      case 'versions':
+        return { name: row.name, description: [row.model?.brand?.name, row.model?.name].filter(Boolean).join(' ') || null };
+      case 'colors':
+        return { name: row.name, description: [row.paintType?.name, row.hexCode].filter(Boolean).join(' - ') || null };
+      case 'vehicles':
+        return {
+          name: [row.version?.model?.brand?.name, row.version?.model?.name, row.version?.name].filter(Boolean).join(' ') || `Veículo #${row.id}`,
+          description: [row.year, row.color?.name].filter(Boolean).join(' - ') || null
+        };
+    }
+  }
+}
+
+export const trashService = new TrashService();
@@ -0,0 +1,217 @@
+import { createHash, randomBytes } from "crypto";
+import QRCode from "qrcode";
+import { db } from "@db";
+import { settings, userTwoFactor } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import {
+  RECOVERY_CODE_COUNT,
+  TWO_FACTOR_REQUIRED_ROLES_SETTING_KEY,
+  TwoFactorEnrollment,
+  TwoFactorPolicy,
+  TwoFactorStatus,
+  twoFactorPolicySchema
+} from "@shared/twoFactor";
+import { buildOtpauthUrl, generateTotpSecret, verifyTotp } from "./totp";
+
+// Erro da autenticação em dois fatores com o status HTTP que a rota deve devolver
+export class TwoFactorError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = "TwoFactorError";
+  }
+}
+
+// O que falta para concluir o login de um usuário que acertou a senha
+export type TwoFactorLoginRequirement = 'none' | 'verify' | 'enroll';
+
+interface TwoFactorUser {
+  id: number;
+  email: string;
+  roleId: number;
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.trim().toLowerCase()).digest('hex');
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(4).toString('hex');
+    return `${hex.slice(0, 4)}-${hex.slice(4)}`;
+  });
+}
+
+/**
+ * TOTP por usuário e a política de papéis que exigem 2FA. Cada código do aplicativo vale
+ * uma única vez (lastUsedStep) e cada código de recuperação é removido ao ser usado.
+ */
+export class TwoFactorService {
+
+  private async getRecord(userId: number) {
+    return await db.query.userTwoFactor.findFirst({ where: eq(userTwoFactor.userId, userId) });
+  }
+
+  async getPolicy(): Promise<TwoFactorPolicy> {
+    const setting = await db.query.settings.findFirst({
+      where: eq(settings.key, TWO_FACTOR_REQUIRED_ROLES_SETTING_KEY)
+    });
+    try {
+      return twoFactorPolicySchema.parse({ requiredRoleIds: JSON.parse(setting?.value || '[]') });
+    } catch {
+      return { requiredRoleIds: [] };
+    }
+  }
+
+  async savePolicy(input: unknown): Promise<TwoFactorPolicy> {
+    const policy = twoFactorPolicySchema.parse(input);
+    const value = JSON.stringify(Array.from(new Set(policy.requiredRoleIds)));
+    await db.insert(settings)
+      .values({
+        key: TWO_FACTOR_REQUIRED_ROLES_SETTING_KEY,
+        value,
+        label: 'Papéis com autenticação em dois fatores obrigatória',
+        type: 'json'
+      })
+      .onConflictDoUpdate({
+        target: settings.key,
+        set: { value, updatedAt: new Date() }
+      });
+    return this.getPolicy();
+  }
+
+  async isRequiredForRole(roleId: number): Promise<boolean> {
+    const { requiredRoleIds } = await this.getPolicy();
+    return requiredRoleIds.includes(roleId);
+  }
+
+  async getStatus(user: TwoFactorUser): Promise<TwoFactorStatus> {
+    const record = await this.getRecord(user.id);
+    return {
+      enabled: !!record?.enabledAt,
+      required: await this.isRequiredForRole(user.roleId),
+      recoveryCodesRemaining: record?.enabledAt ? record.recoveryCodeHashes.length : 0
+    };
+  }
+
+  async getLoginRequirement(user: TwoFactorUser): Promise<TwoFactorLoginRequirement> {
+    const record = await this.getRecord(user.id);
+    if (record?.enabledAt) return 'verify';
+    return await this.isRequiredForRole(user.roleId) ? 'enroll' : 'none';
+  }
+
+  // Gera um novo segredo pendente; só passa a valer depois de confirmado com um código
+  async startEnrollment(user: TwoFactorUser): Promise<TwoFactorEnrollment> {
+    const record = await this.getRecord(user.id);
+    if (record?.enabledAt) {
+      throw new TwoFactorError("A autenticação em dois fatores já está ativa. Desative-a antes de cadastrar outro aplicativo", 409);
+    }
+
+    const secret = generateTotpSecret();
+    await db.insert(userTwoFactor)
+      .values({ userId: user.id, secret })
+      .onConflictDoUpdate({
+        target: userTwoFactor.userId,
+        set: { secret, lastUsedStep: null, recoveryCodeHashes: [], updatedAt: new Date() }
+      });
+
+    const issuerSetting = await db.query.settings.findFirst({ where: eq(settings.key, 'app_name') });
+    const otpauthUrl = buildOtpauthUrl(issuerSetting?.value || 'AutoPlus', user.email, secret);
+    return {
+      secret,
+      otpauthUrl,
+      qrCodeDataUrl: await QRCode.toDataURL(otpauthUrl)
+    };
+  }
+
+  // Confirma o cadastro com o primeiro código do aplicativo e devolve os códigos de recuperação
+  async confirmEnrollment(userId: number, code: string): Promise<string[]> {
+    const record = await this.getRecord(userId);
+    if (!record) {
+      throw new TwoFactorError("Inicie o cadastro do aplicativo autenticador antes de confirmar", 404);
+    }
+    if (record.enabledAt) {
+      throw new TwoFactorError("A autenticação em dois fatores já está ativa", 409);
+    }
+
+    const step = verifyTotp(record.secret, code);
+    if (step === null) {
+      throw new TwoFactorError("Código inválido. Confira o horário do celular e tente novamente");
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await db.update(userTwoFactor)
+      .set({
+        enabledAt: new Date(),
+        lastUsedStep: step,
+        recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+        updatedAt: new Date()
+      })
+      .where(eq(userTwoFactor.id, record.id));
+    return recoveryCodes;
+  }
+
+  /**
+   * Confere um código do aplicativo ou de recuperação de um usuário com 2FA ativo.
+   * A leitura e a gravação ficam na mesma transação com bloqueio da linha, para que dois
+   * pedidos simultâneos não aceitem o mesmo código.
+   */
+  async verifyCode(userId: number, code: string): Promise<{ usedRecoveryCode: boolean }> {
+    return await db.transaction(async (tx) => {
+      const [record] = await tx.select().from(userTwoFactor)
+        .where(eq(userTwoFactor.userId, userId))
+        .for('update');
+      if (!record?.enabledAt) {
+        throw new TwoFactorError("A autenticação em dois fatores não está ativa", 404);
+      }
+
+      const step = verifyTotp(record.secret, code);
+      if (step !== null) {
+        if (record.lastUsedStep !== null && step <= record.lastUsedStep) {
+          throw new TwoFactorError("Este código já foi usado. Aguarde o próximo código do aplicativo");
+        }
+        await tx.update(userTwoFactor)
+          .set({ lastUsedStep: step, updatedAt: new Date() })
+          .where(eq(userTwoFactor.id, record.id));
+        return { usedRecoveryCode: false };
+      }
+
+      const hash = hashRecoveryCode(code);
+      if (record.recoveryCodeHashes.includes(hash)) {
+        await tx.update(userTwoFactor)
+          .set({ recoveryCodeHashes: record.recoveryCodeHashes.filter(item => item !== hash), updatedAt: new Date() })
+          .where(eq(userTwoFactor.id, record.id));
+        return { usedRecoveryCode: true };
+      }
+
+      throw new TwoFactorError("Código inválido");
+    });
+  }
+
+  async regenerateRecoveryCodes(userId: number, code: string): Promise<string[]> {
+    await this.verifyCode(userId, code);
+    const recoveryCodes = generateRecoveryCodes();
+    await db.update(userTwoFactor)
+      .set({ recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode), updatedAt: new Date() })
+      .where(eq(userTwoFactor.userId, userId));
+    return recoveryCodes;
+  }
+
+  // Desativação pelo próprio usuário, confirmada com um código; bloqueada se o papel exige 2FA
+  async disable(user: TwoFactorUser, code: string): Promise<void> {
+    if (await this.isRequiredForRole(user.roleId)) {
+      throw new TwoFactorError("O seu papel exige autenticação em dois fatores", 403);
+    }
+    await this.verifyCode(user.id, code);
+    await this.reset(user.id);
+  }
+
+  // Remove o 2FA do usuário (também usado pelo administrador quando o usuário perde o celular)
+  async reset(userId: number): Promise<boolean> {
+    const deleted = await db.delete(userTwoFactor)
+      .where(eq(userTwoFactor.userId, userId))
+      .returning();
+    return deleted.length > 0;
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
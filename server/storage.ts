@@ -1,5 +1,5 @@
 import { db } from "@db";
-import { eq, and, desc, lt, gt, ne, sql } from "drizzle-orm";
+import { eq, and, desc, lt, lte, gt, gte, ne, sql, inArray, isNull, or, ilike, asc } from "drizzle-orm";
 import { 
   brands, 
   models, 
@@ -14,6 +14,13 @@ import {
   directSales,
   customPermissions,
   userSessions,
+  quotes,
+  customers,
+  vehiclePrices,
+  auditLogs,
+  statePriceAdjustments,
+  freightRates,
+  stockUnits,
   BrandInsert,
   ModelInsert,
   VersionInsert,
@@ -26,12 +33,22 @@ import {
   VersionOptionalInsert,
   DirectSaleInsert,
   CustomPermissionsInsert,
-  UserSessionInsert
+  UserSessionInsert,
+  QuoteInsert,
+  VehiclePriceInsert,
+  AuditLogInsert,
+  AuditAction,
+  AuditChanges
 } from "@shared/schema";
+import { CustomerData, onlyDigits } from "@shared/customers";
+import { FreightRateInput, StatePriceAdjustmentsInput, resolveFreightRate } from "@shared/regionalPricing";
+import { StockSummary, StockUnitData, StockUnitFilters } from "@shared/stockUnits";
+import { trashService } from "./services/trashService";
 
 // Brands
 export async function getBrands() {
   return db.query.brands.findMany({
+    where: isNull(brands.deletedAt),
     orderBy: brands.name
   });
 }
@@ -60,19 +77,6 @@ export async function deleteBrand(id: number) {
   console.log(`[deleteBrand] Attempting to delete brand with ID: ${id}`);
   
   try {
-    // Verificar se existem modelos associados a esta marca
-    console.log(`[deleteBrand] Checking for associated models...`);
-    const associatedModels = await db.query.models.findMany({
-      where: eq(models.brandId, id)
-    });
-    
-    console.log(`[deleteBrand] Found ${associatedModels.length} associated models`);
-    
-    if (associatedModels.length > 0) {
-      console.log(`[deleteBrand] Throwing error: brand has associated models`);
-      throw new Error('Cannot delete brand because it has associated models. Delete the models first.');
-    }
-    
     // Verificar se existem vendas diretas associadas a esta marca
     console.log(`[deleteBrand] Checking for associated direct sales...`);
     const associatedDirectSales = await db.query.directSales.findMany({
@@ -86,10 +90,9 @@ export async function deleteBrand(id: number) {
       throw new Error('Cannot delete brand because it has associated direct sales. Delete the direct sales first.');
     }
     
-    // Se não houver dependências, excluir a marca
-    console.log(`[deleteBrand] No dependencies found, proceeding with deletion`);
-    await db.delete(brands).where(eq(brands.id, id));
-    console.log(`[deleteBrand] Brand deleted successfully`);
+    // Modelos, versões e veículos da marca vão juntos para a lixeira
+    await trashService.moveToTrash('brands', id);
+    console.log(`[deleteBrand] Brand moved to trash successfully`);
   } catch (error) {
     console.error(`[deleteBrand] Error in deleteBrand function:`, error);
     throw error; // Re-throw to be handled by the route handler
@@ -99,6 +102,7 @@ export async function deleteBrand(id: number) {
 // Models
 export async function getModels() {
   return db.query.models.findMany({
+    where: isNull(models.deletedAt),
     orderBy: models.name,
     with: {
       brand: true
@@ -132,7 +136,7 @@ export async function updateModel(id: number, data: ModelInsert) {
 }
 
 export async function deleteModel(id: number) {
-  await db.delete(models).where(eq(models.id, id));
+  await trashService.moveToTrash('models', id);
 }
 
 // Versions
@@ -142,6 +146,7 @@ export async function getVersions() {
   // 2. Têm pelo menos um veículo ativo
   // Exclui versões que têm veículos mas todos são inativos
   const allVersions = await db.query.versions.findMany({
+    where: isNull(versions.deletedAt),
     orderBy: versions.name,
     with: {
       model: {
@@ -149,7 +154,9 @@ export async function getVersions() {
           brand: true
         }
       },
-      vehicles: true
+      vehicles: {
+        where: isNull(vehicles.deletedAt)
+      }
     }
   });
 
@@ -194,12 +201,13 @@ export async function updateVersion(id: number, data: VersionInsert) {
 }
 
 export async function deleteVersion(id: number) {
-  await db.delete(versions).where(eq(versions.id, id));
+  await trashService.moveToTrash('versions', id);
 }
 
 // Colors
 export async function getColors() {
   return db.query.colors.findMany({
+    where: isNull(colors.deletedAt),
     orderBy: colors.name,
     with: {
       paintType: true
@@ -233,7 +241,7 @@ export async function updateColor(id: number, data: ColorInsert) {
 }
 
 export async function deleteColor(id: number) {
-  await db.delete(colors).where(eq(colors.id, id));
+  await trashService.moveToTrash('colors', id);
 }
 
 // Paint Types
@@ -269,10 +277,12 @@ export async function deletePaintType(id: number) {
 
 // Version Colors
 export async function getVersionColors(options: { modelId?: number, versionId?: number } = {}) {
-  const query: any = {};
+  const query: any = {
+    where: isNull(versionColors.deletedAt)
+  };
   
   if (options.versionId) {
-    query.where = eq(versionColors.versionId, options.versionId);
+    query.where = and(query.where, eq(versionColors.versionId, options.versionId));
   }
   
   const results = await db.query.versionColors.findMany({
@@ -351,8 +361,9 @@ export async function deleteVersionColor(id: number) {
 }
 
 // Vehicles
-export async function getVehicles() {
-  return db.query.vehicles.findMany({
+export async function getVehicles(date?: string) {
+  const result = await db.query.vehicles.findMany({
+    where: isNull(vehicles.deletedAt),
     orderBy: desc(vehicles.createdAt),
     with: {
       version: {
@@ -367,10 +378,11 @@ export async function getVehicles() {
       color: true
     }
   });
+  return applyEffectivePrices(result, date);
 }
 
-export async function getVehicleById(id: number) {
-  return db.query.vehicles.findFirst({
+export async function getVehicleById(id: number, date?: string) {
+  const vehicle = await db.query.vehicles.findFirst({
     where: eq(vehicles.id, id),
     with: {
       version: {
@@ -385,14 +397,28 @@ export async function getVehicleById(id: number) {
       color: true
     }
   });
+  if (!vehicle) return vehicle;
+
+  const [withPrices] = await applyEffectivePrices([vehicle], date);
+  return withPrices;
 }
 
-export async function createVehicle(data: VehicleInsert) {
+export async function createVehicle(data: VehicleInsert, userId?: number) {
   const [newVehicle] = await db.insert(vehicles).values(data).returning();
+
+  // Primeiro registro do histórico: a tabela inicial do veículo
+  await db.insert(vehiclePrices).values({
+    ...pickVehiclePrices(newVehicle),
+    vehicleId: newVehicle.id,
+    effectiveFrom: todayDate(),
+    source: 'initial',
+    createdBy: userId ?? null
+  });
+
   return getVehicleById(newVehicle.id);
 }
 
-export async function updateVehicle(id: number, data: VehicleInsert) {
+export async function updateVehicle(id: number, data: VehicleInsert, userId?: number) {
   console.log(`[updateVehicle] Attempting to update vehicle with ID ${id}`);
   console.log('[updateVehicle] Data:', JSON.stringify(data, null, 2));
   
@@ -425,10 +451,24 @@ export async function updateVehicle(id: number, data: VehicleInsert) {
       pcdIpi: data.pcdIpi,
       taxiIpiIcms: data.taxiIpiIcms,
       taxiIpi: data.taxiIpi,
+      exemptionPricesOverride: data.exemptionPricesOverride,
       updatedAt: new Date()
     };
     
     console.log('[updateVehicle] Filtered valid fields for update');
+
+    // Registra no histórico quando algum preço muda em relação ao vigente hoje
+    const current = await getVehicleById(id);
+    if (current && VEHICLE_PRICE_FIELDS.some(field => Number(current[field]) !== Number(data[field]))) {
+      await ensureVehiclePriceBaseline(id);
+      await db.insert(vehiclePrices).values({
+        ...pickVehiclePrices(data),
+        vehicleId: id,
+        effectiveFrom: todayDate(),
+        source: 'manual',
+        createdBy: userId ?? null
+      });
+    }
     
     // Executa a atualização com os campos filtrados
     const [updatedVehicle] = await db.update(vehicles)
@@ -450,7 +490,169 @@ export async function updateVehicle(id: number, data: VehicleInsert) {
 }
 
 export async function deleteVehicle(id: number) {
-  await db.delete(vehicles).where(eq(vehicles.id, id));
+  await trashService.moveToTrash('vehicles', id);
+}
+
+// Histórico de preços dos veículos
+const VEHICLE_PRICE_FIELDS = ['publicPrice', 'pcdIpiIcms', 'pcdIpi', 'taxiIpiIcms', 'taxiIpi'] as const;
+type VehiclePriceValues = Record<typeof VEHICLE_PRICE_FIELDS[number], string>;
+
+function pickVehiclePrices(source: VehiclePriceValues): VehiclePriceValues {
+  return {
+    publicPrice: source.publicPrice,
+    pcdIpiIcms: source.pcdIpiIcms,
+    pcdIpi: source.pcdIpi,
+    taxiIpiIcms: source.taxiIpiIcms,
+    taxiIpi: source.taxiIpi
+  };
+}
+
+// Data no formato AAAA-MM-DD (fuso do servidor)
+export function toDateString(value: Date): string {
+  const month = String(value.getMonth() + 1).padStart(2, '0');
+  const day = String(value.getDate()).padStart(2, '0');
+  return `${value.getFullYear()}-${month}-${day}`;
+}
+
+export function todayDate(): string {
+  return toDateString(new Date());
+}
+
+/**
+ * Busca o registro de preço vigente em uma data para cada veículo informado
+ * (o mais recente com effectiveFrom <= data)
+ */
+export async function getEffectiveVehiclePrices(vehicleIds: number[], date: string = todayDate(), executor: any = db) {
+  const effective = new Map<number, typeof vehiclePrices.$inferSelect>();
+  if (vehicleIds.length === 0) return effective;
+
+  const rows = await executor
+    .selectDistinctOn([vehiclePrices.vehicleId])
+    .from(vehiclePrices)
+    .where(and(
+      inArray(vehiclePrices.vehicleId, vehicleIds),
+      lte(vehiclePrices.effectiveFrom, date)
+    ))
+    .orderBy(vehiclePrices.vehicleId, desc(vehiclePrices.effectiveFrom), desc(vehiclePrices.id));
+
+  for (const row of rows as Array<typeof vehiclePrices.$inferSelect>) {
+    effective.set(row.vehicleId, row);
+  }
+  return effective;
+}
+
+/**
+ * Substitui os preços dos veículos pelos vigentes na data. Veículos sem histórico
+ * mantêm os valores das próprias colunas.
+ */
+export async function applyEffectivePrices<T extends { id: number } & VehiclePriceValues>(list: T[], date?: string): Promise<T[]> {
+  const effective = await getEffectiveVehiclePrices(list.map(vehicle => vehicle.id), date);
+  return list.map(vehicle => {
+    const price = effective.get(vehicle.id);
+    return price ? { ...vehicle, ...pickVehiclePrices(price) } : vehicle;
+  });
+}
+
+/**
+ * Veículos cadastrados antes do histórico não têm nenhum registro: antes da primeira
+ * alteração, grava os preços atuais (vigentes desde o cadastro) para não perdê-los.
+ */
+export async function ensureVehiclePriceBaseline(vehicleId: number, executor: any = db) {
+  const [existing] = await executor
+    .select({ id: vehiclePrices.id })
+    .from(vehiclePrices)
+    .where(eq(vehiclePrices.vehicleId, vehicleId))
+    .limit(1);
+  if (existing) return;
+
+  const [vehicle] = await executor.select().from(vehicles).where(eq(vehicles.id, vehicleId));
+  if (!vehicle) return;
+
+  await executor.insert(vehiclePrices).values({
+    ...pickVehiclePrices(vehicle),
+    vehicleId,
+    effectiveFrom: toDateString(vehicle.createdAt),
+    source: 'initial'
+  });
+}
+
+/**
+ * Atualiza as colunas de preço de vehicles com o registro vigente hoje.
+ * Chamado após incluir ou remover registros do histórico.
+ */
+export async function syncVehicleCurrentPrices(vehicleId: number, executor: any = db) {
+  const effective = await getEffectiveVehiclePrices([vehicleId], todayDate(), executor);
+  const price = effective.get(vehicleId);
+  if (!price) return;
+
+  await executor.update(vehicles)
+    .set({ ...pickVehiclePrices(price), updatedAt: new Date() })
+    .where(eq(vehicles.id, vehicleId));
+}
+
+/**
+ * Aplica nas colunas de vehicles os preços agendados que já entraram em vigor.
+ * Executado periodicamente; retorna os ids dos veículos atualizados.
+ */
+export async function applyScheduledVehiclePrices(): Promise<number[]> {
+  const due: Array<typeof vehiclePrices.$inferSelect> = await db
+    .selectDistinctOn([vehiclePrices.vehicleId])
+    .from(vehiclePrices)
+    .where(lte(vehiclePrices.effectiveFrom, todayDate()))
+    .orderBy(vehiclePrices.vehicleId, desc(vehiclePrices.effectiveFrom), desc(vehiclePrices.id));
+  if (due.length === 0) return [];
+
+  const currentRows = await db.select().from(vehicles)
+    .where(inArray(vehicles.id, due.map(price => price.vehicleId)));
+
+  const updatedIds: number[] = [];
+  for (const price of due) {
+    const vehicle = currentRows.find(row => row.id === price.vehicleId);
+    if (!vehicle) continue;
+    if (VEHICLE_PRICE_FIELDS.every(field => Number(vehicle[field]) === Number(price[field]))) continue;
+
+    await db.update(vehicles)
+      .set({ ...pickVehiclePrices(price), updatedAt: new Date() })
+      .where(eq(vehicles.id, vehicle.id));
+    updatedIds.push(vehicle.id);
+  }
+  return updatedIds;
+}
+
+export async function getVehiclePriceHistory(vehicleId: number) {
+  return db.query.vehiclePrices.findMany({
+    where: eq(vehiclePrices.vehicleId, vehicleId),
+    orderBy: [desc(vehiclePrices.effectiveFrom), desc(vehiclePrices.id)],
+    with: {
+      createdByUser: {
+        columns: { id: true, name: true }
+      }
+    }
+  });
+}
+
+export async function getVehiclePriceById(id: number) {
+  return db.query.vehiclePrices.findFirst({
+    where: eq(vehiclePrices.id, id)
+  });
+}
+
+export async function createVehiclePrice(data: VehiclePriceInsert) {
+  return db.transaction(async (tx) => {
+    await ensureVehiclePriceBaseline(data.vehicleId, tx);
+    const [newPrice] = await tx.insert(vehiclePrices).values(data).returning();
+    await syncVehicleCurrentPrices(newPrice.vehicleId, tx);
+    return newPrice;
+  });
+}
+
+export async function deleteVehiclePrice(id: number) {
+  await db.transaction(async (tx) => {
+    const [deleted] = await tx.delete(vehiclePrices).where(eq(vehiclePrices.id, id)).returning();
+    if (deleted) {
+      await syncVehicleCurrentPrices(deleted.vehicleId, tx);
+    }
+  });
 }
 
 // Funções para gerenciar configurações
@@ -539,10 +741,12 @@ export async function deleteOptional(id: number) {
 
 // Opcionais das Versões
 export async function getVersionOptionals(options: { modelId?: number, versionId?: number } = {}) {
-  const query: any = {};
+  const query: any = {
+    where: isNull(versionOptionals.deletedAt)
+  };
   
   if (options.versionId) {
-    query.where = eq(versionOptionals.versionId, options.versionId);
+    query.where = and(query.where, eq(versionOptionals.versionId, options.versionId));
   }
   
   const results = await db.query.versionOptionals.findMany({
@@ -667,6 +871,383 @@ export async function deleteDirectSale(id: number) {
   await db.delete(directSales).where(eq(directSales.id, id));
 }
 
+// Orçamentos
+export async function getQuotes(options: { userId?: number } = {}) {
+  return db.query.quotes.findMany({
+    where: options.userId ? eq(quotes.userId, options.userId) : undefined,
+    orderBy: desc(quotes.createdAt),
+    with: {
+      user: {
+        columns: {
+          id: true,
+          name: true,
+          email: true
+        }
+      }
+    }
+  });
+}
+
+export async function getQuoteById(id: number) {
+  return db.query.quotes.findFirst({
+    where: eq(quotes.id, id),
+    with: {
+      user: {
+        columns: {
+          id: true,
+          name: true,
+          email: true
+        }
+      }
+    }
+  });
+}
+
+export async function createQuote(data: QuoteInsert) {
+  const [newQuote] = await db.insert(quotes).values({
+    ...data,
+    updatedAt: new Date()
+  }).returning();
+  
+  return getQuoteById(newQuote.id);
+}
+
+export async function updateQuote(id: number, data: QuoteInsert) {
+  const [updatedQuote] = await db.update(quotes)
+    .set({
+      ...data,
+      updatedAt: new Date()
+    })
+    .where(eq(quotes.id, id))
+    .returning();
+  
+  if (!updatedQuote) return null;
+  
+  return getQuoteById(updatedQuote.id);
+}
+
+export async function duplicateQuote(id: number, userId: number) {
+  const original = await db.query.quotes.findFirst({
+    where: eq(quotes.id, id)
+  });
+  
+  if (!original) return null;
+  
+  // A cópia pertence a quem duplicou e mantém os valores congelados do original
+  const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...data } = original;
+  
+  return createQuote({ ...data, userId });
+}
+
+export async function deleteQuote(id: number) {
+  await db.delete(quotes).where(eq(quotes.id, id));
+}
+
+// Clientes
+// A busca considera o nome e, quando o termo tem dígitos, o CPF/CNPJ
+export async function getCustomers(search?: string) {
+  const term = search?.trim();
+  const digits = term ? onlyDigits(term) : '';
+  const conditions = term
+    ? [ilike(customers.name, `%${term}%`), ...(digits ? [ilike(customers.document, `%${digits}%`)] : [])]
+    : [];
+
+  return db.query.customers.findMany({
+    where: conditions.length > 0 ? or(...conditions) : undefined,
+    orderBy: asc(customers.name)
+  });
+}
+
+export async function getCustomerById(id: number) {
+  return db.query.customers.findFirst({
+    where: eq(customers.id, id)
+  });
+}
+
+export async function getCustomerByDocument(document: string) {
+  return db.query.customers.findFirst({
+    where: eq(customers.document, onlyDigits(document))
+  });
+}
+
+export async function createCustomer(data: CustomerData, createdBy: number) {
+  const [newCustomer] = await db.insert(customers).values({
+    ...data,
+    createdBy,
+    updatedAt: new Date()
+  }).returning();
+  return newCustomer;
+}
+
+export async function updateCustomer(id: number, data: CustomerData) {
+  const [updatedCustomer] = await db.update(customers)
+    .set({
+      ...data,
+      updatedAt: new Date()
+    })
+    .where(eq(customers.id, id))
+    .returning();
+  return updatedCustomer;
+}
+
+// Orçamentos guardam o cliente só como id e snapshot, então a exclusão não os afeta
+export async function deleteCustomer(id: number) {
+  await db.delete(customers).where(eq(customers.id, id));
+}
+
+// Preços regionais
+export async function getStatePriceAdjustments() {
+  return db.query.statePriceAdjustments.findMany({
+    orderBy: asc(statePriceAdjustments.state)
+  });
+}
+
+// A lista enviada substitui a atual; UFs que ficaram de fora voltam a não ter ajuste
+export async function replaceStatePriceAdjustments(items: StatePriceAdjustmentsInput) {
+  return db.transaction(async (tx) => {
+    await tx.delete(statePriceAdjustments);
+    if (items.length === 0) return [];
+    return tx.insert(statePriceAdjustments).values(items.map(item => ({
+      state: item.state,
+      adjustmentPercentage: item.adjustmentPercentage.toFixed(2),
+      notes: item.notes || null
+    }))).returning();
+  });
+}
+
+export async function getFreightRates(state?: string) {
+  return db.query.freightRates.findMany({
+    where: state ? eq(freightRates.state, state) : undefined,
+    with: { brand: true, model: true },
+    orderBy: [asc(freightRates.state), asc(freightRates.brandId), asc(freightRates.modelId)]
+  });
+}
+
+export async function getFreightRateById(id: number) {
+  return db.query.freightRates.findFirst({
+    where: eq(freightRates.id, id)
+  });
+}
+
+// Frete já cadastrado para a mesma UF e marca/modelo (cada combinação só pode existir uma vez)
+export async function findFreightRate(state: string, brandId: number, modelId: number | null | undefined) {
+  return db.query.freightRates.findFirst({
+    where: and(
+      eq(freightRates.state, state),
+      eq(freightRates.brandId, brandId),
+      modelId ? eq(freightRates.modelId, modelId) : isNull(freightRates.modelId)
+    )
+  });
+}
+
+export async function createFreightRate(data: FreightRateInput) {
+  const [newRate] = await db.insert(freightRates).values({
+    state: data.state,
+    brandId: data.brandId,
+    modelId: data.modelId || null,
+    amount: data.amount.toFixed(2)
+  }).returning();
+  return newRate;
+}
+
+export async function updateFreightRate(id: number, data: FreightRateInput) {
+  const [updatedRate] = await db.update(freightRates)
+    .set({
+      state: data.state,
+      brandId: data.brandId,
+      modelId: data.modelId || null,
+      amount: data.amount.toFixed(2),
+      updatedAt: new Date()
+    })
+    .where(eq(freightRates.id, id))
+    .returning();
+  return updatedRate;
+}
+
+export async function deleteFreightRate(id: number) {
+  await db.delete(freightRates).where(eq(freightRates.id, id));
+}
+
+/**
+ * Ajuste percentual e fretes de uma UF. Devolve uma função que resolve o frete de cada
+ * marca/modelo, para que listas de veículos não consultem o banco item a item.
+ */
+export async function getRegionalPricing(state: string) {
+  const [adjustment, rates] = await Promise.all([
+    db.query.statePriceAdjustments.findFirst({
+      where: eq(statePriceAdjustments.state, state)
+    }),
+    db.query.freightRates.findMany({
+      where: eq(freightRates.state, state)
+    })
+  ]);
+
+  return {
+    state,
+    adjustmentPercentage: Number(adjustment?.adjustmentPercentage) || 0,
+    freightFor: (brandId: number, modelId: number) =>
+      Number(resolveFreightRate(rates, state, brandId, modelId)?.amount) || 0
+  };
+}
+
+// Estoque (unidades físicas)
+// Status, chassi/RENAVAM e local são filtrados no banco; marca, modelo e versão pelas relações carregadas
+export async function getStockUnits(filters: StockUnitFilters = {}) {
+  const conditions = [];
+  if (filters.status) conditions.push(eq(stockUnits.status, filters.status));
+  if (filters.location) conditions.push(ilike(stockUnits.location, `%${filters.location}%`));
+  if (filters.search) {
+    conditions.push(or(
+      ilike(stockUnits.vin, `%${filters.search.toUpperCase()}%`),
+      ilike(stockUnits.renavam, `%${filters.search}%`)
+    ));
+  }
+
+  const results = await db.query.stockUnits.findMany({
+    where: conditions.length > 0 ? and(...conditions) : undefined,
+    orderBy: [desc(stockUnits.arrivalDate), desc(stockUnits.createdAt)],
+    with: {
+      vehicle: {
+        with: {
+          version: {
+            with: {
+              model: {
+                with: { brand: true }
+              }
+            }
+          }
+        }
+      },
+      versionColor: {
+        with: { color: true }
+      }
+    }
+  });
+
+  return results.filter(unit => {
+    const version = unit.vehicle.version;
+    if (filters.versionId && version.id !== filters.versionId) return false;
+    if (filters.modelId && version.modelId !== filters.modelId) return false;
+    if (filters.brandId && version.model.brandId !== filters.brandId) return false;
+    return true;
+  });
+}
+
+export async function getStockUnitById(id: number) {
+  return db.query.stockUnits.findFirst({
+    where: eq(stockUnits.id, id)
+  });
+}
+
+export async function getStockUnitByVin(vin: string) {
+  return db.query.stockUnits.findFirst({
+    where: eq(stockUnits.vin, vin)
+  });
+}
+
+export async function createStockUnit(data: StockUnitData, createdBy: number) {
+  const [newUnit] = await db.insert(stockUnits).values({
+    ...data,
+    cost: data.cost != null ? data.cost.toFixed(2) : null,
+    createdBy,
+    updatedAt: new Date()
+  }).returning();
+  return newUnit;
+}
+
+export async function updateStockUnit(id: number, data: StockUnitData) {
+  const [updatedUnit] = await db.update(stockUnits)
+    .set({
+      ...data,
+      cost: data.cost != null ? data.cost.toFixed(2) : null,
+      updatedAt: new Date()
+    })
+    .where(eq(stockUnits.id, id))
+    .returning();
+  return updatedUnit;
+}
+
+export async function deleteStockUnit(id: number) {
+  await db.delete(stockUnits).where(eq(stockUnits.id, id));
+}
+
+// Unidades em estoque e em trânsito de um veículo, no total e por cor (configurador)
+export async function getStockSummary(vehicleId: number): Promise<StockSummary> {
+  const rows = await db.select({
+    colorId: versionColors.colorId,
+    status: stockUnits.status,
+    count: sql<number>`count(*)::int`
+  })
+    .from(stockUnits)
+    .innerJoin(versionColors, eq(stockUnits.versionColorId, versionColors.id))
+    .where(and(
+      eq(stockUnits.vehicleId, vehicleId),
+      inArray(stockUnits.status, ['inStock', 'inTransit'])
+    ))
+    .groupBy(versionColors.colorId, stockUnits.status);
+
+  const summary: StockSummary = { vehicleId, inStock: 0, inTransit: 0, byColor: {} };
+  for (const row of rows) {
+    const color = summary.byColor[row.colorId] ??= { inStock: 0, inTransit: 0 };
+    if (row.status === 'inStock') {
+      color.inStock += row.count;
+      summary.inStock += row.count;
+    } else {
+      color.inTransit += row.count;
+      summary.inTransit += row.count;
+    }
+  }
+  return summary;
+}
+
+// Auditoria
+export interface AuditLogFilters {
+  userId?: number;
+  entity?: string;
+  entityId?: string;
+  action?: AuditAction;
+  // Intervalo de datas (AAAA-MM-DD), inclusivo
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+function buildAuditLogWhere(filters: AuditLogFilters) {
+  const conditions = [];
+  if (filters.userId) conditions.push(eq(auditLogs.userId, filters.userId));
+  if (filters.entity) conditions.push(eq(auditLogs.entity, filters.entity));
+  if (filters.entityId) conditions.push(eq(auditLogs.entityId, filters.entityId));
+  if (filters.action) conditions.push(eq(auditLogs.action, filters.action));
+  if (filters.from) conditions.push(gte(auditLogs.createdAt, new Date(`${filters.from}T00:00:00`)));
+  if (filters.to) conditions.push(lte(auditLogs.createdAt, new Date(`${filters.to}T23:59:59.999`)));
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+export async function createAuditLog(data: AuditLogInsert) {
+  const [newLog] = await db.insert(auditLogs).values({
+    ...data,
+    changes: data.changes as AuditChanges | null | undefined
+  }).returning();
+  return newLog;
+}
+
+export async function getAuditLogs(filters: AuditLogFilters = {}) {
+  const where = buildAuditLogWhere(filters);
+
+  const [logs, [{ count }]] = await Promise.all([
+    db.query.auditLogs.findMany({
+      where,
+      orderBy: [desc(auditLogs.createdAt), desc(auditLogs.id)],
+      limit: filters.limit ?? 50,
+      offset: filters.offset ?? 0
+    }),
+    db.select({ count: sql<number>`count(*)::int` }).from(auditLogs).where(where)
+  ]);
+
+  return { logs, total: count };
+}
+
 export const storage = {
   getBrands,
   getBrandById,
@@ -709,6 +1290,11 @@ export const storage = {
   createVehicle,
   updateVehicle,
   deleteVehicle,
+  getVehiclePriceHistory,
+  getVehiclePriceById,
+  applyScheduledVehiclePrices,
+  createVehiclePrice,
+  deleteVehiclePrice,
   
   getOptionals,
   getOptionalById,
@@ -728,6 +1314,41 @@ export const storage = {
   updateDirectSale,
   deleteDirectSale,
   
+  getQuotes,
+  getQuoteById,
+  createQuote,
+  updateQuote,
+  duplicateQuote,
+  deleteQuote,
+  
+  getCustomers,
+  getCustomerById,
+  getCustomerByDocument,
+  createCustomer,
+  updateCustomer,
+  deleteCustomer,
+  
+  getStatePriceAdjustments,
+  replaceStatePriceAdjustments,
+  getFreightRates,
+  getFreightRateById,
+  findFreightRate,
+  createFreightRate,
+  updateFreightRate,
+  deleteFreightRate,
+  getRegionalPricing,
+  
+  getStockUnits,
+  getStockUnitById,
+  getStockUnitByVin,
+  createStockUnit,
+  updateStockUnit,
+  deleteStockUnit,
+  getStockSummary,
+  
+  createAuditLog,
+  getAuditLogs,
+  
   getSettings,
   getSettingByKey,
   getSetting,
@@ -738,6 +1359,8 @@ export const storage = {
   
   // Funções para gerenciar permissões personalizadas
   getCustomPermissions,
+  getCustomPermissionMap,
+  invalidateCustomPermissionMap,
   getCustomPermissionsByRole,
   createOrUpdateCustomPermissions,
   deleteCustomPermissions,
@@ -759,6 +1382,28 @@ export async function getCustomPermissions() {
   return await db.query.customPermissions.findMany();
 }
 
+// Cache das permissões por papel consultado a cada requisição da API (requirePermission).
+// Invalidado nas alterações; o TTL cobre gravações por outros caminhos (ex.: restauração de backup).
+const CUSTOM_PERMISSIONS_CACHE_TTL_MS = 60 * 1000;
+let customPermissionMapCache: { map: Record<string, Record<string, boolean>>; loadedAt: number } | null = null;
+
+export async function getCustomPermissionMap(): Promise<Record<string, Record<string, boolean>>> {
+  if (customPermissionMapCache && Date.now() - customPermissionMapCache.loadedAt < CUSTOM_PERMISSIONS_CACHE_TTL_MS) {
+    return customPermissionMapCache.map;
+  }
+  
+  const map: Record<string, Record<string, boolean>> = {};
+  for (const permission of await getCustomPermissions()) {
+    map[permission.roleName] = permission.permissions as Record<string, boolean>;
+  }
+  customPermissionMapCache = { map, loadedAt: Date.now() };
+  return map;
+}
+
+export function invalidateCustomPermissionMap() {
+  customPermissionMapCache = null;
+}
+
 export async function getCustomPermissionsByRole(roleName: string) {
   return await db.query.customPermissions.findFirst({
     where: eq(customPermissions.roleName, roleName)
@@ -770,6 +1415,7 @@ export async function createOrUpdateCustomPermissions(data: {
   permissions: Record<string, boolean>;
 }) {
   const { roleName, permissions } = data;
+  invalidateCustomPermissionMap();
   
   // Verificar se já existem permissões para esse papel
   const existingPermissions = await getCustomPermissionsByRole(roleName);
@@ -796,6 +1442,7 @@ export async function createOrUpdateCustomPermissions(data: {
 
 export async function deleteCustomPermissions(roleName: string) {
   const existing = await getCustomPermissionsByRole(roleName);
+  invalidateCustomPermissionMap();
   
   if (existing) {
     return await db.delete(customPermissions)
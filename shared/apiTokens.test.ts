@@ -0,0 +1,29 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { apiTokenInputSchema, isAllowedByApiTokenScopes } from "./apiTokens";
+
+test("escopo de leitura do catálogo só libera consultas", () => {
+  assert.equal(isAllowedByApiTokenScopes(['catalog:read'], ['Visualizar veículos'], 'GET'), true);
+  assert.equal(isAllowedByApiTokenScopes(['catalog:read'], ['Visualizar veículos'], 'HEAD'), true);
+  assert.equal(isAllowedByApiTokenScopes(['catalog:read'], ['Visualizar veículos'], 'POST'), false);
+  assert.equal(isAllowedByApiTokenScopes(['catalog:read'], ['Cadastrar novos veículos'], 'POST'), false);
+});
+
+test("escopo de importação libera a importação em qualquer método", () => {
+  assert.equal(isAllowedByApiTokenScopes(['prices:import'], ['Importar tabela de preços dos veículos'], 'POST'), true);
+  assert.equal(isAllowedByApiTokenScopes(['catalog:read'], ['Importar tabela de preços dos veículos'], 'POST'), false);
+  assert.equal(isAllowedByApiTokenScopes(['catalog:read', 'prices:import'], ['Importar tabela de preços dos veículos'], 'POST'), true);
+});
+
+test("rotas fora dos escopos e tokens sem escopo são recusados", () => {
+  assert.equal(isAllowedByApiTokenScopes(['catalog:read', 'prices:import'], ['Gerenciamento de usuários'], 'GET'), false);
+  assert.equal(isAllowedByApiTokenScopes(['catalog:read'], [], 'GET'), false);
+  assert.equal(isAllowedByApiTokenScopes([], ['Visualizar veículos'], 'GET'), false);
+});
+
+test("criação do token exige escopo conhecido e validade da lista", () => {
+  assert.equal(apiTokenInputSchema.safeParse({ name: "ERP", scopes: ['catalog:read'], expiresInDays: 90 }).success, true);
+  assert.equal(apiTokenInputSchema.safeParse({ name: "ERP", scopes: [], expiresInDays: 90 }).success, false);
+  assert.equal(apiTokenInputSchema.safeParse({ name: "ERP", scopes: ['admin'], expiresInDays: 90 }).success, false);
+  assert.equal(apiTokenInputSchema.safeParse({ name: "ERP", scopes: ['catalog:read'], expiresInDays: 7 }).success, false);
+});
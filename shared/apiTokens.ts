@@ -0,0 +1,91 @@
+import { z } from "zod";
+
+// Tokens pessoais de API para integrações (ERP, site): escopos, validade e formato
+
+// Prefixo dos tokens gerados; facilita reconhecer um token vazado em logs ou repositórios
+export const API_TOKEN_PREFIX = 'apt_';
+
+export const API_TOKEN_EXPIRY_DAYS = [30, 90, 180, 365] as const;
+
+export const API_TOKEN_SCOPES = ['catalog:read', 'prices:import'] as const;
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+
+// Permissão da matriz (shared/permissions.ts) liberada pelo escopo; sem methods, vale para todos
+interface ApiTokenScopeGrant {
+  permission: string;
+  methods?: string[];
+}
+
+export interface ApiTokenScopeDefinition {
+  label: string;
+  description: string;
+  grants: ApiTokenScopeGrant[];
+}
+
+export const API_TOKEN_SCOPE_DEFINITIONS: Record<ApiTokenScope, ApiTokenScopeDefinition> = {
+  'catalog:read': {
+    label: 'Catálogo (somente leitura)',
+    description: 'Consultar marcas, modelos, versões, cores, opcionais, veículos e preços',
+    grants: [
+      { permission: 'Configurador de veículos', methods: ['GET'] },
+      { permission: 'Visualizar veículos', methods: ['GET'] }
+    ]
+  },
+  'prices:import': {
+    label: 'Importação de preços',
+    description: 'Exportar e importar a tabela de preços dos veículos',
+    grants: [
+      { permission: 'Importar tabela de preços dos veículos' },
+      { permission: 'Visualizar veículos', methods: ['GET'] }
+    ]
+  }
+};
+
+/**
+ * O token só alcança rotas cuja permissão esteja em um dos seus escopos, para o método da
+ * requisição. A permissão do papel do dono do token continua sendo exigida à parte.
+ */
+export function isAllowedByApiTokenScopes(scopes: ApiTokenScope[], permissionDescriptions: string[], method: string): boolean {
+  const requestMethod = method === 'HEAD' ? 'GET' : method;
+  return scopes.some(scope =>
+    API_TOKEN_SCOPE_DEFINITIONS[scope]?.grants.some(grant =>
+      permissionDescriptions.includes(grant.permission) &&
+      (!grant.methods || grant.methods.includes(requestMethod))
+    )
+  );
+}
+
+export const apiTokenInputSchema = z.object({
+  name: z.string().trim().min(3, "O nome deve ter pelo menos 3 caracteres").max(100),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1, "Escolha ao menos um escopo"),
+  expiresInDays: z.number().int().refine(
+    days => (API_TOKEN_EXPIRY_DAYS as readonly number[]).includes(days),
+    "Validade inválida"
+  )
+});
+export type ApiTokenInput = z.infer<typeof apiTokenInputSchema>;
+
+export type ApiTokenStatus = 'active' | 'expired' | 'revoked';
+
+export const API_TOKEN_STATUS_LABELS: Record<ApiTokenStatus, string> = {
+  active: 'Ativo',
+  expired: 'Expirado',
+  revoked: 'Revogado'
+};
+
+export interface ApiTokenSummary {
+  id: number;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  status: ApiTokenStatus;
+  expiresAt: string;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  createdAt: string;
+}
+
+// Resposta da criação: o token completo só é devolvido aqui
+export interface CreatedApiToken extends ApiTokenSummary {
+  token: string;
+}
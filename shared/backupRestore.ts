@@ -0,0 +1,97 @@
+import { z } from "zod";
+
+// Restauração seletiva de backups: escolha de tabelas, filtro por marca e pré-visualização
+// registro a registro contra o banco atual antes de aplicar.
+
+export const backupRestoreRequestSchema = z.object({
+  backupId: z.number().int().positive().optional(),
+  filePath: z.string().min(1).optional(),
+  mode: z.enum(['merge', 'replace']).default('merge'),
+  dryRun: z.boolean().default(false),
+  passphrase: z.string().optional(),
+  // Subconjunto de manifest.tableOrder; vazio ou ausente restaura todas as tabelas
+  tables: z.array(z.string()).optional(),
+  // Restringe as tabelas ligadas a marcas (modelos, versões, veículos...) às marcas informadas
+  brandIds: z.array(z.number().int().positive()).optional()
+}).refine(data => data.backupId !== undefined || data.filePath !== undefined, {
+  message: "backupId ou filePath é obrigatório"
+});
+export type BackupRestoreRequest = z.infer<typeof backupRestoreRequestSchema>;
+
+export type RestoreRecordAction = 'insert' | 'update' | 'unchanged' | 'conflict';
+
+export const RESTORE_ACTION_LABELS: Record<RestoreRecordAction, string> = {
+  insert: 'Inserir',
+  update: 'Atualizar',
+  unchanged: 'Sem alteração',
+  conflict: 'Conflito'
+};
+
+export interface RestoreRecordPreview {
+  id: number;
+  action: RestoreRecordAction;
+  label: string;
+  // Campos que mudam em relação ao banco atual (apenas em 'update')
+  changes?: Record<string, { from: unknown; to: unknown }>;
+  // Motivos do conflito; registros em conflito não são restaurados
+  conflicts?: string[];
+}
+
+export interface RestoreTablePreview {
+  table: string;
+  totals: Record<RestoreRecordAction, number>;
+  // Registros descartados pelo filtro de marca
+  filteredOut: number;
+  brandFilterApplied: boolean;
+  // Registros sem alteração só entram nos totais
+  records: RestoreRecordPreview[];
+  truncated: boolean;
+}
+
+export interface RestorePreview {
+  mode: 'merge' | 'replace';
+  tables: RestoreTablePreview[];
+  totals: Record<RestoreRecordAction, number>;
+}
+
+// Migração de schema aplicada aos registros de um backup de versão anterior
+export interface BackupMigrationSummary {
+  from: string;
+  to: string;
+  description: string;
+}
+
+export interface BackupRestoreResult {
+  success: boolean;
+  message: string;
+  restoredCounts?: Record<string, number>;
+  preview?: RestorePreview;
+  migrations?: BackupMigrationSummary[];
+}
+
+// Restaurações rodam em segundo plano; o progresso é consultado por polling
+export type RestoreJobPhase = 'extracting' | 'validating' | 'migrating' | 'restoring' | 'finished';
+
+export const RESTORE_PHASE_LABELS: Record<RestoreJobPhase, string> = {
+  extracting: 'Extraindo arquivo',
+  validating: 'Validando checksums',
+  migrating: 'Migrando schema',
+  restoring: 'Restaurando registros',
+  finished: 'Concluído'
+};
+
+export interface RestoreJob {
+  id: string;
+  status: 'running' | 'completed' | 'failed';
+  phase: RestoreJobPhase;
+  mode: 'merge' | 'replace';
+  dryRun: boolean;
+  tables: string[] | null;
+  brandIds: number[] | null;
+  currentTable: string | null;
+  processedRecords: number;
+  totalRecords: number;
+  startedAt: string;
+  finishedAt: string | null;
+  result: BackupRestoreResult | null;
+}
@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+// Agendamento de backups automáticos, guardado na tabela de configurações.
+// A expressão segue o formato cron de 5 campos: minuto hora dia-do-mês mês dia-da-semana.
+
+export const BACKUP_SCHEDULE_SETTING_KEYS = {
+  enabled: 'backup_schedule_enabled',
+  cron: 'backup_schedule_cron',
+  keepDaily: 'backup_retention_daily',
+  keepWeekly: 'backup_retention_weekly',
+  keepMonthly: 'backup_retention_monthly'
+} as const;
+
+export const BACKUP_SCHEDULE_PRESETS = [
+  { label: 'Diariamente às 02:00', cron: '0 2 * * *' },
+  { label: 'Semanalmente (domingo às 02:00)', cron: '0 2 * * 0' },
+  { label: 'Mensalmente (dia 1 às 02:00)', cron: '0 2 1 * *' },
+  { label: 'A cada 6 horas', cron: '0 */6 * * *' }
+];
+
+export const backupScheduleConfigSchema = z.object({
+  enabled: z.boolean(),
+  cron: z.string().trim().min(1, "Informe a expressão do agendamento"),
+  // Quantos backups automáticos manter: o mais recente de cada dia, semana e mês
+  keepDaily: z.number().int().min(1, "Mantenha pelo menos 1 backup diário").max(365),
+  keepWeekly: z.number().int().min(0).max(260),
+  keepMonthly: z.number().int().min(0).max(120)
+});
+export type BackupScheduleConfig = z.infer<typeof backupScheduleConfigSchema>;
+
+export const DEFAULT_BACKUP_SCHEDULE: BackupScheduleConfig = {
+  enabled: false,
+  cron: '0 2 * * *',
+  keepDaily: 7,
+  keepWeekly: 4,
+  keepMonthly: 6
+};
+
+export interface BackupScheduleStatus extends BackupScheduleConfig {
+  // Backups automáticos são criptografados quando o servidor tem BACKUP_ENCRYPTION_KEY
+  encrypted: boolean;
+  nextRunAt: string | null;
+  lastRun: {
+    id: number;
+    status: string;
+    createdAt: string;
+    errorMessage: string | null;
+  } | null;
+}
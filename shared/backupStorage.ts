@@ -0,0 +1,18 @@
+// Destinos de armazenamento dos backups. O diretório local do servidor é sempre usado;
+// os demais são ativados por variáveis de ambiente e recebem uma cópia de cada backup concluído.
+export const BACKUP_STORAGE_TARGETS = ['local', 'mirror', 's3'] as const;
+export type BackupStorageTargetName = typeof BACKUP_STORAGE_TARGETS[number];
+
+export const BACKUP_STORAGE_TARGET_LABELS: Record<BackupStorageTargetName, string> = {
+  local: 'Servidor',
+  mirror: 'Espelho',
+  s3: 'S3'
+};
+
+// Onde um backup está disponível, como devolvido na listagem
+export interface BackupLocation {
+  target: BackupStorageTargetName;
+  status: 'available' | 'failed' | 'missing';
+  location: string;
+  errorMessage: string | null;
+}
@@ -0,0 +1,38 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { formatDocument, isValidCnpj, isValidCpf } from "./customers";
+
+test("CPF com dígitos verificadores corretos, com ou sem máscara", () => {
+  assert.equal(isValidCpf("52998224725"), true);
+  assert.equal(isValidCpf("529.982.247-25"), true);
+  assert.equal(isValidCpf("111.444.777-35"), true);
+});
+
+test("CPF com dígito errado, tamanho errado ou dígitos repetidos é inválido", () => {
+  assert.equal(isValidCpf("529.982.247-26"), false);
+  assert.equal(isValidCpf("529.982.247-52"), false);
+  assert.equal(isValidCpf("5299822472"), false);
+  assert.equal(isValidCpf("111.111.111-11"), false);
+  assert.equal(isValidCpf(""), false);
+});
+
+test("CNPJ com dígitos verificadores corretos, com ou sem máscara", () => {
+  assert.equal(isValidCnpj("11222333000181"), true);
+  assert.equal(isValidCnpj("11.222.333/0001-81"), true);
+  assert.equal(isValidCnpj("11.444.777/0001-61"), true);
+});
+
+test("CNPJ com dígito errado, tamanho errado ou dígitos repetidos é inválido", () => {
+  assert.equal(isValidCnpj("11.222.333/0001-82"), false);
+  assert.equal(isValidCnpj("11.222.333/0001-18"), false);
+  assert.equal(isValidCnpj("1122233300018"), false);
+  assert.equal(isValidCnpj("00.000.000/0000-00"), false);
+  // Um CPF válido não passa como CNPJ
+  assert.equal(isValidCnpj("52998224725"), false);
+});
+
+test("documento formatado conforme o tamanho", () => {
+  assert.equal(formatDocument("52998224725"), "529.982.247-25");
+  assert.equal(formatDocument("11222333000181"), "11.222.333/0001-81");
+  assert.equal(formatDocument("1234"), "1234");
+});
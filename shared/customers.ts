@@ -0,0 +1,140 @@
+import { z } from "zod";
+import type { PriceType } from "./pricing";
+
+// Cadastro de clientes (compradores): o tipo do cliente define a quais tabelas de preço
+// com isenção ele tem direito no configurador.
+
+export const CUSTOMER_TYPES = ['pf', 'pj', 'pcd', 'taxi'] as const;
+export type CustomerType = typeof CUSTOMER_TYPES[number];
+
+export const CUSTOMER_TYPE_LABELS: Record<CustomerType, string> = {
+  pf: 'Pessoa Física',
+  pj: 'Pessoa Jurídica',
+  pcd: 'PcD',
+  taxi: 'Taxista'
+};
+
+// Tipos de preço a que cada tipo de cliente tem direito; o primeiro é o padrão no configurador
+export const CUSTOMER_ELIGIBLE_PRICE_TYPES: Record<CustomerType, PriceType[]> = {
+  pf: ['public'],
+  pj: ['public'],
+  pcd: ['pcdIpi', 'pcdIpiIcms', 'public'],
+  taxi: ['taxiIpi', 'taxiIpiIcms', 'public']
+};
+
+export function getDefaultPriceType(type: CustomerType): PriceType {
+  return CUSTOMER_ELIGIBLE_PRICE_TYPES[type][0];
+}
+
+// Somente PJ usa CNPJ; os demais tipos são pessoas físicas
+export function getDocumentKind(type: CustomerType): 'cpf' | 'cnpj' {
+  return type === 'pj' ? 'cnpj' : 'cpf';
+}
+
+export function onlyDigits(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+// Dígitos verificadores do CPF (módulo 11); sequências repetidas são inválidas
+export function isValidCpf(value: string): boolean {
+  const cpf = onlyDigits(value);
+  if (cpf.length !== 11 || /^(\d)\1{10}$/.test(cpf)) return false;
+
+  const checkDigit = (length: number) => {
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      sum += parseInt(cpf[i]) * (length + 1 - i);
+    }
+    const rest = (sum * 10) % 11;
+    return rest === 10 ? 0 : rest;
+  };
+
+  return checkDigit(9) === parseInt(cpf[9]) && checkDigit(10) === parseInt(cpf[10]);
+}
+
+// Dígitos verificadores do CNPJ (pesos 2 a 9, da direita para a esquerda)
+export function isValidCnpj(value: string): boolean {
+  const cnpj = onlyDigits(value);
+  if (cnpj.length !== 14 || /^(\d)\1{13}$/.test(cnpj)) return false;
+
+  const checkDigit = (length: number) => {
+    let sum = 0;
+    let weight = 2;
+    for (let i = length - 1; i >= 0; i--) {
+      sum += parseInt(cnpj[i]) * weight;
+      weight = weight === 9 ? 2 : weight + 1;
+    }
+    const rest = sum % 11;
+    return rest < 2 ? 0 : 11 - rest;
+  };
+
+  return checkDigit(12) === parseInt(cnpj[12]) && checkDigit(13) === parseInt(cnpj[13]);
+}
+
+// 000.000.000-00 ou 00.000.000/0000-00; valores incompletos são devolvidos como vieram
+export function formatDocument(value: string): string {
+  const digits = onlyDigits(value);
+  if (digits.length === 11) {
+    return digits.replace(/(\d{3})(\d{3})(\d{3})(\d{2})/, '$1.$2.$3-$4');
+  }
+  if (digits.length === 14) {
+    return digits.replace(/(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})/, '$1.$2.$3/$4-$5');
+  }
+  return value;
+}
+
+// Rua, número - complemento, bairro, cidade/UF, CEP em uma linha (relatório e listagem)
+export function formatAddress(address: CustomerAddress): string {
+  const street = [address.street, address.number].join(', ') + (address.complement ? ` - ${address.complement}` : '');
+  const zipCode = address.zipCode.replace(/(\d{5})(\d{3})/, '$1-$2');
+  return `${street}, ${address.district}, ${address.city}/${address.state}, CEP ${zipCode}`;
+}
+
+export const BRAZILIAN_STATES = [
+  'AC', 'AL', 'AP', 'AM', 'BA', 'CE', 'DF', 'ES', 'GO', 'MA', 'MT', 'MS', 'MG', 'PA',
+  'PB', 'PR', 'PE', 'PI', 'RJ', 'RN', 'RS', 'RO', 'RR', 'SC', 'SP', 'SE', 'TO'
+] as const;
+
+export const customerContactSchema = z.object({
+  name: z.string().trim().min(2, "Informe o nome do contato").max(100),
+  email: z.string().trim().toLowerCase().email("Email inválido").or(z.literal('')).nullish(),
+  phone: z.string().trim().max(20).nullish()
+}).refine(contact => !!contact.email || !!contact.phone, {
+  message: "Informe o email ou o telefone do contato",
+  path: ['phone']
+});
+export type CustomerContact = z.infer<typeof customerContactSchema>;
+
+export const customerAddressSchema = z.object({
+  zipCode: z.string().transform(onlyDigits).refine(zip => zip.length === 8, "CEP deve ter 8 dígitos"),
+  street: z.string().trim().min(2, "Informe o logradouro").max(150),
+  number: z.string().trim().min(1, "Informe o número").max(20),
+  complement: z.string().trim().max(100).nullish(),
+  district: z.string().trim().min(2, "Informe o bairro").max(100),
+  city: z.string().trim().min(2, "Informe a cidade").max(100),
+  state: z.enum(BRAZILIAN_STATES, { message: "UF inválida" })
+});
+export type CustomerAddress = z.infer<typeof customerAddressSchema>;
+
+export const customerInputSchema = z.object({
+  type: z.enum(CUSTOMER_TYPES, { message: "Tipo de cliente inválido" }),
+  name: z.string().trim().min(3, "O nome deve ter pelo menos 3 caracteres").max(150),
+  document: z.string().transform(onlyDigits),
+  email: z.string().trim().toLowerCase().email("Email inválido").or(z.literal('')).nullish(),
+  phone: z.string().trim().max(20).nullish(),
+  notes: z.string().trim().max(1000).nullish(),
+  contacts: z.array(customerContactSchema).max(10).default([]),
+  addresses: z.array(customerAddressSchema).max(5).default([])
+}).superRefine((customer, ctx) => {
+  const kind = getDocumentKind(customer.type);
+  const valid = kind === 'cnpj' ? isValidCnpj(customer.document) : isValidCpf(customer.document);
+  if (!valid) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: kind === 'cnpj' ? "CNPJ inválido" : "CPF inválido",
+      path: ['document']
+    });
+  }
+});
+export type CustomerInput = z.input<typeof customerInputSchema>;
+export type CustomerData = z.output<typeof customerInputSchema>;
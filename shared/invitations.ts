@@ -0,0 +1,57 @@
+import { z } from "zod";
+
+// Cadastro por convite: o administrador convida com o papel já definido e o convidado
+// escolhe a senha pelo link, que vale uma única vez até expirar.
+
+export const INVITATION_VALIDITY_DAYS = 7;
+
+// Chave da configuração que libera o autocadastro na tela de login (desativado por padrão)
+export const SELF_REGISTRATION_SETTING_KEY = 'self_registration_enabled';
+
+export const invitationInputSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Email inválido"),
+  name: z.string().trim().max(100).nullish(),
+  roleId: z.number({ required_error: "Selecione o papel do convidado" }).int().positive()
+});
+export type InvitationInput = z.infer<typeof invitationInputSchema>;
+
+export const invitationAcceptSchema = z.object({
+  name: z.string().trim().min(3, "Nome deve ter pelo menos 3 caracteres"),
+  password: z.string().min(6, "Senha deve ter pelo menos 6 caracteres")
+});
+export type InvitationAccept = z.infer<typeof invitationAcceptSchema>;
+
+export type InvitationStatus = 'pending' | 'expired' | 'accepted' | 'revoked';
+
+export const INVITATION_STATUS_LABELS: Record<InvitationStatus, string> = {
+  pending: 'Pendente',
+  expired: 'Expirado',
+  accepted: 'Aceito',
+  revoked: 'Cancelado'
+};
+
+export interface InvitationSummary {
+  id: number;
+  email: string;
+  name: string | null;
+  roleId: number;
+  roleName: string;
+  invitedByName: string | null;
+  status: InvitationStatus;
+  expiresAt: string;
+  createdAt: string;
+  acceptedAt: string | null;
+}
+
+// Resposta da criação e do reenvio: o link só é conhecido neste momento
+export interface InvitationLink extends InvitationSummary {
+  inviteUrl: string;
+}
+
+// O que o convidado vê ao abrir o link, antes de definir a senha
+export interface InvitationPreview {
+  email: string;
+  name: string | null;
+  roleName: string;
+  expiresAt: string;
+}
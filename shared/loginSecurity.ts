@@ -0,0 +1,46 @@
+// Bloqueio progressivo por conta e eventos de segurança do login
+
+// A partir desta quantidade de senhas erradas seguidas a conta é bloqueada temporariamente
+export const LOGIN_LOCKOUT_THRESHOLD = 5;
+export const LOGIN_LOCKOUT_BASE_MINUTES = 1;
+export const LOGIN_LOCKOUT_MAX_MINUTES = 60;
+
+// Falhas mais antigas que isto não contam mais para o bloqueio
+export const LOGIN_FAILURE_WINDOW_HOURS = 24;
+
+// 5ª falha: 1 min, 6ª: 2 min, 7ª: 4 min... até o máximo
+export function getLockoutMinutes(failedAttempts: number): number {
+  if (failedAttempts < LOGIN_LOCKOUT_THRESHOLD) return 0;
+  const minutes = LOGIN_LOCKOUT_BASE_MINUTES * 2 ** (failedAttempts - LOGIN_LOCKOUT_THRESHOLD);
+  return Math.min(minutes, LOGIN_LOCKOUT_MAX_MINUTES);
+}
+
+export const SECURITY_EVENT_TYPES = ['new_device', 'new_ip', 'account_locked', 'account_unlocked'] as const;
+export type SecurityEventType = typeof SECURITY_EVENT_TYPES[number];
+
+export const SECURITY_EVENT_LABELS: Record<SecurityEventType, string> = {
+  new_device: 'Login de um dispositivo novo',
+  new_ip: 'Login de um endereço IP novo',
+  account_locked: 'Conta bloqueada por tentativas de login',
+  account_unlocked: 'Conta desbloqueada pelo administrador'
+};
+
+export interface SecurityEventSummary {
+  id: number;
+  type: SecurityEventType;
+  deviceInfo: string | null;
+  ipAddress: string | null;
+  details: Record<string, unknown> | null;
+  reviewedAt: string | null;
+  createdAt: string;
+}
+
+// Conta bloqueada exibida ao administrador em Usuários Logados
+export interface LockedAccountSummary {
+  userId: number;
+  userName: string;
+  userEmail: string;
+  failedLoginAttempts: number;
+  lastFailedLoginAt: string | null;
+  lockedUntil: string;
+}
@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+// Redefinição de senha pelo link enviado por email
+
+export const PASSWORD_RESET_VALIDITY_MINUTES = 60;
+
+// Pedidos aceitos por conta dentro da janela; acima disso o email não é reenviado
+export const PASSWORD_RESET_MAX_REQUESTS_PER_HOUR = 3;
+
+export const passwordResetRequestSchema = z.object({
+  email: z.string().trim().email("Email inválido")
+});
+
+export const passwordResetConfirmSchema = z.object({
+  token: z.string().min(1, "Link de redefinição inválido"),
+  password: z.string().min(6, "Senha deve ter pelo menos 6 caracteres")
+});
+export type PasswordResetConfirm = z.infer<typeof passwordResetConfirmSchema>;
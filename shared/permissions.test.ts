@@ -0,0 +1,56 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { findPermissionByDescription, findRoutePermission, getEffectivePermissions, isPermissionGranted, RoutePermission } from "./permissions";
+
+const permission = (description: string): RoutePermission => {
+  const found = findPermissionByDescription(description);
+  assert.ok(found, `permissão ${description} não encontrada na matriz`);
+  return found;
+};
+
+test("papéis do sistema seguem a matriz padrão", () => {
+  const settings = permission("Configurações do sistema");
+  const newVehicle = permission("Cadastrar novos veículos");
+
+  assert.equal(isPermissionGranted(settings, "Cadastrador", {}), false);
+  assert.equal(isPermissionGranted(newVehicle, "Cadastrador", {}), true);
+  assert.equal(isPermissionGranted(newVehicle, "Usuário", {}), false);
+});
+
+test("permissão personalizada do papel prevalece sobre a matriz", () => {
+  const newVehicle = permission("Cadastrar novos veículos");
+  const custom = {
+    "Cadastrador": { "Cadastrar novos veículos": false },
+    "Usuário": { "Cadastrar novos veículos": true }
+  };
+
+  assert.equal(isPermissionGranted(newVehicle, "Cadastrador", custom), false);
+  assert.equal(isPermissionGranted(newVehicle, "Usuário", custom), true);
+  // Outras permissões do papel continuam pela matriz
+  assert.equal(isPermissionGranted(permission("Editar veículos existentes"), "Cadastrador", custom), true);
+});
+
+test("Administrador e páginas liberadas a todos ignoram as permissões personalizadas", () => {
+  const custom = {
+    "Administrador": { "Configurações do sistema": false },
+    "Usuário": { "Dashboard": false, "Orçamentos": false }
+  };
+
+  assert.equal(isPermissionGranted(permission("Configurações do sistema"), "Administrador", custom), true);
+  assert.equal(isPermissionGranted(permission("Dashboard"), "Usuário", custom), true);
+  assert.equal(isPermissionGranted(permission("Orçamentos"), "Usuário", custom), false);
+});
+
+test("papel criado pelos administradores só tem as permissões liberadas a todos e as configuradas", () => {
+  const effective = getEffectivePermissions("Vendedor externo", { "Vendedor externo": { "Visualizar estoque": true } });
+
+  assert.equal(effective["Configurador de veículos"], true);
+  assert.equal(effective["Visualizar estoque"], true);
+  assert.equal(effective["Visualizar marcas"], false);
+});
+
+test("caminho da página encontra a entrada da matriz", () => {
+  assert.equal(findRoutePermission("/brands/12/edit")?.description, "Editar marcas existentes");
+  assert.equal(findRoutePermission("/brands")?.description, "Visualizar marcas");
+  assert.equal(findRoutePermission("/admin/users/3")?.description, "Gerenciamento de usuários");
+});
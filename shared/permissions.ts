@@ -0,0 +1,163 @@
+import { z } from "zod";
+
+// Matriz de permissões compartilhada entre a interface (rotas das páginas) e a API
+// (middleware requirePermission). As permissões personalizadas da tabela custom_permissions
+// são indexadas pela descrição de cada entrada.
+
+// Papéis criados com o sistema: não podem ser renomeados nem excluídos
+export type SystemRoleName = "Administrador" | "Cadastrador" | "Usuário";
+export const SYSTEM_ROLES: SystemRoleName[] = ["Administrador", "Cadastrador", "Usuário"];
+
+// O Administrador sempre tem acesso total
+export const ADMIN_ROLE_NAME: SystemRoleName = "Administrador";
+
+// Papéis são cadastrados pelos administradores (tabela user_roles); o nome identifica o papel
+export type UserRole = string;
+
+// Interface para mapear as permissões de cada rota
+export interface RoutePermission {
+  path: string;
+  // Papéis do sistema com acesso por padrão; papéis criados pelos administradores começam sem
+  // permissões além das liberadas a todos e recebem as demais pelas permissões personalizadas
+  allowedRoles: SystemRoleName[];
+  description: string; // Descrição do que a rota permite fazer
+}
+
+// Permissões personalizadas por papel: { [papel]: { [descrição]: permitido } }
+export type CustomPermissionMap = Record<string, Record<string, boolean>>;
+
+// Matriz de permissões para todas as rotas do sistema
+export const ROUTE_PERMISSIONS: RoutePermission[] = [
+  // Rotas acessíveis a todos os usuários autenticados
+  { path: "/", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Dashboard" },
+  { path: "/configurator", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Configurador de veículos" },
+  { path: "/configurator2", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Configurador Novo" },
+  { path: "/user/profile", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Perfil de usuário" },
+  { path: "/quotes", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Orçamentos" },
+
+  // Rotas de visualização (somente leitura) - acessíveis a todos os usuários autenticados
+  { path: "/brands", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Visualizar marcas" },
+  { path: "/models", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Visualizar modelos" },
+  { path: "/versions", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Visualizar versões" },
+  { path: "/colors", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Visualizar cores/pinturas" },
+  { path: "/paint-types", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Visualizar tipos de pintura" },
+  { path: "/optionals", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Visualizar opcionais" },
+  { path: "/vehicles", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Visualizar veículos" },
+  { path: "/direct-sales", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Visualizar vendas diretas" },
+  { path: "/customers", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Visualizar clientes" },
+  // Vendedores cadastram os próprios clientes a partir do configurador
+  { path: "/customers/new", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Cadastrar novos clientes" },
+  { path: "/customers/:id/edit", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Editar clientes existentes" },
+  { path: "/stock-units", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Visualizar estoque" },
+  // Vendedores reservam veículos para os seus clientes a partir do configurador
+  { path: "/reservations", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Reservas de veículos" },
+
+  // Rotas de cadastro - acessíveis a Cadastradores e Administradores
+  { path: "/brands/new", allowedRoles: ["Administrador", "Cadastrador"], description: "Cadastrar novas marcas" },
+  { path: "/brands/:id/edit", allowedRoles: ["Administrador", "Cadastrador"], description: "Editar marcas existentes" },
+  { path: "/models/new", allowedRoles: ["Administrador", "Cadastrador"], description: "Cadastrar novos modelos" },
+  { path: "/models/:id/edit", allowedRoles: ["Administrador", "Cadastrador"], description: "Editar modelos existentes" },
+  { path: "/versions/new", allowedRoles: ["Administrador", "Cadastrador"], description: "Cadastrar novas versões" },
+  { path: "/versions/:id/edit", allowedRoles: ["Administrador", "Cadastrador"], description: "Editar versões existentes" },
+  { path: "/colors/new", allowedRoles: ["Administrador", "Cadastrador"], description: "Cadastrar novas cores" },
+  { path: "/colors/:id/edit", allowedRoles: ["Administrador", "Cadastrador"], description: "Editar cores existentes" },
+  { path: "/colors/version-colors/new", allowedRoles: ["Administrador", "Cadastrador"], description: "Associar cores às versões" },
+  { path: "/colors/version-colors/:id/edit", allowedRoles: ["Administrador", "Cadastrador"], description: "Editar cores das versões" },
+  { path: "/paint-types/new", allowedRoles: ["Administrador", "Cadastrador"], description: "Cadastrar novos tipos de pintura" },
+  { path: "/paint-types/:id/edit", allowedRoles: ["Administrador", "Cadastrador"], description: "Editar tipos de pintura existentes" },
+  { path: "/optionals/new", allowedRoles: ["Administrador", "Cadastrador"], description: "Cadastrar novos opcionais" },
+  { path: "/optionals/:id/edit", allowedRoles: ["Administrador", "Cadastrador"], description: "Editar opcionais existentes" },
+  { path: "/optionals/version-optionals/new", allowedRoles: ["Administrador", "Cadastrador"], description: "Associar opcionais às versões" },
+  { path: "/optionals/version-optionals/:id/edit", allowedRoles: ["Administrador", "Cadastrador"], description: "Editar opcionais das versões" },
+  { path: "/vehicles/new", allowedRoles: ["Administrador", "Cadastrador"], description: "Cadastrar novos veículos" },
+  { path: "/vehicles/:id/edit", allowedRoles: ["Administrador", "Cadastrador"], description: "Editar veículos existentes" },
+  { path: "/vehicles/import", allowedRoles: ["Administrador", "Cadastrador"], description: "Importar tabela de preços dos veículos" },
+  { path: "/tax-rules", allowedRoles: ["Administrador", "Cadastrador"], description: "Regras de impostos" },
+  { path: "/regional-prices", allowedRoles: ["Administrador", "Cadastrador"], description: "Preços regionais" },
+  { path: "/stock-units/new", allowedRoles: ["Administrador", "Cadastrador"], description: "Cadastrar unidades de estoque" },
+  { path: "/stock-units/:id/edit", allowedRoles: ["Administrador", "Cadastrador"], description: "Editar unidades de estoque" },
+  { path: "/availability", allowedRoles: ["Administrador", "Cadastrador"], description: "Disponibilidade de veículos" },
+  { path: "/direct-sales/new", allowedRoles: ["Administrador", "Cadastrador"], description: "Cadastrar novas vendas diretas" },
+  { path: "/direct-sales/edit/:id", allowedRoles: ["Administrador", "Cadastrador"], description: "Editar vendas diretas existentes" },
+
+  // Rotas exclusivas para Administradores
+  { path: "/settings", allowedRoles: ["Administrador"], description: "Configurações do sistema" },
+  { path: "/admin/users", allowedRoles: ["Administrador"], description: "Gerenciamento de usuários" },
+  // Página de permissões - visível a todos os usuários para consulta
+  { path: "/admin/permissions", allowedRoles: ["Administrador", "Cadastrador", "Usuário"], description: "Visualizar permissões do sistema" },
+  // Página para configuração de permissões - acesso apenas para administradores
+  { path: "/admin/permission-settings", allowedRoles: ["Administrador"], description: "Configurar permissões do sistema" },
+  { path: "/admin/audit", allowedRoles: ["Administrador"], description: "Auditoria de alterações" },
+  { path: "/admin/trash", allowedRoles: ["Administrador"], description: "Lixeira do catálogo" }
+];
+
+// Sempre liberadas para usuários autenticados, independentemente das permissões personalizadas
+const UNRESTRICTED_PATHS = ["/", "/configurator", "/configurator2"];
+
+function pathPattern(path: string): RegExp {
+  return new RegExp('^' + path.replace(/:[^\/]+/g, '[^/]+') + '$');
+}
+
+/**
+ * Encontra a entrada da matriz para um caminho de página: caminho exato, caminho com
+ * parâmetros (ex: /brands/:id/edit) ou, por fim, o prefixo mais longo
+ */
+export function findRoutePermission(path: string): RoutePermission | undefined {
+  return ROUTE_PERMISSIONS.find(p => p.path === path)
+    ?? ROUTE_PERMISSIONS.find(p => p.path.includes(':') && pathPattern(p.path).test(path))
+    ?? ROUTE_PERMISSIONS
+      .filter(p => !p.path.includes(':') && path.startsWith(p.path))
+      .sort((a, b) => b.path.length - a.path.length)[0];
+}
+
+export function findPermissionByDescription(description: string): RoutePermission | undefined {
+  return ROUTE_PERMISSIONS.find(p => p.description === description);
+}
+
+/**
+ * Decide se o papel tem a permissão: Administrador sempre tem; depois valem a permissão
+ * personalizada do papel, se configurada, e por fim os papéis padrão da matriz
+ */
+export function isPermissionGranted(permission: RoutePermission, role: string, customPermissions: CustomPermissionMap): boolean {
+  if (role === ADMIN_ROLE_NAME) return true;
+  if (UNRESTRICTED_PATHS.includes(permission.path)) return true;
+
+  const rolePermissions = customPermissions[role];
+  if (rolePermissions && permission.description in rolePermissions) {
+    return rolePermissions[permission.description] === true;
+  }
+  return permission.allowedRoles.includes(role as SystemRoleName);
+}
+
+export function isSystemRole(role: string): role is SystemRoleName {
+  return SYSTEM_ROLES.includes(role as SystemRoleName);
+}
+
+// Permissões efetivas de um papel para cada item do catálogo (base para copiar a outro papel)
+export function getEffectivePermissions(role: string, customPermissions: CustomPermissionMap): Record<string, boolean> {
+  return Object.fromEntries(ROUTE_PERMISSIONS.map(permission =>
+    [permission.description, isPermissionGranted(permission, role, customPermissions)]
+  ));
+}
+
+// Cadastro e edição de papéis pelos administradores
+export const roleInputSchema = z.object({
+  name: z.string().trim().min(3, "Nome do papel deve ter pelo menos 3 caracteres").max(50, "Nome do papel deve ter no máximo 50 caracteres"),
+  description: z.string().trim().max(200).nullish(),
+  // Papel cujas permissões efetivas são copiadas para o novo papel
+  copyFromRoleId: z.number().int().positive().optional()
+});
+export type RoleInput = z.infer<typeof roleInputSchema>;
+
+// Ao excluir um papel em uso, os usuários são transferidos para o papel substituto
+export const roleDeleteSchema = z.object({
+  replacementRoleId: z.number().int().positive().optional()
+});
+
+export interface RoleSummary {
+  id: number;
+  name: string;
+  description: string | null;
+  isSystem: boolean;
+  userCount: number;
+}
@@ -0,0 +1,54 @@
+// Importação em lote da tabela de preços dos veículos (CSV do /api/vehicles/export ou XLSX).
+// Tipos compartilhados entre o servidor, que calcula a prévia, e a tela de importação.
+
+export const IMPORT_PRICE_FIELDS = ['publicPrice', 'pcdIpiIcms', 'pcdIpi', 'taxiIpiIcms', 'taxiIpi'] as const;
+export type ImportPriceField = typeof IMPORT_PRICE_FIELDS[number];
+
+// Mesmos títulos das colunas do arquivo exportado
+export const IMPORT_PRICE_FIELD_LABELS: Record<ImportPriceField, string> = {
+  publicPrice: 'Preço Público',
+  pcdIpiIcms: 'Def. Físico (IPI/ICMS)',
+  pcdIpi: 'Def. Físico (IPI)',
+  taxiIpiIcms: 'Taxi (IPI/ICMS)',
+  taxiIpi: 'Taxi (IPI)'
+};
+
+// changed: algum preço muda | unchanged: preços iguais aos atuais |
+// not_found: nenhum veículo com essa marca/modelo/versão/ano | invalid: linha com erro
+export type PriceImportRowStatus = 'changed' | 'unchanged' | 'not_found' | 'invalid';
+
+export interface PriceImportChange {
+  field: ImportPriceField;
+  oldValue: number;
+  newValue: number;
+}
+
+export interface PriceImportRow {
+  line: number;
+  brand: string;
+  model: string;
+  version: string;
+  year: number | null;
+  status: PriceImportRowStatus;
+  vehicleIds: number[];
+  changes: PriceImportChange[];
+  error?: string;
+}
+
+export interface PriceImportSummary {
+  totalRows: number;
+  changed: number;
+  unchanged: number;
+  notFound: number;
+  invalid: number;
+  vehiclesUpdated: number;
+}
+
+export interface PriceImportResult {
+  dryRun: boolean;
+  applied: boolean;
+  fileName: string;
+  effectiveFrom: string;
+  summary: PriceImportSummary;
+  rows: PriceImportRow[];
+}
@@ -0,0 +1,102 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { calculatePricing, getBasePrice, getRegionalAdjustmentAmount, toAmount } from "./pricing";
+
+const prices = {
+  publicPrice: "100000.00",
+  pcdIpi: "95000.00",
+  taxiIpiIcms: "80000.00",
+  pcdIpiIcms: "82000.00",
+  taxiIpi: "90000.00"
+};
+
+test("preço base segue o tipo de preço, com o público como padrão", () => {
+  assert.equal(getBasePrice(prices, 'pcdIpi'), 95000);
+  assert.equal(getBasePrice(prices, 'taxiIpi'), 90000);
+  assert.equal(getBasePrice(prices, null), 100000);
+});
+
+test("valores inválidos contam como zero", () => {
+  assert.equal(toAmount("abc"), 0);
+  assert.equal(toAmount(null), 0);
+  assert.equal(toAmount("12.5"), 12.5);
+});
+
+test("desconto incide sobre base, pintura e opcionais; ágio entra depois do desconto", () => {
+  const result = calculatePricing({
+    prices,
+    priceType: 'public',
+    paintPrice: "1500.00",
+    optionals: [
+      { optionalId: 1, name: "Teto solar", price: "3000.00" },
+      { optionalId: 2, name: "Engate", price: 500 }
+    ],
+    discountPercentage: 10,
+    surchargeAmount: "200",
+    quantity: 2
+  });
+
+  assert.equal(result.optionalsTotal, 3500);
+  assert.equal(result.subtotal, 105000);
+  assert.equal(result.discountAmount, 10500);
+  assert.equal(result.unitPrice, 94700);
+  assert.equal(result.totalPrice, 189400);
+  assert.equal(result.priceTypeLabel, 'PREÇO PÚBLICO');
+});
+
+test("desconto, ágio e quantidade fora da faixa são limitados", () => {
+  const result = calculatePricing({
+    prices,
+    priceType: 'pcdIpi',
+    discountPercentage: 150,
+    surchargeAmount: -50,
+    quantity: 0
+  });
+
+  assert.equal(result.discountPercentage, 100);
+  assert.equal(result.unitPrice, 0);
+  assert.equal(result.surchargeAmount, 0);
+  assert.equal(result.quantity, 1);
+});
+
+test("valores são arredondados para centavos", () => {
+  const result = calculatePricing({
+    prices: { ...prices, publicPrice: "999.99" },
+    discountPercentage: 3.3
+  });
+
+  assert.equal(result.discountAmount, 33);
+  assert.equal(result.unitPrice, 966.99);
+});
+
+test("ajuste regional incide sobre o preço base antes do desconto; frete entra depois", () => {
+  const result = calculatePricing({
+    prices,
+    priceType: 'public',
+    paintPrice: "1000.00",
+    regionalAdjustmentPercentage: "2.5",
+    freightAmount: "1800.00",
+    discountPercentage: 10
+  });
+
+  assert.equal(result.regionalAdjustmentAmount, 2500);
+  assert.equal(result.subtotal, 103500);
+  assert.equal(result.discountAmount, 10350);
+  assert.equal(result.unitPrice, 94950);
+});
+
+test("preços isentos de ICMS não recebem ajuste regional", () => {
+  const result = calculatePricing({
+    prices,
+    priceType: 'pcdIpiIcms',
+    regionalAdjustmentPercentage: 2.5,
+    freightAmount: -100
+  });
+
+  assert.equal(result.regionalAdjustmentPercentage, 0);
+  assert.equal(result.regionalAdjustmentAmount, 0);
+  assert.equal(result.freightAmount, 0);
+  assert.equal(result.unitPrice, 82000);
+  assert.equal(getRegionalAdjustmentAmount(82000, 'taxiIpiIcms', 2.5), 0);
+  assert.equal(getRegionalAdjustmentAmount(90000, 'taxiIpi', -1.5), -1350);
+});
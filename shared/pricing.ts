@@ -0,0 +1,202 @@
+// Motor de precificação compartilhado entre cliente e servidor.
+// Funções puras, sem acesso a banco: o servidor busca os preços cadastrados e
+// os configuradores usam o mesmo cálculo para que os valores sempre coincidam.
+import { z } from "zod";
+import { BRAZILIAN_STATES } from "./customers";
+
+export const PRICE_TYPES = ['public', 'pcdIpi', 'taxiIpiIcms', 'pcdIpiIcms', 'taxiIpi'] as const;
+export type PriceType = typeof PRICE_TYPES[number];
+
+export const PRICE_TYPE_LABELS: Record<PriceType, string> = {
+  public: 'PREÇO PÚBLICO',
+  pcdIpi: 'PCD IPI',
+  taxiIpiIcms: 'TAXI IPI/ICMS',
+  pcdIpiIcms: 'PCD IPI/ICMS',
+  taxiIpi: 'TAXI IPI'
+};
+
+// Tabela de preços de um veículo (valores como vêm do banco ou já convertidos)
+export interface VehiclePriceTable {
+  publicPrice: number | string;
+  pcdIpi: number | string;
+  taxiIpiIcms: number | string;
+  pcdIpiIcms: number | string;
+  taxiIpi: number | string;
+}
+
+export interface PricingOptionalInput {
+  optionalId: number;
+  name?: string;
+  price: number | string;
+}
+
+export interface PricingInput {
+  prices: VehiclePriceTable;
+  priceType?: PriceType | null;
+  paintPrice?: number | string;
+  optionals?: PricingOptionalInput[];
+  // Percentual de desconto (venda direta ou manual), aplicado sobre base + ajuste regional + pintura + opcionais
+  discountPercentage?: number | string;
+  surchargeAmount?: number | string;
+  quantity?: number;
+  // Ajuste percentual da UF sobre o preço base e frete da UF (preços regionais)
+  regionalAdjustmentPercentage?: number | string;
+  freightAmount?: number | string;
+}
+
+export interface PricingBreakdown {
+  priceType: PriceType;
+  priceTypeLabel: string;
+  basePrice: number;
+  regionalAdjustmentPercentage: number;
+  regionalAdjustmentAmount: number;
+  paintPrice: number;
+  optionals: Array<{ optionalId: number; name?: string; price: number }>;
+  optionalsTotal: number;
+  subtotal: number;
+  discountPercentage: number;
+  discountAmount: number;
+  freightAmount: number;
+  surchargeAmount: number;
+  unitPrice: number;
+  quantity: number;
+  totalPrice: number;
+}
+
+// Requisição para POST /api/pricing/calculate
+export const pricingRequestSchema = z.object({
+  versionId: z.coerce.number().int().positive("Versão é obrigatória"),
+  // Veículo da versão (ano/cor); obrigatório quando a versão tem mais de um veículo cadastrado
+  vehicleId: z.coerce.number().int().positive().nullish(),
+  colorId: z.coerce.number().int().positive().nullish(),
+  optionalIds: z.array(z.coerce.number().int().positive()).default([]),
+  priceType: z.enum(PRICE_TYPES, { message: "Tipo de preço inválido" }).default('public'),
+  directSaleId: z.coerce.number().int().positive().nullish(),
+  // Desconto manual: só é considerado quando nenhuma venda direta for informada
+  discountPercentage: z.coerce.number().min(0).max(100).optional(),
+  surchargeAmount: z.coerce.number().min(0).optional(),
+  quantity: z.coerce.number().int().min(1, "Quantidade deve ser pelo menos 1").default(1),
+  // Data da tabela de preços (AAAA-MM-DD); quando omitida, usa os preços vigentes hoje
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data inválida").nullish(),
+  // UF de venda: aplica o ajuste e o frete cadastrados para o estado
+  state: z.enum(BRAZILIAN_STATES, { message: "UF inválida" }).nullish()
+});
+export type PricingRequest = z.input<typeof pricingRequestSchema>;
+
+// Resposta do cálculo no servidor: detalhamento + identificação do que foi precificado
+export interface PricingResult extends PricingBreakdown {
+  vehicleId: number;
+  versionId: number;
+  colorId: number | null;
+  colorName: string | null;
+  directSaleId: number | null;
+  directSaleName: string | null;
+  state: string | null;
+}
+
+/**
+ * Converte um valor monetário (número ou string decimal) para número,
+ * tratando valores inválidos como zero
+ */
+export function toAmount(value: number | string | null | undefined): number {
+  const amount = typeof value === 'string' ? parseFloat(value) : Number(value);
+  return Number.isFinite(amount) ? amount : 0;
+}
+
+/**
+ * Arredonda para centavos
+ */
+export function roundCurrency(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+export function isPriceType(value: unknown): value is PriceType {
+  return typeof value === 'string' && (PRICE_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Obtém o preço base do veículo para o tipo de preço selecionado
+ * (null ou tipo desconhecido equivalem ao preço público)
+ */
+export function getBasePrice(prices: VehiclePriceTable, priceType?: PriceType | null): number {
+  switch (priceType) {
+    case 'pcdIpi':
+      return toAmount(prices.pcdIpi);
+    case 'taxiIpiIcms':
+      return toAmount(prices.taxiIpiIcms);
+    case 'pcdIpiIcms':
+      return toAmount(prices.pcdIpiIcms);
+    case 'taxiIpi':
+      return toAmount(prices.taxiIpi);
+    default:
+      return toAmount(prices.publicPrice);
+  }
+}
+
+// Preços com isenção de ICMS não recebem o ajuste regional da UF
+export const REGIONAL_ADJUSTMENT_EXEMPT_PRICE_TYPES: PriceType[] = ['pcdIpiIcms', 'taxiIpiIcms'];
+
+/**
+ * Valor do ajuste regional (percentual da UF) sobre um preço base;
+ * zero para os tipos de preço isentos de ICMS
+ */
+export function getRegionalAdjustmentAmount(basePrice: number, priceType: PriceType, percentage: number): number {
+  if (REGIONAL_ADJUSTMENT_EXEMPT_PRICE_TYPES.includes(priceType)) return 0;
+  return roundCurrency((basePrice * percentage) / 100);
+}
+
+/**
+ * Calcula o preço de uma configuração de veículo com detalhamento item a item.
+ *
+ * Regras:
+ * - ajuste regional = preço base × percentual da UF (exceto preços com isenção de ICMS)
+ * - subtotal = preço base (do tipo selecionado) + ajuste regional + pintura + opcionais
+ * - desconto = subtotal × percentual
+ * - preço unitário = subtotal − desconto + frete + ágio
+ * - total = preço unitário × quantidade
+ */
+export function calculatePricing(input: PricingInput): PricingBreakdown {
+  const priceType: PriceType = input.priceType && isPriceType(input.priceType) ? input.priceType : 'public';
+  const quantity = Math.max(1, Math.floor(input.quantity || 1));
+
+  const basePrice = roundCurrency(getBasePrice(input.prices, priceType));
+  const regionalAdjustmentPercentage = REGIONAL_ADJUSTMENT_EXEMPT_PRICE_TYPES.includes(priceType)
+    ? 0
+    : toAmount(input.regionalAdjustmentPercentage);
+  const regionalAdjustmentAmount = getRegionalAdjustmentAmount(basePrice, priceType, regionalAdjustmentPercentage);
+  const paintPrice = roundCurrency(toAmount(input.paintPrice));
+  const optionals = (input.optionals || []).map(opt => ({
+    optionalId: opt.optionalId,
+    name: opt.name,
+    price: roundCurrency(toAmount(opt.price))
+  }));
+  const optionalsTotal = roundCurrency(optionals.reduce((sum, opt) => sum + opt.price, 0));
+
+  const subtotal = roundCurrency(basePrice + regionalAdjustmentAmount + paintPrice + optionalsTotal);
+  const discountPercentage = Math.min(100, Math.max(0, toAmount(input.discountPercentage)));
+  const discountAmount = roundCurrency((subtotal * discountPercentage) / 100);
+  const freightAmount = roundCurrency(Math.max(0, toAmount(input.freightAmount)));
+  const surchargeAmount = roundCurrency(Math.max(0, toAmount(input.surchargeAmount)));
+
+  const unitPrice = roundCurrency(subtotal - discountAmount + freightAmount + surchargeAmount);
+  const totalPrice = roundCurrency(unitPrice * quantity);
+
+  return {
+    priceType,
+    priceTypeLabel: PRICE_TYPE_LABELS[priceType],
+    basePrice,
+    regionalAdjustmentPercentage,
+    regionalAdjustmentAmount,
+    paintPrice,
+    optionals,
+    optionalsTotal,
+    subtotal,
+    discountPercentage,
+    discountAmount,
+    freightAmount,
+    surchargeAmount,
+    unitPrice,
+    quantity,
+    totalPrice
+  };
+}
@@ -0,0 +1,51 @@
+import { z } from "zod";
+import { BRAZILIAN_STATES } from "./customers";
+
+// Preços regionais: o preço público cadastrado é nacional; cada UF pode ter um ajuste
+// percentual (diferença de ICMS, custos locais) e um frete por marca ou modelo.
+// O cálculo do ajuste fica em getRegionalAdjustmentAmount (shared/pricing.ts).
+
+export const stateSchema = z.enum(BRAZILIAN_STATES, { message: "UF inválida" });
+
+// Ajustes por UF: a lista salva substitui a anterior; UFs ausentes ficam sem ajuste
+export const statePriceAdjustmentsInputSchema = z.array(z.object({
+  state: stateSchema,
+  adjustmentPercentage: z.coerce.number()
+    .min(-50, "O ajuste deve ser no mínimo -50%")
+    .max(100, "O ajuste deve ser no máximo 100%"),
+  notes: z.string().trim().max(200).nullish()
+})).refine(
+  items => new Set(items.map(item => item.state)).size === items.length,
+  "Cada UF pode aparecer apenas uma vez"
+);
+export type StatePriceAdjustmentsInput = z.infer<typeof statePriceAdjustmentsInputSchema>;
+
+// Frete para uma UF: por marca (todos os modelos) ou por modelo específico
+export const freightRateInputSchema = z.object({
+  state: stateSchema,
+  brandId: z.coerce.number().int().positive("Selecione a marca"),
+  modelId: z.coerce.number().int().positive().nullish(),
+  amount: z.coerce.number().min(0, "O frete não pode ser negativo")
+});
+export type FreightRateInput = z.infer<typeof freightRateInputSchema>;
+
+export interface FreightRateMatch {
+  state: string;
+  brandId: number;
+  modelId: number | null;
+  amount: number | string;
+}
+
+/**
+ * Frete de um veículo na UF: o do modelo tem prioridade sobre o da marca;
+ * sem nenhum cadastrado, não há frete
+ */
+export function resolveFreightRate<T extends FreightRateMatch>(
+  rates: T[],
+  state: string,
+  brandId: number,
+  modelId: number
+): T | undefined {
+  const forBrand = rates.filter(rate => rate.state === state && rate.brandId === brandId);
+  return forBrand.find(rate => rate.modelId === modelId) ?? forBrand.find(rate => rate.modelId === null);
+}
@@ -0,0 +1,48 @@
+import { z } from "zod";
+
+// Dados do relatório do veículo: o mesmo payload que o componente VehicleReport recebe,
+// usado também pelo servidor para gerar o PDF
+export const vehicleReportDataSchema = z.object({
+  // Versão e cor do catálogo: o PDF busca a imagem da cor pelo id. As URLs de imagem abaixo
+  // servem só à pré-visualização no navegador; o servidor não as baixa.
+  versionId: z.coerce.number().int().positive().nullish(),
+  colorId: z.coerce.number().int().positive().nullish(),
+  brand: z.string(),
+  model: z.string(),
+  version: z.string(),
+  year: z.coerce.number().int(),
+  fuelType: z.string(),
+  selectedColor: z.object({
+    name: z.string(),
+    price: z.coerce.number(),
+    imageUrl: z.string().nullish()
+  }).nullish(),
+  selectedOptionals: z.array(z.object({
+    name: z.string(),
+    price: z.coerce.number()
+  })).default([]),
+  basePrice: z.coerce.number(),
+  priceType: z.string(),
+  discountPercent: z.coerce.number().default(0),
+  discountAmount: z.coerce.number().default(0),
+  markupAmount: z.coerce.number().default(0),
+  // Preços regionais: UF de venda, ajuste sobre o preço base e frete
+  state: z.string().nullish(),
+  regionalAdjustmentAmount: z.coerce.number().default(0),
+  freightAmount: z.coerce.number().default(0),
+  finalPrice: z.coerce.number(),
+  quantity: z.coerce.number().int().min(1).default(1),
+  vehicleDescription: z.string().nullish(),
+  vehicleImage: z.string().nullish(),
+  // Cliente escolhido no configurador (opcional); documento e endereço já formatados
+  customer: z.object({
+    name: z.string(),
+    document: z.string(),
+    typeLabel: z.string(),
+    email: z.string().nullish(),
+    phone: z.string().nullish(),
+    address: z.string().nullish()
+  }).nullish()
+});
+
+export type VehicleReportData = z.infer<typeof vehicleReportDataSchema>;
@@ -0,0 +1,67 @@
+import { z } from "zod";
+
+// Quantidade disponível por veículo e cor da versão, e reservas feitas pelos vendedores para
+// um cliente. Cada reserva ativa ocupa uma unidade até ser liberada ou expirar.
+
+export const RESERVATION_STATUSES = ['active', 'released', 'expired'] as const;
+export type ReservationStatus = typeof RESERVATION_STATUSES[number];
+
+export const RESERVATION_STATUS_LABELS: Record<ReservationStatus, string> = {
+  active: 'Ativa',
+  released: 'Liberada',
+  expired: 'Expirada'
+};
+
+// Prazos oferecidos ao vendedor; depois dele a reserva é liberada automaticamente
+export const RESERVATION_EXPIRY_HOURS = [24, 48, 72, 168] as const;
+export const DEFAULT_RESERVATION_EXPIRY_HOURS = 48;
+
+export const RESERVATION_EXPIRY_LABELS: Record<number, string> = {
+  24: '24 horas',
+  48: '48 horas',
+  72: '3 dias',
+  168: '7 dias'
+};
+
+export const availabilityInputSchema = z.object({
+  vehicleId: z.coerce.number().int().positive("Selecione o veículo"),
+  versionColorId: z.coerce.number().int().positive("Selecione a cor"),
+  quantity: z.coerce.number().int("A quantidade deve ser um número inteiro").min(0, "A quantidade não pode ser negativa").max(9999)
+});
+export type AvailabilityInput = z.infer<typeof availabilityInputSchema>;
+
+export const reservationInputSchema = z.object({
+  vehicleId: z.coerce.number().int().positive("Selecione o veículo"),
+  versionColorId: z.coerce.number().int().positive("Selecione a cor"),
+  customerId: z.coerce.number().int().positive("Selecione o cliente"),
+  expiresInHours: z.coerce.number().int().refine(
+    hours => (RESERVATION_EXPIRY_HOURS as readonly number[]).includes(hours),
+    "Prazo da reserva inválido"
+  ).default(DEFAULT_RESERVATION_EXPIRY_HOURS),
+  notes: z.string().trim().max(500).nullish()
+});
+export type ReservationInput = z.input<typeof reservationInputSchema>;
+
+export const reservationReleaseSchema = z.object({
+  reason: z.string().trim().max(500).nullish()
+});
+
+// Filtros do histórico de reservas (query string)
+export const reservationFiltersSchema = z.object({
+  status: z.enum(RESERVATION_STATUSES).optional(),
+  vehicleId: z.coerce.number().int().positive().optional(),
+  // Só as reservas do próprio usuário
+  mine: z.enum(['true', 'false']).optional().transform(value => value === 'true')
+});
+export type ReservationFilters = z.infer<typeof reservationFiltersSchema>;
+
+// Disponibilidade de um veículo em uma cor: quantidade cadastrada menos as reservas ativas
+export interface AvailabilityItem {
+  vehicleId: number;
+  versionColorId: number;
+  colorId: number;
+  colorName: string;
+  quantity: number;
+  reserved: number;
+  available: number;
+}
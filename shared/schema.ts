@@ -1,13 +1,21 @@
-import { pgTable, text, serial, integer, decimal, boolean, timestamp, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, decimal, boolean, timestamp, json, date, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { relations } from "drizzle-orm";
 import { z } from "zod";
+import { PRICE_TYPES, pricingRequestSchema, type PriceType } from "./pricing";
+import type { BackupStorageTargetName } from "./backupStorage";
+import type { SecurityEventType } from "./loginSecurity";
+import type { ApiTokenScope } from "./apiTokens";
+import type { CustomerAddress, CustomerContact, CustomerType } from "./customers";
+import type { StockUnitStatus } from "./stockUnits";
+import type { ReservationStatus } from "./reservations";
 
 // Base tables
 export const brands = pgTable("brands", {
   id: serial("id").primaryKey(),
   name: text("name").notNull().unique(),
-  createdAt: timestamp("created_at").defaultNow().notNull()
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at")
 });
 
 export const paintTypes = pgTable("paint_types", {
@@ -20,14 +28,16 @@ export const models = pgTable("models", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   brandId: integer("brand_id").references(() => brands.id).notNull(),
-  createdAt: timestamp("created_at").defaultNow().notNull()
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at")
 });
 
 export const versions = pgTable("versions", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   modelId: integer("model_id").references(() => models.id).notNull(),
-  createdAt: timestamp("created_at").defaultNow().notNull()
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at")
 });
 
 export const colors = pgTable("colors", {
@@ -37,7 +47,8 @@ export const colors = pgTable("colors", {
   hexCode: text("hex_code").notNull(),
   additionalPrice: decimal("additional_price", { precision: 10, scale: 2 }).default("0").notNull(),
   imageUrl: text("image_url"),
-  createdAt: timestamp("created_at").defaultNow().notNull()
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at")
 });
 
 export const versionColors = pgTable("version_colors", {
@@ -47,7 +58,8 @@ export const versionColors = pgTable("version_colors", {
   price: decimal("price", { precision: 10, scale: 2 }).default("0").notNull(),
   imageUrl: text("image_url"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull()
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at")
 });
 
 // Tabela para Opcionais
@@ -67,7 +79,8 @@ export const versionOptionals = pgTable("version_optionals", {
   optionalId: integer("optional_id").references(() => optionals.id).notNull(),
   price: decimal("price", { precision: 10, scale: 2 }).default("0").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull()
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at")
 });
 
 export const vehicles = pgTable("vehicles", {
@@ -86,8 +99,11 @@ export const vehicles = pgTable("vehicles", {
   pcdIpi: decimal("pcd_ipi", { precision: 10, scale: 2 }).notNull(),
   taxiIpiIcms: decimal("taxi_ipi_icms", { precision: 10, scale: 2 }).notNull(),
   taxiIpi: decimal("taxi_ipi", { precision: 10, scale: 2 }).notNull(),
+  // Preços de isenção informados manualmente; sem isso são calculados pelas regras de impostos
+  exemptionPricesOverride: boolean("exemption_prices_override").default(false).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull()
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at")
 });
 
 // Relations
@@ -132,9 +148,10 @@ export const versionOptionalsRelations = relations(versionOptionals, ({ one }) =
   optional: one(optionals, { fields: [versionOptionals.optionalId], references: [optionals.id] })
 }));
 
-export const vehiclesRelations = relations(vehicles, ({ one }) => ({
+export const vehiclesRelations = relations(vehicles, ({ one, many }) => ({
   version: one(versions, { fields: [vehicles.versionId], references: [versions.id] }),
   color: one(colors, { fields: [vehicles.colorId], references: [colors.id] }),
+  prices: many(vehiclePrices)
 }));
 
 // Validation schemas
@@ -283,6 +300,12 @@ export const users = pgTable("users", {
   logoUrl: text("logo_url"),
   address: text("address"),
   phone: text("phone"),
+  // UF de venda: define o ajuste e o frete regionais nos preços do configurador e da exportação
+  state: text("state"),
+  // Tentativas de login com senha errada desde o último login bem-sucedido (bloqueio progressivo)
+  failedLoginAttempts: integer("failed_login_attempts").default(0).notNull(),
+  lastFailedLoginAt: timestamp("last_failed_login_at"),
+  lockedUntil: timestamp("locked_until"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -343,6 +366,97 @@ export type UserSessionInsert = z.infer<typeof userSessionInsertSchema>;
 export const userSessionSelectSchema = createSelectSchema(userSessions);
 export type UserSession = z.infer<typeof userSessionSelectSchema>;
 
+// Eventos de segurança da conta (login de dispositivo ou IP novo, bloqueio por tentativas),
+// exibidos ao próprio usuário na página de sessões
+export const userSecurityEvents = pgTable("user_security_events", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  type: text("type").notNull().$type<SecurityEventType>(),
+  deviceInfo: text("device_info"),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  details: json("details").$type<Record<string, unknown>>(),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+export const userSecurityEventSelectSchema = createSelectSchema(userSecurityEvents);
+export type UserSecurityEvent = z.infer<typeof userSecurityEventSelectSchema>;
+
+// Convites de cadastro: o administrador define o papel e o convidado escolhe a própria senha.
+// Apenas o hash do token é guardado; o link com o token é mostrado uma única vez.
+export const userInvitations = pgTable("user_invitations", {
+  id: serial("id").primaryKey(),
+  email: text("email").notNull(),
+  name: text("name"),
+  roleId: integer("role_id").references(() => userRoles.id).notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  invitedBy: integer("invited_by").references(() => users.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  acceptedUserId: integer("accepted_user_id").references(() => users.id),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+export const userInvitationsRelations = relations(userInvitations, ({ one }) => ({
+  role: one(userRoles, { fields: [userInvitations.roleId], references: [userRoles.id] }),
+  invitedByUser: one(users, { fields: [userInvitations.invitedBy], references: [users.id] }),
+}));
+
+export const userInvitationSelectSchema = createSelectSchema(userInvitations);
+export type UserInvitation = z.infer<typeof userInvitationSelectSchema>;
+
+// Pedidos de redefinição de senha. Como nos convites, só o hash do token é guardado;
+// o token vale uma vez e até expiresAt.
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  requestedIp: text("requested_ip"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+// Autenticação em dois fatores (TOTP). enabledAt vazio indica cadastro iniciado e ainda não
+// confirmado com um código do aplicativo. Os códigos de recuperação são guardados como hash
+// e removidos da lista quando usados.
+export const userTwoFactor = pgTable("user_two_factor", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull().unique(),
+  secret: text("secret").notNull(),
+  enabledAt: timestamp("enabled_at"),
+  // Último passo de 30s aceito: o mesmo código não vale duas vezes
+  lastUsedStep: integer("last_used_step"),
+  recoveryCodeHashes: json("recovery_code_hashes").$type<string[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+// Tokens pessoais de API (Authorization: Bearer) para integrações. Só o hash é guardado;
+// o token aparece uma única vez, na criação. tokenPrefix identifica o token na listagem.
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  tokenPrefix: text("token_prefix").notNull(),
+  scopes: json("scopes").$type<ApiTokenScope[]>().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+export const apiTokensRelations = relations(apiTokens, ({ one }) => ({
+  user: one(users, { fields: [apiTokens.userId], references: [users.id] }),
+}));
+
+export const apiTokenSelectSchema = createSelectSchema(apiTokens);
+export type ApiToken = z.infer<typeof apiTokenSelectSchema>;
+
 // Tabela para permissões personalizadas por papel
 export const customPermissions = pgTable("custom_permissions", {
   id: serial("id").primaryKey(),
@@ -373,16 +487,42 @@ export const backups = pgTable("backups", {
   recordsCount: integer("records_count").notNull(),
   compressionType: text("compression_type").default("gzip"),
   isEncrypted: boolean("is_encrypted").default(false).notNull(),
-  createdBy: integer("created_by").references(() => users.id).notNull(),
+  // Origem da chave de backups criptografados: variável de ambiente ou senha do administrador
+  encryptionKeySource: text("encryption_key_source").$type<'env' | 'passphrase'>(),
+  // Backups automáticos não têm usuário
+  createdBy: integer("created_by").references(() => users.id),
+  trigger: text("trigger").notNull().$type<'manual' | 'scheduled'>().default('manual'),
+  errorMessage: text("error_message"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   completedAt: timestamp("completed_at"),
   metadata: json("metadata") // Para armazenar informações adicionais como lista de tabelas, etc.
 });
 
-export const backupsRelations = relations(backups, ({ one }) => ({
+export const backupsRelations = relations(backups, ({ one, many }) => ({
   createdByUser: one(users, { fields: [backups.createdBy], references: [users.id] }),
+  copies: many(backupCopies),
+}));
+
+// Cópias de um backup enviadas aos destinos de armazenamento configurados (espelho em diretório, S3).
+// O arquivo principal continua em backups.filePath, no diretório local do servidor.
+export const backupCopies = pgTable("backup_copies", {
+  id: serial("id").primaryKey(),
+  backupId: integer("backup_id").references(() => backups.id).notNull(),
+  target: text("target").notNull().$type<BackupStorageTargetName>(),
+  storageType: text("storage_type").notNull().$type<'local' | 's3'>(),
+  location: text("location").notNull(),
+  status: text("status").notNull().$type<'uploaded' | 'failed' | 'deleted'>().default('uploaded'),
+  errorMessage: text("error_message"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const backupCopiesRelations = relations(backupCopies, ({ one }) => ({
+  backup: one(backups, { fields: [backupCopies.backupId], references: [backups.id] }),
 }));
 
+export const backupCopiesSelectSchema = createSelectSchema(backupCopies);
+export type BackupCopy = z.infer<typeof backupCopiesSelectSchema>;
+
 export const backupsInsertSchema = createInsertSchema(backups, {
   name: (schema) => schema.min(3, "Nome do backup deve ter pelo menos 3 caracteres"),
   fileName: (schema) => schema.min(1, "Nome do arquivo é obrigatório"),
@@ -396,3 +536,293 @@ export const backupsInsertSchema = createInsertSchema(backups, {
 export type BackupInsert = z.infer<typeof backupsInsertSchema>;
 export const backupsSelectSchema = createSelectSchema(backups);
 export type Backup = z.infer<typeof backupsSelectSchema>;
+
+// Clientes (compradores). O documento (CPF ou CNPJ, só dígitos) é único; contatos e
+// endereços são validados por customerInputSchema (shared/customers.ts).
+export const customers = pgTable("customers", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull().$type<CustomerType>(),
+  name: text("name").notNull(),
+  document: text("document").notNull().unique(),
+  email: text("email"),
+  phone: text("phone"),
+  notes: text("notes"),
+  contacts: json("contacts").$type<CustomerContact[]>().notNull().default([]),
+  addresses: json("addresses").$type<CustomerAddress[]>().notNull().default([]),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+export const customersRelations = relations(customers, ({ one }) => ({
+  createdByUser: one(users, { fields: [customers.createdBy], references: [users.id] }),
+}));
+
+export type Customer = typeof customers.$inferSelect;
+
+// Orçamentos gerados pelo configurador
+// Os valores são congelados no momento da criação; por isso versão, cor, opcionais, cliente e
+// venda direta são guardados apenas como ids (sem FK) junto com um snapshot dos nomes,
+// para que a exclusão de itens do catálogo não invalide orçamentos antigos.
+export const quoteSnapshotSchema = z.object({
+  brand: z.string(),
+  model: z.string(),
+  version: z.string(),
+  year: z.number().int(),
+  fuelType: z.string(),
+  priceTypeLabel: z.string(),
+  color: z.object({
+    name: z.string(),
+    price: z.number(),
+    imageUrl: z.string().nullish()
+  }).optional(),
+  optionals: z.array(z.object({
+    optionalId: z.number().int(),
+    name: z.string(),
+    price: z.number()
+  })),
+  directSaleName: z.string().nullish(),
+  vehicleDescription: z.string().nullish(),
+  // Data da tabela de preços usada (vazio = vigente no dia do orçamento)
+  priceDate: z.string().nullish(),
+  customer: z.object({
+    name: z.string(),
+    document: z.string(),
+    typeLabel: z.string()
+  }).nullish()
+});
+export type QuoteSnapshot = z.infer<typeof quoteSnapshotSchema>;
+
+export const quotes = pgTable("quotes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  vehicleId: integer("vehicle_id"),
+  versionId: integer("version_id").notNull(),
+  colorId: integer("color_id"),
+  directSaleId: integer("direct_sale_id"),
+  customerId: integer("customer_id"),
+  optionalIds: json("optional_ids").$type<number[]>().default([]).notNull(),
+  priceType: text("price_type").notNull().$type<PriceType>().default('public'),
+  basePrice: decimal("base_price", { precision: 10, scale: 2 }).notNull(),
+  paintPrice: decimal("paint_price", { precision: 10, scale: 2 }).default("0").notNull(),
+  optionalsTotal: decimal("optionals_total", { precision: 10, scale: 2 }).default("0").notNull(),
+  discountPercentage: decimal("discount_percentage", { precision: 5, scale: 2 }).default("0").notNull(),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).default("0").notNull(),
+  // UF de venda usada no cálculo (vazio = preço nacional)
+  state: text("state"),
+  regionalAdjustmentAmount: decimal("regional_adjustment_amount", { precision: 10, scale: 2 }).default("0").notNull(),
+  freightAmount: decimal("freight_amount", { precision: 10, scale: 2 }).default("0").notNull(),
+  surchargeAmount: decimal("surcharge_amount", { precision: 10, scale: 2 }).default("0").notNull(),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  quantity: integer("quantity").default(1).notNull(),
+  totalPrice: decimal("total_price", { precision: 12, scale: 2 }).notNull(),
+  snapshot: json("snapshot").$type<QuoteSnapshot>().notNull(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+export const quotesRelations = relations(quotes, ({ one }) => ({
+  user: one(users, { fields: [quotes.userId], references: [users.id] }),
+}));
+
+export const quoteInsertSchema = createInsertSchema(quotes, {
+  quantity: (schema) => schema.min(1, "Quantidade deve ser pelo menos 1"),
+  priceType: z.enum(PRICE_TYPES, { message: "Tipo de preço inválido" }),
+  optionalIds: z.array(z.number().int()).default([]),
+  snapshot: quoteSnapshotSchema
+});
+export type QuoteInsert = z.infer<typeof quoteInsertSchema>;
+
+// Corpo do POST/PATCH de orçamentos: só a configuração e os textos descritivos do snapshot.
+// Valores, nomes de cor/opcionais/cliente e a data da tabela de preços são definidos pelo servidor.
+export const quoteRequestSchema = pricingRequestSchema.omit({ date: true }).extend({
+  customerId: z.coerce.number().int().positive().nullish(),
+  notes: z.string().trim().max(2000).nullish(),
+  snapshot: quoteSnapshotSchema.pick({
+    brand: true,
+    model: true,
+    version: true,
+    year: true,
+    fuelType: true,
+    vehicleDescription: true
+  }).extend({
+    color: z.object({ imageUrl: z.string().nullish() }).nullish()
+  })
+});
+export type QuoteRequest = z.infer<typeof quoteRequestSchema>;
+export const quoteSelectSchema = createSelectSchema(quotes);
+export type Quote = z.infer<typeof quoteSelectSchema>;
+
+// Histórico de preços dos veículos
+// Cada registro vale a partir de effectiveFrom: o preço de um veículo em uma data é o registro
+// mais recente com effectiveFrom <= data. As colunas de preço de vehicles guardam o preço vigente hoje.
+export const vehiclePriceSources = ['manual', 'scheduled', 'import', 'initial', 'taxRules'] as const;
+export type VehiclePriceSource = typeof vehiclePriceSources[number];
+
+export const vehiclePrices = pgTable("vehicle_prices", {
+  id: serial("id").primaryKey(),
+  vehicleId: integer("vehicle_id").references(() => vehicles.id, { onDelete: "cascade" }).notNull(),
+  publicPrice: decimal("public_price", { precision: 10, scale: 2 }).notNull(),
+  pcdIpiIcms: decimal("pcd_ipi_icms", { precision: 10, scale: 2 }).notNull(),
+  pcdIpi: decimal("pcd_ipi", { precision: 10, scale: 2 }).notNull(),
+  taxiIpiIcms: decimal("taxi_ipi_icms", { precision: 10, scale: 2 }).notNull(),
+  taxiIpi: decimal("taxi_ipi", { precision: 10, scale: 2 }).notNull(),
+  effectiveFrom: date("effective_from", { mode: "string" }).notNull(),
+  source: text("source").notNull().$type<VehiclePriceSource>().default('manual'),
+  notes: text("notes"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+export const vehiclePricesRelations = relations(vehiclePrices, ({ one }) => ({
+  vehicle: one(vehicles, { fields: [vehiclePrices.vehicleId], references: [vehicles.id] }),
+  createdByUser: one(users, { fields: [vehiclePrices.createdBy], references: [users.id] }),
+}));
+
+export const vehiclePriceInsertSchema = createInsertSchema(vehiclePrices, {
+  effectiveFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data de vigência inválida (use AAAA-MM-DD)"),
+  source: z.enum(vehiclePriceSources).default('manual')
+});
+export type VehiclePriceInsert = z.infer<typeof vehiclePriceInsertSchema>;
+export const vehiclePriceSelectSchema = createSelectSchema(vehiclePrices);
+export type VehiclePrice = z.infer<typeof vehiclePriceSelectSchema>;
+
+// Preços regionais
+// Ajuste percentual sobre o preço base por UF (uma linha por estado) e frete por UF,
+// cadastrado por marca ou por modelo; o frete do modelo tem prioridade sobre o da marca.
+export const statePriceAdjustments = pgTable("state_price_adjustments", {
+  id: serial("id").primaryKey(),
+  state: text("state").notNull().unique(),
+  adjustmentPercentage: decimal("adjustment_percentage", { precision: 5, scale: 2 }).default("0").notNull(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+export type StatePriceAdjustment = typeof statePriceAdjustments.$inferSelect;
+
+export const freightRates = pgTable("freight_rates", {
+  id: serial("id").primaryKey(),
+  state: text("state").notNull(),
+  brandId: integer("brand_id").references(() => brands.id).notNull(),
+  modelId: integer("model_id").references(() => models.id),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+export const freightRatesRelations = relations(freightRates, ({ one }) => ({
+  brand: one(brands, { fields: [freightRates.brandId], references: [brands.id] }),
+  model: one(models, { fields: [freightRates.modelId], references: [models.id] }),
+}));
+
+export type FreightRate = typeof freightRates.$inferSelect;
+
+// Unidades físicas em estoque: cada carro (identificado pelo chassi) de um veículo do
+// catálogo em uma cor da versão; validadas por stockUnitInputSchema (shared/stockUnits.ts)
+export const stockUnits = pgTable("stock_units", {
+  id: serial("id").primaryKey(),
+  vehicleId: integer("vehicle_id").references(() => vehicles.id).notNull(),
+  versionColorId: integer("version_color_id").references(() => versionColors.id).notNull(),
+  vin: text("vin").notNull().unique(),
+  renavam: text("renavam"),
+  arrivalDate: date("arrival_date", { mode: "string" }),
+  location: text("location"),
+  status: text("status").notNull().$type<StockUnitStatus>().default('inTransit'),
+  cost: decimal("cost", { precision: 12, scale: 2 }),
+  notes: text("notes"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+export const stockUnitsRelations = relations(stockUnits, ({ one }) => ({
+  vehicle: one(vehicles, { fields: [stockUnits.vehicleId], references: [vehicles.id] }),
+  versionColor: one(versionColors, { fields: [stockUnits.versionColorId], references: [versionColors.id] }),
+  createdByUser: one(users, { fields: [stockUnits.createdBy], references: [users.id] }),
+}));
+
+export type StockUnit = typeof stockUnits.$inferSelect;
+
+// Quantidade disponível para venda de cada veículo em cada cor da versão (uma linha por par).
+// O disponível de fato é a quantidade menos as reservas ativas.
+export const vehicleAvailability = pgTable("vehicle_availability", {
+  id: serial("id").primaryKey(),
+  vehicleId: integer("vehicle_id").references(() => vehicles.id, { onDelete: "cascade" }).notNull(),
+  versionColorId: integer("version_color_id").references(() => versionColors.id, { onDelete: "cascade" }).notNull(),
+  quantity: integer("quantity").default(0).notNull(),
+  updatedBy: integer("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+}, (table) => ({
+  vehicleColorUnique: unique("vehicle_availability_vehicle_color_unique").on(table.vehicleId, table.versionColorId)
+}));
+
+export type VehicleAvailability = typeof vehicleAvailability.$inferSelect;
+
+// Reservas de um veículo/cor para um cliente. Nunca são excluídas: a liberação (manual ou por
+// expiração) só muda o status, e a tabela serve de histórico. Como nos orçamentos, o cliente é
+// guardado como id (sem FK) com nome e documento, para sobreviver à exclusão do cadastro.
+export const vehicleReservations = pgTable("vehicle_reservations", {
+  id: serial("id").primaryKey(),
+  vehicleId: integer("vehicle_id").references(() => vehicles.id).notNull(),
+  versionColorId: integer("version_color_id").references(() => versionColors.id).notNull(),
+  customerId: integer("customer_id"),
+  customerName: text("customer_name").notNull(),
+  customerDocument: text("customer_document").notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  status: text("status").notNull().$type<ReservationStatus>().default('active'),
+  expiresAt: timestamp("expires_at").notNull(),
+  releasedAt: timestamp("released_at"),
+  releasedBy: integer("released_by").references(() => users.id),
+  releaseReason: text("release_reason"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+export const vehicleReservationsRelations = relations(vehicleReservations, ({ one }) => ({
+  vehicle: one(vehicles, { fields: [vehicleReservations.vehicleId], references: [vehicles.id] }),
+  versionColor: one(versionColors, { fields: [vehicleReservations.versionColorId], references: [versionColors.id] }),
+  user: one(users, { fields: [vehicleReservations.userId], references: [users.id] }),
+  releasedByUser: one(users, { fields: [vehicleReservations.releasedBy], references: [users.id] }),
+}));
+
+export type VehicleReservation = typeof vehicleReservations.$inferSelect;
+
+// Trilha de auditoria das alterações de catálogo e administração
+export const auditActions = ['create', 'update', 'delete', 'import', 'restore'] as const;
+export type AuditAction = typeof auditActions[number];
+
+// Diferença campo a campo entre o estado anterior e o posterior
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export const auditLogs = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id),
+  // Nome do usuário no momento da ação (mantido mesmo se o usuário for alterado depois)
+  userName: text("user_name"),
+  action: text("action").notNull().$type<AuditAction>(),
+  entity: text("entity").notNull(),
+  entityId: text("entity_id"),
+  method: text("method").notNull(),
+  path: text("path").notNull(),
+  statusCode: integer("status_code").notNull(),
+  ip: text("ip"),
+  userAgent: text("user_agent"),
+  before: json("before"),
+  after: json("after"),
+  changes: json("changes").$type<AuditChanges>(),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
+  user: one(users, { fields: [auditLogs.userId], references: [users.id] }),
+}));
+
+export const auditLogInsertSchema = createInsertSchema(auditLogs, {
+  action: z.enum(auditActions)
+});
+export type AuditLogInsert = z.infer<typeof auditLogInsertSchema>;
+export const auditLogSelectSchema = createSelectSchema(auditLogs);
+export type AuditLog = z.infer<typeof auditLogSelectSchema>;
@@ -0,0 +1,18 @@
+// Configurações exibidas a qualquer visitante (nome, logo e cores da interface). As demais
+// (regras de impostos, 2FA, backups, lixeira...) só são lidas com a permissão de configurações.
+export const PUBLIC_SETTING_KEYS = [
+  'app_name',
+  'app_favicon',
+  'company_name',
+  'company_logo_url',
+  'theme_color_active_menu',
+  'theme_color_logo_bar',
+  'theme_color_active_sidebar',
+  'active_menu_color',
+  'bar_below_logo_color',
+  'active_sidebar_bg_color'
+] as const;
+
+export function isPublicSettingKey(key: string): boolean {
+  return (PUBLIC_SETTING_KEYS as readonly string[]).includes(key);
+}
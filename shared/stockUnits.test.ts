@@ -0,0 +1,45 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isValidRenavam, isValidVin, normalizeVin, stockUnitInputSchema } from "./stockUnits";
+
+test("chassi com dígito verificador correto, inclusive X", () => {
+  assert.equal(isValidVin("1HGCM82633A004352"), true);
+  assert.equal(isValidVin("1M8GDM9AXKP042788"), true);
+  // Minúsculas, espaços e traços são normalizados
+  assert.equal(isValidVin("1m8gdm9a-xkp 042788"), true);
+  assert.equal(normalizeVin("1m8gdm9a-xkp.042788"), "1M8GDM9AXKP042788");
+});
+
+test("chassi com dígito errado, tamanho errado ou I/O/Q é inválido", () => {
+  assert.equal(isValidVin("1M8GDM9A1KP042788"), false);
+  assert.equal(isValidVin("1HGCM82633A00435"), false);
+  assert.equal(isValidVin("1HGCM82633A0043520"), false);
+  assert.equal(isValidVin("1HGCM82633A0O4352"), false);
+});
+
+test("RENAVAM de 11 dígitos ou antigo de 9 dígitos", () => {
+  assert.equal(isValidRenavam("00639884962"), true);
+  assert.equal(isValidRenavam("639884962"), true);
+  assert.equal(isValidRenavam("006.398.849-62"), true);
+});
+
+test("RENAVAM com dígito errado, tamanho errado ou zerado é inválido", () => {
+  assert.equal(isValidRenavam("00639884961"), false);
+  assert.equal(isValidRenavam("0639884962"), false);
+  assert.equal(isValidRenavam("00000000000"), false);
+});
+
+test("cadastro da unidade normaliza chassi e RENAVAM", () => {
+  const parsed = stockUnitInputSchema.parse({
+    vehicleId: "1",
+    versionColorId: "2",
+    vin: "1hgcm82633a004352",
+    renavam: "639884962",
+    arrivalDate: ""
+  });
+
+  assert.equal(parsed.vin, "1HGCM82633A004352");
+  assert.equal(parsed.renavam, "00639884962");
+  assert.equal(parsed.arrivalDate, null);
+  assert.equal(stockUnitInputSchema.parse({ vehicleId: 1, versionColorId: 2, vin: "1HGCM82633A004352", renavam: "" }).renavam, null);
+});
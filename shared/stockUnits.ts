@@ -0,0 +1,108 @@
+import { z } from "zod";
+import { onlyDigits } from "./customers";
+
+// Unidades físicas em estoque (carros no pátio ou a caminho), ligadas a um veículo do
+// catálogo e a uma cor da versão. O chassi (VIN) identifica a unidade.
+
+export const STOCK_UNIT_STATUSES = ['inTransit', 'inStock', 'reserved', 'sold'] as const;
+export type StockUnitStatus = typeof STOCK_UNIT_STATUSES[number];
+
+export const STOCK_UNIT_STATUS_LABELS: Record<StockUnitStatus, string> = {
+  inTransit: 'Em trânsito',
+  inStock: 'Em estoque',
+  reserved: 'Reservado',
+  sold: 'Vendido'
+};
+
+// Valor de cada caractere no cálculo do dígito verificador (ISO 3779); I, O e Q não são usados
+const VIN_TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9
+};
+const VIN_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+// Chassi em maiúsculas, sem espaços, pontos ou traços
+export function normalizeVin(value: string): string {
+  return value.toUpperCase().replace(/[\s.-]/g, '');
+}
+
+/**
+ * Chassi com 17 caracteres (sem I, O e Q) e dígito verificador (9ª posição) conferido:
+ * soma ponderada dos caracteres módulo 11, sendo 10 representado por "X"
+ */
+export function isValidVin(value: string): boolean {
+  const vin = normalizeVin(value);
+  if (!/^[A-HJ-NPR-Z0-9]{17}$/.test(vin)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < 17; i++) {
+    const char = vin[i];
+    const charValue = /\d/.test(char) ? parseInt(char) : VIN_TRANSLITERATION[char];
+    sum += charValue * VIN_WEIGHTS[i];
+  }
+  const rest = sum % 11;
+  return vin[8] === (rest === 10 ? 'X' : String(rest));
+}
+
+/**
+ * RENAVAM com 11 dígitos (os antigos, de 9, são completados com zeros à esquerda).
+ * Dígito verificador: pesos 2 a 9 e 2, 3 sobre os 10 primeiros dígitos, da direita para a esquerda
+ */
+export function isValidRenavam(value: string): boolean {
+  const digits = onlyDigits(value);
+  if (digits.length !== 9 && digits.length !== 11) return false;
+  const renavam = digits.padStart(11, '0');
+  if (/^0+$/.test(renavam)) return false;
+
+  const weights = [3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    sum += parseInt(renavam[i]) * weights[i];
+  }
+  const rest = (sum * 10) % 11;
+  return (rest === 10 ? 0 : rest) === parseInt(renavam[10]);
+}
+
+export const stockUnitInputSchema = z.object({
+  vehicleId: z.coerce.number().int().positive("Selecione o veículo"),
+  versionColorId: z.coerce.number().int().positive("Selecione a cor"),
+  vin: z.string().transform(normalizeVin).refine(isValidVin, "Chassi inválido (17 caracteres com dígito verificador)"),
+  // Carro zero ainda sem emplacamento não tem RENAVAM
+  renavam: z.string().transform(onlyDigits)
+    .refine(renavam => renavam === '' || isValidRenavam(renavam), "RENAVAM inválido")
+    .transform(renavam => renavam ? renavam.padStart(11, '0') : null)
+    .nullish(),
+  arrivalDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data de chegada inválida").or(z.literal('')).nullish()
+    .transform(date => date || null),
+  location: z.string().trim().max(100).nullish(),
+  status: z.enum(STOCK_UNIT_STATUSES, { message: "Situação inválida" }).default('inTransit'),
+  // Campo vazio = custo não informado (z.coerce transformaria em 0)
+  cost: z.literal('').or(z.coerce.number().min(0, "O custo não pode ser negativo")).nullish()
+    .transform(cost => cost === '' ? null : cost),
+  notes: z.string().trim().max(1000).nullish()
+});
+export type StockUnitInput = z.input<typeof stockUnitInputSchema>;
+export type StockUnitData = z.output<typeof stockUnitInputSchema>;
+
+// Filtros da listagem de estoque (query string)
+export const stockUnitFiltersSchema = z.object({
+  search: z.string().trim().optional(),
+  status: z.enum(STOCK_UNIT_STATUSES).optional(),
+  brandId: z.coerce.number().int().positive().optional(),
+  modelId: z.coerce.number().int().positive().optional(),
+  versionId: z.coerce.number().int().positive().optional(),
+  location: z.string().trim().optional()
+});
+export type StockUnitFilters = z.infer<typeof stockUnitFiltersSchema>;
+
+// Quantidade de unidades do veículo escolhido no configurador, no total e por cor
+export interface StockCount {
+  inStock: number;
+  inTransit: number;
+}
+
+export interface StockSummary extends StockCount {
+  vehicleId: number;
+  byColor: Record<number, StockCount>;
+}
@@ -0,0 +1,60 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { calculateExemptionPrices, calculateVehicleExemptionPrices, DEFAULT_TAX_RULES, getIpiCategory, TaxRules } from "./taxRules";
+
+// IPI de 10% e ICMS de 10% na UF da revenda, sem tetos
+const rules: TaxRules = {
+  ...DEFAULT_TAX_RULES,
+  state: 'RJ',
+  ipiRates: { ...DEFAULT_TAX_RULES.ipiRates, upTo1000: 10 },
+  icmsRates: { ...DEFAULT_TAX_RULES.icmsRates, RJ: 10 },
+  pcdIpiPriceCap: null,
+  pcdIcmsPriceCap: null,
+  taxiIpiPriceCap: null,
+  taxiIcmsPriceCap: null
+};
+
+test("isenções retiram o IPI por fora e o ICMS por dentro", () => {
+  assert.deepEqual(calculateExemptionPrices(110000, 'upTo1000', rules), {
+    pcdIpiIcms: 90000,
+    pcdIpi: 100000,
+    taxiIpiIcms: 90000,
+    taxiIpi: 100000
+  });
+});
+
+test("acima do teto a isenção correspondente não se aplica", () => {
+  const capped: TaxRules = { ...rules, pcdIpiPriceCap: 200000, pcdIcmsPriceCap: 100000, taxiIpiPriceCap: 100000 };
+
+  assert.deepEqual(calculateExemptionPrices(110000, 'upTo1000', capped), {
+    // PcD: IPI dentro do teto, ICMS acima
+    pcdIpiIcms: 100000,
+    pcdIpi: 100000,
+    // Taxi: sem isenção de IPI, só a de ICMS
+    taxiIpiIcms: 99000,
+    taxiIpi: 110000
+  });
+});
+
+test("preços calculados são arredondados para centavos", () => {
+  const prices = calculateExemptionPrices(100000, 'upTo1000', { ...rules, ipiRates: { ...rules.ipiRates, upTo1000: 5.27 } });
+  assert.equal(prices.pcdIpi, 94993.83);
+  assert.equal(prices.pcdIpiIcms, 85494.44);
+});
+
+test("categoria de IPI pela cilindrada e combustível", () => {
+  assert.equal(getIpiCategory("1.0 TSI", "flex"), 'upTo1000');
+  assert.equal(getIpiCategory("1598cc", "flex"), 'upTo2000Flex');
+  assert.equal(getIpiCategory("2,0 16V", "gasoline"), 'upTo2000Gasoline');
+  assert.equal(getIpiCategory("3.0 V6", "diesel"), 'above2000Gasoline');
+  assert.equal(getIpiCategory("", "electric"), 'electric');
+  assert.equal(getIpiCategory("Turbo", "flex"), null);
+});
+
+test("veículo sem categoria identificada fica sem preços calculados", () => {
+  assert.deepEqual(calculateVehicleExemptionPrices({ publicPrice: "110000.00", engine: "Turbo", fuelType: "flex" }, rules), {
+    category: null,
+    prices: null
+  });
+  assert.equal(calculateVehicleExemptionPrices({ publicPrice: "110000.00", engine: "1.0", fuelType: "flex" }, rules).prices?.pcdIpi, 100000);
+});
@@ -0,0 +1,195 @@
+import { z } from "zod";
+import { BRAZILIAN_STATES } from "./customers";
+import { roundCurrency, toAmount } from "./pricing";
+
+// Regras de impostos usadas para derivar os preços com isenção (PcD e taxi) a partir do
+// preço público: alíquotas de IPI por categoria de motor/combustível, ICMS por UF e os
+// tetos de preço que limitam as isenções
+
+// Chave da configuração com as regras (JSON)
+export const TAX_RULES_SETTING_KEY = 'tax_rules';
+
+// Faixas da TIPI para automóveis (cilindrada em litros e combustível)
+export const IPI_CATEGORIES = [
+  'upTo1000',
+  'upTo2000Flex',
+  'upTo2000Gasoline',
+  'above2000Flex',
+  'above2000Gasoline',
+  'hybrid',
+  'electric'
+] as const;
+export type IpiCategory = typeof IPI_CATEGORIES[number];
+
+export const IPI_CATEGORY_LABELS: Record<IpiCategory, string> = {
+  upTo1000: 'Até 1.0',
+  upTo2000Flex: 'Acima de 1.0 até 2.0 - flex/etanol',
+  upTo2000Gasoline: 'Acima de 1.0 até 2.0 - gasolina/diesel',
+  above2000Flex: 'Acima de 2.0 - flex/etanol',
+  above2000Gasoline: 'Acima de 2.0 - gasolina/diesel',
+  hybrid: 'Híbrido',
+  electric: 'Elétrico'
+};
+
+export type BrazilianState = typeof BRAZILIAN_STATES[number];
+
+// Os quatro preços com isenção, na ordem das colunas de vehicles
+export const EXEMPTION_PRICE_FIELDS = ['pcdIpiIcms', 'pcdIpi', 'taxiIpiIcms', 'taxiIpi'] as const;
+export type ExemptionPriceField = typeof EXEMPTION_PRICE_FIELDS[number];
+export type ExemptionPrices = Record<ExemptionPriceField, number>;
+
+const rateSchema = z.coerce.number()
+  .min(0, "A alíquota não pode ser negativa")
+  .max(100, "A alíquota deve ser no máximo 100%");
+
+// Teto de preço público para a isenção; null = sem limite
+const priceCapSchema = z.coerce.number().positive("O teto deve ser maior que zero").nullable();
+
+export const taxRulesSchema = z.object({
+  // UF da revenda: define a alíquota de ICMS aplicada no cálculo
+  state: z.enum(BRAZILIAN_STATES, { message: "UF inválida" }),
+  // Alíquotas em percentual (ex.: 7.5 = 7,5%)
+  ipiRates: z.object(
+    Object.fromEntries(IPI_CATEGORIES.map(category => [category, rateSchema])) as Record<IpiCategory, typeof rateSchema>
+  ),
+  icmsRates: z.object(
+    Object.fromEntries(BRAZILIAN_STATES.map(state => [state, rateSchema])) as Record<BrazilianState, typeof rateSchema>
+  ),
+  // PcD: isenção de IPI até o teto da Lei 8.989/95 e de ICMS até o teto do Convênio ICMS 38/12
+  pcdIpiPriceCap: priceCapSchema,
+  pcdIcmsPriceCap: priceCapSchema,
+  taxiIpiPriceCap: priceCapSchema,
+  taxiIcmsPriceCap: priceCapSchema
+});
+export type TaxRules = z.infer<typeof taxRulesSchema>;
+
+// Valores de referência; devem ser conferidos com a TIPI e a legislação estadual vigentes
+export const DEFAULT_TAX_RULES: TaxRules = {
+  state: 'SP',
+  ipiRates: {
+    upTo1000: 5.27,
+    upTo2000Flex: 9.49,
+    upTo2000Gasoline: 11.55,
+    above2000Flex: 14.3,
+    above2000Gasoline: 19.5,
+    hybrid: 9.49,
+    electric: 7
+  },
+  icmsRates: Object.fromEntries(BRAZILIAN_STATES.map(state => [state, 12])) as Record<BrazilianState, number>,
+  pcdIpiPriceCap: 200000,
+  pcdIcmsPriceCap: 100000,
+  taxiIpiPriceCap: null,
+  taxiIcmsPriceCap: null
+};
+
+/**
+ * Cilindrada em litros a partir do texto do motor ("1.0 TSI", "2,0 16V", "1598cc");
+ * null quando o texto não tem número
+ */
+export function getEngineDisplacement(engine: string): number | null {
+  const match = engine.match(/(\d+(?:[.,]\d+)?)/);
+  if (!match) return null;
+
+  const value = parseFloat(match[1].replace(',', '.'));
+  if (!Number.isFinite(value) || value <= 0) return null;
+  // Valores altos estão em cilindradas (cm³)
+  return value >= 50 ? value / 1000 : value;
+}
+
+/**
+ * Categoria de IPI do veículo. Elétricos e híbridos têm faixa própria; para os demais
+ * vale a cilindrada (null quando não é possível identificá-la)
+ */
+export function getIpiCategory(engine: string, fuelType: string): IpiCategory | null {
+  if (fuelType === 'electric') return 'electric';
+  if (fuelType === 'hybrid') return 'hybrid';
+
+  const displacement = getEngineDisplacement(engine);
+  if (displacement === null) return null;
+  // Motores "1.0" às vezes têm 999 a 1.050 cm³; a faixa da TIPI é até 1.000 cm³
+  if (displacement <= 1.0) return 'upTo1000';
+
+  const flex = fuelType === 'flex';
+  if (displacement <= 2.0) return flex ? 'upTo2000Flex' : 'upTo2000Gasoline';
+  return flex ? 'above2000Flex' : 'above2000Gasoline';
+}
+
+/**
+ * Preços com isenção a partir do preço público (que inclui IPI e ICMS). Sem IPI, o preço
+ * é dividido por (1 + alíquota); a isenção de ICMS retira a alíquota calculada "por dentro".
+ * Acima do teto, a respectiva isenção não se aplica e o preço fica como sem ela.
+ */
+export function calculateExemptionPrices(publicPrice: number, category: IpiCategory, rules: TaxRules): ExemptionPrices {
+  const ipiRate = rules.ipiRates[category] / 100;
+  const icmsRate = rules.icmsRates[rules.state] / 100;
+  const withinCap = (cap: number | null) => cap === null || publicPrice <= cap;
+
+  const exempt = (ipiCap: number | null, icmsCap: number | null) => {
+    const withoutIpi = withinCap(ipiCap) ? publicPrice / (1 + ipiRate) : publicPrice;
+    const withoutIpiIcms = withinCap(icmsCap) ? withoutIpi * (1 - icmsRate) : withoutIpi;
+    return { ipi: roundCurrency(withoutIpi), ipiIcms: roundCurrency(withoutIpiIcms) };
+  };
+
+  const pcd = exempt(rules.pcdIpiPriceCap, rules.pcdIcmsPriceCap);
+  const taxi = exempt(rules.taxiIpiPriceCap, rules.taxiIcmsPriceCap);
+  return {
+    pcdIpiIcms: pcd.ipiIcms,
+    pcdIpi: pcd.ipi,
+    taxiIpiIcms: taxi.ipiIcms,
+    taxiIpi: taxi.ipi
+  };
+}
+
+export interface VehicleTaxInput {
+  publicPrice: number | string;
+  engine: string;
+  fuelType: string;
+}
+
+/**
+ * Categoria e preços calculados para um veículo; prices é null quando a categoria
+ * de IPI não pode ser identificada pelo motor
+ */
+export function calculateVehicleExemptionPrices(vehicle: VehicleTaxInput, rules: TaxRules): {
+  category: IpiCategory | null;
+  prices: ExemptionPrices | null;
+} {
+  const category = getIpiCategory(vehicle.engine, vehicle.fuelType);
+  return {
+    category,
+    prices: category ? calculateExemptionPrices(toAmount(vehicle.publicPrice), category, rules) : null
+  };
+}
+
+// Conferência dos preços cadastrados com os calculados pelas regras
+export interface TaxRulesDiscrepancyField {
+  field: ExemptionPriceField;
+  stored: number;
+  computed: number;
+}
+
+export interface TaxRulesDiscrepancy {
+  vehicleId: number;
+  brand: string;
+  model: string;
+  version: string;
+  year: number;
+  engine: string;
+  fuelType: string;
+  publicPrice: number;
+  category: IpiCategory | null;
+  // Veículo com preços de isenção informados manualmente
+  override: boolean;
+  // Vazio quando a categoria não foi identificada (o veículo aparece para revisão do motor)
+  differences: TaxRulesDiscrepancyField[];
+}
+
+export const taxRulesApplySchema = z.object({
+  vehicleIds: z.array(z.number().int().positive()).min(1, "Selecione ao menos um veículo")
+});
+
+export interface TaxRulesApplyResult {
+  updated: number;
+  // Veículos com valores manuais ou sem categoria identificada
+  skipped: number;
+}
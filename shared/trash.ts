@@ -0,0 +1,52 @@
+// Lixeira do catálogo: entidades excluídas ficam com deleted_at preenchido até serem
+// restauradas ou removidas definitivamente após o período de retenção.
+
+export const TRASH_ENTITIES = ['brands', 'models', 'versions', 'colors', 'vehicles'] as const;
+export type TrashEntity = typeof TRASH_ENTITIES[number];
+
+export const TRASH_ENTITY_LABELS: Record<TrashEntity, string> = {
+  brands: 'Marca',
+  models: 'Modelo',
+  versions: 'Versão',
+  colors: 'Cor',
+  vehicles: 'Veículo'
+};
+
+// Dependentes que acompanham a exclusão (e a restauração) de uma entidade
+export const TRASH_DEPENDENT_LABELS: Record<string, string> = {
+  models: 'modelo(s)',
+  versions: 'versão(ões)',
+  vehicles: 'veículo(s)',
+  versionColors: 'cor(es) de versão',
+  versionOptionals: 'opcional(is) de versão'
+};
+
+// Chave da configuração com o período de retenção, em dias
+export const TRASH_RETENTION_SETTING_KEY = 'trash_retention_days';
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export interface TrashItem {
+  entity: TrashEntity;
+  id: number;
+  name: string;
+  description: string | null;
+  deletedAt: string;
+  // Data a partir da qual a limpeza agendada remove o registro definitivamente
+  purgeAt: string;
+  // Quantidade de dependentes excluídos junto, por tabela
+  dependents: Record<string, number>;
+  restorable: boolean;
+  // Motivo quando não pode ser restaurado (ex.: a marca ainda está na lixeira)
+  blockedBy?: string;
+}
+
+export interface TrashListing {
+  retentionDays: number;
+  items: TrashItem[];
+}
+
+export interface TrashRestoreResult {
+  entity: TrashEntity;
+  id: number;
+  restored: Record<string, number>;
+}
@@ -0,0 +1,39 @@
+import { z } from "zod";
+
+// Autenticação em dois fatores (TOTP) e a política que a torna obrigatória por papel
+
+// Chave da configuração com os ids dos papéis que precisam de 2FA (JSON, ex.: "[1]")
+export const TWO_FACTOR_REQUIRED_ROLES_SETTING_KEY = 'two_factor_required_role_ids';
+
+export const RECOVERY_CODE_COUNT = 10;
+
+// Código do aplicativo (6 dígitos) ou código de recuperação (xxxx-xxxx)
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, "Informe o código").max(20)
+});
+
+export const twoFactorPolicySchema = z.object({
+  requiredRoleIds: z.array(z.number().int().positive())
+});
+export type TwoFactorPolicy = z.infer<typeof twoFactorPolicySchema>;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  // O papel do usuário exige 2FA: não pode ser desativado
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+// Início do cadastro: o segredo é mostrado também em texto para digitação manual
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+// Resposta do login quando falta a segunda etapa
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  // O papel exige 2FA e o usuário ainda não cadastrou o aplicativo
+  enrollmentRequired: boolean;
+}